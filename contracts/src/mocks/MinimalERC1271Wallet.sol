@@ -0,0 +1,47 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title MinimalERC1271Wallet
+ * @notice Smallest possible smart-contract wallet: one EOA owner whose ECDSA signatures it accepts via ERC-1271
+ * @dev Used by the server sign-in tests (server/test/smartWalletAuth.test.ts) to exercise ERC-1271 and ERC-6492 verification
+ */
+contract MinimalERC1271Wallet {
+    bytes4 internal constant MAGIC_VALUE = 0x1626ba7e;
+
+    address public immutable owner;
+
+    constructor(address _owner) {
+        owner = _owner;
+    }
+
+    function isValidSignature(bytes32 hash, bytes calldata signature) external view returns (bytes4) {
+        if (signature.length != 65) {
+            return 0xffffffff;
+        }
+
+        bytes32 r = bytes32(signature[0:32]);
+        bytes32 s = bytes32(signature[32:64]);
+        uint8 v = uint8(signature[64]);
+
+        return ecrecover(hash, v, r, s) == owner ? MAGIC_VALUE : bytes4(0xffffffff);
+    }
+}
+
+/**
+ * @title MinimalERC1271WalletFactory
+ * @notice CREATE2 factory so a wallet has a known address before it is deployed (ERC-6492 counterfactual signing)
+ */
+contract MinimalERC1271WalletFactory {
+    event WalletDeployed(address indexed wallet, address indexed owner);
+
+    function deploy(address owner, bytes32 salt) external returns (address wallet) {
+        wallet = address(new MinimalERC1271Wallet{salt: salt}(owner));
+        emit WalletDeployed(wallet, owner);
+    }
+
+    function getAddress(address owner, bytes32 salt) external view returns (address) {
+        bytes32 initCodeHash = keccak256(abi.encodePacked(type(MinimalERC1271Wallet).creationCode, abi.encode(owner)));
+        return address(uint160(uint256(keccak256(abi.encodePacked(bytes1(0xff), address(this), salt, initCodeHash)))));
+    }
+}
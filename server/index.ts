@@ -2,11 +2,25 @@ import Fastify from 'fastify'
 import { setupCors } from './middleware/cors.js'
 import { questRoutes } from './routes/quests.js'
 import { userRoutes } from './routes/users.js'
+import { walletRoutes } from './routes/wallets.js'
+import { xAccountRoutes } from './routes/xAccount.js'
+import { draftRoutes } from './routes/drafts.js'
+import { templateRoutes } from './routes/templates.js'
 import { participationRoutes } from './routes/participations.js'
+import { leaderboardRoutes } from './routes/leaderboards.js'
+import { pointsRoutes } from './routes/points.js'
+import { badgesRoutes } from './routes/badges.js'
+import { referralRoutes } from './routes/referrals.js'
 import authRoutes from './routes/auth.js'
 import { zktlsRoutes } from './routes/zktls.js'
 import { dashboardRoutes } from './routes/dashboard.js'
 import { profileRoutes } from './routes/profile.js'
+import { streamRoutes } from './routes/stream.js'
+import { sponsorRoutes } from './routes/sponsors.js'
+import { vestingRoutes } from './routes/vesting.js'
+import { adminRoutes } from './routes/admin.js'
+import { metricsRoutes } from './routes/metrics.js'
+import { httpRequestDuration } from './lib/metrics.js'
 import { database } from './lib/database.js'
 import { eventIndexer } from './lib/eventIndexer.js'
 
@@ -19,6 +33,15 @@ const fastify = Fastify({
 // Register CORS middleware
 await setupCors(fastify)
 
+// Record request latency per route for /metrics (registered on the root so every plugin inherits it)
+fastify.addHook('onResponse', async (request, reply) => {
+  httpRequestDuration.observe(reply.elapsedTime / 1000, {
+    method: request.method,
+    route: request.routeOptions.url || 'unmatched',
+    status_code: reply.statusCode
+  })
+})
+
 // Register all plugins and routes in the correct order
 await fastify.register(async function (fastify) {
   // Register JWT plugin
@@ -39,9 +62,22 @@ await fastify.register(async function (fastify) {
   await fastify.register(authRoutes)
   await fastify.register(questRoutes)
   await fastify.register(userRoutes)
+  await fastify.register(walletRoutes)
+  await fastify.register(xAccountRoutes)
+  await fastify.register(draftRoutes)
+  await fastify.register(templateRoutes)
   await fastify.register(participationRoutes)
+  await fastify.register(leaderboardRoutes)
+  await fastify.register(pointsRoutes)
+  await fastify.register(badgesRoutes)
+  await fastify.register(referralRoutes)
   await fastify.register(dashboardRoutes)
   await fastify.register(profileRoutes)
+  await fastify.register(streamRoutes)
+  await fastify.register(sponsorRoutes)
+  await fastify.register(vestingRoutes)
+  await fastify.register(adminRoutes)
+  await fastify.register(metricsRoutes)
   
   // Register ZKTLS routes
   await fastify.register(zktlsRoutes, { prefix: '/api/zktls' })
@@ -76,6 +112,30 @@ fastify.get('/indexer/status', async (request, reply) => {
   }
 })
 
+// Contract-state reconciliation report (latest run of the periodic job)
+fastify.get('/indexer/reconcile', async (request, reply) => {
+  const contractAddress = process.env.QUEST_CONTRACT_ADDRESS
+  if (!contractAddress || contractAddress.trim() === '') {
+    return { 
+      enabled: false, 
+      message: 'Event indexer not configured - no contract address'
+    }
+  }
+
+  const report = eventIndexer.getLastReconcileReport()
+  if (!report) {
+    return {
+      enabled: true,
+      message: 'Reconciliation has not completed yet'
+    }
+  }
+
+  return {
+    enabled: true,
+    ...report
+  }
+})
+
 // Global error handler
 fastify.setErrorHandler(async (error, request, reply) => {
   fastify.log.error(error)
@@ -113,9 +173,14 @@ const initializeServices = async () => {
       fastify.log.info('Updating quest statuses...')
       await eventIndexer.updateQuestStatuses()
       
+      // Repair quests whose indexed state drifted from the contract
+      fastify.log.info('Reconciling indexed quests with contract state...')
+      await eventIndexer.reconcile()
+
       // Start continuous polling for new events
       fastify.log.info('Starting continuous event polling...')
       eventIndexer.startPolling()
+      eventIndexer.startReconciling()
     } else {
       fastify.log.info('Skipping event indexer - no contract address configured')
     }
@@ -149,24 +214,68 @@ const start = async () => {
     fastify.log.info('Available routes:')
     fastify.log.info('GET /health - Health check')
     fastify.log.info('GET /indexer/status - Event indexer status')
+    fastify.log.info('GET /indexer/reconcile - Latest contract-state reconciliation report')
+    fastify.log.info('GET /metrics - Prometheus metrics')
     fastify.log.info('Quest routes:')
     fastify.log.info('  GET /api/quests - List quests')
     fastify.log.info('  POST /api/quests - Create quest')
     fastify.log.info('  GET /api/quests/:id - Get quest by ID')
+    fastify.log.info('  GET /api/quests/:id/clone - Pre-filled create form with shifted timing')
     fastify.log.info('User routes:')
     fastify.log.info('  GET /api/users - List users')
     fastify.log.info('  POST /api/users - Create/update user')
     fastify.log.info('  GET /api/users/:address - Get user by address')
     fastify.log.info('  PUT /api/users/:address - Update user')
     fastify.log.info('  DELETE /api/users/:address - Delete user')
+    fastify.log.info('  POST /api/users/:address/wallets/challenge - Create a wallet link challenge')
+    fastify.log.info('  POST /api/users/:address/wallets - Link a wallet with a signed challenge')
+    fastify.log.info('  DELETE /api/users/:address/wallets/:wallet - Unlink a wallet')
+    fastify.log.info('  POST /api/users/:address/x-account - Bind a zkTLS-verified X account')
+    fastify.log.info('  DELETE /api/users/:address/x-account - Unbind the X account')
+    fastify.log.info('  GET /api/users/:address/drafts - List saved quest drafts')
+    fastify.log.info('  GET /api/users/:address/drafts/:id - Get a quest draft')
+    fastify.log.info('  POST /api/users/:address/drafts - Save a new quest draft')
+    fastify.log.info('  PUT /api/users/:address/drafts/:id - Update a quest draft')
+    fastify.log.info('  DELETE /api/users/:address/drafts/:id - Delete a quest draft')
+    fastify.log.info('  GET /api/quest-templates - List platform quest templates')
+    fastify.log.info('  GET /api/users/:address/templates - List saved quest templates')
+    fastify.log.info('  POST /api/users/:address/templates - Save a quest template')
+    fastify.log.info('  DELETE /api/users/:address/templates/:id - Delete a quest template')
     fastify.log.info('Participation routes:')
     fastify.log.info('  POST /api/participations - Join quest')
     fastify.log.info('  GET /api/participations/user/:address - Get user participations')
     fastify.log.info('  GET /api/participations/quest/:questId - Get quest participants')
+    fastify.log.info('  GET /api/participations/quest/:questId/export - Download quest participants (sponsor only)')
     fastify.log.info('  PUT /api/participations/:id - Update participation')
+    fastify.log.info('Leaderboard routes:')
+    fastify.log.info('  GET /api/leaderboards - Windowed or seasonal leaderboard (?metric=&window=&season=)')
+    fastify.log.info('  GET /api/leaderboards/seasons - Configured seasons')
+    fastify.log.info('Points routes:')
+    fastify.log.info('  GET /api/points/rules - Point values and level thresholds')
+    fastify.log.info('  GET /api/users/:address/points - Points, level and ledger of a profile')
+    fastify.log.info('Badge routes:')
+    fastify.log.info('  GET /api/badges - Badge definitions')
+    fastify.log.info('  GET /api/users/:address/badges - Badges earned by a profile')
+    fastify.log.info('Referral routes:')
+    fastify.log.info('  POST /api/referrals - Record a quest referral link followed by the signed-in wallet')
+    fastify.log.info('  GET /api/users/:address/referrals - Referral stats of a profile')
+    fastify.log.info('  GET /api/referrals/quest/:questId - Top referrers of a quest (sponsor only)')
+    fastify.log.info('Sponsor routes:')
+    fastify.log.info('  GET /api/sponsors/:address/analytics - Sponsor quest analytics')
+    fastify.log.info('Vesting routes:')
+    fastify.log.info('  GET /api/users/:address/vesting - Vesting positions and unlock schedule')
+    fastify.log.info('Admin routes (ADMIN_ADDRESSES only):')
+    fastify.log.info('  POST /api/admin/indexer/pause - Pause indexer polling')
+    fastify.log.info('  POST /api/admin/indexer/resume - Resume indexer polling')
+    fastify.log.info('  POST /api/admin/indexer/reindex - Reindex from a block')
+    fastify.log.info('  POST /api/admin/indexer/replay - Replay a single transaction')
+    fastify.log.info('  GET /api/admin/indexer/errors - Recent processing errors')
+    fastify.log.info('  PUT /api/admin/indexer/batch-size - Set indexer batch size')
+    fastify.log.info('Stream routes:')
+    fastify.log.info('  GET /api/stream - Real-time quest events (SSE, ?questId=&address= filters)')
     fastify.log.info('ZKTLS routes:')
     fastify.log.info('  POST /api/zktls/sign - Sign attestation request')
-    fastify.log.info('  POST /api/zktls/validate - Validate attestation')
+    fastify.log.info('  POST /api/zktls/validate - Validate attestation (per-check report with questId)')
     fastify.log.info('  GET /api/zktls/health - ZKTLS health check')
     
   } catch (error) {
@@ -0,0 +1,285 @@
+import type { QuestData } from '../types/database.js';
+
+/**
+ * TypeScript replica of QuestSystem._verifyQuestContent and friends, used to explain why an
+ * attestation would be rejected on chain before the user sends the claim transaction.
+ */
+
+export interface VerificationParams {
+  apiUrlPattern: string;
+  apiEndpointHash: string;
+  proofValidityPeriod: number;   // seconds
+  targetLikeRetweetId: string;
+  favoritedJsonPath: string;
+  retweetedJsonPath: string;
+  requireFavorite: boolean;
+  requireRetweet: boolean;
+  targetQuotedTweetId: string;
+  quotedStatusIdJsonPath: string;
+  userIdJsonPath: string;
+  quoteTweetIdJsonPath: string;
+}
+
+export interface AttestationInput {
+  recipient?: string;
+  request?: { url?: string };
+  reponseResolve?: { keyName?: string; parseType?: string; parsePath?: string }[];
+  data?: string;
+  timestamp?: number | string;
+  additionParams?: string;
+}
+
+export type AttestationCheckId =
+  | 'signature'
+  | 'timestampNotInFuture'
+  | 'proofValidityPeriod'
+  | 'recipient'
+  | 'apiUrlPattern'
+  | 'apiEndpointHash'
+  | 'jsonPaths'
+  | 'targetTweetInUrl'
+  | 'favorited'
+  | 'retweeted'
+  | 'quoteFieldsPresent'
+  | 'quoteTweetInUrl'
+  | 'quotedTweetMatches';
+
+export interface AttestationCheck {
+  id: AttestationCheckId;
+  passed: boolean;
+  enforcedOnChain: boolean;      // false = advisory only, the contract does not reject on it
+  expected?: string;
+  actual?: string;
+  message: string;
+}
+
+export interface AttestationReport {
+  questId: string;
+  questType: string;
+  wouldPassOnChain: boolean;     // Every enforced check passed
+  checks: AttestationCheck[];
+}
+
+// Same substring scan as JsonParser.sol: first `"key"` occurrence, then a quoted string value
+export function getJsonString(json: string, key: string): string {
+  const match = json.match(new RegExp(`"${escapeRegExp(key)}"\\s*:\\s*"((?:[^"\\\\]|\\\\.)*)"`));
+  return match ? match[1] : '';
+}
+
+// Same as JsonParser.getBool: accepts true or "true", anything else is false
+export function getJsonBool(json: string, key: string): boolean {
+  const match = json.match(new RegExp(`"${escapeRegExp(key)}"\\s*:\\s*("true"|true)`));
+  return !!match;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export class AttestationVerifier {
+  /**
+   * Read verificationParams from the indexed quest metadata (stored as an object or JSON string)
+   */
+  static getVerificationParams(quest: QuestData): VerificationParams | null {
+    let metadata = quest.metadata;
+    if (typeof metadata === 'string') {
+      try {
+        metadata = JSON.parse(metadata);
+      } catch {
+        return null;
+      }
+    }
+    if (!metadata || typeof metadata !== 'object' || metadata.proofValidityPeriod === undefined) {
+      return null;
+    }
+    return {
+      ...metadata,
+      proofValidityPeriod: Number(metadata.proofValidityPeriod)
+    } as VerificationParams;
+  }
+
+  static isQuoteTweetQuest(quest: QuestData): boolean {
+    return quest.questType === 'quote-tweet' || quest.questType === 'quoteTweet';
+  }
+
+  /**
+   * Run every check the contract performs in _verifyQuestContent, plus advisory checks for
+   * verificationParams fields the contract stores but does not enforce
+   */
+  static verify(
+    quest: QuestData,
+    params: VerificationParams,
+    attestation: AttestationInput,
+    options: { now?: number; userAddress?: string; signatureValid?: boolean } = {}
+  ): AttestationReport {
+    const now = options.now ?? Date.now();
+    const checks: AttestationCheck[] = [];
+    const url = attestation.request?.url || '';
+    const data = attestation.data || '';
+
+    if (options.signatureValid !== undefined) {
+      checks.push({
+        id: 'signature',
+        passed: options.signatureValid,
+        enforcedOnChain: true,
+        message: options.signatureValid
+          ? 'Attestation signature is valid'
+          : 'Attestation signature was rejected by the Primus verifier'
+      });
+    }
+
+    // The contract converts the millisecond timestamp to seconds before comparing
+    const attestedAt = Math.floor(Number(attestation.timestamp || 0) / 1000);
+    const nowSeconds = Math.floor(now / 1000);
+    checks.push({
+      id: 'timestampNotInFuture',
+      passed: attestedAt <= nowSeconds,
+      enforcedOnChain: true,
+      expected: `<= ${nowSeconds}`,
+      actual: String(attestedAt),
+      message: 'Attestation timestamp must not be in the future'
+    });
+    checks.push({
+      id: 'proofValidityPeriod',
+      passed: nowSeconds - attestedAt <= params.proofValidityPeriod,
+      enforcedOnChain: true,
+      expected: `<= ${params.proofValidityPeriod}s old`,
+      actual: `${nowSeconds - attestedAt}s old`,
+      message: 'Attestation must be newer than the quest proof validity period'
+    });
+
+    // Recipient check is commented out in the contract, so it only warns
+    if (options.userAddress) {
+      checks.push({
+        id: 'recipient',
+        passed: (attestation.recipient || '').toLowerCase() === options.userAddress.toLowerCase(),
+        enforcedOnChain: false,
+        expected: options.userAddress,
+        actual: attestation.recipient,
+        message: 'Attestation recipient should be the claiming wallet'
+      });
+    }
+
+    checks.push({
+      id: 'apiUrlPattern',
+      passed: !params.apiUrlPattern || url.startsWith(params.apiUrlPattern),
+      enforcedOnChain: false,
+      expected: params.apiUrlPattern,
+      actual: url,
+      message: 'Request URL should match the quest API URL pattern'
+    });
+    checks.push({
+      id: 'apiEndpointHash',
+      passed: !params.apiEndpointHash || url.includes(params.apiEndpointHash),
+      enforcedOnChain: false,
+      expected: params.apiEndpointHash,
+      message: 'Request URL should target the quest API endpoint'
+    });
+
+    const expectedPaths: Record<string, string> = AttestationVerifier.isQuoteTweetQuest(quest)
+      ? {
+          quoted_status_id_str: params.quotedStatusIdJsonPath,
+          user_id_str: params.userIdJsonPath,
+          id_str: params.quoteTweetIdJsonPath
+        }
+      : {
+          ...(params.requireFavorite ? { favorited: params.favoritedJsonPath } : {}),
+          ...(params.requireRetweet ? { retweeted: params.retweetedJsonPath } : {})
+        };
+    const mismatchedPaths = Object.entries(expectedPaths)
+      .filter(([keyName, path]) => path && !(attestation.reponseResolve || []).some(
+        resolve => resolve.keyName === keyName && resolve.parsePath === path
+      ))
+      .map(([keyName]) => keyName);
+    checks.push({
+      id: 'jsonPaths',
+      passed: mismatchedPaths.length === 0,
+      enforcedOnChain: false,
+      expected: Object.keys(expectedPaths).join(', '),
+      actual: mismatchedPaths.length > 0 ? `mismatched: ${mismatchedPaths.join(', ')}` : undefined,
+      message: 'Response JSON paths should match the quest verification params'
+    });
+
+    if (AttestationVerifier.isQuoteTweetQuest(quest)) {
+      checks.push(...AttestationVerifier.verifyQuoteTweet(params, url, data));
+    } else {
+      checks.push(...AttestationVerifier.verifyLikeAndRetweet(params, url, data));
+    }
+
+    return {
+      questId: quest.id,
+      questType: quest.questType,
+      wouldPassOnChain: checks.every(check => check.passed || !check.enforcedOnChain),
+      checks
+    };
+  }
+
+  // Mirrors QuestSystem._verifyLikeAndRetweet
+  static verifyLikeAndRetweet(params: VerificationParams, url: string, data: string): AttestationCheck[] {
+    const checks: AttestationCheck[] = [{
+      id: 'targetTweetInUrl',
+      passed: url.includes(params.targetLikeRetweetId),
+      enforcedOnChain: true,
+      expected: params.targetLikeRetweetId,
+      actual: url,
+      message: 'Request URL must contain the target tweet ID'
+    }];
+
+    if (params.requireFavorite) {
+      checks.push({
+        id: 'favorited',
+        passed: getJsonBool(data, 'favorited'),
+        enforcedOnChain: true,
+        expected: 'true',
+        actual: String(getJsonBool(data, 'favorited')),
+        message: 'The target tweet must be liked'
+      });
+    }
+
+    if (params.requireRetweet) {
+      checks.push({
+        id: 'retweeted',
+        passed: getJsonBool(data, 'retweeted'),
+        enforcedOnChain: true,
+        expected: 'true',
+        actual: String(getJsonBool(data, 'retweeted')),
+        message: 'The target tweet must be retweeted'
+      });
+    }
+
+    return checks;
+  }
+
+  // Mirrors QuestSystem._verifyQuoteTweet (the already-used check needs chain state and is not replicated)
+  static verifyQuoteTweet(params: VerificationParams, url: string, data: string): AttestationCheck[] {
+    const quoteTweetId = getJsonString(data, 'id_str');
+    const twitterUserId = getJsonString(data, 'user_id_str');
+    const quotedStatusId = getJsonString(data, 'quoted_status_id_str');
+
+    return [
+      {
+        id: 'quoteFieldsPresent',
+        passed: quoteTweetId.length > 0 && twitterUserId.length > 0,
+        enforcedOnChain: true,
+        actual: `id_str=${quoteTweetId || '(missing)'}, user_id_str=${twitterUserId || '(missing)'}`,
+        message: 'Attestation data must include the quote tweet ID and the X user ID'
+      },
+      {
+        id: 'quoteTweetInUrl',
+        passed: quoteTweetId.length > 0 && url.includes(quoteTweetId),
+        enforcedOnChain: true,
+        expected: quoteTweetId,
+        actual: url,
+        message: 'Request URL must contain the quote tweet ID'
+      },
+      {
+        id: 'quotedTweetMatches',
+        passed: quotedStatusId === params.targetQuotedTweetId,
+        enforcedOnChain: true,
+        expected: params.targetQuotedTweetId,
+        actual: quotedStatusId,
+        message: 'The quote tweet must quote the quest target tweet'
+      }
+    ];
+  }
+}
@@ -4,8 +4,9 @@
  * EVM signature verification and JWT token management
  */
 
-import { SiweMessage } from 'siwe'
+import { SiweMessage, SiweError, SiweErrorType } from 'siwe'
 import { ethers } from 'ethers'
+import { isValidSmartWalletSignature, getSignatureProvider } from './smartWallet.js'
 import type { 
   AuthRequest, 
   AuthResponse, 
@@ -17,17 +18,38 @@ import type {
 
 /**
  * Verify EVM signature using Sign-In with Ethereum (SIWE)
+ *
+ * EOA signatures are recovered locally; anything else is checked on-chain as an
+ * ERC-1271 (deployed) or ERC-6492 (counterfactual) smart-contract wallet signature.
  */
 export async function verifyEVMSignature(
   message: string, 
-  signature: string
+  signature: string,
+  options: { provider?: ethers.Provider } = {}
 ): Promise<{ isValid: boolean; address?: string; parsedMessage?: SiweMessage }> {
   try {
     // Parse the SIWE message
     const siweMessage = new SiweMessage(message)
     
-    // Verify the signature
-    const result = await siweMessage.verify({ signature })
+    // Verify the signature, falling back to smart wallet validation when no EOA signed it
+    const result = await siweMessage.verify({ signature }, {
+      verificationFallback: async (_params, _opts, parsed) => {
+        const isValid = await isValidSmartWalletSignature(
+          options.provider || getSignatureProvider(),
+          parsed.address,
+          ethers.hashMessage(parsed.prepareMessage()),
+          signature
+        )
+
+        return isValid
+          ? { success: true, data: parsed }
+          : {
+              success: false,
+              data: parsed,
+              error: new SiweError(SiweErrorType.INVALID_SIGNATURE, parsed.address, 'Smart wallet rejected the signature')
+            }
+      }
+    })
     
     if (result.success) {
       return {
@@ -80,11 +102,13 @@ export function createSiweMessage(
   options: {
     chainId?: number
     expirationTime?: Date
+    statement?: string
   } = {}
 ): string {
   const {
     chainId = 1,
-    expirationTime
+    expirationTime,
+    statement = 'Please sign this message to authenticate with ProofQuest.'
   } = options
 
   // Ensure address is in proper EIP-55 checksum format
@@ -93,7 +117,7 @@ export function createSiweMessage(
   const siweMessage = new SiweMessage({
     domain,
     address: checksumAddress,
-    statement: 'Please sign this message to authenticate with ProofQuest.',
+    statement,
     uri: `https://${domain}`,
     version: '1',
     chainId,
@@ -105,6 +129,13 @@ export function createSiweMessage(
   return siweMessage.prepareMessage()
 }
 
+/**
+ * Generate a JWT id for a new session
+ */
+export function generateSessionId(): string {
+  return crypto.randomUUID()
+}
+
 /**
  * Validate JWT payload structure
  */
@@ -112,6 +143,7 @@ export function isValidJWTPayload(payload: any): payload is JWTPayload {
   return (
     payload &&
     typeof payload.address === 'string' &&
+    typeof payload.jti === 'string' &&
     typeof payload.iat === 'number' &&
     typeof payload.exp === 'number' &&
     typeof payload.iss === 'string' &&
@@ -141,4 +173,16 @@ export function getTokenExpiration(): number {
  */
 export function extractAddressFromToken(payload: JWTPayload): string {
   return normalizeAddress(payload.address)
-}
\ No newline at end of file
+}
+
+/**
+ * Check if an address has the admin role (comma separated ADMIN_ADDRESSES)
+ */
+export function isAdminAddress(address: string): boolean {
+  const adminAddresses = (process.env.ADMIN_ADDRESSES || '')
+    .split(',')
+    .map(admin => admin.trim().toLowerCase())
+    .filter(admin => admin.length > 0)
+
+  return adminAddresses.includes(address.toLowerCase())
+}
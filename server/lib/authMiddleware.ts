@@ -5,8 +5,19 @@
  */
 
 import type { FastifyRequest, FastifyReply } from 'fastify'
-import { isValidJWTPayload, isTokenExpired, extractAddressFromToken } from './auth.js'
-import type { AuthUser } from '../types/auth.js'
+import { isValidJWTPayload, isTokenExpired, extractAddressFromToken, isAdminAddress } from './auth.js'
+import { database } from './database.js'
+import type { AuthUser, JWTPayload } from '../types/auth.js'
+
+/**
+ * Check that the token's session exists, belongs to the token's address and was not revoked
+ */
+async function isSessionActive(payload: JWTPayload): Promise<boolean> {
+  const session = await database.getSession(payload.jti)
+  return !!session &&
+    !session.revokedAt &&
+    session.address.toLowerCase() === payload.address.toLowerCase()
+}
 
 /**
  * Authentication middleware function
@@ -46,13 +57,23 @@ export async function authenticate(request: FastifyRequest, reply: FastifyReply)
       })
     }
 
+    // Reject tokens whose session was signed out
+    if (!(await isSessionActive(decoded))) {
+      return reply.code(401).send({
+        error: 'Session Revoked',
+        message: 'Session has been signed out'
+      })
+    }
+
     // Extract user information
     const address = extractAddressFromToken(decoded)
     
     // Attach user to request
     request.user = {
       address,
-      isAuthenticated: true
+      isAuthenticated: true,
+      isAdmin: isAdminAddress(address),
+      sessionId: decoded.jti
     }
 
   } catch (error: any) {
@@ -103,11 +124,13 @@ export async function optionalAuth(request: FastifyRequest, reply: FastifyReply)
     const fastify = request.server
     const decoded = await fastify.jwt.verify(token) as any
     
-    if (isValidJWTPayload(decoded) && !isTokenExpired(decoded)) {
+    if (isValidJWTPayload(decoded) && !isTokenExpired(decoded) && await isSessionActive(decoded)) {
       const address = extractAddressFromToken(decoded)
       request.user = {
         address,
-        isAuthenticated: true
+        isAuthenticated: true,
+        isAdmin: isAdminAddress(address),
+        sessionId: decoded.jti
       }
     } else {
       request.user = { address: '', isAuthenticated: false }
@@ -119,6 +142,50 @@ export async function optionalAuth(request: FastifyRequest, reply: FastifyReply)
   }
 }
 
+/**
+ * Admin role middleware, run after authenticate
+ */
+export async function requireAdmin(request: FastifyRequest, reply: FastifyReply) {
+  if (!isAuthenticated(request)) {
+    return reply.code(401).send({
+      error: 'Authentication Required',
+      message: 'Authentication is required'
+    })
+  }
+
+  if (!isAdmin(request)) {
+    return reply.code(403).send({
+      error: 'Forbidden',
+      message: 'Admin role is required'
+    })
+  }
+}
+
+/**
+ * Profile owner middleware, run after authenticate: only the signed-in wallet may change its own :address.
+ * Replies with the ErrorReply shape of the routes it guards.
+ */
+export async function requireProfileOwner(request: FastifyRequest, reply: FastifyReply) {
+  const { address } = (request.params || {}) as { address?: string }
+
+  if (!address || !/^0x[a-fA-F0-9]{40}$/.test(address)) {
+    return reply.code(400).send({
+      error: 'Invalid Address',
+      message: 'Address must be a valid EVM address',
+      statusCode: 400
+    })
+  }
+
+  const authenticated = getAuthenticatedAddress(request)
+  if (!authenticated || authenticated.toLowerCase() !== address.toLowerCase()) {
+    return reply.code(403).send({
+      error: 'Forbidden',
+      message: 'You can only change your own profile',
+      statusCode: 403
+    })
+  }
+}
+
 /**
  * Utility to check if request is authenticated
  */
@@ -131,4 +198,18 @@ export function isAuthenticated(request: FastifyRequest): boolean {
  */
 export function getAuthenticatedAddress(request: FastifyRequest): string | null {
   return isAuthenticated(request) ? request.user!.address : null
+}
+
+/**
+ * Utility to get the session ID of the authenticated request
+ */
+export function getSessionId(request: FastifyRequest): string | null {
+  return isAuthenticated(request) ? (request.user as AuthUser).sessionId || null : null
+}
+
+/**
+ * Utility to check if the authenticated user has the admin role
+ */
+export function isAdmin(request: FastifyRequest): boolean {
+  return isAuthenticated(request) && (request.user as AuthUser).isAdmin === true
 }
\ No newline at end of file
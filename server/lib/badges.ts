@@ -0,0 +1,300 @@
+import { AttestationVerifier } from './attestationVerifier.js';
+import { database as defaultDatabase, DatabaseService } from './database.js';
+import { claimTime } from './participations.js';
+import type { QuestData, ParticipationData, UserBadgeData } from '../types/database.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const WEEK_MS = 7 * DAY_MS;
+
+export type BadgeCondition =
+  | { type: 'completions'; count: number; questType?: 'quote-tweet' } // Claimed rewards of N quests
+  | { type: 'sponsored'; count: number }                              // Sponsored N quests that were not canceled
+  | { type: 'earlyClaim'; withinMs: number }                          // Claimed within this long after a quest started
+  | { type: 'weeklyStreak'; weeks: number };                          // Completed quests in N consecutive UTC weeks
+
+export interface BadgeDefinition {
+  id: string;
+  name: string;
+  description: string;
+  condition: BadgeCondition;
+}
+
+export const BADGE_DEFINITIONS: BadgeDefinition[] = [
+  {
+    id: 'first-quest',
+    name: 'First Steps',
+    description: 'Complete your first quest',
+    condition: { type: 'completions', count: 1 }
+  },
+  {
+    id: 'quote-tweeter',
+    name: 'Quote Tweeter',
+    description: 'Complete 10 quote tweet quests',
+    condition: { type: 'completions', count: 10, questType: 'quote-tweet' }
+  },
+  {
+    id: 'first-sponsor',
+    name: 'Sponsor',
+    description: 'Sponsor your first quest',
+    condition: { type: 'sponsored', count: 1 }
+  },
+  {
+    id: 'early-bird',
+    name: 'Early Bird',
+    description: 'Claim a reward within the first hour of a quest',
+    condition: { type: 'earlyClaim', withinMs: HOUR_MS }
+  },
+  {
+    id: 'weekly-streak',
+    name: 'On a Roll',
+    description: 'Complete quests in 4 consecutive weeks',
+    condition: { type: 'weeklyStreak', weeks: 4 }
+  }
+];
+
+export interface EarnedBadge {
+  badgeId: string;
+  earnedAt: number;              // Unix ms of the activity that met the rule
+  questId?: string;
+  blockNumber: number;           // Block of the activity that met the rule
+}
+
+export interface BadgeStatus extends BadgeDefinition {
+  earned: boolean;
+  earnedAt: number | null;
+  questId: string | null;
+}
+
+export interface UserBadges {
+  address: string;               // Primary address of the profile
+  earnedCount: number;
+  badges: BadgeStatus[];         // Every definition, earned or not
+}
+
+/**
+ * Index of the UTC week (Monday to Sunday) a timestamp falls in
+ */
+function weekIndex(timestamp: number): number {
+  // The Unix epoch was a Thursday, so shift by four days to start weeks on Monday
+  return Math.floor((timestamp - 4 * DAY_MS) / WEEK_MS);
+}
+
+export class BadgeEvaluator {
+  /**
+   * Badges a profile has earned from indexed claims and sponsored quests, with the moment each rule was met
+   */
+  static evaluate(
+    profileAddresses: string[],
+    quests: QuestData[],
+    participations: ParticipationData[],
+    definitions: BadgeDefinition[] = BADGE_DEFINITIONS
+  ): EarnedBadge[] {
+    const wallets = new Set(profileAddresses.map(address => address.toLowerCase()));
+    const questsById = new Map(quests.map(quest => [quest.id, quest]));
+    const claims = participations
+      .filter(participation => wallets.has(participation.userAddress.toLowerCase()))
+      .sort((a, b) => claimTime(a) - claimTime(b));
+    const sponsored = quests
+      .filter(quest => wallets.has(quest.sponsor.toLowerCase()) && quest.status !== 'canceled')
+      .sort((a, b) => a.startTime - b.startTime);
+
+    const earned: EarnedBadge[] = [];
+    for (const definition of definitions) {
+      const match = this.match(definition.condition, claims, sponsored, questsById);
+      if (match) {
+        earned.push({ badgeId: definition.id, ...match });
+      }
+    }
+    return earned;
+  }
+
+  private static match(
+    condition: BadgeCondition,
+    claims: ParticipationData[],
+    sponsored: QuestData[],
+    questsById: Map<string, QuestData>
+  ): Omit<EarnedBadge, 'badgeId'> | null {
+    switch (condition.type) {
+      case 'completions': {
+        const matching = condition.questType === 'quote-tweet'
+          ? claims.filter(claim => {
+            const quest = questsById.get(claim.questId);
+            return !!quest && AttestationVerifier.isQuoteTweetQuest(quest);
+          })
+          : claims;
+        const claim = matching[condition.count - 1];
+        return claim ? this.claimMatch(claim) : null;
+      }
+
+      case 'sponsored': {
+        const quest = sponsored[condition.count - 1];
+        return quest ? { earnedAt: quest.startTime, questId: quest.id, blockNumber: quest.blockNumber } : null;
+      }
+
+      case 'earlyClaim': {
+        const claim = claims.find(claim => {
+          const quest = questsById.get(claim.questId);
+          return !!quest && claimTime(claim) - quest.startTime <= condition.withinMs;
+        });
+        return claim ? this.claimMatch(claim) : null;
+      }
+
+      case 'weeklyStreak': {
+        let previousWeek: number | null = null;
+        let streak = 0;
+        for (const claim of claims) {
+          const week = weekIndex(claimTime(claim));
+          if (week === previousWeek) continue;
+
+          streak = previousWeek !== null && week === previousWeek + 1 ? streak + 1 : 1;
+          previousWeek = week;
+          if (streak >= condition.weeks) {
+            return this.claimMatch(claim);
+          }
+        }
+        return null;
+      }
+    }
+  }
+
+  private static claimMatch(claim: ParticipationData): Omit<EarnedBadge, 'badgeId'> {
+    return { earnedAt: claimTime(claim), questId: claim.questId, blockNumber: claim.blockNumber };
+  }
+
+  /**
+   * Every definition with the earned status of a profile
+   */
+  static statuses(earned: UserBadgeData[], definitions: BadgeDefinition[] = BADGE_DEFINITIONS): BadgeStatus[] {
+    const earnedById = new Map(earned.map(badge => [badge.badgeId, badge]));
+    return definitions.map(definition => {
+      const badge = earnedById.get(definition.id);
+      return {
+        ...definition,
+        earned: !!badge,
+        earnedAt: badge?.earnedAt ?? null,
+        questId: badge?.questId ?? null
+      };
+    });
+  }
+}
+
+export interface BadgeServiceOptions {
+  database?: DatabaseService;
+  definitions?: BadgeDefinition[];
+}
+
+export class BadgeService {
+  private database: DatabaseService;
+  private definitions: BadgeDefinition[];
+
+  constructor(options: BadgeServiceOptions = {}) {
+    this.database = options.database || defaultDatabase;
+    this.definitions = options.definitions || BADGE_DEFINITIONS;
+  }
+
+  /**
+   * Badges stored for the profile an address belongs to, one per badge across its wallets
+   */
+  async getBadges(address: string): Promise<UserBadgeData[]> {
+    const byBadge = new Map<string, UserBadgeData>();
+    for (const wallet of await this.database.getProfileAddresses(address)) {
+      for (const badge of await this.database.getBadges(wallet)) {
+        const existing = byBadge.get(badge.badgeId);
+        if (!existing || badge.earnedAt < existing.earnedAt) {
+          byBadge.set(badge.badgeId, badge);
+        }
+      }
+    }
+    return [...byBadge.values()];
+  }
+
+  async getUserBadges(address: string): Promise<UserBadges> {
+    const [primary] = await this.database.getProfileAddresses(address);
+    const earned = await this.getBadges(address);
+    const badges = BadgeEvaluator.statuses(earned, this.definitions);
+    return {
+      address: primary,
+      earnedCount: badges.filter(badge => badge.earned).length,
+      badges
+    };
+  }
+
+  /**
+   * Evaluate the rules once for each profile the addresses belong to and store badges it has not been awarded yet.
+   * Quests and claims are loaded once, so the indexer calls this once per batch rather than per event.
+   */
+  async awardBadges(addresses: string[], now: number = Date.now()): Promise<UserBadgeData[]> {
+    if (addresses.length === 0) return [];
+
+    const [quests, participations, linkedWallets] = await Promise.all([
+      this.database.getQuests(),
+      this.database.getParticipations(),
+      this.database.getLinkedWalletMap()
+    ]);
+    const { awarded } = await this.awardProfiles(addresses, quests, participations, linkedWallets, now);
+    return awarded;
+  }
+
+  /**
+   * Evaluate the rules for every profile with indexed claims or sponsored quests.
+   * Awarding is idempotent, so the backfill can be re-run safely.
+   */
+  async backfill(now: number = Date.now()): Promise<{ profiles: number; awarded: UserBadgeData[] }> {
+    const [quests, participations, linkedWallets] = await Promise.all([
+      this.database.getQuests(),
+      this.database.getParticipations(),
+      this.database.getLinkedWalletMap()
+    ]);
+    const addresses = [...participations.map(p => p.userAddress), ...quests.map(q => q.sponsor)];
+    return this.awardProfiles(addresses, quests, participations, linkedWallets, now);
+  }
+
+  private async awardProfiles(
+    addresses: string[],
+    quests: QuestData[],
+    participations: ParticipationData[],
+    linkedWallets: Map<string, string>,
+    now: number
+  ): Promise<{ profiles: number; awarded: UserBadgeData[] }> {
+    const primaries = new Set<string>();
+    for (const address of addresses) {
+      primaries.add(linkedWallets.get(address.toLowerCase()) || address.toLowerCase());
+    }
+
+    const awarded: UserBadgeData[] = [];
+    for (const primary of primaries) {
+      const profileAddresses = await this.database.getProfileAddresses(primary);
+      awarded.push(...await this.awardProfile(profileAddresses, quests, participations, now));
+    }
+    return { profiles: primaries.size, awarded };
+  }
+
+  private async awardProfile(
+    profileAddresses: string[],
+    quests: QuestData[],
+    participations: ParticipationData[],
+    now: number
+  ): Promise<UserBadgeData[]> {
+    const primary = profileAddresses[0].toLowerCase();
+    const existing = new Set((await this.getBadges(primary)).map(badge => badge.badgeId));
+
+    const awarded: UserBadgeData[] = [];
+    for (const badge of BadgeEvaluator.evaluate(profileAddresses, quests, participations, this.definitions)) {
+      if (existing.has(badge.badgeId)) continue;
+
+      const userBadge: UserBadgeData = {
+        id: `${primary}:${badge.badgeId}`,
+        address: primary,
+        badgeId: badge.badgeId,
+        earnedAt: badge.earnedAt,
+        ...(badge.questId ? { questId: badge.questId } : {}),
+        blockNumber: badge.blockNumber,
+        awardedAt: now
+      };
+      await this.database.saveBadge(userBadge);
+      awarded.push(userBadge);
+    }
+    return awarded;
+  }
+}
@@ -0,0 +1,115 @@
+import type { QuestData, QuestStatus } from '../types/database.js';
+
+// Quest struct as returned by getQuest/getMultipleQuests
+export interface ContractQuestStruct {
+  id: bigint;
+  sponsor: string;
+  title: string;
+  description: string;
+  launch_page: string;
+  questType: bigint | number;
+  status: bigint | number;
+  verificationParams: {
+    apiUrlPattern: string;
+    apiEndpointHash: string;
+    proofValidityPeriod: bigint;
+    targetLikeRetweetId: string;
+    favoritedJsonPath: string;
+    retweetedJsonPath: string;
+    requireFavorite: boolean;
+    requireRetweet: boolean;
+    targetQuotedTweetId: string;
+    quotedStatusIdJsonPath: string;
+    userIdJsonPath: string;
+    quoteTweetIdJsonPath: string;
+  };
+  totalRewards: bigint;
+  rewardPerUser: bigint;
+  maxParticipants: bigint;
+  participantCount: bigint;
+  startTime: bigint;
+  endTime: bigint;
+  claimEndTime: bigint;
+  isVesting: boolean;
+  vestingDuration: bigint;
+}
+
+// QuestData fields that come straight from contract state
+export type ContractQuestFields = Pick<QuestData,
+  | 'sponsor'
+  | 'title'
+  | 'description'
+  | 'launch_page'
+  | 'questType'
+  | 'totalRewards'
+  | 'rewardPerUser'
+  | 'maxParticipants'
+  | 'participantCount'
+  | 'startTime'
+  | 'endTime'
+  | 'claimEndTime'
+  | 'status'
+  | 'isVesting'
+  | 'vestingDuration'
+  | 'metadata'
+>;
+
+// Map quest type enum to string
+export function getQuestTypeString(questType: bigint | number): string {
+  switch (Number(questType)) {
+    case 0: return 'likeAndRetweet';
+    case 1: return 'quote-tweet';
+    default: return 'likeAndRetweet';
+  }
+}
+
+// Map status enum to string
+export function getStatusString(status: bigint | number): QuestStatus {
+  switch (Number(status)) {
+    case 0: return 'pending';
+    case 1: return 'active';
+    case 2: return 'ended';
+    case 3: return 'closed';
+    case 4: return 'canceled';
+    default: return 'pending';
+  }
+}
+
+/**
+ * Convert a contract quest struct into QuestData fields (timestamps in ms, amounts in wei strings)
+ */
+export function mapContractQuest(questData: ContractQuestStruct): ContractQuestFields {
+  const params = questData.verificationParams;
+
+  return {
+    sponsor: questData.sponsor,
+    title: questData.title,
+    description: questData.description,
+    launch_page: questData.launch_page,
+    questType: getQuestTypeString(questData.questType),
+    totalRewards: questData.totalRewards.toString(),
+    rewardPerUser: questData.rewardPerUser.toString(),
+    maxParticipants: Number(questData.maxParticipants),
+    participantCount: Number(questData.participantCount),
+    startTime: Number(questData.startTime) * 1000,
+    endTime: Number(questData.endTime) * 1000,
+    claimEndTime: Number(questData.claimEndTime) * 1000,
+    status: getStatusString(questData.status),
+    isVesting: questData.isVesting,
+    vestingDuration: Number(questData.vestingDuration),
+    metadata: {
+      apiUrlPattern: params.apiUrlPattern,
+      apiEndpointHash: params.apiEndpointHash,
+      proofValidityPeriod: Number(params.proofValidityPeriod),
+      targetLikeRetweetId: params.targetLikeRetweetId,
+      favoritedJsonPath: params.favoritedJsonPath,
+      retweetedJsonPath: params.retweetedJsonPath,
+      requireFavorite: params.requireFavorite,
+      requireRetweet: params.requireRetweet,
+      targetQuotedTweetId: params.targetQuotedTweetId,
+      quotedStatusIdJsonPath: params.quotedStatusIdJsonPath,
+      userIdJsonPath: params.userIdJsonPath,
+      quoteTweetIdJsonPath: params.quoteTweetIdJsonPath,
+    } // Store verification params as metadata
+  };
+}
@@ -1,9 +1,7 @@
 import { join } from 'path';
-import { existsSync, mkdirSync } from 'fs';
-import { Low } from 'lowdb';
-import { JSONFile } from 'lowdb/node';
+import { ethers } from 'ethers';
+import { existsSync, mkdirSync, writeFileSync } from 'fs';
 import {
-  DatabaseSchema,
   defaultDatabase,
   QuestData,
   ParticipationData,
@@ -12,6 +10,25 @@ import {
   QuestStatistics,
   UserStatistics
 } from '../types/database.js';
+import type { BlockCheckpoint, UndoLogEntry, ProcessedEvent, AuthNonce, AuthSession, QuestDraftData, QuestTemplateData, QuestTemplateTiming, UserBadgeData, ReferralData } from '../types/database.js';
+import { createStorage, withTransactionLock } from './storage/index.js';
+import type { StorageAdapter, QuestFilter, ParticipationFilter } from './storage/index.js';
+
+/**
+ * Whether a saved draft holds the form a quest was created from (the wizard sends
+ * totalRewardPool in MON, the contract stores totalRewards in wei)
+ */
+function isDraftOfQuest(draft: QuestDraftData, quest: QuestData): boolean {
+  const { description, totalRewardPool } = draft.formData;
+  if (draft.title.trim() !== quest.title.trim()) return false;
+  if (typeof description !== 'string' || description.trim() !== quest.description.trim()) return false;
+
+  try {
+    return ethers.parseEther(String(totalRewardPool)).toString() === quest.totalRewards;
+  } catch {
+    return false;
+  }
+}
 
 function convertBigIntToString(obj: any): any {
   if (Array.isArray(obj)) {
@@ -29,10 +46,10 @@ function convertBigIntToString(obj: any): any {
 }
 
 export class DatabaseService {
-  private db: Low<DatabaseSchema>;
+  private storage: StorageAdapter;
   private dbPath: string;
 
-  constructor(dbPath: string = './data') {
+  constructor(dbPath: string = process.env.DATABASE_PATH || './data', storage?: StorageAdapter) {
     this.dbPath = dbPath;
     
     // Ensure data directory exists
@@ -40,63 +57,55 @@ export class DatabaseService {
       mkdirSync(this.dbPath, { recursive: true });
     }
 
-    // Initialize database
-    const adapter = new JSONFile<DatabaseSchema>(join(this.dbPath, 'database.json'));
-    this.db = new Low(adapter, defaultDatabase);
+    // Initialize storage backend (DATABASE_DRIVER selects lowdb or sqlite); calls are
+    // serialized so concurrent requests never join another caller's transaction
+    this.storage = withTransactionLock(storage || createStorage(this.dbPath));
   }
 
   async init(): Promise<void> {
-    await this.db.read();
-    
-    // If database is empty, initialize with default data
-    if (!this.db.data) {
-      this.db.data = defaultDatabase;
-      await this.db.write();
-    }
+    await this.storage.init();
+  }
+
+  async close(): Promise<void> {
+    await this.storage.close();
+  }
+
+  get driver(): StorageAdapter['driver'] {
+    return this.storage.driver;
+  }
+
+  /**
+   * Apply every write made by fn atomically (nested calls act as savepoints)
+   */
+  async transaction<T>(fn: () => Promise<T>): Promise<T> {
+    return this.storage.transaction(fn);
   }
 
   // Quest operations
-  async getQuests(): Promise<QuestData[]> {
-    await this.db.read();
-    return this.db.data.quests || [];
+  async getQuests(filter?: QuestFilter): Promise<QuestData[]> {
+    return this.storage.getQuests(filter);
   }
 
   async getQuestById(id: string): Promise<QuestData | null> {
-    await this.db.read();
-    return this.db.data.quests.find(quest => quest.id === id) || null;
+    return this.storage.getQuestById(id);
   }
 
   async addQuest(quest: QuestData): Promise<void> {
-    await this.db.read();
-
     // 递归转换
     const questSafe = convertBigIntToString(quest);
 
-    // Check if quest already exists
-    const existingIndex = this.db.data.quests.findIndex(q => q.id === quest.id);
-    
-    if (existingIndex >= 0) {
-      // Update existing quest
-      this.db.data.quests[existingIndex] = questSafe;
-    } else {
-      // Add new quest
-      this.db.data.quests.push(questSafe);
-    }
-    
-    await this.db.write();
+    // Insert, or replace the existing quest with the same ID
+    await this.storage.saveQuest(questSafe);
   }
 
   async updateQuest(id: string, updates: Partial<QuestData>): Promise<void> {
-    await this.db.read();
-    
-    const questIndex = this.db.data.quests.findIndex(quest => quest.id === id);
-    if (questIndex >= 0) {
-      this.db.data.quests[questIndex] = {
-        ...this.db.data.quests[questIndex],
+    const quest = await this.storage.getQuestById(id);
+    if (quest) {
+      await this.storage.saveQuest({
+        ...quest,
         ...updates,
         updatedAt: Date.now()
-      };
-      await this.db.write();
+      });
     }
   }
 
@@ -112,126 +121,233 @@ export class DatabaseService {
     await this.updateQuest(id, { status: 'canceled' });
   }
 
+  async deleteQuest(id: string): Promise<boolean> {
+    return this.storage.deleteQuest(id);
+  }
+
   // Participation operations
-  async getParticipations(): Promise<ParticipationData[]> {
-    await this.db.read();
-    return this.db.data.participations || [];
+  async getParticipations(filter?: ParticipationFilter): Promise<ParticipationData[]> {
+    return this.storage.getParticipations(filter);
   }
 
   async getParticipationsByQuest(questId: string): Promise<ParticipationData[]> {
-    await this.db.read();
-    return this.db.data.participations.filter(p => p.questId === questId);
+    return this.storage.getParticipations({ questId });
   }
 
   async getParticipationsByUser(userAddress: string): Promise<ParticipationData[]> {
-    await this.db.read();
-    return this.db.data.participations.filter(p => p.userAddress.toLowerCase() === userAddress.toLowerCase());
+    return this.storage.getParticipations({ userAddress });
   }
 
   async addParticipation(participation: ParticipationData): Promise<void> {
-    await this.db.read();
-    
-    // Check if participation already exists
-    const existingIndex = this.db.data.participations.findIndex(
-      p => p.questId === participation.questId && p.userAddress.toLowerCase() === participation.userAddress.toLowerCase()
-    );
-    
-    if (existingIndex >= 0) {
-      // Update existing participation
-      this.db.data.participations[existingIndex] = participation;
-    } else {
-      // Add new participation
-      this.db.data.participations.push(participation);
-    }
-    
-    await this.db.write();
+    // Insert, or replace the user's existing participation in the same quest
+    await this.storage.saveParticipation(participation);
+  }
+
+  async getParticipationById(id: string): Promise<ParticipationData | null> {
+    return this.storage.getParticipationById(id);
+  }
+
+  async deleteParticipation(id: string): Promise<boolean> {
+    return this.storage.deleteParticipation(id);
   }
 
   async hasUserParticipated(questId: string, userAddress: string): Promise<boolean> {
-    await this.db.read();
-    return this.db.data.participations.some(
-      p => p.questId === questId && p.userAddress.toLowerCase() === userAddress.toLowerCase()
-    );
+    const participations = await this.storage.getParticipations({ questId, userAddress });
+    return participations.length > 0;
   }
 
   // User operations
   async getUsers(): Promise<UserData[]> {
-    await this.db.read();
-    return this.db.data.users || [];
+    return this.storage.getUsers();
   }
 
   async getUserByAddress(address: string): Promise<UserData | null> {
-    await this.db.read();
-    return this.db.data.users.find(user => user.address.toLowerCase() === address.toLowerCase()) || null;
+    return this.storage.getUserByAddress(address);
   }
 
   async addUser(user: UserData): Promise<void> {
-    await this.db.read();
-    
-    // Check if user already exists
-    const existingIndex = this.db.data.users.findIndex(u => u.address.toLowerCase() === user.address.toLowerCase());
+    const existing = await this.storage.getUserByAddress(user.address);
     
-    if (existingIndex >= 0) {
+    if (existing) {
       // Update existing user
-      this.db.data.users[existingIndex] = {
-        ...this.db.data.users[existingIndex],
+      await this.storage.saveUser({
+        ...existing,
         ...user,
         updatedAt: Date.now()
-      };
+      });
     } else {
       // Add new user
-      this.db.data.users.push(user);
+      await this.storage.saveUser(user);
     }
-    
-    await this.db.write();
   }
 
   async updateUser(address: string, updates: Partial<UserData>): Promise<UserData | null> {
-    await this.db.read();
-    
-    const userIndex = this.db.data.users.findIndex(user => user.address.toLowerCase() === address.toLowerCase());
-    if (userIndex >= 0) {
-      this.db.data.users[userIndex] = {
-        ...this.db.data.users[userIndex],
+    const existing = await this.storage.getUserByAddress(address);
+    if (existing) {
+      const user = {
+        ...existing,
         ...updates,
         updatedAt: Date.now()
       };
-      await this.db.write();
-      return this.db.data.users[userIndex];
+      await this.storage.saveUser(user);
+      return user;
     }
     return null;
   }
 
   async deleteUser(address: string): Promise<boolean> {
-    await this.db.read();
-    
-    const userIndex = this.db.data.users.findIndex(user => user.address.toLowerCase() === address.toLowerCase());
-    if (userIndex >= 0) {
-      this.db.data.users.splice(userIndex, 1);
-      await this.db.write();
-      return true;
-    }
-    return false;
+    return this.storage.deleteUser(address);
   }
 
   async updateUserLastLogin(address: string): Promise<void> {
     await this.updateUser(address, { lastLoginAt: Date.now() });
   }
 
+  // Linked wallet operations
+  /**
+   * Map every linked wallet to the primary address of its profile (all lowercased)
+   */
+  async getLinkedWalletMap(): Promise<Map<string, string>> {
+    const linkedWallets = new Map<string, string>();
+    for (const user of await this.storage.getUsers()) {
+      for (const wallet of user.linkedAddresses || []) {
+        linkedWallets.set(wallet, user.address.toLowerCase());
+      }
+    }
+    return linkedWallets;
+  }
+
+  /**
+   * Primary address of the profile a wallet belongs to (the wallet itself when it is not linked)
+   */
+  async getPrimaryAddress(address: string): Promise<string> {
+    const linkedWallets = await this.getLinkedWalletMap();
+    return linkedWallets.get(address.toLowerCase()) || address.toLowerCase();
+  }
+
+  /**
+   * All wallets of the profile an address belongs to, primary first
+   */
+  async getProfileAddresses(address: string): Promise<string[]> {
+    const primary = await this.getPrimaryAddress(address);
+    const user = await this.storage.getUserByAddress(primary);
+    return [primary, ...(user?.linkedAddresses || [])];
+  }
+
+  /**
+   * Link a wallet to a primary profile. Profiles are one level deep: a linked
+   * wallet cannot have wallets of its own and belongs to a single profile.
+   */
+  async linkWallet(primaryAddress: string, address: string): Promise<UserData> {
+    return this.storage.transaction(async () => {
+      const primary = primaryAddress.toLowerCase();
+      const wallet = address.toLowerCase();
+
+      if (primary === wallet) {
+        throw new Error('Cannot link a wallet to itself');
+      }
+
+      const linkedWallets = await this.getLinkedWalletMap();
+      if (linkedWallets.has(primary)) {
+        throw new Error(`Wallet ${primaryAddress} is linked to another profile`);
+      }
+      if (linkedWallets.has(wallet)) {
+        throw new Error(`Wallet ${address} is already linked to a profile`);
+      }
+
+      const walletUser = await this.storage.getUserByAddress(wallet);
+      if (walletUser?.linkedAddresses?.length) {
+        throw new Error(`Wallet ${address} already has linked wallets`);
+      }
+
+      const user = await this.storage.getUserByAddress(primary);
+      if (!user) {
+        throw new Error(`User ${primaryAddress} not found`);
+      }
+
+      const updated = {
+        ...user,
+        linkedAddresses: [...(user.linkedAddresses || []), wallet],
+        updatedAt: Date.now()
+      };
+      await this.storage.saveUser(updated);
+      return updated;
+    });
+  }
+
+  async unlinkWallet(primaryAddress: string, address: string): Promise<UserData | null> {
+    return this.storage.transaction(async () => {
+      const user = await this.storage.getUserByAddress(primaryAddress);
+      const wallet = address.toLowerCase();
+      if (!user || !user.linkedAddresses?.includes(wallet)) {
+        return null;
+      }
+
+      const updated = {
+        ...user,
+        linkedAddresses: user.linkedAddresses.filter(linked => linked !== wallet),
+        updatedAt: Date.now()
+      };
+      await this.storage.saveUser(updated);
+      return updated;
+    });
+  }
+
+  // X account operations
+  async getUserByXUserId(xUserId: string): Promise<UserData | null> {
+    const users = await this.storage.getUsers();
+    return users.find(user => user.xUserId === xUserId) || null;
+  }
+
+  /**
+   * Bind a verified X account to a wallet. An X account can only be bound to one
+   * wallet; binding it again to the same wallet refreshes the handle.
+   */
+  async bindXAccount(address: string, xUserId: string, xHandle: string): Promise<UserData> {
+    return this.storage.transaction(async () => {
+      const boundUser = await this.getUserByXUserId(xUserId);
+      if (boundUser && boundUser.address.toLowerCase() !== address.toLowerCase()) {
+        throw new Error(`X account @${xHandle} is already bound to another wallet`);
+      }
+
+      const user = await this.storage.getUserByAddress(address);
+      if (!user) {
+        throw new Error(`User ${address} not found`);
+      }
+
+      const now = Date.now();
+      const updated = { ...user, xUserId, xHandle, xVerifiedAt: now, updatedAt: now };
+      await this.storage.saveUser(updated);
+      return updated;
+    });
+  }
+
+  async unbindXAccount(address: string): Promise<UserData | null> {
+    const user = await this.storage.getUserByAddress(address);
+    if (!user || !user.xUserId) {
+      return null;
+    }
+
+    const updated: UserData = { ...user, updatedAt: Date.now() };
+    delete updated.xUserId;
+    delete updated.xHandle;
+    delete updated.xVerifiedAt;
+    await this.storage.saveUser(updated);
+    return updated;
+  }
+
   // Indexer state operations
   async getIndexerState(): Promise<IndexerState> {
-    await this.db.read();
-    return this.db.data.indexerState;
+    return this.storage.getIndexerState();
   }
 
   async updateIndexerState(state: Partial<IndexerState>): Promise<void> {
-    await this.db.read();
-    this.db.data.indexerState = {
-      ...this.db.data.indexerState,
+    const current = await this.storage.getIndexerState();
+    await this.storage.saveIndexerState({
+      ...current,
       ...state,
       lastUpdated: Date.now()
-    };
-    await this.db.write();
+    });
   }
 
   async getLastProcessedBlock(): Promise<number> {
@@ -243,12 +359,307 @@ export class DatabaseService {
     await this.updateIndexerState({ lastProcessedBlock: blockNumber });
   }
 
+  // Reorg tracking operations
+  async getRecentBlocks(): Promise<BlockCheckpoint[]> {
+    const state = await this.getIndexerState();
+    return state.recentBlocks || [];
+  }
+
+  async addRecentBlocks(checkpoints: BlockCheckpoint[], keep: number): Promise<void> {
+    const byNumber = new Map<number, BlockCheckpoint>();
+    for (const checkpoint of [...(await this.getRecentBlocks()), ...checkpoints]) {
+      byNumber.set(checkpoint.blockNumber, checkpoint);
+    }
+
+    const recentBlocks = Array.from(byNumber.values())
+      .sort((a, b) => a.blockNumber - b.blockNumber)
+      .slice(-keep);
+
+    await this.updateIndexerState({ recentBlocks });
+
+    // Undo entries older than the oldest checkpoint can no longer be rolled back
+    if (recentBlocks.length > 0) {
+      await this.storage.deleteUndoLog({ beforeBlock: recentBlocks[0].blockNumber });
+    }
+  }
+
+  async appendUndoLog(entry: UndoLogEntry): Promise<void> {
+    await this.storage.appendUndoLog(convertBigIntToString(entry));
+  }
+
+  /**
+   * Revert every quest/participation mutation recorded for blocks >= forkBlock
+   * and rewind the indexer cursor so those blocks are indexed again.
+   */
+  async rollbackToBlock(forkBlock: number): Promise<{ reverted: number }> {
+    return this.transaction(() => this.applyRollback(forkBlock));
+  }
+
+  private async applyRollback(forkBlock: number): Promise<{ reverted: number }> {
+    const orphaned = await this.storage.getUndoLog({ fromBlock: forkBlock });
+
+    // Undo in reverse order so the oldest snapshot of each record wins
+    for (const entry of [...orphaned].reverse()) {
+      if (entry.entity === 'quest') {
+        if (entry.before) {
+          await this.storage.saveQuest(entry.before as QuestData);
+        } else {
+          await this.storage.deleteQuest(entry.id);
+        }
+      } else if (entry.entity === 'referral') {
+        if (entry.before) {
+          await this.storage.saveReferral(entry.before as ReferralData);
+        } else {
+          await this.storage.deleteReferral(entry.id);
+        }
+      } else if (entry.entity === 'draft') {
+        if (entry.before) {
+          await this.storage.saveDraft(entry.before as QuestDraftData);
+        } else {
+          await this.storage.deleteDraft(entry.id);
+        }
+      } else if (entry.entity === 'badge') {
+        if (entry.before) {
+          await this.storage.saveBadge(entry.before as UserBadgeData);
+        } else {
+          await this.storage.deleteBadge(entry.id);
+        }
+      } else if (entry.before) {
+        await this.storage.saveParticipation(entry.before as ParticipationData);
+      } else {
+        await this.storage.deleteParticipation(entry.id);
+      }
+    }
+
+    await this.storage.deleteUndoLog({ fromBlock: forkBlock });
+    await this.storage.deleteProcessedEvents(forkBlock);
+
+    const recentBlocks = await this.getRecentBlocks();
+    await this.updateIndexerState({
+      lastProcessedBlock: Math.max(0, forkBlock - 1),
+      recentBlocks: recentBlocks.filter(b => b.blockNumber < forkBlock)
+    });
+
+    return { reverted: orphaned.length };
+  }
+
+  // Processed event operations
+  async isEventProcessed(id: string): Promise<boolean> {
+    return this.storage.hasProcessedEvent(id);
+  }
+
+  async markEventProcessed(event: ProcessedEvent): Promise<void> {
+    await this.storage.addProcessedEvent(event);
+  }
+
+  // Auth nonce operations
+  async saveNonce(nonce: AuthNonce): Promise<void> {
+    await this.storage.saveNonce(nonce);
+  }
+
+  /**
+   * Take the pending nonce of an address if it matches. The nonce is deleted
+   * in the same transaction, so it can only be used once across instances.
+   */
+  async consumeNonce(address: string, nonce: string): Promise<AuthNonce | null> {
+    return this.storage.transaction(async () => {
+      const stored = await this.storage.getNonce(address);
+      if (!stored || stored.nonce !== nonce) {
+        return null;
+      }
+      return await this.storage.deleteNonce(address) ? stored : null;
+    });
+  }
+
+  // Auth session operations
+  async createSession(session: AuthSession): Promise<void> {
+    await this.storage.saveSession(session);
+  }
+
+  async getSession(id: string): Promise<AuthSession | null> {
+    return this.storage.getSession(id);
+  }
+
+  async getActiveSessions(address: string): Promise<AuthSession[]> {
+    const now = Date.now();
+    const sessions = await this.storage.getSessionsByAddress(address);
+    return sessions.filter(session => !session.revokedAt && session.expiresAt > now);
+  }
+
+  async revokeSession(id: string): Promise<boolean> {
+    const session = await this.storage.getSession(id);
+    if (!session || session.revokedAt) {
+      return false;
+    }
+    await this.storage.saveSession({ ...session, revokedAt: Date.now() });
+    return true;
+  }
+
+  async revokeAllSessions(address: string): Promise<number> {
+    return this.storage.transaction(async () => {
+      const sessions = await this.getActiveSessions(address);
+      const revokedAt = Date.now();
+      for (const session of sessions) {
+        await this.storage.saveSession({ ...session, revokedAt });
+      }
+      return sessions.length;
+    });
+  }
+
+  /**
+   * Drop expired nonces and sessions (revoked sessions are kept until their token expires)
+   */
+  async pruneAuthRecords(now: number = Date.now()): Promise<void> {
+    await this.storage.deleteExpiredNonces(now);
+    await this.storage.deleteExpiredSessions(now);
+  }
+
+  // Quest draft operations
+  async getDraftsBySponsor(sponsor: string): Promise<QuestDraftData[]> {
+    const drafts = await this.storage.getDraftsBySponsor(sponsor);
+    return drafts.sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  async getDraft(id: string): Promise<QuestDraftData | null> {
+    return this.storage.getDraftById(id);
+  }
+
+  async createDraft(sponsor: string, step: number, formData: Record<string, unknown>): Promise<QuestDraftData> {
+    const now = Date.now();
+    const draft: QuestDraftData = {
+      id: crypto.randomUUID(),
+      sponsor: sponsor.toLowerCase(),
+      title: typeof formData.title === 'string' ? formData.title : '',
+      step,
+      formData,
+      createdAt: now,
+      updatedAt: now
+    };
+    await this.storage.saveDraft(draft);
+    return draft;
+  }
+
+  async updateDraft(id: string, step: number, formData: Record<string, unknown>): Promise<QuestDraftData> {
+    return this.storage.transaction(async () => {
+      const draft = await this.storage.getDraftById(id);
+      if (!draft) {
+        throw new Error(`Draft ${id} not found`);
+      }
+
+      const updated: QuestDraftData = {
+        ...draft,
+        title: typeof formData.title === 'string' ? formData.title : '',
+        step,
+        formData,
+        updatedAt: Date.now()
+      };
+      await this.storage.saveDraft(updated);
+      return updated;
+    });
+  }
+
+  async deleteDraft(id: string): Promise<boolean> {
+    return this.storage.deleteDraft(id);
+  }
+
+  /**
+   * Drafts a created quest was made from: drafts of the sponsor whose title, description
+   * and total reward pool match the on-chain quest (text ignoring surrounding whitespace).
+   */
+  async getDraftsForQuest(quest: QuestData): Promise<QuestDraftData[]> {
+    const drafts = await this.storage.getDraftsBySponsor(quest.sponsor);
+    return drafts.filter(draft => isDraftOfQuest(draft, quest));
+  }
+
+  // Quest template operations
+  async getTemplatesBySponsor(sponsor: string): Promise<QuestTemplateData[]> {
+    const templates = await this.storage.getTemplatesBySponsor(sponsor);
+    return templates.sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  async getTemplate(id: string): Promise<QuestTemplateData | null> {
+    return this.storage.getTemplateById(id);
+  }
+
+  async createTemplate(
+    sponsor: string,
+    name: string,
+    formData: Record<string, unknown>,
+    timing: QuestTemplateTiming
+  ): Promise<QuestTemplateData> {
+    const now = Date.now();
+    const template: QuestTemplateData = {
+      id: crypto.randomUUID(),
+      sponsor: sponsor.toLowerCase(),
+      name,
+      formData,
+      timing,
+      createdAt: now,
+      updatedAt: now
+    };
+    await this.storage.saveTemplate(template);
+    return template;
+  }
+
+  async deleteTemplate(id: string): Promise<boolean> {
+    return this.storage.deleteTemplate(id);
+  }
+
+  // Badge operations
+  async getBadges(address: string): Promise<UserBadgeData[]> {
+    return this.storage.getBadgesByAddress(address);
+  }
+
+  async saveBadge(badge: UserBadgeData): Promise<void> {
+    await this.storage.saveBadge(badge);
+  }
+
+  // Referral operations
+  async getReferral(questId: string, referee: string): Promise<ReferralData | null> {
+    return this.storage.getReferralById(`${questId}-${referee.toLowerCase()}`);
+  }
+
+  async getReferralById(id: string): Promise<ReferralData | null> {
+    return this.storage.getReferralById(id);
+  }
+
+  async getReferralsByQuest(questId: string): Promise<ReferralData[]> {
+    return this.storage.getReferrals({ questId });
+  }
+
+  async getReferralsByReferrer(referrer: string): Promise<ReferralData[]> {
+    return this.storage.getReferrals({ referrer });
+  }
+
+  /**
+   * Record that a wallet followed a referral link to a quest; the first referrer is kept
+   */
+  async createReferral(questId: string, referrer: string, referee: string): Promise<ReferralData> {
+    const existing = await this.getReferral(questId, referee);
+    if (existing) {
+      return existing;
+    }
+
+    const referral: ReferralData = {
+      id: `${questId}-${referee.toLowerCase()}`,
+      questId,
+      referrer: referrer.toLowerCase(),
+      referee: referee.toLowerCase(),
+      status: 'pending',
+      createdAt: Date.now()
+    };
+    await this.storage.saveReferral(referral);
+    return referral;
+  }
+
+  async saveReferral(referral: ReferralData): Promise<void> {
+    await this.storage.saveReferral(referral);
+  }
+
   // Statistics operations
   async getQuestStatistics(): Promise<QuestStatistics> {
-    await this.db.read();
-    
-    const quests = this.db.data.quests;
-    const participations = this.db.data.participations;
+    const quests = await this.storage.getQuests();
+    const participations = await this.storage.getParticipations();
     
     const totalQuests = quests.length;
     const activeQuests = quests.filter(q => q.status === 'active').length;
@@ -283,12 +694,23 @@ export class DatabaseService {
   }
 
   async getUserStatistics(address: string): Promise<UserStatistics> {
-    await this.db.read();
-    
-    const userParticipations = this.db.data.participations.filter(
-      p => p.userAddress.toLowerCase() === address.toLowerCase()
-    );
-    
+    const userParticipations = await this.storage.getParticipations({ userAddress: address });
+    return this.summarizeParticipations(address, userParticipations);
+  }
+
+  /**
+   * Statistics summed over every wallet of the profile an address belongs to
+   */
+  async getProfileStatistics(address: string): Promise<UserStatistics> {
+    const [primary, ...linked] = await this.getProfileAddresses(address);
+    const participations: ParticipationData[] = [];
+    for (const wallet of [primary, ...linked]) {
+      participations.push(...await this.storage.getParticipations({ userAddress: wallet }));
+    }
+    return this.summarizeParticipations(primary, participations);
+  }
+
+  private summarizeParticipations(address: string, userParticipations: ParticipationData[]): UserStatistics {
     const totalParticipations = userParticipations.length;
     
     // Calculate total rewards earned
@@ -315,28 +737,23 @@ export class DatabaseService {
 
   // Utility methods
   async backup(): Promise<void> {
-    await this.db.read();
     const backupPath = join(this.dbPath, `backup_${Date.now()}.json`);
-    const backupAdapter = new JSONFile<DatabaseSchema>(backupPath);
-    const backupDb = new Low(backupAdapter, this.db.data);
-    await backupDb.write();
+    const data = await this.storage.exportData();
+    writeFileSync(backupPath, JSON.stringify(data, null, 2));
   }
 
   async clearAllData(): Promise<void> {
-    this.db.data = defaultDatabase;
-    await this.db.write();
+    await this.storage.importData(structuredClone(defaultDatabase));
   }
 
   async getQuestCount(): Promise<number> {
-    await this.db.read();
-    return this.db.data.quests.length;
+    return this.storage.countQuests();
   }
 
   async getParticipationCount(): Promise<number> {
-    await this.db.read();
-    return this.db.data.participations.length;
+    return this.storage.countParticipations();
   }
 }
 
 // Export singleton instance
-export const database = new DatabaseService();
\ No newline at end of file
+export const database = new DatabaseService();
@@ -1,10 +1,26 @@
 import { ethers } from 'ethers';
-import { database } from './database.js';
+import { database as defaultDatabase, type DatabaseService } from './database.js';
 import { QuestStatusCalculator } from './questStatusCalculator.js';
+import { questEvents } from './questEvents.js';
+import { mapContractQuest, type ContractQuestStruct } from './contractQuest.js';
+import { QuestReconciler, ContractQuestStateReader, type ReconcileReport } from './questReconciler.js';
+import { BadgeService } from './badges.js';
+import { isSelfReferral } from './referrals.js';
+import { claimTime } from './participations.js';
+import {
+  indexerCurrentBlock,
+  indexerLastProcessedBlock,
+  indexerLagBlocks,
+  indexerGetLogsRetries,
+  indexerBatchFailures,
+  indexerEventsProcessed
+} from './metrics.js';
 import type {
   QuestData,
-  QuestStatus,
   ParticipationData,
+  BlockCheckpoint,
+  UndoLogEntry,
+  QuestStreamEvent,
   RewardClaimedEventData,
   QuestCanceledEventData,
   VestingRewardClaimedEventData,
@@ -29,31 +45,94 @@ const QUEST_CONTRACT_ABI = [
   "event RemainingRewardsWithdrawn(uint256 indexed questId, address indexed sponsor, uint256 amount)",
 
   // View functions for fetching quest data
+  "function getAllQuestIds(uint256 _offset, uint256 _limit) external view returns (uint256[] questIds, uint256 totalCount)",
+  "function getMultipleQuests(uint256[] _questIds) external view returns (tuple(uint256 id, address sponsor, string title, string description, string launch_page, uint8 questType, uint8 status, tuple(string apiUrlPattern, string apiEndpointHash, uint256 proofValidityPeriod, string targetLikeRetweetId, string favoritedJsonPath, string retweetedJsonPath, bool requireFavorite, bool requireRetweet, string targetQuotedTweetId, string quotedStatusIdJsonPath, string userIdJsonPath, string quoteTweetIdJsonPath) verificationParams, uint256 totalRewards, uint256 rewardPerUser, uint256 maxParticipants, uint256 participantCount, uint256 startTime, uint256 endTime, uint256 claimEndTime, bool isVesting, uint256 vestingDuration)[])",
   "function getQuest(uint256 _questId) external view returns (tuple(uint256 id, address sponsor, string title, string description, string launch_page, uint8 questType, uint8 status, tuple(string apiUrlPattern, string apiEndpointHash, uint256 proofValidityPeriod, string targetLikeRetweetId, string favoritedJsonPath, string retweetedJsonPath, bool requireFavorite, bool requireRetweet, string targetQuotedTweetId, string quotedStatusIdJsonPath, string userIdJsonPath, string quoteTweetIdJsonPath) verificationParams, uint256 totalRewards, uint256 rewardPerUser, uint256 maxParticipants, uint256 participantCount, uint256 startTime, uint256 endTime, uint256 claimEndTime, bool isVesting, uint256 vestingDuration) quest)"
 ];
 
+export interface EventIndexerOptions {
+  provider?: ethers.Provider;    // Custom provider (defaults to a JsonRpcProvider for rpcUrl)
+  database?: DatabaseService;    // Database to index into (defaults to the shared instance)
+  confirmations?: number;        // Blocks to stay behind the chain head
+  reconcileIntervalMs?: number;  // How often indexed quests are checked against contract state
+  batchSize?: number;            // Blocks per getLogs request
+}
+
+export interface IndexerProcessingError {
+  timestamp: number;
+  fromBlock: number;
+  toBlock: number;
+  eventId?: string;              // Set when a single event failed, absent when the whole batch was skipped
+  message: string;
+  log?: Record<string, unknown>; // The failing log as returned by the RPC
+}
+
+export interface ReplayResult {
+  transactionHash: string;
+  blockNumber: number;
+  events: {
+    eventId: string;
+    status: 'processed' | 'skipped' | 'failed';
+    error?: string;
+  }[];
+}
+
+/**
+ * Chain reads the event handlers depend on, made before the batch transaction opens
+ * so no RPC call is awaited while the transaction holds the storage lock
+ */
+interface ChainData {
+  quests: Map<string, ContractQuestStruct>; // getQuest results; missing when the call failed
+  blockTimestamps: Map<number, number>;     // Unix ms of the blocks holding claims
+}
+
 export class EventIndexer {
-  private provider: ethers.JsonRpcProvider;
+  private provider: ethers.Provider;
   private contract: ethers.Contract;
   private contractAddress: string;
   private deploymentBlock: number;
+  private database: DatabaseService;
+  private confirmations: number;
   private isRunning: boolean = false;
   private isPolling: boolean = false;
   private pollingInterval: NodeJS.Timeout | null = null;
+  private reconciler: QuestReconciler;
+  private badges: BadgeService;
+  private reconcileIntervalMs: number;
+  private reconcileInterval: NodeJS.Timeout | null = null;
+  private lastReconcileReport: ReconcileReport | null = null;
+  private batchSize: number;
+  private recentErrors: IndexerProcessingError[] = [];
+  private headBlock: number = 0;
+  private pendingStreamEvents: QuestStreamEvent[] = [];
+  private pendingBadgeAddresses = new Set<string>();
   private readonly POLLING_INTERVAL_MS = 5000; // 5 seconds
   private readonly MAX_RETRIES = 5;
   private readonly RETRY_BASE_DELAY = 1000; // 1 second base delay
   private readonly RETRY_MAX_DELAY = 30000; // 30 seconds max delay
+  private readonly REORG_CHECKPOINTS = 128; // Block hashes kept for reorg detection
+  private readonly MAX_RECENT_ERRORS = 100;
+  private readonly MAX_BATCH_SIZE = 10000;
 
   constructor(
     rpcUrl: string,
     contractAddress: string,
-    deploymentBlock: number = 0
+    deploymentBlock: number = 0,
+    options: EventIndexerOptions = {}
   ) {
-    this.provider = new ethers.JsonRpcProvider(rpcUrl);
+    this.provider = options.provider || new ethers.JsonRpcProvider(rpcUrl);
     this.contractAddress = contractAddress;
     this.deploymentBlock = deploymentBlock;
+    this.database = options.database || defaultDatabase;
+    this.confirmations = options.confirmations ?? 2;
     this.contract = new ethers.Contract(contractAddress, QUEST_CONTRACT_ABI, this.provider);
+    this.reconcileIntervalMs = options.reconcileIntervalMs ?? 10 * 60 * 1000;
+    this.batchSize = options.batchSize ?? 100;
+    this.reconciler = new QuestReconciler({
+      reader: new ContractQuestStateReader(this.contract),
+      database: this.database
+    });
+    this.badges = new BadgeService({ database: this.database });
   }
 
   /**
@@ -62,10 +141,10 @@ export class EventIndexer {
   async initialize(): Promise<void> {
     try {
       // Initialize database
-      await database.init();
+      await this.database.init();
 
       // Update indexer state with contract info
-      await database.updateIndexerState({
+      await this.database.updateIndexerState({
         contractAddress: this.contractAddress,
         contractDeployBlock: this.deploymentBlock
       });
@@ -89,9 +168,11 @@ export class EventIndexer {
     this.isRunning = true;
 
     try {
-      const lastProcessedBlock = await database.getLastProcessedBlock();
+      await this.checkForReorg();
+
+      const lastProcessedBlock = await this.database.getLastProcessedBlock();
       const startBlock = lastProcessedBlock > 0 ? lastProcessedBlock + 1 : this.deploymentBlock;
-      const currentBlock = await this.provider.getBlockNumber();
+      const currentBlock = await this.getSafeBlockNumber();
 
       console.log(`Starting event indexing from block ${startBlock} to ${currentBlock}`);
 
@@ -159,8 +240,10 @@ export class EventIndexer {
     this.isRunning = true;
 
     try {
-      const lastProcessedBlock = await database.getLastProcessedBlock();
-      const currentBlock = await this.provider.getBlockNumber();
+      await this.checkForReorg();
+
+      const lastProcessedBlock = await this.database.getLastProcessedBlock();
+      const currentBlock = await this.getSafeBlockNumber();
       const startBlock = lastProcessedBlock > 0 ? lastProcessedBlock + 1 : this.deploymentBlock;
 
       if (startBlock <= currentBlock) {
@@ -182,18 +265,82 @@ export class EventIndexer {
    * Index events in a specific block range
    */
   private async indexBlockRange(fromBlock: number, toBlock: number): Promise<void> {
-    const BATCH_SIZE = 100; // Process in batches to avoid RPC limits
-
-    for (let start = fromBlock; start <= toBlock; start += BATCH_SIZE) {
-      const end = Math.min(start + BATCH_SIZE - 1, toBlock);
+    // Process in batches to avoid RPC limits
+    for (let start = fromBlock; start <= toBlock; start += this.batchSize) {
+      const end = Math.min(start + this.batchSize - 1, toBlock);
 
       console.log(`Processing blocks ${start} to ${end}`);
 
       await this.processBlockBatchWithRetry(start, end);
-      await database.updateLastProcessedBlock(end);
     }
   }
 
+  /**
+   * Latest block number the indexer is allowed to process
+   */
+  private async getSafeBlockNumber(): Promise<number> {
+    const headBlock = await this.provider.getBlockNumber();
+    this.recordBlockMetrics(headBlock, await this.database.getLastProcessedBlock());
+    return Math.max(0, headBlock - this.confirmations);
+  }
+
+  /**
+   * Compare stored block hashes against the canonical chain and, if they
+   * diverge, roll back everything derived from the orphaned blocks.
+   * Returns the fork block when a reorg was handled.
+   */
+  async checkForReorg(): Promise<number | null> {
+    const checkpoints = await this.database.getRecentBlocks();
+    let forkBlock: number | null = null;
+
+    // Walk back from the newest checkpoint until one still matches the chain
+    for (let i = checkpoints.length - 1; i >= 0; i--) {
+      const checkpoint = checkpoints[i];
+      const block = await this.provider.getBlock(checkpoint.blockNumber);
+
+      if (block?.hash === checkpoint.blockHash) {
+        break;
+      }
+
+      forkBlock = i > 0 ? checkpoints[i - 1].blockNumber + 1 : checkpoint.blockNumber;
+    }
+
+    if (forkBlock === null) {
+      return null;
+    }
+
+    if (forkBlock === checkpoints[0].blockNumber) {
+      console.warn(`Reorg reaches beyond the ${checkpoints.length} tracked blocks; rolling back to block ${forkBlock}`);
+    }
+
+    const { reverted } = await this.database.rollbackToBlock(forkBlock);
+    console.warn(`Chain reorg detected: reverted ${reverted} mutations from block ${forkBlock}, re-indexing from there`);
+
+    return forkBlock;
+  }
+
+  /**
+   * Snapshot a record before an event handler mutates it, so the mutation
+   * can be undone if the block is later orphaned. Returns the snapshot.
+   */
+  private async recordUndo(log: ethers.Log, entity: UndoLogEntry['entity'], id: string): Promise<UndoLogEntry['before']> {
+    const before = entity === 'quest'
+      ? await this.database.getQuestById(id)
+      : entity === 'referral'
+        ? await this.database.getReferralById(id)
+        : entity === 'draft'
+          ? await this.database.getDraft(id)
+          : await this.database.getParticipationById(id);
+
+    await this.database.appendUndoLog({
+      blockNumber: log.blockNumber,
+      entity,
+      id,
+      before
+    });
+    return before;
+  }
+
   /**
    * Process a batch of blocks with retry logic
    */
@@ -210,6 +357,8 @@ export class EventIndexer {
         
         if (attempt === this.MAX_RETRIES) {
           console.error(`Failed to process blocks ${fromBlock} to ${toBlock} after ${this.MAX_RETRIES} attempts. Skipping this batch.`);
+          this.recordError(fromBlock, toBlock, error);
+          indexerBatchFailures.inc();
           // Don't throw, just log and continue with next batch
           return;
         }
@@ -227,7 +376,9 @@ export class EventIndexer {
   }
 
   /**
-   * Process a batch of blocks for events
+   * Process a batch of blocks for events. All events of the batch, the block
+   * checkpoints and the lastProcessedBlock cursor are committed atomically;
+   * events already applied (keyed by transactionHash + logIndex) are skipped.
    */
   private async processBlockBatch(fromBlock: number, toBlock: number): Promise<void> {
     // Get all events in this block range with retry logic
@@ -238,15 +389,183 @@ export class EventIndexer {
     };
 
     const logs = await this.getLogsWithRetry(filter);
+    const endBlock = await this.provider.getBlock(toBlock);
+    const chainData = await this.prefetchChainData(logs);
+
+    await this.database.transaction(async () => {
+      const checkpoints: BlockCheckpoint[] = [];
+      this.pendingStreamEvents = [];
+      this.pendingBadgeAddresses.clear();
+
+      for (const log of logs) {
+        if (log.blockHash) {
+          checkpoints.push({ blockNumber: log.blockNumber, blockHash: log.blockHash });
+        }
+
+        // Continue processing other events even if one fails
+        await this.applyLog(log, chainData, fromBlock, toBlock);
+      }
+      await this.awardPendingBadges();
+
+      if (endBlock?.hash) {
+        checkpoints.push({ blockNumber: toBlock, blockHash: endBlock.hash });
+      }
+
+      await this.database.updateLastProcessedBlock(toBlock);
+      await this.database.addRecentBlocks(checkpoints, this.REORG_CHECKPOINTS);
+    });
+
+    this.recordBlockMetrics(this.headBlock, toBlock);
+
+    // Only announce events once the batch is committed
+    const committedEvents = this.pendingStreamEvents;
+    this.pendingStreamEvents = [];
+    committedEvents.forEach(event => questEvents.publish(event));
+  }
+
+  /**
+   * Read the on-chain quest of every QuestCreated log ahead of the batch transaction
+   */
+  private async prefetchChainData(logs: ethers.Log[]): Promise<ChainData> {
+    const chainData: ChainData = { quests: new Map(), blockTimestamps: new Map() };
 
     for (const log of logs) {
+      let parsedLog: ethers.LogDescription | null = null;
       try {
-        await this.processEvent(log);
+        parsedLog = this.contract.interface.parseLog({ topics: log.topics, data: log.data });
+      } catch {
+        continue;
+      }
+      if (parsedLog?.name === 'RewardClaimed' || parsedLog?.name === 'VestingRewardClaimed') {
+        // Claims are ranked by when they happened, so a missing block fails the batch and it is retried
+        if (!chainData.blockTimestamps.has(log.blockNumber)) {
+          const block = await this.provider.getBlock(log.blockNumber);
+          if (!block) {
+            throw new Error(`Block ${log.blockNumber} not found`);
+          }
+          chainData.blockTimestamps.set(log.blockNumber, block.timestamp * 1000);
+        }
+        continue;
+      }
+      if (parsedLog?.name !== 'QuestCreated') continue;
+
+      const questId = parsedLog.args.questId.toString();
+      try {
+        chainData.quests.set(questId, await this.contract.getQuest(questId));
       } catch (error) {
-        console.error('Error processing event:', error, log);
-        // Continue processing other events even if one fails
+        console.error(`Failed to get quest data from contract for quest ${questId}:`, error);
       }
     }
+
+    return chainData;
+  }
+
+  /**
+   * Apply a single log exactly once. Each event gets its own savepoint so a failing
+   * handler leaves no partial writes; failures are recorded instead of thrown.
+   */
+  private async applyLog(
+    log: ethers.Log,
+    chainData: ChainData,
+    fromBlock: number,
+    toBlock: number
+  ): Promise<ReplayResult['events'][number]> {
+    const eventId = `${log.transactionHash}-${log.index}`;
+    const event = this.getEventName(log);
+
+    if (await this.database.isEventProcessed(eventId)) {
+      console.log(`Skipping already processed event ${eventId}`);
+      indexerEventsProcessed.inc({ event, result: 'skipped' });
+      return { eventId, status: 'skipped' };
+    }
+
+    const queuedStreamEvents = this.pendingStreamEvents.length;
+    try {
+      await this.database.transaction(async () => {
+        await this.processEvent(log, chainData);
+        await this.database.markEventProcessed({ id: eventId, blockNumber: log.blockNumber });
+      });
+      indexerEventsProcessed.inc({ event, result: 'processed' });
+      return { eventId, status: 'processed' };
+    } catch (error) {
+      this.pendingStreamEvents.length = queuedStreamEvents;
+      console.error('Error processing event:', error, log);
+      indexerEventsProcessed.inc({ event, result: 'failed' });
+      const recorded = this.recordError(fromBlock, toBlock, error, log);
+      return { eventId, status: 'failed', error: recorded.message };
+    }
+  }
+
+  /**
+   * Event name for metrics labels
+   */
+  private getEventName(log: ethers.Log): string {
+    try {
+      return this.contract.interface.parseLog({ topics: log.topics, data: log.data })?.name ?? 'unknown';
+    } catch {
+      return 'unknown';
+    }
+  }
+
+  /**
+   * Update the block and lag gauges
+   */
+  private recordBlockMetrics(headBlock: number, lastProcessedBlock: number): void {
+    this.headBlock = headBlock;
+    indexerCurrentBlock.set(headBlock);
+    indexerLastProcessedBlock.set(lastProcessedBlock);
+    indexerLagBlocks.set(Math.max(0, headBlock - lastProcessedBlock));
+  }
+
+  /**
+   * Keep a bounded list of processing failures for the admin API
+   */
+  private recordError(fromBlock: number, toBlock: number, error: unknown, log?: ethers.Log): IndexerProcessingError {
+    const entry: IndexerProcessingError = {
+      timestamp: Date.now(),
+      fromBlock,
+      toBlock,
+      ...(log && {
+        eventId: `${log.transactionHash}-${log.index}`,
+        log: {
+          address: log.address,
+          blockNumber: log.blockNumber,
+          blockHash: log.blockHash,
+          transactionHash: log.transactionHash,
+          index: log.index,
+          topics: [...log.topics],
+          data: log.data
+        }
+      }),
+      message: error instanceof Error ? error.message : String(error)
+    };
+
+    this.recentErrors.push(entry);
+    if (this.recentErrors.length > this.MAX_RECENT_ERRORS) {
+      this.recentErrors.splice(0, this.recentErrors.length - this.MAX_RECENT_ERRORS);
+    }
+    return entry;
+  }
+
+  /**
+   * Queue a real-time feed event for the batch being applied
+   */
+  private queueStreamEvent(
+    log: ethers.Log,
+    type: QuestStreamEvent['type'],
+    questId: string,
+    addresses: string[],
+    data: QuestStreamEvent['data'] = {}
+  ): void {
+    this.pendingStreamEvents.push({
+      type,
+      questId,
+      addresses: addresses.map(address => address.toLowerCase()),
+      data,
+      transactionHash: log.transactionHash,
+      blockNumber: log.blockNumber,
+      timestamp: Date.now()
+    });
   }
 
   /**
@@ -265,6 +584,7 @@ export class EventIndexer {
         return logs;
       } catch (error) {
         lastError = error as Error;
+        indexerGetLogsRetries.inc();
         console.error(`Error getting logs for blocks ${filter.fromBlock} to ${filter.toBlock} (attempt ${attempt}/${this.MAX_RETRIES}):`, error);
         
         if (attempt === this.MAX_RETRIES) {
@@ -295,7 +615,7 @@ export class EventIndexer {
   /**
    * Process a single event log
    */
-  private async processEvent(log: ethers.Log): Promise<void> {
+  private async processEvent(log: ethers.Log, chainData: ChainData): Promise<void> {
     try {
       const parsedLog = this.contract.interface.parseLog({
         topics: log.topics,
@@ -314,16 +634,16 @@ export class EventIndexer {
 
       switch (eventName) {
         case 'QuestCreated':
-          await this.handleQuestCreated(args, log);
+          await this.handleQuestCreated(args, log, chainData);
           break;
         case 'RewardClaimed':
-          await this.handleRewardClaimed(args, log);
+          await this.handleRewardClaimed(args, log, chainData);
           break;
         case 'QuestCanceled':
           await this.handleQuestCanceled(args, log);
           break;
         case 'VestingRewardClaimed':
-          await this.handleVestingRewardClaimed(args, log);
+          await this.handleVestingRewardClaimed(args, log, chainData);
           break;
         case 'RemainingRewardsWithdrawn':
           await this.handleRemainingRewardsWithdrawn(args, log);
@@ -340,72 +660,22 @@ export class EventIndexer {
   /**
    * Handle QuestCreated event
    */
-  private async handleQuestCreated(args: ethers.Result, log: ethers.Log): Promise<void> {
+  private async handleQuestCreated(args: ethers.Result, log: ethers.Log, chainData: ChainData): Promise<void> {
     const questId = args.questId.toString();
 
-    try {
-      // Get real quest data from smart contract
-      const questData = await this.contract.getQuest(questId);
-      console.log(questData)
-
-      // Map quest type enum to string
-      const getQuestTypeString = (questType: bigint | number): string => {
-        const typeNum = Number(questType);
-        switch (typeNum) {
-          case 0: return 'likeAndRetweet';
-          case 1: return 'quote-tweet';
-          default: return 'likeAndRetweet';
-        }
-      };
-
-      // Map status enum to string
-      const getStatusString = (status: number): QuestStatus => {
-        switch (status) {
-          case 0: return 'pending';
-          case 1: return 'active';
-          case 2: return 'ended';
-          case 3: return 'closed';
-          case 4: return 'canceled';
-          default: return 'pending';
-        }
-      };
+    // Quests indexed before (e.g. when reindexing) already had their drafts removed
+    const alreadyIndexed = await this.recordUndo(log, 'quest', questId) !== null;
 
-      // Convert timestamps from seconds to milliseconds
-      const startTime = Number(questData.startTime) * 1000;
-      const endTime = Number(questData.endTime) * 1000;
-      const claimEndTime = Number(questData.claimEndTime) * 1000;
+    try {
+      // Real quest data, read from the smart contract before the batch started
+      const questData = chainData.quests.get(questId);
+      if (!questData) {
+        throw new Error('Quest data could not be read from the contract');
+      }
 
       const questDataForDB: QuestData = {
         id: questId,
-        sponsor: questData.sponsor,
-        title: questData.title,
-        description: questData.description,
-        launch_page: questData.launch_page,
-        questType: getQuestTypeString(questData.questType),
-        totalRewards: questData.totalRewards.toString(),
-        rewardPerUser: questData.rewardPerUser.toString(),
-        maxParticipants: Number(questData.maxParticipants),
-        participantCount: Number(questData.participantCount),
-        startTime,
-        endTime,
-        claimEndTime,
-        status: getStatusString(questData.status),
-        isVesting: questData.isVesting,
-        vestingDuration: Number(questData.vestingDuration),
-        metadata: {
-          apiUrlPattern: questData.verificationParams.apiUrlPattern,
-          apiEndpointHash: questData.verificationParams.apiEndpointHash,
-          proofValidityPeriod: Number(questData.verificationParams.proofValidityPeriod),
-          targetLikeRetweetId: questData.verificationParams.targetLikeRetweetId,
-          favoritedJsonPath: questData.verificationParams.favoritedJsonPath,
-          retweetedJsonPath: questData.verificationParams.retweetedJsonPath,
-          requireFavorite: questData.verificationParams.requireFavorite,
-          requireRetweet: questData.verificationParams.requireRetweet,
-          targetQuotedTweetId: questData.verificationParams.targetQuotedTweetId,
-          quotedStatusIdJsonPath: questData.verificationParams.quotedStatusIdJsonPath,
-          userIdJsonPath: questData.verificationParams.userIdJsonPath,
-          quoteTweetIdJsonPath: questData.verificationParams.quoteTweetIdJsonPath,
-        }, // Store verification params as metadata
+        ...mapContractQuest(questData),
         transactionHash: log.transactionHash!,
         blockNumber: log.blockNumber!,
         createdAt: Date.now(),
@@ -415,13 +685,22 @@ export class EventIndexer {
       // Update status based on current time
       const updatedQuest = QuestStatusCalculator.updateQuestStatus(questDataForDB);
 
-      await database.addQuest(updatedQuest);
+      await this.database.addQuest(updatedQuest);
+      if (!alreadyIndexed) {
+        await this.deleteCreatedQuestDrafts(log, updatedQuest);
+      }
+      this.pendingBadgeAddresses.add(updatedQuest.sponsor);
+      this.queueStreamEvent(log, 'QuestCreated', questId, [updatedQuest.sponsor], {
+        title: updatedQuest.title,
+        totalRewards: updatedQuest.totalRewards,
+        status: updatedQuest.status
+      });
 
       console.log(`Quest created: ${questDataForDB.id} - ${questDataForDB.title} (${questDataForDB.totalRewards} total rewards)`);
-      console.log(`Real data: maxParticipants=${questDataForDB.maxParticipants}, rewardPerUser=${questDataForDB.rewardPerUser}, startTime=${new Date(startTime).toISOString()}, endTime=${new Date(endTime).toISOString()}`);
+      console.log(`Real data: maxParticipants=${questDataForDB.maxParticipants}, rewardPerUser=${questDataForDB.rewardPerUser}, startTime=${new Date(questDataForDB.startTime).toISOString()}, endTime=${new Date(questDataForDB.endTime).toISOString()}`);
 
     } catch (error) {
-      console.error(`Failed to get quest data from contract for quest ${questId}:`, error);
+      console.error(`Using event data for quest ${questId}:`, error);
 
       // Fallback to event data only if contract call fails
       const fallbackQuestData: QuestData = {
@@ -449,16 +728,100 @@ export class EventIndexer {
       };
 
       const updatedQuest = QuestStatusCalculator.updateQuestStatus(fallbackQuestData);
-      await database.addQuest(updatedQuest);
+      await this.database.addQuest(updatedQuest);
+      if (!alreadyIndexed) {
+        await this.deleteCreatedQuestDrafts(log, updatedQuest);
+      }
+      this.pendingBadgeAddresses.add(updatedQuest.sponsor);
+      this.queueStreamEvent(log, 'QuestCreated', questId, [updatedQuest.sponsor], {
+        title: updatedQuest.title,
+        totalRewards: updatedQuest.totalRewards,
+        status: updatedQuest.status
+      });
 
       console.log(`Quest created (fallback): ${fallbackQuestData.id} - ${fallbackQuestData.title} (fallback data used)`);
     }
   }
 
+  /**
+   * Drop the sponsor's saved drafts of a quest that is now on-chain. Deletions are
+   * undo-logged, so the drafts come back if the creation is orphaned by a reorg.
+   */
+  private async deleteCreatedQuestDrafts(log: ethers.Log, quest: QuestData): Promise<void> {
+    const drafts = await this.database.getDraftsForQuest(quest);
+    for (const draft of drafts) {
+      await this.recordUndo(log, 'draft', draft.id);
+      await this.database.deleteDraft(draft.id);
+    }
+    if (drafts.length > 0) {
+      console.log(`Deleted ${drafts.length} draft(s) of quest ${quest.id} - ${quest.title}`);
+    }
+  }
+
+  /**
+   * Award the badges earned by the profiles whose claims or quests were indexed in the batch,
+   * evaluating each profile once. Every new badge is undo-logged at the block of the activity
+   * that completed its rule, so a reorg orphaning that activity revokes it.
+   */
+  private async awardPendingBadges(): Promise<void> {
+    const addresses = [...this.pendingBadgeAddresses];
+    this.pendingBadgeAddresses.clear();
+
+    try {
+      await this.database.transaction(async () => {
+        for (const badge of await this.badges.awardBadges(addresses)) {
+          await this.database.appendUndoLog({
+            blockNumber: badge.blockNumber,
+            entity: 'badge',
+            id: badge.id,
+            before: null
+          });
+          console.log(`Badge awarded: ${badge.badgeId} to ${badge.address}`);
+        }
+      });
+    } catch (error) {
+      console.error(`Failed to award badges to ${addresses.join(', ')}:`, error);
+    }
+  }
+
+  /**
+   * Credit the referrer whose link the claiming wallet followed, unless both belong to the same profile
+   * or the link was followed only after the claim was made
+   */
+  private async attributeReferral(log: ethers.Log, participation: ParticipationData): Promise<void> {
+    const referral = await this.database.getReferral(participation.questId, participation.userAddress);
+    if (!referral || referral.status !== 'pending') return;
+
+    await this.recordUndo(log, 'referral', referral.id);
+
+    // Wallets may have been linked since the referral was recorded
+    if (isSelfReferral(referral.referrer, referral.referee, await this.database.getLinkedWalletMap())) {
+      await this.database.saveReferral({ ...referral, status: 'rejected' });
+      console.log(`Self-referral rejected: ${referral.id} by ${referral.referrer}`);
+      return;
+    }
+
+    // The claim may have been made on chain before the indexer caught up and the route could refuse it
+    if (referral.createdAt > claimTime(participation)) {
+      await this.database.saveReferral({ ...referral, status: 'rejected' });
+      console.log(`Late referral rejected: ${referral.id} was recorded after the claim`);
+      return;
+    }
+
+    await this.database.saveReferral({
+      ...referral,
+      status: 'attributed',
+      attributedAt: claimTime(participation),
+      transactionHash: participation.transactionHash,
+      blockNumber: participation.blockNumber
+    });
+    console.log(`Referral attributed: ${referral.id} to ${referral.referrer}`);
+  }
+
   /**
    * Handle RewardClaimed event
    */
-  private async handleRewardClaimed(args: ethers.Result, log: ethers.Log): Promise<void> {
+  private async handleRewardClaimed(args: ethers.Result, log: ethers.Log, chainData: ChainData): Promise<void> {
     const eventData: RewardClaimedEventData = {
       questId: args.questId.toString(),
       recipient: args.recipient,
@@ -467,25 +830,32 @@ export class EventIndexer {
       blockNumber: log.blockNumber!
     };
 
+    const participationId = `${eventData.questId}-${eventData.recipient}`;
+    await this.recordUndo(log, 'participation', participationId);
+    await this.recordUndo(log, 'quest', eventData.questId);
+
     // Create participation record
     const participationData: ParticipationData = {
-      id: `${eventData.questId}-${eventData.recipient}`,
+      id: participationId,
       questId: eventData.questId,
       userAddress: eventData.recipient,
       claimedAmount: eventData.amount,
       claimedAt: Date.now(),
       transactionHash: eventData.transactionHash,
       blockNumber: eventData.blockNumber,
+      blockTimestamp: chainData.blockTimestamps.get(log.blockNumber),
       createdAt: Date.now()
     };
 
-    await database.addParticipation(participationData);
+    await this.database.addParticipation(participationData);
+    await this.attributeReferral(log, participationData);
+    this.pendingBadgeAddresses.add(eventData.recipient);
 
     // Update quest participant count
-    const quest = await database.getQuestById(eventData.questId);
+    const quest = await this.database.getQuestById(eventData.questId);
     if (quest) {
       const newParticipantCount = quest.participantCount + 1;
-      await database.updateQuestParticipantCount(eventData.questId, newParticipantCount);
+      await this.database.updateQuestParticipantCount(eventData.questId, newParticipantCount);
 
       // Update quest status if needed
       const updatedQuest = QuestStatusCalculator.updateQuestStatus({
@@ -493,9 +863,22 @@ export class EventIndexer {
         participantCount: newParticipantCount
       });
 
+      this.queueStreamEvent(log, 'RewardClaimed', eventData.questId, [eventData.recipient, quest.sponsor], {
+        amount: eventData.amount,
+        participantCount: newParticipantCount
+      });
+
       if (updatedQuest.status !== quest.status) {
-        await database.updateQuestStatus(eventData.questId, updatedQuest.status);
+        await this.database.updateQuestStatus(eventData.questId, updatedQuest.status);
+        this.queueStreamEvent(log, 'QuestStatusChanged', eventData.questId, [quest.sponsor], {
+          from: quest.status,
+          to: updatedQuest.status
+        });
       }
+    } else {
+      this.queueStreamEvent(log, 'RewardClaimed', eventData.questId, [eventData.recipient], {
+        amount: eventData.amount
+      });
     }
 
     console.log(`Reward claimed: ${eventData.questId} by ${eventData.recipient}`);
@@ -511,7 +894,18 @@ export class EventIndexer {
       blockNumber: log.blockNumber!
     };
 
-    await database.updateQuestStatus(eventData.questId, 'canceled');
+    await this.recordUndo(log, 'quest', eventData.questId);
+    const quest = await this.database.getQuestById(eventData.questId);
+    await this.database.updateQuestStatus(eventData.questId, 'canceled');
+
+    const sponsors = quest ? [quest.sponsor] : [];
+    this.queueStreamEvent(log, 'QuestCanceled', eventData.questId, sponsors);
+    if (quest && quest.status !== 'canceled') {
+      this.queueStreamEvent(log, 'QuestStatusChanged', eventData.questId, sponsors, {
+        from: quest.status,
+        to: 'canceled'
+      });
+    }
 
     console.log(`Quest canceled: ${eventData.questId}`);
   }
@@ -519,7 +913,7 @@ export class EventIndexer {
   /**
    * Handle VestingRewardClaimed event
    */
-  private async handleVestingRewardClaimed(args: ethers.Result, log: ethers.Log): Promise<void> {
+  private async handleVestingRewardClaimed(args: ethers.Result, log: ethers.Log, chainData: ChainData): Promise<void> {
     const eventData: VestingRewardClaimedEventData = {
       questId: args.questId.toString(),
       recipient: args.recipient,
@@ -528,19 +922,34 @@ export class EventIndexer {
       blockNumber: log.blockNumber!
     };
 
+    const participationId = `${eventData.questId}-${eventData.recipient}`;
+    await this.recordUndo(log, 'participation', participationId);
+
+    // Vesting rewards are released in several claims, so accumulate the claimed total
+    const existing = await this.database.getParticipationById(participationId);
+    const claimedAmount = existing
+      ? (BigInt(existing.claimedAmount) + BigInt(eventData.amount)).toString()
+      : eventData.amount;
+
     // Update existing participation record or create new one
     const participationData: ParticipationData = {
-      id: `${eventData.questId}-${eventData.recipient}`,
+      id: participationId,
       questId: eventData.questId,
       userAddress: eventData.recipient,
-      claimedAmount: eventData.amount,
+      claimedAmount,
       claimedAt: Date.now(),
       transactionHash: eventData.transactionHash,
       blockNumber: eventData.blockNumber,
-      createdAt: Date.now()
+      blockTimestamp: chainData.blockTimestamps.get(log.blockNumber),
+      createdAt: existing ? existing.createdAt : Date.now()
     };
 
-    await database.addParticipation(participationData);
+    await this.database.addParticipation(participationData);
+    await this.attributeReferral(log, participationData);
+    this.pendingBadgeAddresses.add(eventData.recipient);
+    this.queueStreamEvent(log, 'VestingRewardClaimed', eventData.questId, [eventData.recipient], {
+      amount: eventData.amount
+    });
 
     console.log(`Vesting reward claimed: ${eventData.questId} by ${eventData.recipient}`);
   }
@@ -557,8 +966,18 @@ export class EventIndexer {
       blockNumber: log.blockNumber!
     };
 
+    await this.recordUndo(log, 'quest', eventData.questId);
+    const quest = await this.database.getQuestById(eventData.questId);
+
     // Update quest status to closed when remaining rewards are withdrawn
-    await database.updateQuestStatus(eventData.questId, 'closed');
+    await this.database.updateQuestStatus(eventData.questId, 'closed');
+
+    if (quest && quest.status !== 'closed') {
+      this.queueStreamEvent(log, 'QuestStatusChanged', eventData.questId, [eventData.sponsor], {
+        from: quest.status,
+        to: 'closed'
+      });
+    }
 
     console.log(`Remaining rewards withdrawn: ${eventData.questId} by ${eventData.sponsor}`);
   }
@@ -574,9 +993,13 @@ export class EventIndexer {
     contractAddress: string;
     deploymentBlock: number;
     pollingIntervalMs: number;
+    confirmations: number;
+    batchSize: number;
+    recentErrorCount: number;
   }> {
     const currentBlock = await this.provider.getBlockNumber();
-    const lastProcessedBlock = await database.getLastProcessedBlock();
+    const lastProcessedBlock = await this.database.getLastProcessedBlock();
+    this.recordBlockMetrics(currentBlock, lastProcessedBlock);
 
     return {
       isRunning: this.isRunning,
@@ -585,7 +1008,10 @@ export class EventIndexer {
       currentBlock,
       contractAddress: this.contractAddress,
       deploymentBlock: this.deploymentBlock,
-      pollingIntervalMs: this.POLLING_INTERVAL_MS
+      pollingIntervalMs: this.POLLING_INTERVAL_MS,
+      confirmations: this.confirmations,
+      batchSize: this.batchSize,
+      recentErrorCount: this.recentErrors.length
     };
   }
 
@@ -599,35 +1025,159 @@ export class EventIndexer {
 
     console.log(`Reindexing from block ${fromBlock}`);
 
-    // Update last processed block
-    await database.updateLastProcessedBlock(fromBlock - 1);
+    // Update last processed block (events already applied are skipped on replay)
+    await this.database.updateLastProcessedBlock(fromBlock - 1);
 
     // Start indexing
     await this.startIndexing();
   }
 
+  /**
+   * Re-apply the contract events of a single transaction, e.g. after fixing the cause of a
+   * failed event. Events that were already applied are skipped.
+   */
+  async replayTransaction(transactionHash: string): Promise<ReplayResult> {
+    if (this.isRunning) {
+      throw new Error('Cannot replay while indexer is running');
+    }
+
+    const receipt = await this.provider.getTransactionReceipt(transactionHash);
+    if (!receipt) {
+      throw new Error(`Transaction ${transactionHash} not found`);
+    }
+
+    const lastProcessedBlock = await this.database.getLastProcessedBlock();
+    if (receipt.blockNumber > lastProcessedBlock) {
+      throw new Error(`Transaction ${transactionHash} is in block ${receipt.blockNumber}, which has not been indexed yet`);
+    }
+
+    const logs = receipt.logs.filter(log => log.address.toLowerCase() === this.contractAddress.toLowerCase());
+    const result: ReplayResult = {
+      transactionHash: receipt.hash,
+      blockNumber: receipt.blockNumber,
+      events: []
+    };
+
+    this.isRunning = true;
+    try {
+      console.log(`Replaying ${logs.length} events from transaction ${transactionHash}`);
+
+      const chainData = await this.prefetchChainData(logs);
+      await this.database.transaction(async () => {
+        this.pendingStreamEvents = [];
+        this.pendingBadgeAddresses.clear();
+        for (const log of logs) {
+          result.events.push(await this.applyLog(log, chainData, receipt.blockNumber, receipt.blockNumber));
+        }
+        await this.awardPendingBadges();
+      });
+
+      const committedEvents = this.pendingStreamEvents;
+      this.pendingStreamEvents = [];
+      committedEvents.forEach(event => questEvents.publish(event));
+
+      if (result.events.some(event => event.status === 'processed')) {
+        await this.updateQuestStatuses();
+      }
+      return result;
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * Most recent processing failures, newest first
+   */
+  getRecentErrors(limit: number = this.MAX_RECENT_ERRORS): IndexerProcessingError[] {
+    return this.recentErrors.slice(-limit).reverse();
+  }
+
+  /**
+   * Change how many blocks are fetched per getLogs request (takes effect on the next batch)
+   */
+  setBatchSize(batchSize: number): void {
+    if (!Number.isInteger(batchSize) || batchSize < 1 || batchSize > this.MAX_BATCH_SIZE) {
+      throw new Error(`Batch size must be an integer between 1 and ${this.MAX_BATCH_SIZE}`);
+    }
+
+    console.log(`Event indexer batch size changed from ${this.batchSize} to ${batchSize}`);
+    this.batchSize = batchSize;
+  }
+
   /**
    * Update quest statuses based on current time
    */
   async updateQuestStatuses(): Promise<void> {
-    const quests = await database.getQuests();
+    const quests = await this.database.getQuests();
 
     for (const quest of quests) {
       const updatedQuest = QuestStatusCalculator.updateQuestStatus(quest);
 
       if (updatedQuest.status !== quest.status) {
-        await database.updateQuestStatus(quest.id, updatedQuest.status);
+        await this.database.updateQuestStatus(quest.id, updatedQuest.status);
+        questEvents.publish({
+          type: 'QuestStatusChanged',
+          questId: quest.id,
+          addresses: [quest.sponsor.toLowerCase()],
+          data: { from: quest.status, to: updatedQuest.status },
+          timestamp: Date.now()
+        });
         console.log(`Updated quest ${quest.id} status: ${quest.status} -> ${updatedQuest.status}`);
       }
     }
   }
 
   /**
-   * Stop the indexer and polling
+   * Diff every indexed quest against contract state and repair drift (e.g. quests stored from
+   * fallback event data, or participant counts from vesting claims that emit no event)
+   */
+  async reconcile(): Promise<ReconcileReport | null> {
+    if (this.isRunning) {
+      // Indexing writes the same quests, try again on the next run
+      return null;
+    }
+
+    this.isRunning = true;
+    try {
+      this.lastReconcileReport = await this.reconciler.reconcile();
+      return this.lastReconcileReport;
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  getLastReconcileReport(): ReconcileReport | null {
+    return this.lastReconcileReport;
+  }
+
+  /**
+   * Start the periodic reconciliation job
+   */
+  startReconciling(): void {
+    if (this.reconcileInterval) {
+      return;
+    }
+
+    console.log(`Starting quest reconciliation every ${this.reconcileIntervalMs}ms`);
+    this.reconcileInterval = setInterval(async () => {
+      try {
+        await this.reconcile();
+      } catch (error) {
+        console.error('Error during reconciliation:', error);
+      }
+    }, this.reconcileIntervalMs);
+  }
+
+  /**
+   * Stop the indexer, polling and reconciliation
    */
   stop(): void {
     this.isRunning = false;
     this.stopPolling();
+    if (this.reconcileInterval) {
+      clearInterval(this.reconcileInterval);
+      this.reconcileInterval = null;
+    }
     console.log('Event indexer stopped');
   }
 }
@@ -645,7 +1195,12 @@ export function getEventIndexer(): EventIndexer {
     _eventIndexer = new EventIndexer(
       process.env.MONAD_RPC_URL || 'https://testnet1.monad.xyz',
       contractAddress,
-      parseInt(process.env.QUEST_CONTRACT_DEPLOY_BLOCK || '0')
+      parseInt(process.env.QUEST_CONTRACT_DEPLOY_BLOCK || '0'),
+      {
+        confirmations: parseInt(process.env.INDEXER_CONFIRMATIONS || '2'),
+        reconcileIntervalMs: parseInt(process.env.INDEXER_RECONCILE_INTERVAL_MS || '600000'),
+        batchSize: parseInt(process.env.INDEXER_BATCH_SIZE || '100')
+      }
     );
   }
   return _eventIndexer;
@@ -659,5 +1214,12 @@ export const eventIndexer = {
   stopPolling: () => getEventIndexer().stopPolling(),
   updateQuestStatuses: () => getEventIndexer().updateQuestStatuses(),
   getStatus: () => getEventIndexer().getStatus(),
+  reconcile: () => getEventIndexer().reconcile(),
+  startReconciling: () => getEventIndexer().startReconciling(),
+  getLastReconcileReport: () => getEventIndexer().getLastReconcileReport(),
+  reindexFromBlock: (fromBlock: number) => getEventIndexer().reindexFromBlock(fromBlock),
+  replayTransaction: (transactionHash: string) => getEventIndexer().replayTransaction(transactionHash),
+  getRecentErrors: (limit?: number) => getEventIndexer().getRecentErrors(limit),
+  setBatchSize: (batchSize: number) => getEventIndexer().setBatchSize(batchSize),
   stop: () => getEventIndexer().stop()
 };
\ No newline at end of file
@@ -0,0 +1,222 @@
+import { claimTime } from './participations.js';
+import type { QuestData, ParticipationData } from '../types/database.js';
+
+export type LeaderboardMetric = 'rewards' | 'quests' | 'sponsored';
+export type LeaderboardWindow = '24h' | '7d' | '30d' | 'all';
+
+export const LEADERBOARD_METRICS: LeaderboardMetric[] = ['rewards', 'quests', 'sponsored'];
+
+const WINDOW_MS: Record<Exclude<LeaderboardWindow, 'all'>, number> = {
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+  '30d': 30 * 24 * 60 * 60 * 1000
+};
+
+export const LEADERBOARD_WINDOWS = [...Object.keys(WINDOW_MS), 'all'] as LeaderboardWindow[];
+
+export interface LeaderboardSeason {
+  id: string;
+  name: string;
+  startTime: number;             // Unix ms, inclusive
+  endTime: number;               // Unix ms, exclusive
+}
+
+export interface LeaderboardRange {
+  startTime: number;             // Unix ms, inclusive
+  endTime: number;               // Unix ms, exclusive
+}
+
+export interface LeaderboardEntry {
+  userAddress: string;           // Primary address of the profile
+  linkedAddresses: string[];
+  rewardsEarned: string;         // Wei claimed in the range
+  questsCompleted: number;       // Claims in the range
+  questsSponsored: number;       // Sponsored quests starting in the range
+  value: string;                 // Ranked metric (wei for rewards, count otherwise)
+  rank: number;
+  previousRank: number | null;   // Rank in the previous range (null when unranked or there is none)
+  rankChange: number | null;     // previousRank - rank: positive means moved up
+}
+
+export interface Leaderboard {
+  metric: LeaderboardMetric;
+  window: LeaderboardWindow | null;
+  season: LeaderboardSeason | null;
+  range: LeaderboardRange;
+  previousRange: LeaderboardRange | null;
+  entries: LeaderboardEntry[];
+  total: number;
+}
+
+/**
+ * Seasons configured in LEADERBOARD_SEASONS as a JSON array of { id, name, start, end } (ISO dates),
+ * sorted by start; invalid entries are skipped
+ */
+export function getLeaderboardSeasons(raw: string | undefined = process.env.LEADERBOARD_SEASONS): LeaderboardSeason[] {
+  if (!raw?.trim()) {
+    return [];
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    console.warn('LEADERBOARD_SEASONS is not valid JSON, ignoring it');
+    return [];
+  }
+
+  if (!Array.isArray(parsed)) {
+    return [];
+  }
+
+  const seasons: LeaderboardSeason[] = [];
+  for (const item of parsed) {
+    const startTime = Date.parse(item?.start);
+    const endTime = Date.parse(item?.end);
+    if (typeof item?.id !== 'string' || !item.id || isNaN(startTime) || isNaN(endTime) || endTime <= startTime) {
+      console.warn('Skipping invalid leaderboard season:', item);
+      continue;
+    }
+    seasons.push({ id: item.id, name: typeof item.name === 'string' && item.name ? item.name : item.id, startTime, endTime });
+  }
+
+  return seasons.sort((a, b) => a.startTime - b.startTime);
+}
+
+export class LeaderboardCalculator {
+  /**
+   * Current and previous range of a rolling window ('all' has no previous range)
+   */
+  static windowRanges(window: LeaderboardWindow, now: number = Date.now()): { range: LeaderboardRange; previousRange: LeaderboardRange | null } {
+    if (window === 'all') {
+      return { range: { startTime: 0, endTime: now }, previousRange: null };
+    }
+
+    const size = WINDOW_MS[window];
+    return {
+      range: { startTime: now - size, endTime: now },
+      previousRange: { startTime: now - 2 * size, endTime: now - size }
+    };
+  }
+
+  /**
+   * Range of a season; the previous range is the season before it
+   */
+  static seasonRanges(season: LeaderboardSeason, seasons: LeaderboardSeason[]): { range: LeaderboardRange; previousRange: LeaderboardRange | null } {
+    const index = seasons.findIndex(item => item.id === season.id);
+    const previous = index > 0 ? seasons[index - 1] : null;
+    return {
+      range: { startTime: season.startTime, endTime: season.endTime },
+      previousRange: previous ? { startTime: previous.startTime, endTime: previous.endTime } : null
+    };
+  }
+
+  /**
+   * Rank profiles (linked wallets count towards their primary address) by a metric within a range,
+   * placing claims at the time of their block. Ties are broken by address so ranks are stable between requests
+   */
+  static rank(
+    metric: LeaderboardMetric,
+    range: LeaderboardRange,
+    quests: QuestData[],
+    participations: ParticipationData[],
+    linkedWallets: Map<string, string>
+  ): Array<Omit<LeaderboardEntry, 'previousRank' | 'rankChange' | 'linkedAddresses'>> {
+    const inRange = (time: number) => time >= range.startTime && time < range.endTime;
+    const profileOf = (address: string) => {
+      const wallet = address.toLowerCase();
+      return linkedWallets.get(wallet) || wallet;
+    };
+
+    const stats = new Map<string, { rewards: bigint; completed: number; sponsored: number }>();
+    const statsOf = (profile: string) => {
+      let entry = stats.get(profile);
+      if (!entry) {
+        entry = { rewards: BigInt(0), completed: 0, sponsored: 0 };
+        stats.set(profile, entry);
+      }
+      return entry;
+    };
+
+    for (const participation of participations) {
+      if (!inRange(claimTime(participation))) continue;
+      const entry = statsOf(profileOf(participation.userAddress));
+      entry.rewards += BigInt(participation.claimedAmount);
+      entry.completed += 1;
+    }
+
+    for (const quest of quests) {
+      if (!inRange(quest.startTime)) continue;
+      statsOf(profileOf(quest.sponsor)).sponsored += 1;
+    }
+
+    const valueOf = (entry: { rewards: bigint; completed: number; sponsored: number }): bigint => {
+      switch (metric) {
+        case 'rewards': return entry.rewards;
+        case 'quests': return BigInt(entry.completed);
+        case 'sponsored': return BigInt(entry.sponsored);
+      }
+    };
+
+    return Array.from(stats.entries())
+      .map(([userAddress, entry]) => ({ userAddress, entry, value: valueOf(entry) }))
+      .filter(item => item.value > BigInt(0))
+      .sort((a, b) => (b.value > a.value ? 1 : b.value < a.value ? -1 : a.userAddress.localeCompare(b.userAddress)))
+      .map((item, index) => ({
+        userAddress: item.userAddress,
+        rewardsEarned: item.entry.rewards.toString(),
+        questsCompleted: item.entry.completed,
+        questsSponsored: item.entry.sponsored,
+        value: item.value.toString(),
+        rank: index + 1
+      }));
+  }
+
+  /**
+   * Leaderboard of a range with rank changes versus the previous range
+   */
+  static build(
+    options: {
+      metric: LeaderboardMetric;
+      window: LeaderboardWindow | null;
+      season: LeaderboardSeason | null;
+      range: LeaderboardRange;
+      previousRange: LeaderboardRange | null;
+      limit: number;
+    },
+    quests: QuestData[],
+    participations: ParticipationData[],
+    linkedWallets: Map<string, string>
+  ): Leaderboard {
+    const { metric, range, previousRange, limit } = options;
+    const current = this.rank(metric, range, quests, participations, linkedWallets);
+    const previousRanks = new Map(
+      previousRange
+        ? this.rank(metric, previousRange, quests, participations, linkedWallets).map(entry => [entry.userAddress, entry.rank])
+        : []
+    );
+
+    const walletsByProfile = new Map<string, string[]>();
+    linkedWallets.forEach((primary, wallet) => {
+      walletsByProfile.set(primary, [...(walletsByProfile.get(primary) || []), wallet]);
+    });
+
+    return {
+      metric,
+      window: options.window,
+      season: options.season,
+      range,
+      previousRange,
+      entries: current.slice(0, limit).map(entry => {
+        const previousRank = previousRanks.get(entry.userAddress) ?? null;
+        return {
+          ...entry,
+          linkedAddresses: walletsByProfile.get(entry.userAddress) || [],
+          previousRank,
+          rankChange: previousRank === null ? null : previousRank - entry.rank
+        };
+      }),
+      total: current.length
+    };
+  }
+}
@@ -0,0 +1,203 @@
+/**
+ * Minimal Prometheus metrics registry (text exposition format 0.0.4)
+ */
+
+export type MetricLabels = Record<string, string | number>;
+
+type MetricType = 'counter' | 'gauge' | 'histogram';
+
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return '';
+  return `{${entries.map(([key, value]) => `${key}="${escapeLabelValue(String(value))}"`).join(',')}}`;
+}
+
+// Series are keyed by their label set with keys in a stable order
+function seriesKey(labels: MetricLabels): string {
+  return JSON.stringify(Object.keys(labels).sort().map(key => [key, String(labels[key])]));
+}
+
+abstract class Metric<TSeries> {
+  protected series = new Map<string, { labels: MetricLabels; value: TSeries }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly type: MetricType
+  ) {}
+
+  protected getSeries(labels: MetricLabels, create: () => TSeries): TSeries {
+    const key = seriesKey(labels);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels, value: create() };
+      this.series.set(key, entry);
+    }
+    return entry.value;
+  }
+
+  protected abstract renderSeries(labels: MetricLabels, value: TSeries): string[];
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`];
+    for (const { labels, value } of this.series.values()) {
+      lines.push(...this.renderSeries(labels, value));
+    }
+    return lines;
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+}
+
+export class Counter extends Metric<{ value: number }> {
+  constructor(name: string, help: string) {
+    super(name, help, 'counter');
+  }
+
+  inc(labels: MetricLabels = {}, value: number = 1): void {
+    this.getSeries(labels, () => ({ value: 0 })).value += value;
+  }
+
+  protected renderSeries(labels: MetricLabels, series: { value: number }): string[] {
+    return [`${this.name}${formatLabels(labels)} ${series.value}`];
+  }
+}
+
+export class Gauge extends Metric<{ value: number }> {
+  constructor(name: string, help: string) {
+    super(name, help, 'gauge');
+  }
+
+  set(value: number, labels: MetricLabels = {}): void {
+    this.getSeries(labels, () => ({ value: 0 })).value = value;
+  }
+
+  protected renderSeries(labels: MetricLabels, series: { value: number }): string[] {
+    return [`${this.name}${formatLabels(labels)} ${series.value}`];
+  }
+}
+
+interface HistogramSeries {
+  buckets: number[];             // Non-cumulative counts per upper bound
+  sum: number;
+  count: number;
+}
+
+export class Histogram extends Metric<HistogramSeries> {
+  constructor(name: string, help: string, private buckets: number[] = DEFAULT_BUCKETS) {
+    super(name, help, 'histogram');
+  }
+
+  observe(value: number, labels: MetricLabels = {}): void {
+    const series = this.getSeries(labels, () => ({ buckets: this.buckets.map(() => 0), sum: 0, count: 0 }));
+    const bucket = this.buckets.findIndex(bound => value <= bound);
+    if (bucket >= 0) series.buckets[bucket]++;
+    series.sum += value;
+    series.count++;
+  }
+
+  protected renderSeries(labels: MetricLabels, series: HistogramSeries): string[] {
+    const lines: string[] = [];
+    let cumulative = 0;
+    this.buckets.forEach((bound, i) => {
+      cumulative += series.buckets[i];
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: bound })} ${cumulative}`);
+    });
+    lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${series.count}`);
+    lines.push(`${this.name}_sum${formatLabels(labels)} ${series.sum}`);
+    lines.push(`${this.name}_count${formatLabels(labels)} ${series.count}`);
+    return lines;
+  }
+}
+
+export class MetricsRegistry {
+  private metrics: Metric<unknown>[] = [];
+
+  counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help));
+  }
+
+  gauge(name: string, help: string): Gauge {
+    return this.register(new Gauge(name, help));
+  }
+
+  histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return this.register(new Histogram(name, help, buckets));
+  }
+
+  private register<T extends Metric<unknown>>(metric: T): T {
+    if (this.metrics.some(existing => existing.name === metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    this.metrics.push(metric);
+    return metric;
+  }
+
+  render(): string {
+    return this.metrics.map(metric => metric.render().join('\n')).join('\n') + '\n';
+  }
+
+  reset(): void {
+    this.metrics.forEach(metric => metric.reset());
+  }
+}
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+export const metrics = new MetricsRegistry();
+
+// HTTP
+export const httpRequestDuration = metrics.histogram(
+  'proofquest_http_request_duration_seconds',
+  'HTTP request latency by route'
+);
+
+// Event indexer
+export const indexerCurrentBlock = metrics.gauge(
+  'proofquest_indexer_current_block',
+  'Latest chain head block seen by the event indexer'
+);
+export const indexerLastProcessedBlock = metrics.gauge(
+  'proofquest_indexer_last_processed_block',
+  'Last block committed by the event indexer'
+);
+export const indexerLagBlocks = metrics.gauge(
+  'proofquest_indexer_lag_blocks',
+  'Blocks between the chain head and the last processed block'
+);
+export const indexerGetLogsRetries = metrics.counter(
+  'proofquest_indexer_get_logs_retries_total',
+  'getLogs calls that failed and were retried or given up on'
+);
+export const indexerBatchFailures = metrics.counter(
+  'proofquest_indexer_batch_failures_total',
+  'Block batches skipped after exhausting retries'
+);
+export const indexerEventsProcessed = metrics.counter(
+  'proofquest_indexer_events_total',
+  'Contract events seen by the event indexer by type and result'
+);
+
+// zkTLS
+export const zktlsOperations = metrics.counter(
+  'proofquest_zktls_operations_total',
+  'zkTLS sign and validate calls by result'
+);
+
+// Process
+export const processResidentMemory = metrics.gauge(
+  'proofquest_process_resident_memory_bytes',
+  'Resident memory size in bytes'
+);
+export const processUptime = metrics.gauge(
+  'proofquest_process_uptime_seconds',
+  'Seconds since the server process started'
+);
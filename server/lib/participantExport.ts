@@ -0,0 +1,98 @@
+import { claimTime } from './participations.js';
+import type { ParticipationData, UserData } from '../types/database.js';
+
+export type ParticipantExportFormat = 'csv' | 'json' | 'addresses';
+
+export const PARTICIPANT_EXPORT_FORMATS: ParticipantExportFormat[] = ['csv', 'json', 'addresses'];
+
+export const PARTICIPANT_EXPORT_CONTENT_TYPES: Record<ParticipantExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  addresses: 'text/plain; charset=utf-8'
+};
+
+const FILE_EXTENSIONS: Record<ParticipantExportFormat, string> = {
+  csv: 'csv',
+  json: 'json',
+  addresses: 'txt'
+};
+
+export interface ParticipantExportRow {
+  userAddress: string;           // Wallet that claimed
+  profileAddress: string;        // Primary address of the wallet's profile (the wallet itself when not linked)
+  nickname: string | null;       // Nickname of that profile
+  claimedAmount: string;         // Wei
+  claimedAt: number;             // Block time of the claim, unix ms
+  transactionHash: string;
+  blockNumber: number;
+}
+
+/**
+ * Participants of a quest in claim order, with the nickname of the profile each wallet belongs to
+ */
+export function buildParticipantExport(
+  participations: ParticipationData[],
+  users: UserData[],
+  linkedWallets: Map<string, string>
+): ParticipantExportRow[] {
+  const usersByAddress = new Map(users.map(user => [user.address.toLowerCase(), user]));
+
+  return [...participations]
+    .sort((a, b) => claimTime(a) - claimTime(b) || a.blockNumber - b.blockNumber)
+    .map(participation => {
+      const wallet = participation.userAddress.toLowerCase();
+      const profileAddress = linkedWallets.get(wallet) || wallet;
+      return {
+        userAddress: participation.userAddress,
+        profileAddress,
+        nickname: usersByAddress.get(profileAddress)?.nickname || null,
+        claimedAmount: participation.claimedAmount,
+        claimedAt: claimTime(participation),
+        transactionHash: participation.transactionHash,
+        blockNumber: participation.blockNumber
+      };
+    });
+}
+
+function csvField(value: string | number | null): string {
+  let text = value === null ? '' : String(value);
+  // Spreadsheets run cells starting with these as formulas, so user-chosen text like nicknames is defused
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Render the export in the requested format (claimedAt is ISO 8601 in CSV, unix ms in JSON)
+ */
+export function renderParticipantExport(
+  questId: string,
+  rows: ParticipantExportRow[],
+  format: ParticipantExportFormat
+): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify({ questId, participants: rows }, null, 2);
+    case 'addresses':
+      // Airdrop list: one wallet per line
+      return rows.map(row => row.userAddress).join('\n') + (rows.length > 0 ? '\n' : '');
+    case 'csv': {
+      const header = ['userAddress', 'profileAddress', 'nickname', 'claimedAmount', 'claimedAt', 'transactionHash', 'blockNumber'];
+      const lines = rows.map(row => [
+        row.userAddress,
+        row.profileAddress,
+        row.nickname,
+        row.claimedAmount,
+        new Date(row.claimedAt).toISOString(),
+        row.transactionHash,
+        row.blockNumber
+      ].map(csvField).join(','));
+      return [header.join(','), ...lines].join('\n') + '\n';
+    }
+  }
+}
+
+export function participantExportFileName(questId: string, format: ParticipantExportFormat): string {
+  return `quest-${questId}-participants.${FILE_EXTENSIONS[format]}`;
+}
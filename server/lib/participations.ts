@@ -0,0 +1,9 @@
+import type { ParticipationData } from '../types/database.js';
+
+/**
+ * When a claim happened on chain: the timestamp of its block, or the time it was indexed
+ * for participations stored before block timestamps were recorded
+ */
+export function claimTime(participation: ParticipationData): number {
+  return participation.blockTimestamp ?? participation.claimedAt;
+}
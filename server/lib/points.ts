@@ -0,0 +1,216 @@
+import { AttestationVerifier } from './attestationVerifier.js';
+import { claimTime } from './participations.js';
+import type { QuestData, ParticipationData } from '../types/database.js';
+
+export type PointsReason =
+  | 'completion'                 // Claimed a quest reward
+  | 'quoteTweet'                 // Bonus for completing a quote tweet quest
+  | 'earlyClaim'                 // Bonus for claiming soon after the quest started
+  | 'sponsorQuest'               // Sponsored a quest that was not canceled
+  | 'sponsorClaims';             // Claims made by others on a sponsored quest
+
+export const POINTS_REASONS: PointsReason[] = ['completion', 'quoteTweet', 'earlyClaim', 'sponsorQuest', 'sponsorClaims'];
+
+export interface PointsRules {
+  completion: number;
+  quoteTweetBonus: number;
+  earlyClaimBonus: number;
+  earlyClaimWindowMs: number;    // Claims within this long after startTime are early
+  sponsorQuest: number;
+  sponsorPerClaim: number;
+  levelThresholds: number[];     // Points needed for level 1, 2, ... (ascending, starts at 0)
+}
+
+export const DEFAULT_POINTS_RULES: PointsRules = {
+  completion: 10,
+  quoteTweetBonus: 5,
+  earlyClaimBonus: 5,
+  earlyClaimWindowMs: 24 * 60 * 60 * 1000,
+  sponsorQuest: 25,
+  sponsorPerClaim: 1,
+  levelThresholds: [0, 50, 150, 300, 500, 800, 1200, 1800, 2600, 3600]
+};
+
+export interface PointsLedgerEntry {
+  reason: PointsReason;
+  questId: string;
+  questTitle: string;
+  points: number;
+  count: number;                 // Claims behind a sponsorClaims entry, 1 otherwise
+  at: number;                    // Unix ms of the claim (quest start for sponsorQuest)
+  transactionHash?: string;
+}
+
+export interface LevelInfo {
+  level: number;
+  levelStart: number;            // Points at which the current level starts
+  nextLevelAt: number | null;    // null at the highest level
+  progress: number;              // 0-1 towards the next level
+}
+
+export interface PointsSummary {
+  address: string;               // Primary address of the profile
+  totalPoints: number;
+  level: LevelInfo;
+  breakdown: Record<PointsReason, number>;
+  ledger: PointsLedgerEntry[];   // Newest first
+}
+
+/**
+ * Point rules, with overrides from POINTS_RULES (a JSON object with any of the PointsRules keys);
+ * invalid overrides are ignored
+ */
+export function getPointsRules(raw: string | undefined = process.env.POINTS_RULES): PointsRules {
+  if (!raw?.trim()) {
+    return DEFAULT_POINTS_RULES;
+  }
+
+  let overrides: Record<string, unknown>;
+  try {
+    overrides = JSON.parse(raw);
+  } catch (error) {
+    console.warn('POINTS_RULES is not valid JSON, using the default rules');
+    return DEFAULT_POINTS_RULES;
+  }
+
+  const rules: PointsRules = { ...DEFAULT_POINTS_RULES };
+  for (const key of Object.keys(DEFAULT_POINTS_RULES) as Array<keyof PointsRules>) {
+    const value = overrides?.[key];
+    if (value === undefined) continue;
+
+    if (key === 'levelThresholds') {
+      const valid = Array.isArray(value)
+        && value.length > 0
+        && value[0] === 0
+        && value.every((threshold, i) => Number.isInteger(threshold) && (i === 0 || threshold > value[i - 1]));
+      if (valid) {
+        rules.levelThresholds = value as number[];
+      } else {
+        console.warn('Ignoring POINTS_RULES.levelThresholds: must be ascending integers starting at 0');
+      }
+    } else if (typeof value === 'number' && Number.isFinite(value) && value >= 0) {
+      rules[key] = value;
+    } else {
+      console.warn(`Ignoring POINTS_RULES.${key}: must be a non-negative number`);
+    }
+  }
+
+  return rules;
+}
+
+export class PointsCalculator {
+  /**
+   * Level reached with a number of points
+   */
+  static level(points: number, thresholds: number[]): LevelInfo {
+    let index = 0;
+    while (index + 1 < thresholds.length && points >= thresholds[index + 1]) {
+      index++;
+    }
+
+    const levelStart = thresholds[index];
+    const nextLevelAt = index + 1 < thresholds.length ? thresholds[index + 1] : null;
+    return {
+      level: index + 1,
+      levelStart,
+      nextLevelAt,
+      progress: nextLevelAt === null ? 1 : (points - levelStart) / (nextLevelAt - levelStart)
+    };
+  }
+
+  /**
+   * Ledger of every point a profile earned from indexed claims and sponsored quests
+   */
+  static ledger(
+    profileAddresses: string[],
+    quests: QuestData[],
+    participations: ParticipationData[],
+    rules: PointsRules
+  ): PointsLedgerEntry[] {
+    const wallets = new Set(profileAddresses.map(address => address.toLowerCase()));
+    const questsById = new Map(quests.map(quest => [quest.id, quest]));
+    const entries: PointsLedgerEntry[] = [];
+
+    for (const participation of participations) {
+      if (!wallets.has(participation.userAddress.toLowerCase())) continue;
+
+      const quest = questsById.get(participation.questId);
+      const claimedAt = claimTime(participation);
+      const base = {
+        questId: participation.questId,
+        questTitle: quest?.title || '',
+        count: 1,
+        at: claimedAt,
+        transactionHash: participation.transactionHash
+      };
+
+      entries.push({ ...base, reason: 'completion', points: rules.completion });
+      if (quest && AttestationVerifier.isQuoteTweetQuest(quest)) {
+        entries.push({ ...base, reason: 'quoteTweet', points: rules.quoteTweetBonus });
+      }
+      if (quest && claimedAt - quest.startTime <= rules.earlyClaimWindowMs) {
+        entries.push({ ...base, reason: 'earlyClaim', points: rules.earlyClaimBonus });
+      }
+    }
+
+    const claimsByQuest = new Map<string, ParticipationData[]>();
+    for (const participation of participations) {
+      const claims = claimsByQuest.get(participation.questId) || [];
+      claims.push(participation);
+      claimsByQuest.set(participation.questId, claims);
+    }
+
+    for (const quest of quests) {
+      if (!wallets.has(quest.sponsor.toLowerCase()) || quest.status === 'canceled') continue;
+
+      entries.push({
+        reason: 'sponsorQuest',
+        questId: quest.id,
+        questTitle: quest.title,
+        points: rules.sponsorQuest,
+        count: 1,
+        at: quest.startTime
+      });
+
+      // Claims of the sponsor's own wallets do not count towards the sponsor bonus
+      const claims = (claimsByQuest.get(quest.id) || [])
+        .filter(participation => !wallets.has(participation.userAddress.toLowerCase()));
+      if (claims.length > 0) {
+        entries.push({
+          reason: 'sponsorClaims',
+          questId: quest.id,
+          questTitle: quest.title,
+          points: claims.length * rules.sponsorPerClaim,
+          count: claims.length,
+          at: Math.max(...claims.map(claimTime))
+        });
+      }
+    }
+
+    return entries
+      .filter(entry => entry.points > 0)
+      .sort((a, b) => b.at - a.at);
+  }
+
+  static summarize(
+    profileAddresses: string[],
+    quests: QuestData[],
+    participations: ParticipationData[],
+    rules: PointsRules
+  ): PointsSummary {
+    const ledger = this.ledger(profileAddresses, quests, participations, rules);
+    const breakdown = Object.fromEntries(POINTS_REASONS.map(reason => [reason, 0])) as Record<PointsReason, number>;
+    for (const entry of ledger) {
+      breakdown[entry.reason] += entry.points;
+    }
+
+    const totalPoints = ledger.reduce((sum, entry) => sum + entry.points, 0);
+    return {
+      address: profileAddresses[0].toLowerCase(),
+      totalPoints,
+      level: this.level(totalPoints, rules.levelThresholds),
+      breakdown,
+      ledger
+    };
+  }
+}
@@ -0,0 +1,55 @@
+import { EventEmitter } from 'events';
+import type { QuestStreamEvent } from '../types/database.js';
+
+export interface QuestEventFilter {
+  questIds?: Set<string>;        // Only events of these quests
+  addresses?: Set<string>;       // Only events involving these (lowercased) addresses
+}
+
+/**
+ * Check whether an event matches a subscription; every given filter must match
+ */
+export function matchesQuestEventFilter(event: QuestStreamEvent, filter: QuestEventFilter): boolean {
+  if (filter.questIds && filter.questIds.size > 0 && !filter.questIds.has(event.questId)) {
+    return false;
+  }
+  if (filter.addresses && filter.addresses.size > 0 && !event.addresses.some(address => filter.addresses!.has(address))) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * In-process pub/sub for quest events applied by the EventIndexer
+ */
+class QuestEventBus {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // One listener per open stream connection
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(event: QuestStreamEvent): void {
+    this.emitter.emit('event', event);
+  }
+
+  subscribe(listener: (event: QuestStreamEvent) => void, filter: QuestEventFilter = {}): () => void {
+    const handler = (event: QuestStreamEvent) => {
+      if (matchesQuestEventFilter(event, filter)) {
+        listener(event);
+      }
+    };
+
+    this.emitter.on('event', handler);
+    return () => {
+      this.emitter.off('event', handler);
+    };
+  }
+
+  listenerCount(): number {
+    return this.emitter.listenerCount('event');
+  }
+}
+
+export const questEvents = new QuestEventBus();
@@ -0,0 +1,264 @@
+import { ethers } from 'ethers';
+import { database as defaultDatabase, type DatabaseService } from './database.js';
+import { QuestStatusCalculator } from './questStatusCalculator.js';
+import { questEvents } from './questEvents.js';
+import { mapContractQuest, type ContractQuestFields, type ContractQuestStruct } from './contractQuest.js';
+import type { QuestData, QuestStatus } from '../types/database.js';
+
+// Fields compared against contract state. totalRewards is left out on purpose:
+// withdrawRemainingRewards rewrites it on chain while the index keeps the original pool.
+const RECONCILED_FIELDS = [
+  'sponsor',
+  'title',
+  'description',
+  'launch_page',
+  'questType',
+  'rewardPerUser',
+  'maxParticipants',
+  'participantCount',
+  'startTime',
+  'endTime',
+  'claimEndTime',
+  'isVesting',
+  'vestingDuration'
+] as const;
+
+export type ReconciledField = typeof RECONCILED_FIELDS[number] | 'status' | 'verificationParams' | 'missing';
+
+export interface QuestDiscrepancy {
+  questId: string;
+  field: ReconciledField;
+  indexed: string | null;        // Value in the index (null when the quest was missing)
+  contract: string;              // Value read from the contract
+  repaired: boolean;
+}
+
+export interface ReconcileReport {
+  startedAt: number;
+  finishedAt: number;
+  blockTag: number;              // Contract state is read at the indexer's last processed block
+  questsChecked: number;
+  questsRepaired: number;
+  discrepancies: QuestDiscrepancy[];
+  errors: string[];
+}
+
+/**
+ * Source of contract quest state, pinned to a block so it lines up with the index
+ */
+export interface QuestStateReader {
+  getAllQuestIds(offset: number, limit: number, blockTag: number): Promise<{ questIds: string[]; totalCount: number }>;
+  getMultipleQuests(questIds: string[], blockTag: number): Promise<ContractQuestStruct[]>;
+}
+
+export class ContractQuestStateReader implements QuestStateReader {
+  constructor(private contract: ethers.Contract) {}
+
+  async getAllQuestIds(offset: number, limit: number, blockTag: number) {
+    const [questIds, totalCount] = await this.contract.getAllQuestIds(offset, limit, { blockTag });
+    return {
+      questIds: (questIds as bigint[]).map(id => id.toString()),
+      totalCount: Number(totalCount)
+    };
+  }
+
+  async getMultipleQuests(questIds: string[], blockTag: number): Promise<ContractQuestStruct[]> {
+    return this.contract.getMultipleQuests(questIds, { blockTag });
+  }
+}
+
+export interface QuestReconcilerOptions {
+  reader: QuestStateReader;
+  database?: DatabaseService;
+  batchSize?: number;
+}
+
+export class QuestReconciler {
+  private reader: QuestStateReader;
+  private database: DatabaseService;
+  private batchSize: number;
+
+  constructor(options: QuestReconcilerOptions) {
+    this.reader = options.reader;
+    this.database = options.database || defaultDatabase;
+    this.batchSize = options.batchSize ?? 50;
+  }
+
+  /**
+   * Status the index should have given contract state. Time-based statuses are derived locally,
+   * canceled comes from the contract and closed (withdrawn) only exists in the index.
+   */
+  static getExpectedStatus(indexed: QuestData | null, contract: ContractQuestFields): QuestStatus {
+    const baseStatus: QuestStatus = contract.status === 'canceled'
+      ? 'canceled'
+      : indexed?.status === 'closed' ? 'closed' : 'pending';
+
+    return QuestStatusCalculator.calculateStatus({
+      ...indexed,
+      ...contract,
+      status: baseStatus
+    } as QuestData);
+  }
+
+  /**
+   * Compare an indexed quest with its contract state
+   */
+  static diffQuest(indexed: QuestData, contract: ContractQuestFields): Omit<QuestDiscrepancy, 'repaired'>[] {
+    const discrepancies: Omit<QuestDiscrepancy, 'repaired'>[] = [];
+
+    for (const field of RECONCILED_FIELDS) {
+      const indexedValue = String(indexed[field]);
+      const contractValue = String(contract[field]);
+      // Addresses may differ in checksum casing only
+      const equal = field === 'sponsor'
+        ? indexedValue.toLowerCase() === contractValue.toLowerCase()
+        : indexedValue === contractValue;
+      if (!equal) {
+        discrepancies.push({ questId: indexed.id, field, indexed: indexedValue, contract: contractValue });
+      }
+    }
+
+    const expectedStatus = QuestReconciler.getExpectedStatus(indexed, contract);
+    if (indexed.status !== expectedStatus) {
+      discrepancies.push({ questId: indexed.id, field: 'status', indexed: indexed.status, contract: expectedStatus });
+    }
+
+    const indexedParams = QuestReconciler.parseMetadata(indexed.metadata);
+    const contractParams = contract.metadata as Record<string, unknown>;
+    const paramsMatch = Object.keys(contractParams)
+      .every(key => String(indexedParams?.[key]) === String(contractParams[key]));
+    if (!paramsMatch) {
+      discrepancies.push({
+        questId: indexed.id,
+        field: 'verificationParams',
+        indexed: indexedParams ? JSON.stringify(indexedParams) : String(indexed.metadata),
+        contract: JSON.stringify(contractParams)
+      });
+    }
+
+    return discrepancies;
+  }
+
+  private static parseMetadata(metadata: unknown): Record<string, unknown> | null {
+    if (typeof metadata === 'string') {
+      try {
+        return metadata ? JSON.parse(metadata) : null;
+      } catch {
+        return null;
+      }
+    }
+    return metadata && typeof metadata === 'object' ? metadata as Record<string, unknown> : null;
+  }
+
+  /**
+   * Walk every quest on the contract, diff it against the index and repair drift
+   */
+  async reconcile(): Promise<ReconcileReport> {
+    const report: ReconcileReport = {
+      startedAt: Date.now(),
+      finishedAt: 0,
+      blockTag: await this.database.getLastProcessedBlock(),
+      questsChecked: 0,
+      questsRepaired: 0,
+      discrepancies: [],
+      errors: []
+    };
+
+    // Nothing indexed yet, so there is nothing to line contract state up with
+    if (report.blockTag <= 0) {
+      report.finishedAt = Date.now();
+      return report;
+    }
+
+    // getAllQuestIds returns the IDs offset..offset+limit-1 and quest IDs start at 1
+    let offset = 1;
+    let totalCount = Infinity;
+
+    while (offset <= totalCount) {
+      let questIds: string[];
+      try {
+        const page = await this.reader.getAllQuestIds(offset, this.batchSize, report.blockTag);
+        questIds = page.questIds;
+        totalCount = page.totalCount;
+      } catch (error) {
+        report.errors.push(`getAllQuestIds(${offset}): ${error instanceof Error ? error.message : String(error)}`);
+        break;
+      }
+
+      if (questIds.length === 0) break;
+      offset += questIds.length;
+
+      let contractQuests: ContractQuestStruct[];
+      try {
+        contractQuests = await this.reader.getMultipleQuests(questIds, report.blockTag);
+      } catch (error) {
+        report.errors.push(`getMultipleQuests(${questIds.join(',')}): ${error instanceof Error ? error.message : String(error)}`);
+        continue;
+      }
+
+      for (let i = 0; i < questIds.length; i++) {
+        // Unused IDs come back as empty structs
+        if (!contractQuests[i] || BigInt(contractQuests[i].id) === 0n) continue;
+        try {
+          await this.reconcileQuest(questIds[i], mapContractQuest(contractQuests[i]), report);
+        } catch (error) {
+          report.errors.push(`quest ${questIds[i]}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+    }
+
+    report.finishedAt = Date.now();
+    console.log(`Reconciliation checked ${report.questsChecked} quests at block ${report.blockTag}: ${report.discrepancies.length} discrepancies, ${report.questsRepaired} quests repaired`);
+    return report;
+  }
+
+  private async reconcileQuest(questId: string, contract: ContractQuestFields, report: ReconcileReport): Promise<void> {
+    report.questsChecked++;
+    const indexed = await this.database.getQuestById(questId);
+
+    if (!indexed) {
+      // QuestCreated was never indexed, rebuild the quest from contract state
+      const now = Date.now();
+      await this.database.addQuest({
+        id: questId,
+        ...contract,
+        status: QuestReconciler.getExpectedStatus(null, contract),
+        transactionHash: '',
+        blockNumber: report.blockTag,
+        createdAt: now,
+        updatedAt: now
+      });
+      report.discrepancies.push({ questId, field: 'missing', indexed: null, contract: contract.title, repaired: true });
+      report.questsRepaired++;
+      return;
+    }
+
+    const discrepancies = QuestReconciler.diffQuest(indexed, contract);
+    if (discrepancies.length === 0) return;
+
+    const updates: Partial<QuestData> = {};
+    for (const discrepancy of discrepancies) {
+      if (discrepancy.field === 'status') {
+        updates.status = discrepancy.contract as QuestStatus;
+      } else if (discrepancy.field === 'verificationParams') {
+        updates.metadata = contract.metadata;
+      } else if (discrepancy.field !== 'missing') {
+        Object.assign(updates, { [discrepancy.field]: contract[discrepancy.field] });
+      }
+    }
+
+    await this.database.updateQuest(questId, updates);
+    report.discrepancies.push(...discrepancies.map(discrepancy => ({ ...discrepancy, repaired: true })));
+    report.questsRepaired++;
+
+    if (updates.status) {
+      questEvents.publish({
+        type: 'QuestStatusChanged',
+        questId,
+        addresses: [indexed.sponsor.toLowerCase()],
+        data: { from: indexed.status, to: updates.status },
+        timestamp: Date.now()
+      });
+    }
+  }
+}
@@ -1,5 +1,16 @@
 import type { QuestData, QuestStatus } from '../types/database.js';
 
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Limits enforced by validateQuestTiming
+const MIN_QUEST_DURATION_MS = HOUR_MS;
+const MAX_QUEST_DURATION_MS = 30 * DAY_MS;
+const MIN_CLAIM_PERIOD_MS = DAY_MS;
+
+// How far in the future a shifted quest starts at the earliest
+const SHIFTED_START_LEAD_MS = HOUR_MS;
+
 export class QuestStatusCalculator {
   /**
    * Calculate quest status based on current time and quest timestamps
@@ -253,20 +264,17 @@ export class QuestStatusCalculator {
     }
     
     // Check minimum quest duration (1 hour)
-    const minDuration = 60 * 60 * 1000; // 1 hour in milliseconds
-    if (quest.endTime - quest.startTime < minDuration) {
+    if (quest.endTime - quest.startTime < MIN_QUEST_DURATION_MS) {
       errors.push('Quest duration must be at least 1 hour');
     }
     
     // Check maximum quest duration (30 days)
-    const maxDuration = 30 * 24 * 60 * 60 * 1000; // 30 days in milliseconds
-    if (quest.endTime - quest.startTime > maxDuration) {
+    if (quest.endTime - quest.startTime > MAX_QUEST_DURATION_MS) {
       errors.push('Quest duration cannot exceed 30 days');
     }
     
     // Check claim period (should be at least 1 day)
-    const minClaimPeriod = 24 * 60 * 60 * 1000; // 1 day in milliseconds
-    if (quest.claimEndTime - quest.endTime < minClaimPeriod) {
+    if (quest.claimEndTime - quest.endTime < MIN_CLAIM_PERIOD_MS) {
       errors.push('Claim period must be at least 1 day');
     }
     
@@ -275,4 +283,35 @@ export class QuestStatusCalculator {
       errors
     };
   }
+
+  /**
+   * Move quest timing into the future, e.g. for a cloned quest. Times are shifted
+   * by whole days so the original time of day is kept, and the duration and claim
+   * period are clamped to the limits of validateQuestTiming.
+   */
+  static shiftQuestTiming(
+    quest: Pick<QuestData, 'startTime' | 'endTime' | 'claimEndTime'>,
+    now: number = Date.now()
+  ): {
+    startTime: number;
+    endTime: number;
+    claimEndTime: number;
+    shiftedByMs: number;
+  } {
+    const earliestStart = now + SHIFTED_START_LEAD_MS;
+    const shiftedByMs = quest.startTime >= earliestStart
+      ? 0
+      : Math.ceil((earliestStart - quest.startTime) / DAY_MS) * DAY_MS;
+
+    const duration = Math.min(Math.max(quest.endTime - quest.startTime, MIN_QUEST_DURATION_MS), MAX_QUEST_DURATION_MS);
+    const claimPeriod = Math.max(quest.claimEndTime - quest.endTime, MIN_CLAIM_PERIOD_MS);
+
+    const startTime = quest.startTime + shiftedByMs;
+    return {
+      startTime,
+      endTime: startTime + duration,
+      claimEndTime: startTime + duration + claimPeriod,
+      shiftedByMs
+    };
+  }
 }
\ No newline at end of file
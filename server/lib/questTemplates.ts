@@ -0,0 +1,144 @@
+import { ethers } from 'ethers';
+import type { QuestData, QuestTemplateData, QuestTemplateTiming } from '../types/database.js';
+import type { QuestTemplateResponse } from '../types/quest.js';
+import { AttestationVerifier } from './attestationVerifier.js';
+import { QuestStatusCalculator } from './questStatusCalculator.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// QuestFormData fields that are never copied into templates or clones
+const TIMING_FIELDS = ['startDate', 'endDate', 'rewardClaimDeadline', 'unlockTime'];
+const EXCLUDED_FIELDS = [...TIMING_FIELDS, 'agreeToTerms'];
+
+/**
+ * Presets offered to every sponsor, built on the create wizard's QuestFormData
+ */
+export const PLATFORM_TEMPLATES: QuestTemplateResponse[] = [
+  {
+    id: 'platform-like-and-retweet',
+    source: 'platform',
+    name: 'Like & Retweet boost',
+    formData: {
+      questType: 'twitter-interaction',
+      requiredActions: ['like', 'retweet'],
+      rewardType: 'MON',
+      totalRewardPool: 1,
+      maxParticipants: 100,
+      distributionMethod: 'immediate',
+      requireWhitelist: false,
+      autoApproveSubmissions: true
+    },
+    timing: { durationMs: 7 * DAY_MS, claimPeriodMs: 7 * DAY_MS }
+  },
+  {
+    id: 'platform-quote-tweet',
+    source: 'platform',
+    name: 'Quote tweet campaign',
+    formData: {
+      questType: 'quote-tweet',
+      rewardType: 'MON',
+      totalRewardPool: 2,
+      maxParticipants: 50,
+      distributionMethod: 'immediate',
+      requireWhitelist: false,
+      autoApproveSubmissions: true
+    },
+    timing: { durationMs: 3 * DAY_MS, claimPeriodMs: 7 * DAY_MS }
+  },
+  {
+    id: 'platform-weekly-giveaway',
+    source: 'platform',
+    name: 'Weekly giveaway',
+    formData: {
+      questType: 'twitter-interaction',
+      requiredActions: ['like', 'retweet'],
+      rewardType: 'MON',
+      totalRewardPool: 10,
+      maxParticipants: 1000,
+      distributionMethod: 'immediate',
+      requireWhitelist: false,
+      autoApproveSubmissions: true
+    },
+    timing: { durationMs: 7 * DAY_MS, claimPeriodMs: 14 * DAY_MS }
+  }
+];
+
+export function transformTemplateToApiFormat(template: QuestTemplateData): QuestTemplateResponse {
+  return {
+    id: template.id,
+    source: 'sponsor',
+    name: template.name,
+    formData: template.formData,
+    timing: template.timing,
+    createdAt: new Date(template.createdAt).toISOString(),
+    updatedAt: new Date(template.updatedAt).toISOString()
+  };
+}
+
+/**
+ * Split wizard form data into the reusable part and the durations between its dates.
+ * Missing or invalid dates fall back to the wizard defaults (7 day quest, 7 day claim period).
+ */
+export function toTemplateContent(formData: Record<string, unknown>): {
+  formData: Record<string, unknown>;
+  timing: QuestTemplateTiming;
+} {
+  const time = (key: string) => {
+    const value = formData[key];
+    return typeof value === 'string' || typeof value === 'number' ? new Date(value).getTime() : NaN;
+  };
+
+  const start = time('startDate');
+  const end = time('endDate');
+  const claimEnd = time('rewardClaimDeadline');
+  const durationMs = end > start ? end - start : 7 * DAY_MS;
+  const claimPeriodMs = claimEnd > end ? claimEnd - end : 7 * DAY_MS;
+
+  const content = Object.fromEntries(
+    Object.entries(formData).filter(([key]) => !EXCLUDED_FIELDS.includes(key))
+  );
+
+  return { formData: content, timing: { durationMs, claimPeriodMs } };
+}
+
+/**
+ * Rebuild the create wizard form of an indexed quest, including the actions and
+ * tweet its verificationParams check, with its timing shifted into the future
+ */
+export function questToFormData(quest: QuestData, now: number = Date.now()): {
+  formData: Record<string, unknown>;
+  shiftedByMs: number;
+} {
+  const params = AttestationVerifier.getVerificationParams(quest);
+  const isQuoteTweet = AttestationVerifier.isQuoteTweetQuest(quest);
+  const timing = QuestStatusCalculator.shiftQuestTiming(quest, now);
+
+  const formData: Record<string, unknown> = {
+    title: quest.title,
+    description: quest.description,
+    launch_page: quest.launch_page,
+    questType: isQuoteTweet ? 'quote-tweet' : 'twitter-interaction',
+    rewardType: 'MON',
+    totalRewardPool: Number(ethers.formatEther(quest.totalRewards)),
+    rewardPerParticipant: Number(ethers.formatEther(quest.rewardPerUser)),
+    maxParticipants: quest.maxParticipants,
+    distributionMethod: quest.isVesting ? 'linear' : 'immediate',
+    startDate: new Date(timing.startTime).toISOString(),
+    endDate: new Date(timing.endTime).toISOString(),
+    rewardClaimDeadline: new Date(timing.claimEndTime).toISOString(),
+    requireWhitelist: false,
+    autoApproveSubmissions: true
+  };
+
+  if (isQuoteTweet) {
+    formData.quoteTweetUrl = quest.launch_page;
+  } else {
+    formData.tweetUrl = quest.launch_page;
+    // Quests indexed without verificationParams were created with both actions required
+    formData.requiredActions = params
+      ? [...(params.requireFavorite ? ['like'] : []), ...(params.requireRetweet ? ['retweet'] : [])]
+      : ['like', 'retweet'];
+  }
+
+  return { formData, shiftedByMs: timing.shiftedByMs };
+}
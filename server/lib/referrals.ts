@@ -0,0 +1,130 @@
+import type { QuestData, ReferralData } from '../types/database.js';
+
+export interface ReferralQuestStats {
+  questId: string;
+  questTitle: string;
+  referred: number;              // Wallets that followed the referral link
+  completed: number;             // Referred wallets whose claim was indexed
+  lastCompletedAt: number | null;
+}
+
+export interface UserReferralStats {
+  address: string;               // Primary address of the profile
+  referred: number;
+  completed: number;
+  pending: number;
+  conversionRate: number;        // completed / referred, 0-1
+  quests: ReferralQuestStats[];  // Most completions first
+}
+
+export interface TopReferrer {
+  rank: number;
+  address: string;               // Primary address of the referrer's profile
+  referred: number;
+  completed: number;
+  lastCompletedAt: number | null;
+}
+
+export interface QuestReferralStats {
+  questId: string;
+  claims: number;                // Indexed claims of the quest
+  referred: number;
+  completed: number;
+  referredShare: number;         // Share of claims that came from a referral, 0-1
+  referrers: TopReferrer[];
+}
+
+/**
+ * Whether a referrer and a referee are the same person: the same wallet or wallets of one profile
+ */
+export function isSelfReferral(referrer: string, referee: string, linkedWallets: Map<string, string>): boolean {
+  const primaryOf = (address: string) => linkedWallets.get(address.toLowerCase()) || address.toLowerCase();
+  return primaryOf(referrer) === primaryOf(referee);
+}
+
+function ratio(part: number, total: number): number {
+  return total > 0 ? part / total : 0;
+}
+
+export class ReferralCalculator {
+  /**
+   * Referral stats of a profile, from the referrals made by any of its wallets
+   */
+  static userStats(profileAddresses: string[], referrals: ReferralData[], quests: QuestData[]): UserReferralStats {
+    const wallets = new Set(profileAddresses.map(address => address.toLowerCase()));
+    const questsById = new Map(quests.map(quest => [quest.id, quest]));
+    const byQuest = new Map<string, ReferralQuestStats>();
+
+    for (const referral of referrals) {
+      if (!wallets.has(referral.referrer.toLowerCase()) || referral.status === 'rejected') continue;
+
+      const stats = byQuest.get(referral.questId) || {
+        questId: referral.questId,
+        questTitle: questsById.get(referral.questId)?.title || '',
+        referred: 0,
+        completed: 0,
+        lastCompletedAt: null
+      };
+      stats.referred++;
+      if (referral.status === 'attributed') {
+        stats.completed++;
+        stats.lastCompletedAt = Math.max(stats.lastCompletedAt ?? 0, referral.attributedAt ?? 0);
+      }
+      byQuest.set(referral.questId, stats);
+    }
+
+    const questStats = [...byQuest.values()]
+      .sort((a, b) => b.completed - a.completed || b.referred - a.referred || a.questId.localeCompare(b.questId));
+    const referred = questStats.reduce((sum, stats) => sum + stats.referred, 0);
+    const completed = questStats.reduce((sum, stats) => sum + stats.completed, 0);
+
+    return {
+      address: profileAddresses[0].toLowerCase(),
+      referred,
+      completed,
+      pending: referred - completed,
+      conversionRate: ratio(completed, referred),
+      quests: questStats
+    };
+  }
+
+  /**
+   * Referrers of one quest ranked by completions they drove, linked wallets counted as one referrer
+   */
+  static questStats(
+    questId: string,
+    referrals: ReferralData[],
+    claims: number,
+    linkedWallets: Map<string, string>,
+    limit: number
+  ): QuestReferralStats {
+    const byReferrer = new Map<string, Omit<TopReferrer, 'rank'>>();
+
+    for (const referral of referrals) {
+      if (referral.questId !== questId || referral.status === 'rejected') continue;
+
+      const address = linkedWallets.get(referral.referrer.toLowerCase()) || referral.referrer.toLowerCase();
+      const entry = byReferrer.get(address) || { address, referred: 0, completed: 0, lastCompletedAt: null };
+      entry.referred++;
+      if (referral.status === 'attributed') {
+        entry.completed++;
+        entry.lastCompletedAt = Math.max(entry.lastCompletedAt ?? 0, referral.attributedAt ?? 0);
+      }
+      byReferrer.set(address, entry);
+    }
+
+    const ranked = [...byReferrer.values()]
+      .sort((a, b) => b.completed - a.completed || b.referred - a.referred || a.address.localeCompare(b.address));
+    const referred = ranked.reduce((sum, entry) => sum + entry.referred, 0);
+    const completed = ranked.reduce((sum, entry) => sum + entry.completed, 0);
+
+    return {
+      questId,
+      claims,
+      referred,
+      completed,
+      referredShare: ratio(completed, claims),
+      referrers: ranked.slice(0, limit).map((entry, index) => ({ rank: index + 1, ...entry }))
+    };
+  }
+}
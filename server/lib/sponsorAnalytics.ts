@@ -0,0 +1,188 @@
+import { QuestStatusCalculator } from './questStatusCalculator.js';
+import { claimTime } from './participations.js';
+import type { QuestData, QuestStatus, ParticipationData } from '../types/database.js';
+
+export type AnalyticsInterval = 'hour' | 'day';
+
+const INTERVAL_MS: Record<AnalyticsInterval, number> = {
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000
+};
+
+// Upper bound on zero-filled buckets per quest so long-running quests stay cheap
+const MAX_BUCKETS = 720;
+
+export interface ClaimBucket {
+  bucketStart: number;           // Bucket start timestamp (ms)
+  claims: number;                // Claims in the bucket
+  amount: string;                // Claimed amount in the bucket (wei)
+  cumulativeClaims: number;      // Claims up to and including the bucket
+}
+
+export interface QuestAnalytics {
+  questId: string;
+  title: string;
+  status: QuestStatus;
+  isVesting: boolean;
+  totalRewards: string;
+  rewardPerUser: string;
+  maxParticipants: number;
+  participantCount: number;
+  startTime: number;
+  endTime: number;
+  claimEndTime: number;
+  claimsOverTime: ClaimBucket[];
+  timeToFill: number | null;     // ms from startTime until the last slot was claimed (null = not full)
+  distributed: string;           // Sum of indexed claims (wei)
+  remainingPool: string;         // Rewards for unclaimed slots (wei)
+  vestingOutstanding: string;    // Vesting rewards owed to participants but not yet released (wei)
+  refundable: string;            // Amount the sponsor can withdraw now (wei)
+  refundableAt: number;          // When the remaining pool becomes withdrawable (claimEndTime)
+}
+
+export interface SponsorAnalytics {
+  sponsor: string;
+  interval: AnalyticsInterval;
+  totals: {
+    quests: number;
+    participants: number;
+    totalRewards: string;
+    distributed: string;
+    remainingPool: string;
+    vestingOutstanding: string;
+    refundable: string;
+  };
+  quests: QuestAnalytics[];
+}
+
+export class SponsorAnalyticsCalculator {
+  /**
+   * Group claims into fixed hourly/daily buckets, zero-filling gaps
+   */
+  static bucketClaims(participations: ParticipationData[], interval: AnalyticsInterval): ClaimBucket[] {
+    if (participations.length === 0) {
+      return [];
+    }
+
+    const size = INTERVAL_MS[interval];
+    const counts = new Map<number, { claims: number; amount: bigint }>();
+
+    for (const participation of participations) {
+      const bucketStart = Math.floor(claimTime(participation) / size) * size;
+      const bucket = counts.get(bucketStart) || { claims: 0, amount: BigInt(0) };
+      bucket.claims += 1;
+      bucket.amount += BigInt(participation.claimedAmount);
+      counts.set(bucketStart, bucket);
+    }
+
+    const starts = Array.from(counts.keys()).sort((a, b) => a - b);
+    const last = starts[starts.length - 1];
+    const first = Math.max(starts[0], last - (MAX_BUCKETS - 1) * size);
+
+    // Claims older than the bucket window are folded into the running total
+    let cumulativeClaims = starts
+      .filter(start => start < first)
+      .reduce((sum, start) => sum + counts.get(start)!.claims, 0);
+
+    const buckets: ClaimBucket[] = [];
+    for (let bucketStart = first; bucketStart <= last; bucketStart += size) {
+      const bucket = counts.get(bucketStart);
+      cumulativeClaims += bucket?.claims || 0;
+      buckets.push({
+        bucketStart,
+        claims: bucket?.claims || 0,
+        amount: (bucket?.amount || BigInt(0)).toString(),
+        cumulativeClaims
+      });
+    }
+
+    return buckets;
+  }
+
+  /**
+   * Build analytics for a single quest from its indexed participations
+   */
+  static analyzeQuest(
+    quest: QuestData,
+    participations: ParticipationData[],
+    interval: AnalyticsInterval,
+    now: number = Date.now()
+  ): QuestAnalytics {
+    const status = QuestStatusCalculator.updateQuestStatus(quest).status;
+    const claims = [...participations].sort((a, b) => claimTime(a) - claimTime(b));
+
+    const distributed = claims.reduce((sum, p) => sum + BigInt(p.claimedAmount), BigInt(0));
+    const committed = BigInt(quest.rewardPerUser) * BigInt(quest.participantCount);
+    const vestingOutstanding = quest.isVesting && committed > distributed ? committed - distributed : BigInt(0);
+    const remainingPool = QuestStatusCalculator.getRemainingRewards(quest);
+
+    const isFull = quest.maxParticipants > 0 && claims.length >= quest.maxParticipants;
+    const timeToFill = isFull
+      ? Math.max(0, claimTime(claims[quest.maxParticipants - 1]) - quest.startTime)
+      : null;
+
+    // Unclaimed rewards can only be withdrawn after the claim window, and only once
+    const withdrawable = now > quest.claimEndTime && status !== 'closed' && status !== 'canceled';
+
+    return {
+      questId: quest.id,
+      title: quest.title,
+      status,
+      isVesting: quest.isVesting,
+      totalRewards: quest.totalRewards,
+      rewardPerUser: quest.rewardPerUser,
+      maxParticipants: quest.maxParticipants,
+      participantCount: quest.participantCount,
+      startTime: quest.startTime,
+      endTime: quest.endTime,
+      claimEndTime: quest.claimEndTime,
+      claimsOverTime: this.bucketClaims(claims, interval),
+      timeToFill,
+      distributed: distributed.toString(),
+      remainingPool,
+      vestingOutstanding: vestingOutstanding.toString(),
+      refundable: withdrawable ? remainingPool : '0',
+      refundableAt: quest.claimEndTime
+    };
+  }
+
+  /**
+   * Aggregate analytics over all quests created by a sponsor
+   */
+  static analyzeSponsor(
+    sponsor: string,
+    quests: QuestData[],
+    participations: ParticipationData[],
+    interval: AnalyticsInterval,
+    now: number = Date.now()
+  ): SponsorAnalytics {
+    const participationsByQuest = new Map<string, ParticipationData[]>();
+    for (const participation of participations) {
+      const list = participationsByQuest.get(participation.questId) || [];
+      list.push(participation);
+      participationsByQuest.set(participation.questId, list);
+    }
+
+    const questAnalytics = quests
+      .map(quest => this.analyzeQuest(quest, participationsByQuest.get(quest.id) || [], interval, now))
+      .sort((a, b) => b.startTime - a.startTime);
+
+    const sum = (field: 'totalRewards' | 'distributed' | 'remainingPool' | 'vestingOutstanding' | 'refundable') =>
+      questAnalytics.reduce((total, quest) => total + BigInt(quest[field]), BigInt(0)).toString();
+
+    return {
+      sponsor,
+      interval,
+      totals: {
+        quests: questAnalytics.length,
+        participants: questAnalytics.reduce((total, quest) => total + quest.participantCount, 0),
+        totalRewards: sum('totalRewards'),
+        distributed: sum('distributed'),
+        remainingPool: sum('remainingPool'),
+        vestingOutstanding: sum('vestingOutstanding'),
+        refundable: sum('refundable')
+      },
+      quests: questAnalytics
+    };
+  }
+}
@@ -0,0 +1,29 @@
+import { LowdbStorage } from './lowdbStorage.js';
+import { SqliteStorage } from './sqliteStorage.js';
+import type { StorageAdapter, StorageDriver } from './types.js';
+
+export { LowdbStorage } from './lowdbStorage.js';
+export { SqliteStorage } from './sqliteStorage.js';
+export { TransactionLock, withTransactionLock } from './transactionLock.js';
+export type {
+  StorageAdapter,
+  StorageDriver,
+  QuestFilter,
+  ParticipationFilter,
+  ReferralFilter,
+  UndoLogRange
+} from './types.js';
+
+/**
+ * Create the storage backend selected by DATABASE_DRIVER (lowdb by default)
+ */
+export function createStorage(dbPath: string, driver: string = process.env.DATABASE_DRIVER || 'lowdb'): StorageAdapter {
+  switch (driver as StorageDriver) {
+    case 'lowdb':
+      return new LowdbStorage(dbPath);
+    case 'sqlite':
+      return new SqliteStorage(dbPath);
+    default:
+      throw new Error(`Unknown DATABASE_DRIVER "${driver}" (expected "lowdb" or "sqlite")`);
+  }
+}
@@ -0,0 +1,492 @@
+import { join } from 'path';
+import { Low } from 'lowdb';
+import { JSONFile } from 'lowdb/node';
+import { defaultDatabase } from '../../types/database.js';
+import type {
+  DatabaseSchema,
+  QuestData,
+  ParticipationData,
+  UserData,
+  IndexerState,
+  UndoLogEntry,
+  ProcessedEvent,
+  AuthNonce,
+  AuthSession,
+  QuestDraftData,
+  QuestTemplateData,
+  UserBadgeData,
+  ReferralData
+} from '../../types/database.js';
+import type {
+  StorageAdapter,
+  QuestFilter,
+  ParticipationFilter,
+  ReferralFilter,
+  UndoLogRange
+} from './types.js';
+
+function inUndoRange(entry: UndoLogEntry, range: UndoLogRange): boolean {
+  if (range.fromBlock !== undefined && entry.blockNumber < range.fromBlock) return false;
+  if (range.beforeBlock !== undefined && entry.blockNumber >= range.beforeBlock) return false;
+  return true;
+}
+
+/**
+ * JSON file storage (./data/database.json). The whole file is re-read on
+ * every call so external edits and other processes are always picked up.
+ * Inside a transaction the in-memory copy is used and written once at the end.
+ */
+export class LowdbStorage implements StorageAdapter {
+  readonly driver = 'lowdb' as const;
+  private db: Low<DatabaseSchema>;
+  private transactionDepth = 0;
+
+  constructor(dbPath: string) {
+    const adapter = new JSONFile<DatabaseSchema>(join(dbPath, 'database.json'));
+    this.db = new Low(adapter, structuredClone(defaultDatabase));
+  }
+
+  private async load(): Promise<void> {
+    if (this.transactionDepth === 0) {
+      await this.db.read();
+    }
+  }
+
+  private async persist(): Promise<void> {
+    if (this.transactionDepth === 0) {
+      await this.db.write();
+    }
+  }
+
+  async init(): Promise<void> {
+    await this.db.read();
+
+    // If database is empty, initialize with default data
+    if (!this.db.data) {
+      this.db.data = structuredClone(defaultDatabase);
+      await this.db.write();
+    }
+  }
+
+  async transaction<T>(fn: () => Promise<T>): Promise<T> {
+    await this.load();
+    const snapshot = structuredClone(this.db.data);
+
+    this.transactionDepth++;
+    try {
+      const result = await fn();
+      this.transactionDepth--;
+      await this.persist();
+      return result;
+    } catch (error) {
+      this.transactionDepth--;
+      this.db.data = snapshot;
+      throw error;
+    }
+  }
+
+  async close(): Promise<void> {
+    // Nothing to release, every operation opens and closes the file
+  }
+
+  // Quest operations
+  async getQuests(filter: QuestFilter = {}): Promise<QuestData[]> {
+    await this.load();
+    const sponsor = filter.sponsor?.toLowerCase();
+
+    return (this.db.data.quests || []).filter(quest =>
+      (filter.status === undefined || quest.status === filter.status) &&
+      (sponsor === undefined || quest.sponsor.toLowerCase() === sponsor) &&
+      (filter.fromBlock === undefined || quest.blockNumber >= filter.fromBlock)
+    );
+  }
+
+  async getQuestById(id: string): Promise<QuestData | null> {
+    await this.load();
+    return this.db.data.quests.find(quest => quest.id === id) || null;
+  }
+
+  async saveQuest(quest: QuestData): Promise<void> {
+    await this.load();
+
+    const existingIndex = this.db.data.quests.findIndex(q => q.id === quest.id);
+    if (existingIndex >= 0) {
+      this.db.data.quests[existingIndex] = quest;
+    } else {
+      this.db.data.quests.push(quest);
+    }
+
+    await this.persist();
+  }
+
+  async deleteQuest(id: string): Promise<boolean> {
+    await this.load();
+
+    const questIndex = this.db.data.quests.findIndex(quest => quest.id === id);
+    if (questIndex >= 0) {
+      this.db.data.quests.splice(questIndex, 1);
+      await this.persist();
+      return true;
+    }
+    return false;
+  }
+
+  async countQuests(): Promise<number> {
+    await this.load();
+    return this.db.data.quests.length;
+  }
+
+  // Participation operations
+  async getParticipations(filter: ParticipationFilter = {}): Promise<ParticipationData[]> {
+    await this.load();
+    const userAddress = filter.userAddress?.toLowerCase();
+
+    return (this.db.data.participations || []).filter(p =>
+      (filter.questId === undefined || p.questId === filter.questId) &&
+      (userAddress === undefined || p.userAddress.toLowerCase() === userAddress) &&
+      (filter.fromBlock === undefined || p.blockNumber >= filter.fromBlock)
+    );
+  }
+
+  async getParticipationById(id: string): Promise<ParticipationData | null> {
+    await this.load();
+    return this.db.data.participations.find(p => p.id === id) || null;
+  }
+
+  async saveParticipation(participation: ParticipationData): Promise<void> {
+    await this.load();
+
+    const existingIndex = this.db.data.participations.findIndex(
+      p => p.questId === participation.questId && p.userAddress.toLowerCase() === participation.userAddress.toLowerCase()
+    );
+    if (existingIndex >= 0) {
+      this.db.data.participations[existingIndex] = participation;
+    } else {
+      this.db.data.participations.push(participation);
+    }
+
+    await this.persist();
+  }
+
+  async deleteParticipation(id: string): Promise<boolean> {
+    await this.load();
+
+    const participationIndex = this.db.data.participations.findIndex(p => p.id === id);
+    if (participationIndex >= 0) {
+      this.db.data.participations.splice(participationIndex, 1);
+      await this.persist();
+      return true;
+    }
+    return false;
+  }
+
+  async countParticipations(): Promise<number> {
+    await this.load();
+    return this.db.data.participations.length;
+  }
+
+  // User operations
+  async getUsers(): Promise<UserData[]> {
+    await this.load();
+    return this.db.data.users || [];
+  }
+
+  async getUserByAddress(address: string): Promise<UserData | null> {
+    await this.load();
+    return this.db.data.users.find(user => user.address.toLowerCase() === address.toLowerCase()) || null;
+  }
+
+  async saveUser(user: UserData): Promise<void> {
+    await this.load();
+
+    const existingIndex = this.db.data.users.findIndex(u => u.address.toLowerCase() === user.address.toLowerCase());
+    if (existingIndex >= 0) {
+      this.db.data.users[existingIndex] = user;
+    } else {
+      this.db.data.users.push(user);
+    }
+
+    await this.persist();
+  }
+
+  async deleteUser(address: string): Promise<boolean> {
+    await this.load();
+
+    const userIndex = this.db.data.users.findIndex(user => user.address.toLowerCase() === address.toLowerCase());
+    if (userIndex >= 0) {
+      this.db.data.users.splice(userIndex, 1);
+      await this.persist();
+      return true;
+    }
+    return false;
+  }
+
+  // Indexer state operations
+  async getIndexerState(): Promise<IndexerState> {
+    await this.load();
+    return this.db.data.indexerState;
+  }
+
+  async saveIndexerState(state: IndexerState): Promise<void> {
+    await this.load();
+    this.db.data.indexerState = state;
+    await this.persist();
+  }
+
+  // Undo log operations
+  async getUndoLog(range: UndoLogRange = {}): Promise<UndoLogEntry[]> {
+    await this.load();
+    return (this.db.data.undoLog || []).filter(entry => inUndoRange(entry, range));
+  }
+
+  async appendUndoLog(entry: UndoLogEntry): Promise<void> {
+    await this.load();
+    this.db.data.undoLog = [...(this.db.data.undoLog || []), entry];
+    await this.persist();
+  }
+
+  async deleteUndoLog(range: UndoLogRange): Promise<void> {
+    await this.load();
+    this.db.data.undoLog = (this.db.data.undoLog || []).filter(entry => !inUndoRange(entry, range));
+    await this.persist();
+  }
+
+  // Processed event operations
+  async hasProcessedEvent(id: string): Promise<boolean> {
+    await this.load();
+    return (this.db.data.processedEvents || []).some(event => event.id === id);
+  }
+
+  async addProcessedEvent(event: ProcessedEvent): Promise<void> {
+    await this.load();
+    (this.db.data.processedEvents ||= []).push(event);
+    await this.persist();
+  }
+
+  async deleteProcessedEvents(fromBlock: number): Promise<void> {
+    await this.load();
+    this.db.data.processedEvents = (this.db.data.processedEvents || []).filter(event => event.blockNumber < fromBlock);
+    await this.persist();
+  }
+
+  // Nonce operations
+  async getNonce(address: string): Promise<AuthNonce | null> {
+    await this.load();
+    return (this.db.data.nonces || []).find(n => n.address.toLowerCase() === address.toLowerCase()) || null;
+  }
+
+  async saveNonce(nonce: AuthNonce): Promise<void> {
+    await this.load();
+    this.db.data.nonces = [
+      ...(this.db.data.nonces || []).filter(n => n.address.toLowerCase() !== nonce.address.toLowerCase()),
+      nonce
+    ];
+    await this.persist();
+  }
+
+  async deleteNonce(address: string): Promise<boolean> {
+    await this.load();
+    const nonces = this.db.data.nonces || [];
+    const remaining = nonces.filter(n => n.address.toLowerCase() !== address.toLowerCase());
+    if (remaining.length === nonces.length) return false;
+
+    this.db.data.nonces = remaining;
+    await this.persist();
+    return true;
+  }
+
+  async deleteExpiredNonces(before: number): Promise<void> {
+    await this.load();
+    this.db.data.nonces = (this.db.data.nonces || []).filter(n => n.expiresAt >= before);
+    await this.persist();
+  }
+
+  // Session operations
+  async getSession(id: string): Promise<AuthSession | null> {
+    await this.load();
+    return (this.db.data.sessions || []).find(session => session.id === id) || null;
+  }
+
+  async getSessionsByAddress(address: string): Promise<AuthSession[]> {
+    await this.load();
+    return (this.db.data.sessions || []).filter(session => session.address.toLowerCase() === address.toLowerCase());
+  }
+
+  async saveSession(session: AuthSession): Promise<void> {
+    await this.load();
+
+    const sessions = (this.db.data.sessions ||= []);
+    const existingIndex = sessions.findIndex(s => s.id === session.id);
+    if (existingIndex >= 0) {
+      sessions[existingIndex] = session;
+    } else {
+      sessions.push(session);
+    }
+
+    await this.persist();
+  }
+
+  async deleteExpiredSessions(before: number): Promise<void> {
+    await this.load();
+    this.db.data.sessions = (this.db.data.sessions || []).filter(session => session.expiresAt >= before);
+    await this.persist();
+  }
+
+  // Draft operations
+  async getDraftsBySponsor(sponsor: string): Promise<QuestDraftData[]> {
+    await this.load();
+    return (this.db.data.drafts || []).filter(draft => draft.sponsor.toLowerCase() === sponsor.toLowerCase());
+  }
+
+  async getDraftById(id: string): Promise<QuestDraftData | null> {
+    await this.load();
+    return (this.db.data.drafts || []).find(draft => draft.id === id) || null;
+  }
+
+  async saveDraft(draft: QuestDraftData): Promise<void> {
+    await this.load();
+
+    const drafts = (this.db.data.drafts ||= []);
+    const existingIndex = drafts.findIndex(d => d.id === draft.id);
+    if (existingIndex >= 0) {
+      drafts[existingIndex] = draft;
+    } else {
+      drafts.push(draft);
+    }
+
+    await this.persist();
+  }
+
+  async deleteDraft(id: string): Promise<boolean> {
+    await this.load();
+    const drafts = this.db.data.drafts || [];
+    const remaining = drafts.filter(draft => draft.id !== id);
+    if (remaining.length === drafts.length) return false;
+
+    this.db.data.drafts = remaining;
+    await this.persist();
+    return true;
+  }
+
+  // Template operations
+  async getTemplatesBySponsor(sponsor: string): Promise<QuestTemplateData[]> {
+    await this.load();
+    return (this.db.data.templates || []).filter(template => template.sponsor.toLowerCase() === sponsor.toLowerCase());
+  }
+
+  async getTemplateById(id: string): Promise<QuestTemplateData | null> {
+    await this.load();
+    return (this.db.data.templates || []).find(template => template.id === id) || null;
+  }
+
+  async saveTemplate(template: QuestTemplateData): Promise<void> {
+    await this.load();
+
+    const templates = (this.db.data.templates ||= []);
+    const existingIndex = templates.findIndex(t => t.id === template.id);
+    if (existingIndex >= 0) {
+      templates[existingIndex] = template;
+    } else {
+      templates.push(template);
+    }
+
+    await this.persist();
+  }
+
+  async deleteTemplate(id: string): Promise<boolean> {
+    await this.load();
+    const templates = this.db.data.templates || [];
+    const remaining = templates.filter(template => template.id !== id);
+    if (remaining.length === templates.length) return false;
+
+    this.db.data.templates = remaining;
+    await this.persist();
+    return true;
+  }
+
+  // Badge operations
+  async getBadgesByAddress(address: string): Promise<UserBadgeData[]> {
+    await this.load();
+    return (this.db.data.badges || []).filter(badge => badge.address.toLowerCase() === address.toLowerCase());
+  }
+
+  async saveBadge(badge: UserBadgeData): Promise<void> {
+    await this.load();
+
+    const badges = (this.db.data.badges ||= []);
+    const existingIndex = badges.findIndex(b => b.id === badge.id);
+    if (existingIndex >= 0) {
+      badges[existingIndex] = badge;
+    } else {
+      badges.push(badge);
+    }
+
+    await this.persist();
+  }
+
+  async deleteBadge(id: string): Promise<boolean> {
+    await this.load();
+    const badges = this.db.data.badges || [];
+    const remaining = badges.filter(badge => badge.id !== id);
+    if (remaining.length === badges.length) return false;
+
+    this.db.data.badges = remaining;
+    await this.persist();
+    return true;
+  }
+
+  // Referral operations
+  async getReferrals(filter: ReferralFilter = {}): Promise<ReferralData[]> {
+    await this.load();
+    const referrer = filter.referrer?.toLowerCase();
+
+    return (this.db.data.referrals || []).filter(referral =>
+      (filter.questId === undefined || referral.questId === filter.questId) &&
+      (referrer === undefined || referral.referrer.toLowerCase() === referrer)
+    );
+  }
+
+  async getReferralById(id: string): Promise<ReferralData | null> {
+    await this.load();
+    return (this.db.data.referrals || []).find(referral => referral.id === id) || null;
+  }
+
+  async saveReferral(referral: ReferralData): Promise<void> {
+    await this.load();
+
+    const referrals = (this.db.data.referrals ||= []);
+    const existingIndex = referrals.findIndex(r => r.id === referral.id);
+    if (existingIndex >= 0) {
+      referrals[existingIndex] = referral;
+    } else {
+      referrals.push(referral);
+    }
+
+    await this.persist();
+  }
+
+  async deleteReferral(id: string): Promise<boolean> {
+    await this.load();
+    const referrals = this.db.data.referrals || [];
+    const remaining = referrals.filter(referral => referral.id !== id);
+    if (remaining.length === referrals.length) return false;
+
+    this.db.data.referrals = remaining;
+    await this.persist();
+    return true;
+  }
+
+  // Whole dataset operations
+  async exportData(): Promise<DatabaseSchema> {
+    await this.load();
+    return this.db.data;
+  }
+
+  async importData(data: DatabaseSchema): Promise<void> {
+    this.db.data = {
+      ...structuredClone(defaultDatabase),
+      ...data
+    };
+    await this.persist();
+  }
+}
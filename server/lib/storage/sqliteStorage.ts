@@ -0,0 +1,595 @@
+import { join } from 'path';
+import { Database } from 'bun:sqlite';
+import { defaultDatabase } from '../../types/database.js';
+import type {
+  DatabaseSchema,
+  QuestData,
+  ParticipationData,
+  UserData,
+  IndexerState,
+  UndoLogEntry,
+  ProcessedEvent,
+  AuthNonce,
+  AuthSession,
+  QuestDraftData,
+  QuestTemplateData,
+  UserBadgeData,
+  ReferralData
+} from '../../types/database.js';
+import type {
+  StorageAdapter,
+  QuestFilter,
+  ParticipationFilter,
+  ReferralFilter,
+  UndoLogRange
+} from './types.js';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS quests (
+    id TEXT PRIMARY KEY,
+    sponsor TEXT NOT NULL,
+    status TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_quests_status ON quests (status);
+  CREATE INDEX IF NOT EXISTS idx_quests_sponsor ON quests (sponsor);
+  CREATE INDEX IF NOT EXISTS idx_quests_block ON quests (block_number);
+
+  CREATE TABLE IF NOT EXISTS participations (
+    id TEXT PRIMARY KEY,
+    quest_id TEXT NOT NULL,
+    user_address TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    data TEXT NOT NULL,
+    UNIQUE (quest_id, user_address)
+  );
+  CREATE INDEX IF NOT EXISTS idx_participations_user ON participations (user_address);
+  CREATE INDEX IF NOT EXISTS idx_participations_block ON participations (block_number);
+
+  CREATE TABLE IF NOT EXISTS users (
+    address TEXT PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS indexer_state (
+    id INTEGER PRIMARY KEY CHECK (id = 1),
+    data TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS undo_log (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    block_number INTEGER NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_undo_log_block ON undo_log (block_number);
+
+  CREATE TABLE IF NOT EXISTS processed_events (
+    id TEXT PRIMARY KEY,
+    block_number INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_processed_events_block ON processed_events (block_number);
+
+  CREATE TABLE IF NOT EXISTS nonces (
+    address TEXT PRIMARY KEY,
+    expires_at INTEGER NOT NULL,
+    data TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS sessions (
+    id TEXT PRIMARY KEY,
+    address TEXT NOT NULL,
+    expires_at INTEGER NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_sessions_address ON sessions (address);
+  CREATE INDEX IF NOT EXISTS idx_sessions_expires ON sessions (expires_at);
+
+  CREATE TABLE IF NOT EXISTS drafts (
+    id TEXT PRIMARY KEY,
+    sponsor TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_drafts_sponsor ON drafts (sponsor);
+
+  CREATE TABLE IF NOT EXISTS templates (
+    id TEXT PRIMARY KEY,
+    sponsor TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_templates_sponsor ON templates (sponsor);
+
+  CREATE TABLE IF NOT EXISTS badges (
+    id TEXT PRIMARY KEY,
+    address TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_badges_address ON badges (address);
+
+  CREATE TABLE IF NOT EXISTS referrals (
+    id TEXT PRIMARY KEY,
+    quest_id TEXT NOT NULL,
+    referrer TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_referrals_quest ON referrals (quest_id);
+  CREATE INDEX IF NOT EXISTS idx_referrals_referrer ON referrals (referrer);
+`;
+
+type Row = { data: string };
+type Param = string | number;
+
+function parseRows<T>(rows: Row[]): T[] {
+  return rows.map(row => JSON.parse(row.data) as T);
+}
+
+function undoRangeClause(range: UndoLogRange): { where: string; params: Param[] } {
+  const conditions: string[] = [];
+  const params: Param[] = [];
+
+  if (range.fromBlock !== undefined) {
+    conditions.push('block_number >= ?');
+    params.push(range.fromBlock);
+  }
+  if (range.beforeBlock !== undefined) {
+    conditions.push('block_number < ?');
+    params.push(range.beforeBlock);
+  }
+
+  return {
+    where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '',
+    params
+  };
+}
+
+/**
+ * SQLite storage (./data/database.sqlite) using Bun's built-in driver.
+ * Records are stored as JSON with the columns used for lookups broken out
+ * and indexed, so queries no longer load the whole dataset.
+ */
+export class SqliteStorage implements StorageAdapter {
+  readonly driver = 'sqlite' as const;
+  private db: Database;
+  private transactionDepth = 0;
+
+  constructor(dbPath: string, fileName: string = 'database.sqlite') {
+    this.db = new Database(join(dbPath, fileName), { create: true });
+  }
+
+  async init(): Promise<void> {
+    this.db.exec('PRAGMA journal_mode = WAL');
+    this.db.exec(SCHEMA);
+
+    const state = this.db.query('SELECT id FROM indexer_state WHERE id = 1').get();
+    if (!state) {
+      this.writeIndexerState(defaultDatabase.indexerState);
+    }
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+  }
+
+  async transaction<T>(fn: () => Promise<T>): Promise<T> {
+    // Nested transactions map to savepoints
+    const savepoint = `sp_${this.transactionDepth}`;
+    this.db.exec(this.transactionDepth === 0 ? 'BEGIN IMMEDIATE' : `SAVEPOINT ${savepoint}`);
+
+    this.transactionDepth++;
+    try {
+      const result = await fn();
+      this.transactionDepth--;
+      this.db.exec(this.transactionDepth === 0 ? 'COMMIT' : `RELEASE ${savepoint}`);
+      return result;
+    } catch (error) {
+      this.transactionDepth--;
+      this.db.exec(this.transactionDepth === 0 ? 'ROLLBACK' : `ROLLBACK TO ${savepoint}; RELEASE ${savepoint}`);
+      throw error;
+    }
+  }
+
+  // Quest operations
+  async getQuests(filter: QuestFilter = {}): Promise<QuestData[]> {
+    const conditions: string[] = [];
+    const params: Param[] = [];
+
+    if (filter.status !== undefined) {
+      conditions.push('status = ?');
+      params.push(filter.status);
+    }
+    if (filter.sponsor !== undefined) {
+      conditions.push('sponsor = ?');
+      params.push(filter.sponsor.toLowerCase());
+    }
+    if (filter.fromBlock !== undefined) {
+      conditions.push('block_number >= ?');
+      params.push(filter.fromBlock);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.db.query(`SELECT data FROM quests ${where} ORDER BY rowid`).all(...params) as Row[];
+    return parseRows<QuestData>(rows);
+  }
+
+  async getQuestById(id: string): Promise<QuestData | null> {
+    const row = this.db.query('SELECT data FROM quests WHERE id = ?').get(id) as Row | null;
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  async saveQuest(quest: QuestData): Promise<void> {
+    this.writeQuest(quest);
+  }
+
+  private writeQuest(quest: QuestData): void {
+    this.db.query(`
+      INSERT INTO quests (id, sponsor, status, block_number, data) VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT (id) DO UPDATE SET
+        sponsor = excluded.sponsor,
+        status = excluded.status,
+        block_number = excluded.block_number,
+        data = excluded.data
+    `).run(quest.id, quest.sponsor.toLowerCase(), quest.status, quest.blockNumber, JSON.stringify(quest));
+  }
+
+  async deleteQuest(id: string): Promise<boolean> {
+    return this.db.query('DELETE FROM quests WHERE id = ?').run(id).changes > 0;
+  }
+
+  async countQuests(): Promise<number> {
+    const row = this.db.query('SELECT COUNT(*) AS count FROM quests').get() as { count: number };
+    return row.count;
+  }
+
+  // Participation operations
+  async getParticipations(filter: ParticipationFilter = {}): Promise<ParticipationData[]> {
+    const conditions: string[] = [];
+    const params: Param[] = [];
+
+    if (filter.questId !== undefined) {
+      conditions.push('quest_id = ?');
+      params.push(filter.questId);
+    }
+    if (filter.userAddress !== undefined) {
+      conditions.push('user_address = ?');
+      params.push(filter.userAddress.toLowerCase());
+    }
+    if (filter.fromBlock !== undefined) {
+      conditions.push('block_number >= ?');
+      params.push(filter.fromBlock);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.db.query(`SELECT data FROM participations ${where} ORDER BY rowid`).all(...params) as Row[];
+    return parseRows<ParticipationData>(rows);
+  }
+
+  async getParticipationById(id: string): Promise<ParticipationData | null> {
+    const row = this.db.query('SELECT data FROM participations WHERE id = ?').get(id) as Row | null;
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  async saveParticipation(participation: ParticipationData): Promise<void> {
+    this.writeParticipation(participation);
+  }
+
+  private writeParticipation(participation: ParticipationData): void {
+    this.db.query(`
+      INSERT INTO participations (id, quest_id, user_address, block_number, data) VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT (quest_id, user_address) DO UPDATE SET
+        id = excluded.id,
+        block_number = excluded.block_number,
+        data = excluded.data
+    `).run(
+      participation.id,
+      participation.questId,
+      participation.userAddress.toLowerCase(),
+      participation.blockNumber,
+      JSON.stringify(participation)
+    );
+  }
+
+  async deleteParticipation(id: string): Promise<boolean> {
+    return this.db.query('DELETE FROM participations WHERE id = ?').run(id).changes > 0;
+  }
+
+  async countParticipations(): Promise<number> {
+    const row = this.db.query('SELECT COUNT(*) AS count FROM participations').get() as { count: number };
+    return row.count;
+  }
+
+  // User operations
+  async getUsers(): Promise<UserData[]> {
+    const rows = this.db.query('SELECT data FROM users ORDER BY rowid').all() as Row[];
+    return parseRows<UserData>(rows);
+  }
+
+  async getUserByAddress(address: string): Promise<UserData | null> {
+    const row = this.db.query('SELECT data FROM users WHERE address = ?').get(address.toLowerCase()) as Row | null;
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  async saveUser(user: UserData): Promise<void> {
+    this.writeUser(user);
+  }
+
+  private writeUser(user: UserData): void {
+    this.db.query(`
+      INSERT INTO users (address, data) VALUES (?, ?)
+      ON CONFLICT (address) DO UPDATE SET data = excluded.data
+    `).run(user.address.toLowerCase(), JSON.stringify(user));
+  }
+
+  async deleteUser(address: string): Promise<boolean> {
+    return this.db.query('DELETE FROM users WHERE address = ?').run(address.toLowerCase()).changes > 0;
+  }
+
+  // Indexer state operations
+  async getIndexerState(): Promise<IndexerState> {
+    const row = this.db.query('SELECT data FROM indexer_state WHERE id = 1').get() as Row | null;
+    return row ? JSON.parse(row.data) : { ...defaultDatabase.indexerState };
+  }
+
+  async saveIndexerState(state: IndexerState): Promise<void> {
+    this.writeIndexerState(state);
+  }
+
+  private writeIndexerState(state: IndexerState): void {
+    this.db.query(`
+      INSERT INTO indexer_state (id, data) VALUES (1, ?)
+      ON CONFLICT (id) DO UPDATE SET data = excluded.data
+    `).run(JSON.stringify(state));
+  }
+
+  // Undo log operations
+  async getUndoLog(range: UndoLogRange = {}): Promise<UndoLogEntry[]> {
+    const { where, params } = undoRangeClause(range);
+    const rows = this.db.query(`SELECT data FROM undo_log ${where} ORDER BY seq`).all(...params) as Row[];
+    return parseRows<UndoLogEntry>(rows);
+  }
+
+  async appendUndoLog(entry: UndoLogEntry): Promise<void> {
+    this.writeUndoLog(entry);
+  }
+
+  private writeUndoLog(entry: UndoLogEntry): void {
+    this.db.query('INSERT INTO undo_log (block_number, data) VALUES (?, ?)').run(entry.blockNumber, JSON.stringify(entry));
+  }
+
+  async deleteUndoLog(range: UndoLogRange): Promise<void> {
+    const { where, params } = undoRangeClause(range);
+    this.db.query(`DELETE FROM undo_log ${where}`).run(...params);
+  }
+
+  // Processed event operations
+  async hasProcessedEvent(id: string): Promise<boolean> {
+    return this.db.query('SELECT 1 FROM processed_events WHERE id = ?').get(id) !== null;
+  }
+
+  async addProcessedEvent(event: ProcessedEvent): Promise<void> {
+    this.writeProcessedEvent(event);
+  }
+
+  private writeProcessedEvent(event: ProcessedEvent): void {
+    this.db.query('INSERT OR IGNORE INTO processed_events (id, block_number) VALUES (?, ?)').run(event.id, event.blockNumber);
+  }
+
+  async deleteProcessedEvents(fromBlock: number): Promise<void> {
+    this.db.query('DELETE FROM processed_events WHERE block_number >= ?').run(fromBlock);
+  }
+
+  // Nonce operations
+  async getNonce(address: string): Promise<AuthNonce | null> {
+    const row = this.db.query('SELECT data FROM nonces WHERE address = ?').get(address.toLowerCase()) as Row | null;
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  async saveNonce(nonce: AuthNonce): Promise<void> {
+    this.writeNonce(nonce);
+  }
+
+  private writeNonce(nonce: AuthNonce): void {
+    this.db.query(`
+      INSERT INTO nonces (address, expires_at, data) VALUES (?, ?, ?)
+      ON CONFLICT (address) DO UPDATE SET
+        expires_at = excluded.expires_at,
+        data = excluded.data
+    `).run(nonce.address.toLowerCase(), nonce.expiresAt, JSON.stringify(nonce));
+  }
+
+  async deleteNonce(address: string): Promise<boolean> {
+    return this.db.query('DELETE FROM nonces WHERE address = ?').run(address.toLowerCase()).changes > 0;
+  }
+
+  async deleteExpiredNonces(before: number): Promise<void> {
+    this.db.query('DELETE FROM nonces WHERE expires_at < ?').run(before);
+  }
+
+  // Session operations
+  async getSession(id: string): Promise<AuthSession | null> {
+    const row = this.db.query('SELECT data FROM sessions WHERE id = ?').get(id) as Row | null;
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  async getSessionsByAddress(address: string): Promise<AuthSession[]> {
+    const rows = this.db.query('SELECT data FROM sessions WHERE address = ? ORDER BY rowid').all(address.toLowerCase()) as Row[];
+    return parseRows<AuthSession>(rows);
+  }
+
+  async saveSession(session: AuthSession): Promise<void> {
+    this.writeSession(session);
+  }
+
+  private writeSession(session: AuthSession): void {
+    this.db.query(`
+      INSERT INTO sessions (id, address, expires_at, data) VALUES (?, ?, ?, ?)
+      ON CONFLICT (id) DO UPDATE SET
+        address = excluded.address,
+        expires_at = excluded.expires_at,
+        data = excluded.data
+    `).run(session.id, session.address.toLowerCase(), session.expiresAt, JSON.stringify(session));
+  }
+
+  async deleteExpiredSessions(before: number): Promise<void> {
+    this.db.query('DELETE FROM sessions WHERE expires_at < ?').run(before);
+  }
+
+  // Draft operations
+  async getDraftsBySponsor(sponsor: string): Promise<QuestDraftData[]> {
+    const rows = this.db.query('SELECT data FROM drafts WHERE sponsor = ? ORDER BY rowid').all(sponsor.toLowerCase()) as Row[];
+    return parseRows<QuestDraftData>(rows);
+  }
+
+  async getDraftById(id: string): Promise<QuestDraftData | null> {
+    const row = this.db.query('SELECT data FROM drafts WHERE id = ?').get(id) as Row | null;
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  async saveDraft(draft: QuestDraftData): Promise<void> {
+    this.writeDraft(draft);
+  }
+
+  private writeDraft(draft: QuestDraftData): void {
+    this.db.query(`
+      INSERT INTO drafts (id, sponsor, data) VALUES (?, ?, ?)
+      ON CONFLICT (id) DO UPDATE SET
+        sponsor = excluded.sponsor,
+        data = excluded.data
+    `).run(draft.id, draft.sponsor.toLowerCase(), JSON.stringify(draft));
+  }
+
+  async deleteDraft(id: string): Promise<boolean> {
+    return this.db.query('DELETE FROM drafts WHERE id = ?').run(id).changes > 0;
+  }
+
+  // Template operations
+  async getTemplatesBySponsor(sponsor: string): Promise<QuestTemplateData[]> {
+    const rows = this.db.query('SELECT data FROM templates WHERE sponsor = ? ORDER BY rowid').all(sponsor.toLowerCase()) as Row[];
+    return parseRows<QuestTemplateData>(rows);
+  }
+
+  async getTemplateById(id: string): Promise<QuestTemplateData | null> {
+    const row = this.db.query('SELECT data FROM templates WHERE id = ?').get(id) as Row | null;
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  async saveTemplate(template: QuestTemplateData): Promise<void> {
+    this.writeTemplate(template);
+  }
+
+  private writeTemplate(template: QuestTemplateData): void {
+    this.db.query(`
+      INSERT INTO templates (id, sponsor, data) VALUES (?, ?, ?)
+      ON CONFLICT (id) DO UPDATE SET
+        sponsor = excluded.sponsor,
+        data = excluded.data
+    `).run(template.id, template.sponsor.toLowerCase(), JSON.stringify(template));
+  }
+
+  async deleteTemplate(id: string): Promise<boolean> {
+    return this.db.query('DELETE FROM templates WHERE id = ?').run(id).changes > 0;
+  }
+
+  // Badge operations
+  async getBadgesByAddress(address: string): Promise<UserBadgeData[]> {
+    const rows = this.db.query('SELECT data FROM badges WHERE address = ? ORDER BY rowid').all(address.toLowerCase()) as Row[];
+    return parseRows<UserBadgeData>(rows);
+  }
+
+  async saveBadge(badge: UserBadgeData): Promise<void> {
+    this.writeBadge(badge);
+  }
+
+  private writeBadge(badge: UserBadgeData): void {
+    this.db.query(`
+      INSERT INTO badges (id, address, data) VALUES (?, ?, ?)
+      ON CONFLICT (id) DO UPDATE SET
+        address = excluded.address,
+        data = excluded.data
+    `).run(badge.id, badge.address.toLowerCase(), JSON.stringify(badge));
+  }
+
+  async deleteBadge(id: string): Promise<boolean> {
+    return this.db.query('DELETE FROM badges WHERE id = ?').run(id).changes > 0;
+  }
+
+  // Referral operations
+  async getReferrals(filter: ReferralFilter = {}): Promise<ReferralData[]> {
+    const conditions: string[] = [];
+    const params: Param[] = [];
+
+    if (filter.questId !== undefined) {
+      conditions.push('quest_id = ?');
+      params.push(filter.questId);
+    }
+    if (filter.referrer !== undefined) {
+      conditions.push('referrer = ?');
+      params.push(filter.referrer.toLowerCase());
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.db.query(`SELECT data FROM referrals ${where} ORDER BY rowid`).all(...params) as Row[];
+    return parseRows<ReferralData>(rows);
+  }
+
+  async getReferralById(id: string): Promise<ReferralData | null> {
+    const row = this.db.query('SELECT data FROM referrals WHERE id = ?').get(id) as Row | null;
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  async saveReferral(referral: ReferralData): Promise<void> {
+    this.writeReferral(referral);
+  }
+
+  private writeReferral(referral: ReferralData): void {
+    this.db.query(`
+      INSERT INTO referrals (id, quest_id, referrer, data) VALUES (?, ?, ?, ?)
+      ON CONFLICT (id) DO UPDATE SET
+        quest_id = excluded.quest_id,
+        referrer = excluded.referrer,
+        data = excluded.data
+    `).run(referral.id, referral.questId, referral.referrer.toLowerCase(), JSON.stringify(referral));
+  }
+
+  async deleteReferral(id: string): Promise<boolean> {
+    return this.db.query('DELETE FROM referrals WHERE id = ?').run(id).changes > 0;
+  }
+
+  // Whole dataset operations
+  async exportData(): Promise<DatabaseSchema> {
+    return {
+      quests: await this.getQuests(),
+      participations: await this.getParticipations(),
+      users: await this.getUsers(),
+      indexerState: await this.getIndexerState(),
+      undoLog: await this.getUndoLog(),
+      processedEvents: this.db.query('SELECT id, block_number AS blockNumber FROM processed_events ORDER BY rowid').all() as ProcessedEvent[],
+      nonces: parseRows<AuthNonce>(this.db.query('SELECT data FROM nonces ORDER BY rowid').all() as Row[]),
+      sessions: parseRows<AuthSession>(this.db.query('SELECT data FROM sessions ORDER BY rowid').all() as Row[]),
+      drafts: parseRows<QuestDraftData>(this.db.query('SELECT data FROM drafts ORDER BY rowid').all() as Row[]),
+      templates: parseRows<QuestTemplateData>(this.db.query('SELECT data FROM templates ORDER BY rowid').all() as Row[]),
+      badges: parseRows<UserBadgeData>(this.db.query('SELECT data FROM badges ORDER BY rowid').all() as Row[]),
+      referrals: await this.getReferrals()
+    };
+  }
+
+  async importData(data: DatabaseSchema): Promise<void> {
+    const replaceAll = this.db.transaction(() => {
+      this.db.exec('DELETE FROM quests; DELETE FROM participations; DELETE FROM users; DELETE FROM indexer_state; DELETE FROM undo_log; DELETE FROM processed_events; DELETE FROM nonces; DELETE FROM sessions; DELETE FROM drafts; DELETE FROM templates; DELETE FROM badges; DELETE FROM referrals;');
+
+      for (const quest of data.quests || []) this.writeQuest(quest);
+      for (const participation of data.participations || []) this.writeParticipation(participation);
+      for (const user of data.users || []) this.writeUser(user);
+      for (const entry of data.undoLog || []) this.writeUndoLog(entry);
+      for (const event of data.processedEvents || []) this.writeProcessedEvent(event);
+      for (const nonce of data.nonces || []) this.writeNonce(nonce);
+      for (const session of data.sessions || []) this.writeSession(session);
+      for (const draft of data.drafts || []) this.writeDraft(draft);
+      for (const template of data.templates || []) this.writeTemplate(template);
+      for (const badge of data.badges || []) this.writeBadge(badge);
+      for (const referral of data.referrals || []) this.writeReferral(referral);
+      this.writeIndexerState(data.indexerState || defaultDatabase.indexerState);
+    });
+
+    replaceAll();
+  }
+}
@@ -0,0 +1,49 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import type { StorageAdapter } from './types.js';
+
+/**
+ * Async mutex whose holder is tracked through the async context, so calls made
+ * by the holder (however deeply awaited) run immediately while every other
+ * caller waits for the holder to finish.
+ */
+export class TransactionLock {
+  private tail: Promise<void> = Promise.resolve();
+  private holder = new AsyncLocalStorage<true>();
+
+  async run<T>(fn: () => Promise<T>): Promise<T> {
+    if (this.holder.getStore()) {
+      return fn();
+    }
+
+    const previous = this.tail;
+    let release!: () => void;
+    this.tail = new Promise(resolve => { release = resolve; });
+
+    await previous;
+    try {
+      return await this.holder.run(true, fn);
+    } finally {
+      release();
+    }
+  }
+}
+
+/**
+ * Serialize every call to a storage adapter. The adapters keep a single
+ * transaction depth and (for SQLite) a single connection, so without this a
+ * write made by an HTTP request while the indexer holds a transaction open
+ * would join that transaction and be discarded when it rolls back.
+ */
+export function withTransactionLock(storage: StorageAdapter): StorageAdapter {
+  const lock = new TransactionLock();
+
+  return new Proxy(storage, {
+    get(target, property, receiver) {
+      const value = Reflect.get(target, property, receiver);
+      if (typeof value !== 'function') {
+        return value;
+      }
+      return (...args: unknown[]) => lock.run(() => value.apply(target, args));
+    }
+  });
+}
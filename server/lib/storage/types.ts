@@ -0,0 +1,134 @@
+import type {
+  DatabaseSchema,
+  QuestData,
+  QuestStatus,
+  ParticipationData,
+  UserData,
+  IndexerState,
+  UndoLogEntry,
+  ProcessedEvent,
+  AuthNonce,
+  AuthSession,
+  QuestDraftData,
+  QuestTemplateData,
+  UserBadgeData,
+  ReferralData
+} from '../../types/database.js';
+
+export type StorageDriver = 'lowdb' | 'sqlite';
+
+export interface QuestFilter {
+  status?: QuestStatus;          // Exact stored status
+  sponsor?: string;              // Sponsor address (case-insensitive)
+  fromBlock?: number;            // Quests created at or after this block
+}
+
+export interface ParticipationFilter {
+  questId?: string;              // Participations of one quest
+  userAddress?: string;          // Participations of one user (case-insensitive)
+  fromBlock?: number;            // Participations recorded at or after this block
+}
+
+export interface ReferralFilter {
+  questId?: string;              // Referrals to one quest
+  referrer?: string;             // Referrals made by one address (case-insensitive)
+}
+
+export interface UndoLogRange {
+  fromBlock?: number;            // Entries with blockNumber >= fromBlock
+  beforeBlock?: number;          // Entries with blockNumber < beforeBlock
+}
+
+/**
+ * Persistence backend used by DatabaseService.
+ *
+ * Adapters only store and query records; merge rules, statistics and
+ * rollback logic stay in DatabaseService so every backend behaves the same.
+ */
+export interface StorageAdapter {
+  readonly driver: StorageDriver;
+
+  init(): Promise<void>;
+  close(): Promise<void>;
+
+  /**
+   * Run fn atomically: either all of its writes are persisted or none are.
+   * Nested calls roll back independently without aborting the outer one.
+   * Adapters assume a single caller; wrap them with withTransactionLock
+   * (DatabaseService does) when calls can interleave.
+   */
+  transaction<T>(fn: () => Promise<T>): Promise<T>;
+
+  // Quests (keyed by id)
+  getQuests(filter?: QuestFilter): Promise<QuestData[]>;
+  getQuestById(id: string): Promise<QuestData | null>;
+  saveQuest(quest: QuestData): Promise<void>;
+  deleteQuest(id: string): Promise<boolean>;
+  countQuests(): Promise<number>;
+
+  // Participations (keyed by questId + userAddress)
+  getParticipations(filter?: ParticipationFilter): Promise<ParticipationData[]>;
+  getParticipationById(id: string): Promise<ParticipationData | null>;
+  saveParticipation(participation: ParticipationData): Promise<void>;
+  deleteParticipation(id: string): Promise<boolean>;
+  countParticipations(): Promise<number>;
+
+  // Users (keyed by lowercased address)
+  getUsers(): Promise<UserData[]>;
+  getUserByAddress(address: string): Promise<UserData | null>;
+  saveUser(user: UserData): Promise<void>;
+  deleteUser(address: string): Promise<boolean>;
+
+  // Indexer state
+  getIndexerState(): Promise<IndexerState>;
+  saveIndexerState(state: IndexerState): Promise<void>;
+
+  // Reorg undo journal, in insertion order
+  getUndoLog(range?: UndoLogRange): Promise<UndoLogEntry[]>;
+  appendUndoLog(entry: UndoLogEntry): Promise<void>;
+  deleteUndoLog(range: UndoLogRange): Promise<void>;
+
+  // Applied chain events (idempotency keys)
+  hasProcessedEvent(id: string): Promise<boolean>;
+  addProcessedEvent(event: ProcessedEvent): Promise<void>;
+  deleteProcessedEvents(fromBlock: number): Promise<void>;
+
+  // SIWE nonces (keyed by lowercased address)
+  getNonce(address: string): Promise<AuthNonce | null>;
+  saveNonce(nonce: AuthNonce): Promise<void>;
+  deleteNonce(address: string): Promise<boolean>;
+  deleteExpiredNonces(before: number): Promise<void>;
+
+  // Auth sessions (keyed by JWT id)
+  getSession(id: string): Promise<AuthSession | null>;
+  getSessionsByAddress(address: string): Promise<AuthSession[]>;
+  saveSession(session: AuthSession): Promise<void>;
+  deleteExpiredSessions(before: number): Promise<void>;
+
+  // Quest drafts (keyed by id)
+  getDraftsBySponsor(sponsor: string): Promise<QuestDraftData[]>;
+  getDraftById(id: string): Promise<QuestDraftData | null>;
+  saveDraft(draft: QuestDraftData): Promise<void>;
+  deleteDraft(id: string): Promise<boolean>;
+
+  // Sponsor quest templates (keyed by id)
+  getTemplatesBySponsor(sponsor: string): Promise<QuestTemplateData[]>;
+  getTemplateById(id: string): Promise<QuestTemplateData | null>;
+  saveTemplate(template: QuestTemplateData): Promise<void>;
+  deleteTemplate(id: string): Promise<boolean>;
+
+  // Earned badges (keyed by `${address}:${badgeId}`)
+  getBadgesByAddress(address: string): Promise<UserBadgeData[]>;
+  saveBadge(badge: UserBadgeData): Promise<void>;
+  deleteBadge(id: string): Promise<boolean>;
+
+  // Quest referrals (keyed by `${questId}-${referee}`)
+  getReferrals(filter?: ReferralFilter): Promise<ReferralData[]>;
+  getReferralById(id: string): Promise<ReferralData | null>;
+  saveReferral(referral: ReferralData): Promise<void>;
+  deleteReferral(id: string): Promise<boolean>;
+
+  // Whole dataset (backups, migrations, resets)
+  exportData(): Promise<DatabaseSchema>;
+  importData(data: DatabaseSchema): Promise<void>;
+}
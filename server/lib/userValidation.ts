@@ -1,4 +1,6 @@
 import { z } from 'zod'
+import type { UserData } from '../types/database.js'
+import type { XAccountResponse } from '../types/user.js'
 
 // EVM address validation regex
 const EVM_ADDRESS_REGEX = /^0x[a-fA-F0-9]{40}$/
@@ -139,10 +141,23 @@ export function transformUserToApiFormat(dbUser: any) {
     bio: dbUser.bio,
     createdAt: new Date(dbUser.createdAt).toISOString(),
     updatedAt: new Date(dbUser.updatedAt).toISOString(),
-    lastLoginAt: dbUser.lastLoginAt ? new Date(dbUser.lastLoginAt).toISOString() : undefined
+    lastLoginAt: dbUser.lastLoginAt ? new Date(dbUser.lastLoginAt).toISOString() : undefined,
+    linkedAddresses: dbUser.linkedAddresses || [],
+    xAccount: transformXAccountToApiFormat(dbUser)
   }
 }
 
+// Transform the bound X account fields of a database user (null when none is bound)
+export function transformXAccountToApiFormat(dbUser: Pick<UserData, 'xUserId' | 'xHandle' | 'xVerifiedAt'>): XAccountResponse | null {
+  return dbUser.xUserId && dbUser.xHandle
+    ? {
+        userId: dbUser.xUserId,
+        handle: dbUser.xHandle,
+        verifiedAt: new Date(dbUser.xVerifiedAt ?? 0).toISOString()
+      }
+    : null
+}
+
 // Transform API format to database format for users
 export function transformUserToDbFormat(userData: UserFormData) {
   const now = Date.now();
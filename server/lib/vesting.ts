@@ -0,0 +1,278 @@
+import { ethers } from 'ethers';
+import { database as defaultDatabase, DatabaseService } from './database.js';
+import { claimTime } from './participations.js';
+import type { QuestData, ParticipationData } from '../types/database.js';
+
+// Points on the projected unlock curve returned per position
+const SCHEDULE_POINTS = 24;
+
+const VESTING_CONTRACT_ABI = [
+  "function getMultipleVestingInfo(uint256 _questId, address[] _users) external view returns (tuple(address user, uint256 vestedAmount, uint256 claimedAmount, uint256 claimableAmount, bool isQualified)[] vestingInfos)"
+];
+
+export interface VestingSchedulePoint {
+  timestamp: number;             // ms
+  vestedAmount: string;          // Cumulative unlocked amount at timestamp (wei)
+}
+
+export interface OnChainVestingInfo {
+  qualified: boolean;
+  vestedAmount: string;
+  claimedAmount: string;
+  claimableAmount: string;
+}
+
+export interface VestingPosition {
+  questId: string;
+  title: string;
+  totalAmount: string;           // rewardPerUser (wei)
+  vestedAmount: string;          // Unlocked so far (wei)
+  claimedAmount: string;         // Already withdrawn (wei)
+  claimableAmount: string;       // vested - claimed (wei)
+  lockedAmount: string;          // total - vested (wei)
+  indexedClaimedAmount: string;  // Sum of indexed VestingRewardClaimed events (wei)
+  lastClaimedAt: number | null;  // Block time of the latest indexed claim (ms)
+  vestingStart: number;          // ms (quest startTime)
+  vestingEnd: number;            // ms
+  vestingProgress: number;       // 0-100
+  source: 'contract' | 'indexed';
+  schedule: VestingSchedulePoint[];
+}
+
+type AmountKey = 'totalAmount' | 'vestedAmount' | 'claimedAmount' | 'claimableAmount' | 'lockedAmount';
+
+export interface UserVesting {
+  address: string;
+  totals: {
+    totalAmount: string;
+    vestedAmount: string;
+    claimedAmount: string;
+    claimableAmount: string;
+    lockedAmount: string;
+  };
+  positions: VestingPosition[];
+}
+
+/**
+ * Reads per-user vesting state from the QuestSystem contract
+ */
+export interface VestingReader {
+  getVestingInfo(questId: string, user: string): Promise<OnChainVestingInfo>;
+}
+
+/**
+ * Reads vesting state with one contract call per quest and user, cached until a new block is seen
+ */
+export class ContractVestingReader implements VestingReader {
+  private provider: ethers.Provider;
+  private contract: ethers.Contract;
+  private cacheBlock = -1;
+  private cache = new Map<string, Promise<OnChainVestingInfo>>();
+
+  constructor(rpcUrl: string, contractAddress: string, provider?: ethers.Provider) {
+    this.provider = provider || new ethers.JsonRpcProvider(rpcUrl);
+    this.contract = new ethers.Contract(contractAddress, VESTING_CONTRACT_ABI, this.provider);
+  }
+
+  async getVestingInfo(questId: string, user: string): Promise<OnChainVestingInfo> {
+    const blockNumber = await this.provider.getBlockNumber();
+    if (blockNumber !== this.cacheBlock) {
+      this.cacheBlock = blockNumber;
+      this.cache.clear();
+    }
+
+    const key = `${questId}-${user.toLowerCase()}`;
+    let info = this.cache.get(key);
+    if (!info) {
+      info = this.readVestingInfo(questId, user, blockNumber);
+      // Failed reads are retried on the next request
+      info.catch(() => this.cache.delete(key));
+      this.cache.set(key, info);
+    }
+    return info;
+  }
+
+  private async readVestingInfo(questId: string, user: string, blockNumber: number): Promise<OnChainVestingInfo> {
+    const [info] = await this.contract.getMultipleVestingInfo(questId, [user], { blockTag: blockNumber });
+
+    return {
+      qualified: Boolean(info.isQualified),
+      vestedAmount: info.vestedAmount.toString(),
+      claimedAmount: info.claimedAmount.toString(),
+      claimableAmount: info.claimableAmount.toString()
+    };
+  }
+}
+
+export class VestingCalculator {
+  /**
+   * Linear unlock from startTime over vestingDuration (mirrors QuestSystem._calculateVestedAmount)
+   */
+  static getVestedAmount(quest: QuestData, at: number = Date.now()): bigint {
+    const total = BigInt(quest.rewardPerUser);
+    if (at <= quest.startTime) {
+      return 0n;
+    }
+
+    const durationMs = quest.vestingDuration * 1000;
+    if (durationMs <= 0 || at >= quest.startTime + durationMs) {
+      return total;
+    }
+
+    // Contract works in whole seconds
+    const elapsed = BigInt(Math.floor((at - quest.startTime) / 1000));
+    return (total * elapsed) / BigInt(quest.vestingDuration);
+  }
+
+  static getVestingEnd(quest: QuestData): number {
+    return quest.startTime + quest.vestingDuration * 1000;
+  }
+
+  /**
+   * Projected unlock curve from vesting start to end
+   */
+  static getUnlockSchedule(quest: QuestData, points: number = SCHEDULE_POINTS): VestingSchedulePoint[] {
+    const start = quest.startTime;
+    const end = this.getVestingEnd(quest);
+    if (end <= start) {
+      return [{ timestamp: start, vestedAmount: quest.rewardPerUser }];
+    }
+
+    const step = (end - start) / points;
+    const schedule: VestingSchedulePoint[] = [];
+    for (let i = 0; i <= points; i++) {
+      const timestamp = Math.round(start + step * i);
+      schedule.push({
+        timestamp,
+        vestedAmount: this.getVestedAmount(quest, timestamp).toString()
+      });
+    }
+    return schedule;
+  }
+
+  /**
+   * Combine quest config, indexed claims and (optionally) contract state into one position
+   */
+  static buildPosition(
+    quest: QuestData,
+    participation: ParticipationData | null,
+    onChain: OnChainVestingInfo | null,
+    now: number = Date.now()
+  ): VestingPosition {
+    const total = BigInt(quest.rewardPerUser);
+    const indexedClaimed = participation ? BigInt(participation.claimedAmount) : 0n;
+
+    const vested = onChain ? BigInt(onChain.vestedAmount) : this.getVestedAmount(quest, now);
+    const claimed = onChain ? BigInt(onChain.claimedAmount) : indexedClaimed;
+    const claimable = onChain
+      ? BigInt(onChain.claimableAmount)
+      : (vested > claimed ? vested - claimed : 0n);
+
+    const vestingEnd = this.getVestingEnd(quest);
+    const vestingProgress = total > 0n ? Number((vested * 10000n) / total) / 100 : 0;
+
+    return {
+      questId: quest.id,
+      title: quest.title,
+      totalAmount: total.toString(),
+      vestedAmount: vested.toString(),
+      claimedAmount: claimed.toString(),
+      claimableAmount: claimable.toString(),
+      lockedAmount: (total > vested ? total - vested : 0n).toString(),
+      indexedClaimedAmount: indexedClaimed.toString(),
+      lastClaimedAt: participation ? claimTime(participation) : null,
+      vestingStart: quest.startTime,
+      vestingEnd,
+      vestingProgress,
+      source: onChain ? 'contract' : 'indexed',
+      schedule: this.getUnlockSchedule(quest)
+    };
+  }
+}
+
+export interface VestingServiceOptions {
+  database?: DatabaseService;
+  reader?: VestingReader | null; // null = indexed data only
+}
+
+export class VestingService {
+  private database: DatabaseService;
+  private reader: VestingReader | null;
+
+  constructor(options: VestingServiceOptions = {}) {
+    this.database = options.database || defaultDatabase;
+    this.reader = options.reader ?? null;
+  }
+
+  /**
+   * Every vesting quest the user qualified for, with vested/claimed/claimable amounts.
+   * Qualification emits no event for vesting quests, so the contract is the source of truth
+   * when a reader is configured; otherwise only quests with indexed claims are listed.
+   */
+  async getUserVesting(address: string, now: number = Date.now()): Promise<UserVesting> {
+    const user = address.toLowerCase();
+    const vestingQuests = (await this.database.getQuests()).filter(q => q.isVesting && q.status !== 'canceled');
+    const participations = await this.database.getParticipationsByUser(address);
+    const participationByQuest = new Map(
+      participations.map(p => [p.questId, p] as [string, ParticipationData])
+    );
+
+    const positions: VestingPosition[] = [];
+    for (const quest of vestingQuests) {
+      const participation = participationByQuest.get(quest.id) || null;
+
+      let onChain: OnChainVestingInfo | null = null;
+      if (this.reader) {
+        try {
+          onChain = await this.reader.getVestingInfo(quest.id, user);
+        } catch (error) {
+          console.error(`Failed to read vesting info for quest ${quest.id}:`, error);
+        }
+      }
+
+      const qualified = onChain ? onChain.qualified : participation !== null;
+      if (!qualified) {
+        continue;
+      }
+
+      positions.push(VestingCalculator.buildPosition(quest, participation, onChain, now));
+    }
+
+    // Most claimable first
+    positions.sort((a, b) => {
+      const diff = BigInt(b.claimableAmount) - BigInt(a.claimableAmount);
+      return diff > 0n ? 1 : diff < 0n ? -1 : 0;
+    });
+
+    const sum = (key: AmountKey) => positions.reduce((acc, p) => acc + BigInt(p[key]), 0n).toString();
+
+    return {
+      address,
+      totals: {
+        totalAmount: sum('totalAmount'),
+        vestedAmount: sum('vestedAmount'),
+        claimedAmount: sum('claimedAmount'),
+        claimableAmount: sum('claimableAmount'),
+        lockedAmount: sum('lockedAmount')
+      },
+      positions
+    };
+  }
+}
+
+let _vestingService: VestingService | null = null;
+
+/**
+ * Shared service; contract reads are enabled when QUEST_CONTRACT_ADDRESS is configured
+ */
+export function getVestingService(): VestingService {
+  if (!_vestingService) {
+    const contractAddress = process.env.QUEST_CONTRACT_ADDRESS;
+    const reader = contractAddress && contractAddress.trim() !== ''
+      ? new ContractVestingReader(process.env.MONAD_RPC_URL || 'https://testnet1.monad.xyz', contractAddress)
+      : null;
+
+    _vestingService = new VestingService({ reader });
+  }
+  return _vestingService;
+}
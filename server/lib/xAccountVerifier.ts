@@ -0,0 +1,118 @@
+import { getJsonString } from './attestationVerifier.js';
+import type { AttestationInput } from './attestationVerifier.js';
+
+/**
+ * Checks a zkTLS attestation of the user's own X account before it is bound to a wallet.
+ * The Primus signature itself is checked separately with validateAttestation.
+ */
+
+export type XAccountCheckId = 'recipient' | 'timestamp' | 'template' | 'requestUrl' | 'userId' | 'handle';
+
+export interface XAccountCheck {
+  id: XAccountCheckId;
+  passed: boolean;
+  expected?: string;
+  actual?: string;
+  message: string;
+}
+
+export interface XAccountVerification {
+  valid: boolean;                // Every check passed
+  xUserId: string;               // user_id_str from the attestation data ('' when missing)
+  xHandle: string;               // screen_name from the attestation data ('' when missing)
+  checks: XAccountCheck[];
+}
+
+// Attestations older than this cannot be used to bind an account
+export const X_ACCOUNT_ATTESTATION_MAX_AGE_MS = 10 * 60 * 1000;
+
+// The only request that returns the signed-in account itself; any other X endpoint can return someone else
+export const X_ACCOUNT_API_URL = 'https://api.x.com/1.1/account/verify_credentials.json';
+
+// Primus template of the X account attestation, echoed back in the attestation's additionParams
+export const X_ACCOUNT_TEMPLATE_ID = process.env.PRIMUS_X_ACCOUNT_TEMPLATE_ID || '';
+
+/**
+ * Origin and path of a URL, or '' when it does not parse
+ */
+function endpointOf(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.origin}${parsed.pathname}`;
+  } catch {
+    return '';
+  }
+}
+
+function templateIdOf(additionParams: string): string {
+  try {
+    const params = JSON.parse(additionParams);
+    return typeof params?.attTemplateID === 'string' ? params.attTemplateID : '';
+  } catch {
+    return '';
+  }
+}
+
+export function verifyXAccountAttestation(
+  attestation: AttestationInput,
+  options: { userAddress: string; now?: number; templateId?: string }
+): XAccountVerification {
+  const now = options.now ?? Date.now();
+  const templateId = options.templateId ?? X_ACCOUNT_TEMPLATE_ID;
+  const attestedTemplateId = templateIdOf(attestation.additionParams || '');
+  const url = attestation.request?.url || '';
+  const data = attestation.data || '';
+  const attestedAt = Number(attestation.timestamp || 0);
+  const xUserId = getJsonString(data, 'user_id_str');
+  const xHandle = getJsonString(data, 'screen_name');
+
+  const checks: XAccountCheck[] = [
+    {
+      id: 'recipient',
+      passed: (attestation.recipient || '').toLowerCase() === options.userAddress.toLowerCase(),
+      expected: options.userAddress,
+      actual: attestation.recipient,
+      message: 'Attestation recipient must be the wallet being verified'
+    },
+    {
+      id: 'timestamp',
+      passed: attestedAt <= now && now - attestedAt <= X_ACCOUNT_ATTESTATION_MAX_AGE_MS,
+      expected: `<= ${X_ACCOUNT_ATTESTATION_MAX_AGE_MS / 1000}s old`,
+      actual: `${Math.round((now - attestedAt) / 1000)}s old`,
+      message: 'Attestation must be recent and not in the future'
+    },
+    {
+      id: 'template',
+      passed: templateId !== '' && attestedTemplateId === templateId,
+      expected: templateId || '(not configured)',
+      actual: attestedTemplateId || '(missing)',
+      message: 'Attestation must be made with the X account template'
+    },
+    {
+      id: 'requestUrl',
+      passed: endpointOf(url) === X_ACCOUNT_API_URL,
+      expected: X_ACCOUNT_API_URL,
+      actual: url,
+      message: 'Attestation must come from the X account credentials endpoint'
+    },
+    {
+      id: 'userId',
+      passed: /^\d+$/.test(xUserId),
+      actual: xUserId || '(missing)',
+      message: 'Attestation data must include the numeric X user id (user_id_str)'
+    },
+    {
+      id: 'handle',
+      passed: /^[A-Za-z0-9_]{1,15}$/.test(xHandle),
+      actual: xHandle || '(missing)',
+      message: 'Attestation data must include the X handle (screen_name)'
+    }
+  ];
+
+  return {
+    valid: checks.every(check => check.passed),
+    xUserId,
+    xHandle,
+    checks
+  };
+}
@@ -1,4 +1,5 @@
 import { PrimusZKTLS } from '@primuslabs/zktls-js-sdk';
+import { zktlsOperations } from './metrics.js';
 
 // ZKTLS Configuration
 export const ZKTLS_CONFIG = {
@@ -57,10 +58,12 @@ export async function signAttestation(signParams: string): Promise<string> {
     const signResult = await zktls.sign(signParams);
     
     console.log('ZKTLS signature generated successfully');
+    zktlsOperations.inc({ operation: 'sign', result: 'success' });
     return signResult;
     
   } catch (error) {
     console.error('Error signing attestation:', error);
+    zktlsOperations.inc({ operation: 'sign', result: 'error' });
     throw new Error(`ZKTLS signing failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
@@ -76,10 +79,12 @@ export async function validateAttestation(attestation: unknown): Promise<boolean
     const isValid = await zktls.verifyAttestation(attestation);
     
     console.log('ZKTLS attestation validation result:', isValid);
+    zktlsOperations.inc({ operation: 'validate', result: isValid ? 'valid' : 'invalid' });
     return isValid;
     
   } catch (error) {
     console.error('Error validating attestation:', error);
+    zktlsOperations.inc({ operation: 'validate', result: 'error' });
     return false;
   }
 }
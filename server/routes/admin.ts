@@ -0,0 +1,213 @@
+import type { FastifyInstance, FastifyReply } from 'fastify';
+import { authenticate, requireAdmin, getAuthenticatedAddress } from '../lib/authMiddleware.js';
+import { eventIndexer } from '../lib/eventIndexer.js';
+import type { IndexerProcessingError, ReplayResult } from '../lib/eventIndexer.js';
+
+type IndexerStatus = Awaited<ReturnType<typeof eventIndexer.getStatus>>;
+
+type ErrorReply = {
+  error: string;
+  message: string;
+  statusCode: number;
+};
+
+function isIndexerConfigured(): boolean {
+  return !!process.env.QUEST_CONTRACT_ADDRESS?.trim();
+}
+
+function sendNotConfigured(reply: FastifyReply) {
+  return reply.status(503).send({
+    error: 'Indexer Not Configured',
+    message: 'Event indexer not configured - no contract address',
+    statusCode: 503
+  });
+}
+
+export async function adminRoutes(fastify: FastifyInstance) {
+  const preHandler = [authenticate, requireAdmin];
+
+  // POST /api/admin/indexer/pause - Stop polling for new blocks
+  fastify.post<{
+    Reply: { success: true; data: IndexerStatus } | ErrorReply;
+  }>('/api/admin/indexer/pause', { preHandler }, async (request, reply) => {
+    if (!isIndexerConfigured()) return sendNotConfigured(reply);
+
+    try {
+      eventIndexer.stopPolling();
+      fastify.log.info(`Indexer polling paused by ${getAuthenticatedAddress(request)}`);
+
+      return reply.send({
+        success: true,
+        data: await eventIndexer.getStatus()
+      });
+    } catch (error) {
+      fastify.log.error('Error pausing indexer:', error);
+      return reply.status(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to pause indexer',
+        statusCode: 500
+      });
+    }
+  });
+
+  // POST /api/admin/indexer/resume - Resume polling for new blocks
+  fastify.post<{
+    Reply: { success: true; data: IndexerStatus } | ErrorReply;
+  }>('/api/admin/indexer/resume', { preHandler }, async (request, reply) => {
+    if (!isIndexerConfigured()) return sendNotConfigured(reply);
+
+    try {
+      eventIndexer.startPolling();
+      fastify.log.info(`Indexer polling resumed by ${getAuthenticatedAddress(request)}`);
+
+      return reply.send({
+        success: true,
+        data: await eventIndexer.getStatus()
+      });
+    } catch (error) {
+      fastify.log.error('Error resuming indexer:', error);
+      return reply.status(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to resume indexer',
+        statusCode: 500
+      });
+    }
+  });
+
+  // POST /api/admin/indexer/reindex - Rewind the cursor and index again from a block
+  fastify.post<{
+    Body: { fromBlock: number };
+    Reply: { success: true; data: { fromBlock: number; toBlock: number } } | ErrorReply;
+  }>('/api/admin/indexer/reindex', { preHandler }, async (request, reply) => {
+    if (!isIndexerConfigured()) return sendNotConfigured(reply);
+
+    try {
+      const fromBlock = Number(request.body?.fromBlock);
+      const status = await eventIndexer.getStatus();
+
+      if (!Number.isInteger(fromBlock) || fromBlock < status.deploymentBlock || fromBlock > status.currentBlock) {
+        return reply.status(400).send({
+          error: 'Invalid Block',
+          message: `fromBlock must be an integer between ${status.deploymentBlock} and ${status.currentBlock}`,
+          statusCode: 400
+        });
+      }
+
+      if (status.isRunning) {
+        return reply.status(409).send({
+          error: 'Indexer Busy',
+          message: 'Indexer is processing blocks, try again shortly',
+          statusCode: 409
+        });
+      }
+
+      // Reindexing can take a long time, so it runs in the background; follow progress via /indexer/status
+      eventIndexer.reindexFromBlock(fromBlock).catch(error => {
+        fastify.log.error(`Reindex from block ${fromBlock} failed:`, error);
+      });
+      fastify.log.info(`Reindex from block ${fromBlock} started by ${getAuthenticatedAddress(request)}`);
+
+      return reply.status(202).send({
+        success: true,
+        data: { fromBlock, toBlock: status.currentBlock }
+      });
+    } catch (error) {
+      fastify.log.error('Error starting reindex:', error);
+      return reply.status(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to start reindex',
+        statusCode: 500
+      });
+    }
+  });
+
+  // POST /api/admin/indexer/replay - Re-apply the contract events of one transaction
+  fastify.post<{
+    Body: { transactionHash: string };
+    Reply: { success: true; data: ReplayResult } | ErrorReply;
+  }>('/api/admin/indexer/replay', { preHandler }, async (request, reply) => {
+    if (!isIndexerConfigured()) return sendNotConfigured(reply);
+
+    const transactionHash = request.body?.transactionHash;
+    if (typeof transactionHash !== 'string' || !/^0x[a-fA-F0-9]{64}$/.test(transactionHash)) {
+      return reply.status(400).send({
+        error: 'Invalid Transaction Hash',
+        message: 'transactionHash must be a 32-byte hex string',
+        statusCode: 400
+      });
+    }
+
+    try {
+      const result = await eventIndexer.replayTransaction(transactionHash);
+      fastify.log.info(`Transaction ${transactionHash} replayed by ${getAuthenticatedAddress(request)}`);
+
+      return reply.send({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to replay transaction';
+
+      if (message.includes('not found') || message.includes('not been indexed')) {
+        return reply.status(404).send({
+          error: 'Transaction Not Indexed',
+          message,
+          statusCode: 404
+        });
+      }
+      if (message.includes('while indexer is running')) {
+        return reply.status(409).send({
+          error: 'Indexer Busy',
+          message,
+          statusCode: 409
+        });
+      }
+
+      fastify.log.error('Error replaying transaction:', error);
+      return reply.status(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to replay transaction',
+        statusCode: 500
+      });
+    }
+  });
+
+  // GET /api/admin/indexer/errors - Recent processing failures with the failing log
+  fastify.get<{
+    Querystring: { limit?: string };
+    Reply: { success: true; data: { errors: IndexerProcessingError[] } } | ErrorReply;
+  }>('/api/admin/indexer/errors', { preHandler }, async (request, reply) => {
+    if (!isIndexerConfigured()) return sendNotConfigured(reply);
+
+    const limit = Math.min(parseInt(request.query.limit || '20') || 20, 100);
+
+    return reply.send({
+      success: true,
+      data: { errors: eventIndexer.getRecentErrors(limit) }
+    });
+  });
+
+  // PUT /api/admin/indexer/batch-size - Blocks fetched per getLogs request
+  fastify.put<{
+    Body: { batchSize: number };
+    Reply: { success: true; data: IndexerStatus } | ErrorReply;
+  }>('/api/admin/indexer/batch-size', { preHandler }, async (request, reply) => {
+    if (!isIndexerConfigured()) return sendNotConfigured(reply);
+
+    try {
+      eventIndexer.setBatchSize(Number(request.body?.batchSize));
+    } catch (error) {
+      return reply.status(400).send({
+        error: 'Invalid Batch Size',
+        message: error instanceof Error ? error.message : 'Invalid batch size',
+        statusCode: 400
+      });
+    }
+
+    fastify.log.info(`Indexer batch size set to ${request.body.batchSize} by ${getAuthenticatedAddress(request)}`);
+    return reply.send({
+      success: true,
+      data: await eventIndexer.getStatus()
+    });
+  });
+}
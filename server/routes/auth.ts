@@ -11,25 +11,49 @@ import {
   generateNonce, 
   createSiweMessage,
   normalizeAddress,
-  getTokenExpiration
+  getTokenExpiration,
+  generateSessionId
 } from '../lib/auth.js'
-import { authenticate } from '../lib/authMiddleware.js'
+import { authenticate, getAuthenticatedAddress, getSessionId } from '../lib/authMiddleware.js'
 import type { AuthResponse } from '../types/auth.js'
 
-// Store nonces temporarily (in production, use Redis or database)
-const nonceStore = new Map<string, { nonce: string; expiresAt: number }>()
-
-// Clean up expired nonces every 5 minutes
+// Clean up expired nonces and sessions every 5 minutes
 setInterval(() => {
-  const now = Date.now()
-  for (const [address, data] of nonceStore.entries()) {
-    if (data.expiresAt < now) {
-      nonceStore.delete(address)
-    }
-  }
+  database.pruneAuthRecords().catch(error => {
+    console.error('Auth record cleanup error:', error)
+  })
 }, 5 * 60 * 1000)
 
 export default async function authRoutes(fastify: FastifyInstance) {
+  /**
+   * Create a session and sign a JWT carrying its ID
+   */
+  async function issueSessionToken(address: string): Promise<{ token: string; expiresAt: number }> {
+    const tokenExpiration = getTokenExpiration()
+    const sessionId = generateSessionId()
+
+    await database.createSession({
+      id: sessionId,
+      address,
+      createdAt: Date.now(),
+      expiresAt: tokenExpiration * 1000
+    })
+
+    const token = fastify.jwt.sign(
+      {
+        address,
+        jti: sessionId,
+        iat: Math.floor(Date.now() / 1000),
+        exp: tokenExpiration,
+        iss: 'proofquest',
+        aud: 'proofquest-users'
+      },
+      { expiresIn: '30d' }
+    )
+
+    return { token, expiresAt: tokenExpiration }
+  }
+
   // Generate nonce for SIWE
   fastify.post('/api/auth/nonce', async (request: FastifyRequest, reply: FastifyReply) => {
     try {
@@ -61,8 +85,9 @@ export default async function authRoutes(fastify: FastifyInstance) {
       const nonce = generateNonce()
       const expirationTime = new Date(Date.now() + 10 * 60 * 1000) // 10 minutes
       
-      // Store nonce for validation
-      nonceStore.set(address, {
+      // Store nonce for validation (replaces any pending nonce of this address)
+      await database.saveNonce({
+        address,
         nonce,
         expiresAt: expirationTime.getTime()
       })
@@ -116,9 +141,17 @@ export default async function authRoutes(fastify: FastifyInstance) {
       const address = normalizeAddress(verification.address)
       const parsedMessage = verification.parsedMessage
 
-      // Verify nonce
-      const storedNonce = nonceStore.get(address)
-      if (!storedNonce || storedNonce.nonce !== parsedMessage.nonce) {
+      // Verify and consume nonce (single use, even when it turns out to be expired)
+      const storedNonce = await database.consumeNonce(address, parsedMessage.nonce)
+      if (!storedNonce) {
+        return reply.code(401).send({
+          error: 'Invalid Nonce',
+          message: 'Nonce is invalid or expired'
+        })
+      }
+
+      // Wallet link challenges cannot be used to sign in
+      if (storedNonce.linkTo) {
         return reply.code(401).send({
           error: 'Invalid Nonce',
           message: 'Nonce is invalid or expired'
@@ -127,16 +160,12 @@ export default async function authRoutes(fastify: FastifyInstance) {
 
       // Check if nonce is expired
       if (storedNonce.expiresAt < Date.now()) {
-        nonceStore.delete(address)
         return reply.code(401).send({
           error: 'Expired Nonce',
           message: 'Nonce has expired'
         })
       }
 
-      // Remove used nonce
-      nonceStore.delete(address)
-
       // Check if user exists, create if not
       let user = await database.getUserByAddress(address);
 
@@ -164,18 +193,8 @@ export default async function authRoutes(fastify: FastifyInstance) {
         await database.updateUserLastLogin(address);
       }
 
-      // Generate JWT token
-      const tokenExpiration = getTokenExpiration()
-      const token = fastify.jwt.sign(
-        {
-          address,
-          iat: Math.floor(Date.now() / 1000),
-          exp: tokenExpiration,
-          iss: 'proofquest',
-          aud: 'proofquest-users'
-        },
-        { expiresIn: '30d' }
-      )
+      // Generate JWT token for a new session
+      const { token, expiresAt: tokenExpiration } = await issueSessionToken(address)
 
       const response: AuthResponse = {
         success: true,
@@ -184,7 +203,8 @@ export default async function authRoutes(fastify: FastifyInstance) {
           address: user.address,
           nickname: user.nickname,
           avatarUrl: user.avatarUrl,
-          bio: user.bio
+          bio: user.bio,
+          xHandle: user.xHandle
         },
         expiresAt: new Date(tokenExpiration * 1000).toISOString()
       }
@@ -232,7 +252,8 @@ export default async function authRoutes(fastify: FastifyInstance) {
           address: userData.address,
           nickname: userData.nickname,
           avatarUrl: userData.avatarUrl,
-          bio: userData.bio
+          bio: userData.bio,
+          xHandle: userData.xHandle
         },
         isAuthenticated: true
       })
@@ -253,18 +274,9 @@ export default async function authRoutes(fastify: FastifyInstance) {
     try {
       const user = (request as any).user
       
-      // Generate new token with extended expiration
-      const tokenExpiration = getTokenExpiration()
-      const newToken = fastify.jwt.sign(
-        {
-          address: user.address,
-          iat: Math.floor(Date.now() / 1000),
-          exp: tokenExpiration,
-          iss: 'proofquest',
-          aud: 'proofquest-users'
-        },
-        { expiresIn: '30d' }
-      )
+      // Rotate the session: the new token replaces the current one
+      const { token: newToken, expiresAt: tokenExpiration } = await issueSessionToken(user.address)
+      await database.revokeSession(user.sessionId)
 
       return reply.code(200).send({
         success: true,
@@ -281,11 +293,46 @@ export default async function authRoutes(fastify: FastifyInstance) {
     }
   })
 
-  // Sign out (client-side token removal, server doesn't store tokens)
-  fastify.post('/api/auth/signout', async (_request: FastifyRequest, reply: FastifyReply) => {
-    return reply.code(200).send({
-      success: true,
-      message: 'Signed out successfully'
-    })
+  // Sign out (revokes the session of the current token)
+  fastify.post('/api/auth/signout', {
+    preHandler: [authenticate]
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      await database.revokeSession(getSessionId(request)!)
+
+      return reply.code(200).send({
+        success: true,
+        message: 'Signed out successfully'
+      })
+
+    } catch (error) {
+      console.error('Sign-out error:', error)
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to sign out'
+      })
+    }
+  })
+
+  // Sign out everywhere (revokes every session of the authenticated address)
+  fastify.post('/api/auth/signout-all', {
+    preHandler: [authenticate]
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const revokedSessions = await database.revokeAllSessions(getAuthenticatedAddress(request)!)
+
+      return reply.code(200).send({
+        success: true,
+        revokedSessions,
+        message: 'Signed out of all sessions'
+      })
+
+    } catch (error) {
+      console.error('Sign-out everywhere error:', error)
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to sign out of all sessions'
+      })
+    }
   })
 }
\ No newline at end of file
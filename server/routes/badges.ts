@@ -0,0 +1,54 @@
+import type { FastifyInstance } from 'fastify';
+import { BADGE_DEFINITIONS, BadgeService } from '../lib/badges.js';
+import type { BadgeDefinition, UserBadges } from '../lib/badges.js';
+
+type ErrorReply = {
+  error: string;
+  message: string;
+  statusCode: number;
+};
+
+export async function badgesRoutes(fastify: FastifyInstance) {
+  const badges = new BadgeService();
+
+  // GET /api/badges - Badge definitions and the rules that award them
+  fastify.get<{
+    Reply: { success: true; data: BadgeDefinition[] };
+  }>('/api/badges', async (request, reply) => {
+    return reply.send({
+      success: true,
+      data: BADGE_DEFINITIONS
+    });
+  });
+
+  // GET /api/users/:address/badges - Badges earned by the profile an address belongs to
+  fastify.get<{
+    Params: { address: string };
+    Reply: { success: true; data: UserBadges } | ErrorReply;
+  }>('/api/users/:address/badges', async (request, reply) => {
+    try {
+      const { address } = request.params;
+
+      const evmAddressRegex = /^0x[a-fA-F0-9]{40}$/;
+      if (!evmAddressRegex.test(address)) {
+        return reply.status(400).send({
+          error: 'Invalid Address',
+          message: 'Address must be a valid EVM address',
+          statusCode: 400
+        });
+      }
+
+      return reply.send({
+        success: true,
+        data: await badges.getUserBadges(address)
+      });
+    } catch (error) {
+      fastify.log.error('Error fetching user badges:', error);
+      return reply.status(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to fetch user badges',
+        statusCode: 500
+      });
+    }
+  });
+}
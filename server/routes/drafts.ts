@@ -0,0 +1,220 @@
+import type { FastifyInstance } from 'fastify';
+import { database } from '../lib/database.js';
+import { authenticate, requireProfileOwner } from '../lib/authMiddleware.js';
+import type { QuestDraftData } from '../types/database.js';
+import type { QuestDraftResponse } from '../types/quest.js';
+
+type ErrorReply = {
+  error: string;
+  message: string;
+  statusCode: number;
+};
+
+type DraftBody = {
+  step: number;
+  formData: Record<string, unknown>;
+};
+
+const MAX_DRAFTS_PER_SPONSOR = 20;
+const MAX_DRAFT_SIZE = 64 * 1024; // Serialized formData, in characters
+
+function transformDraftToApiFormat(draft: QuestDraftData): QuestDraftResponse {
+  return {
+    id: draft.id,
+    sponsor: draft.sponsor,
+    title: draft.title,
+    step: draft.step,
+    formData: draft.formData,
+    createdAt: new Date(draft.createdAt).toISOString(),
+    updatedAt: new Date(draft.updatedAt).toISOString()
+  };
+}
+
+function validateDraftBody(body: Partial<DraftBody> | undefined): string | null {
+  if (!body || !Number.isInteger(body.step) || body.step! < 1 || body.step! > 5) {
+    return 'step must be an integer between 1 and 5';
+  }
+  if (!body.formData || typeof body.formData !== 'object' || Array.isArray(body.formData)) {
+    return 'formData must be an object';
+  }
+  if (JSON.stringify(body.formData).length > MAX_DRAFT_SIZE) {
+    return `formData must be smaller than ${MAX_DRAFT_SIZE / 1024} KB`;
+  }
+  return null;
+}
+
+// Drafts of other sponsors are reported as missing rather than forbidden
+async function getOwnDraft(address: string, id: string): Promise<QuestDraftData | null> {
+  const draft = await database.getDraft(id);
+  return draft && draft.sponsor === address.toLowerCase() ? draft : null;
+}
+
+export async function draftRoutes(fastify: FastifyInstance) {
+  const preHandler = [authenticate, requireProfileOwner];
+
+  // GET /api/users/:address/drafts - Saved quest drafts, most recently saved first
+  fastify.get<{
+    Params: { address: string };
+    Reply: { success: true; data: QuestDraftResponse[] } | ErrorReply;
+  }>('/api/users/:address/drafts', { preHandler }, async (request, reply) => {
+    try {
+      const drafts = await database.getDraftsBySponsor(request.params.address);
+      return reply.send({
+        success: true,
+        data: drafts.map(transformDraftToApiFormat)
+      });
+    } catch (error) {
+      fastify.log.error('Error fetching drafts:', error);
+      return reply.status(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to fetch drafts',
+        statusCode: 500
+      });
+    }
+  });
+
+  // GET /api/users/:address/drafts/:id - One saved draft
+  fastify.get<{
+    Params: { address: string; id: string };
+    Reply: { success: true; data: QuestDraftResponse } | ErrorReply;
+  }>('/api/users/:address/drafts/:id', { preHandler }, async (request, reply) => {
+    try {
+      const draft = await getOwnDraft(request.params.address, request.params.id);
+      if (!draft) {
+        return reply.status(404).send({
+          error: 'Not Found',
+          message: 'Draft not found',
+          statusCode: 404
+        });
+      }
+
+      return reply.send({
+        success: true,
+        data: transformDraftToApiFormat(draft)
+      });
+    } catch (error) {
+      fastify.log.error('Error fetching draft:', error);
+      return reply.status(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to fetch draft',
+        statusCode: 500
+      });
+    }
+  });
+
+  // POST /api/users/:address/drafts - Save a new draft
+  fastify.post<{
+    Params: { address: string };
+    Body: DraftBody;
+    Reply: { success: true; data: QuestDraftResponse } | ErrorReply;
+  }>('/api/users/:address/drafts', { preHandler }, async (request, reply) => {
+    const validationError = validateDraftBody(request.body);
+    if (validationError) {
+      return reply.status(400).send({
+        error: 'Invalid Draft',
+        message: validationError,
+        statusCode: 400
+      });
+    }
+
+    try {
+      const existing = await database.getDraftsBySponsor(request.params.address);
+      if (existing.length >= MAX_DRAFTS_PER_SPONSOR) {
+        return reply.status(409).send({
+          error: 'Too Many Drafts',
+          message: `A sponsor can keep at most ${MAX_DRAFTS_PER_SPONSOR} drafts`,
+          statusCode: 409
+        });
+      }
+
+      const draft = await database.createDraft(request.params.address, request.body.step, request.body.formData);
+      return reply.status(201).send({
+        success: true,
+        data: transformDraftToApiFormat(draft)
+      });
+    } catch (error) {
+      fastify.log.error('Error creating draft:', error);
+      return reply.status(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to save draft',
+        statusCode: 500
+      });
+    }
+  });
+
+  // PUT /api/users/:address/drafts/:id - Overwrite a draft with the current form state
+  fastify.put<{
+    Params: { address: string; id: string };
+    Body: DraftBody;
+    Reply: { success: true; data: QuestDraftResponse } | ErrorReply;
+  }>('/api/users/:address/drafts/:id', { preHandler }, async (request, reply) => {
+    const validationError = validateDraftBody(request.body);
+    if (validationError) {
+      return reply.status(400).send({
+        error: 'Invalid Draft',
+        message: validationError,
+        statusCode: 400
+      });
+    }
+
+    try {
+      if (!(await getOwnDraft(request.params.address, request.params.id))) {
+        return reply.status(404).send({
+          error: 'Not Found',
+          message: 'Draft not found',
+          statusCode: 404
+        });
+      }
+
+      const draft = await database.updateDraft(request.params.id, request.body.step, request.body.formData);
+      return reply.send({
+        success: true,
+        data: transformDraftToApiFormat(draft)
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to save draft';
+
+      // Deleted in between, e.g. because its quest was just indexed
+      if (errorMessage.includes('not found')) {
+        return reply.status(404).send({
+          error: 'Not Found',
+          message: 'Draft not found',
+          statusCode: 404
+        });
+      }
+
+      fastify.log.error('Error updating draft:', error);
+      return reply.status(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to save draft',
+        statusCode: 500
+      });
+    }
+  });
+
+  // DELETE /api/users/:address/drafts/:id - Discard a draft
+  fastify.delete<{
+    Params: { address: string; id: string };
+    Reply: { success: true } | ErrorReply;
+  }>('/api/users/:address/drafts/:id', { preHandler }, async (request, reply) => {
+    try {
+      if (!(await getOwnDraft(request.params.address, request.params.id))) {
+        return reply.status(404).send({
+          error: 'Not Found',
+          message: 'Draft not found',
+          statusCode: 404
+        });
+      }
+
+      await database.deleteDraft(request.params.id);
+      return reply.send({ success: true });
+    } catch (error) {
+      fastify.log.error('Error deleting draft:', error);
+      return reply.status(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to delete draft',
+        statusCode: 500
+      });
+    }
+  });
+}
@@ -0,0 +1,106 @@
+import type { FastifyInstance } from 'fastify';
+import { database } from '../lib/database.js';
+import {
+  LEADERBOARD_METRICS,
+  LEADERBOARD_WINDOWS,
+  LeaderboardCalculator,
+  getLeaderboardSeasons
+} from '../lib/leaderboard.js';
+import type { Leaderboard, LeaderboardMetric, LeaderboardSeason, LeaderboardWindow } from '../lib/leaderboard.js';
+
+type ErrorReply = {
+  error: string;
+  message: string;
+  statusCode: number;
+};
+
+export async function leaderboardRoutes(fastify: FastifyInstance) {
+  // GET /api/leaderboards/seasons - Configured seasons, oldest first
+  fastify.get<{
+    Reply: { success: true; data: { seasons: LeaderboardSeason[] } };
+  }>('/api/leaderboards/seasons', async (request, reply) => {
+    return reply.send({
+      success: true,
+      data: { seasons: getLeaderboardSeasons() }
+    });
+  });
+
+  // GET /api/leaderboards - Ranking for a rolling window or a season, with rank changes
+  fastify.get<{
+    Querystring: {
+      metric?: string;
+      window?: string;
+      season?: string;
+      limit?: string;
+    };
+    Reply: { success: true; data: Leaderboard } | ErrorReply;
+  }>('/api/leaderboards', async (request, reply) => {
+    try {
+      const { metric = 'rewards', window = 'all', season: seasonId, limit = '50' } = request.query;
+      const limitNum = Math.min(parseInt(limit) || 50, 100);
+
+      if (!LEADERBOARD_METRICS.includes(metric as LeaderboardMetric)) {
+        return reply.status(400).send({
+          error: 'Invalid Metric',
+          message: `Metric must be one of ${LEADERBOARD_METRICS.join(', ')}`,
+          statusCode: 400
+        });
+      }
+
+      let season: LeaderboardSeason | null = null;
+      let ranges;
+      if (seasonId) {
+        const seasons = getLeaderboardSeasons();
+        season = seasons.find(item => item.id === seasonId) || null;
+        if (!season) {
+          return reply.status(404).send({
+            error: 'Not Found',
+            message: 'Season not found',
+            statusCode: 404
+          });
+        }
+        ranges = LeaderboardCalculator.seasonRanges(season, seasons);
+      } else {
+        if (!LEADERBOARD_WINDOWS.includes(window as LeaderboardWindow)) {
+          return reply.status(400).send({
+            error: 'Invalid Window',
+            message: `Window must be one of ${LEADERBOARD_WINDOWS.join(', ')}`,
+            statusCode: 400
+          });
+        }
+        ranges = LeaderboardCalculator.windowRanges(window as LeaderboardWindow);
+      }
+
+      const [quests, participations, linkedWallets] = await Promise.all([
+        database.getQuests(),
+        database.getParticipations(),
+        database.getLinkedWalletMap()
+      ]);
+
+      const leaderboard = LeaderboardCalculator.build(
+        {
+          metric: metric as LeaderboardMetric,
+          window: season ? null : window as LeaderboardWindow,
+          season,
+          ...ranges,
+          limit: limitNum
+        },
+        quests,
+        participations,
+        linkedWallets
+      );
+
+      return reply.send({
+        success: true,
+        data: leaderboard
+      });
+    } catch (error) {
+      fastify.log.error('Error fetching leaderboard:', error);
+      return reply.status(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to fetch leaderboard',
+        statusCode: 500
+      });
+    }
+  });
+}
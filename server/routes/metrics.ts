@@ -0,0 +1,29 @@
+import type { FastifyInstance } from 'fastify';
+import { eventIndexer } from '../lib/eventIndexer.js';
+import {
+  metrics,
+  PROMETHEUS_CONTENT_TYPE,
+  processResidentMemory,
+  processUptime
+} from '../lib/metrics.js';
+
+export async function metricsRoutes(fastify: FastifyInstance) {
+  // GET /metrics - Prometheus scrape endpoint
+  fastify.get('/metrics', async (request, reply) => {
+    // Refresh indexer lag at scrape time so it stays accurate while polling is paused
+    if (process.env.QUEST_CONTRACT_ADDRESS?.trim()) {
+      try {
+        await eventIndexer.getStatus();
+      } catch (error) {
+        fastify.log.error('Error refreshing indexer metrics:', error);
+      }
+    }
+
+    processResidentMemory.set(process.memoryUsage().rss);
+    processUptime.set(Math.round(process.uptime()));
+
+    return reply
+      .header('Content-Type', PROMETHEUS_CONTENT_TYPE)
+      .send(metrics.render());
+  });
+}
@@ -1,6 +1,15 @@
 import { FastifyInstance } from 'fastify';
 import { database } from '../lib/database.js';
 import { QuestStatusCalculator } from '../lib/questStatusCalculator.js';
+import { authenticate, getAuthenticatedAddress } from '../lib/authMiddleware.js';
+import {
+  PARTICIPANT_EXPORT_CONTENT_TYPES,
+  PARTICIPANT_EXPORT_FORMATS,
+  buildParticipantExport,
+  participantExportFileName,
+  renderParticipantExport
+} from '../lib/participantExport.js';
+import type { ParticipantExportFormat } from '../lib/participantExport.js';
 import type { ParticipationData } from '../types/database.js';
 
 export async function participationRoutes(fastify: FastifyInstance) {
@@ -188,6 +197,67 @@ export async function participationRoutes(fastify: FastifyInstance) {
     }
   });
 
+  // GET /api/participations/quest/:questId/export - Download every participant of a quest (sponsor only)
+  fastify.get<{
+    Params: { questId: string };
+    Querystring: { format?: string };
+    Reply: string | {
+      error: string;
+      message: string;
+      statusCode: number;
+    };
+  }>('/api/participations/quest/:questId/export', { preHandler: authenticate }, async (request, reply) => {
+    try {
+      const { questId } = request.params;
+      const { format = 'csv' } = request.query;
+
+      if (!PARTICIPANT_EXPORT_FORMATS.includes(format as ParticipantExportFormat)) {
+        return reply.status(400).send({
+          error: 'Invalid Format',
+          message: `Format must be one of ${PARTICIPANT_EXPORT_FORMATS.join(', ')}`,
+          statusCode: 400
+        });
+      }
+
+      const quest = await database.getQuestById(questId);
+      if (!quest) {
+        return reply.status(404).send({
+          error: 'Not Found',
+          message: 'Quest not found',
+          statusCode: 404
+        });
+      }
+
+      if (quest.sponsor.toLowerCase() !== getAuthenticatedAddress(request)?.toLowerCase()) {
+        return reply.status(403).send({
+          error: 'Forbidden',
+          message: 'Only the quest sponsor can export its participants',
+          statusCode: 403
+        });
+      }
+
+      const [participations, users, linkedWallets] = await Promise.all([
+        database.getParticipationsByQuest(questId),
+        database.getUsers(),
+        database.getLinkedWalletMap()
+      ]);
+      const rows = buildParticipantExport(participations, users, linkedWallets);
+      const exportFormat = format as ParticipantExportFormat;
+
+      return reply
+        .header('Content-Type', PARTICIPANT_EXPORT_CONTENT_TYPES[exportFormat])
+        .header('Content-Disposition', `attachment; filename="${participantExportFileName(questId, exportFormat)}"`)
+        .send(renderParticipantExport(questId, rows, exportFormat));
+    } catch (error) {
+      fastify.log.error('Error exporting quest participants:', error);
+      return reply.status(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to export quest participants',
+        statusCode: 500
+      });
+    }
+  });
+
   // GET /api/participations/check/:questId/:address - Check if user has participated
   fastify.get<{
     Params: { questId: string; address: string };
@@ -257,6 +327,7 @@ export async function participationRoutes(fastify: FastifyInstance) {
           totalRewardsEarned: string;
           completionRate: number;
           averageRewardPerParticipation: string;
+          linkedAddresses: string[];
           rank: number;
         }>;
         total: number;
@@ -293,14 +364,21 @@ export async function participationRoutes(fastify: FastifyInstance) {
         participations = participations.filter(p => p.claimedAt >= cutoffTime);
       }
 
-      // Group by user address
+      // Group by profile: linked wallets count towards their primary address
+      const linkedWallets = await database.getLinkedWalletMap();
+      const walletsByProfile = new Map<string, string[]>();
+      linkedWallets.forEach((primary, wallet) => {
+        walletsByProfile.set(primary, [...(walletsByProfile.get(primary) || []), wallet]);
+      });
+
       const userStats = new Map<string, {
         participations: ParticipationData[];
         totalRewards: bigint;
       }>();
 
       participations.forEach(participation => {
-        const userAddress = participation.userAddress.toLowerCase();
+        const walletAddress = participation.userAddress.toLowerCase();
+        const userAddress = linkedWallets.get(walletAddress) || walletAddress;
         if (!userStats.has(userAddress)) {
           userStats.set(userAddress, {
             participations: [],
@@ -321,7 +399,8 @@ export async function participationRoutes(fastify: FastifyInstance) {
         completionRate: 1.0, // All participations in DB are completed
         averageRewardPerParticipation: stats.participations.length > 0 
           ? (stats.totalRewards / BigInt(stats.participations.length)).toString()
-          : '0'
+          : '0',
+        linkedAddresses: walletsByProfile.get(address) || []
       }));
 
       // Sort by total rewards earned (descending)
@@ -472,17 +551,12 @@ export async function participationRoutes(fastify: FastifyInstance) {
     try {
       const { questId, userAddress, timeframe } = request.query;
       
-      let participations = await database.getParticipations();
+      let participations = await database.getParticipations({
+        questId: questId || undefined,
+        userAddress: userAddress || undefined
+      });
       
       // Apply filters
-      if (questId) {
-        participations = participations.filter(p => p.questId === questId);
-      }
-      
-      if (userAddress) {
-        participations = participations.filter(p => p.userAddress.toLowerCase() === userAddress.toLowerCase());
-      }
-      
       if (timeframe) {
         const now = Date.now();
         let cutoffTime: number;
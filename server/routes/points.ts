@@ -0,0 +1,69 @@
+import type { FastifyInstance } from 'fastify';
+import { database } from '../lib/database.js';
+import { PointsCalculator, getPointsRules } from '../lib/points.js';
+import type { PointsRules, PointsSummary } from '../lib/points.js';
+
+type ErrorReply = {
+  error: string;
+  message: string;
+  statusCode: number;
+};
+
+export async function pointsRoutes(fastify: FastifyInstance) {
+  // GET /api/points/rules - Point values and level thresholds in effect
+  fastify.get<{
+    Reply: { success: true; data: PointsRules };
+  }>('/api/points/rules', async (request, reply) => {
+    return reply.send({
+      success: true,
+      data: getPointsRules()
+    });
+  });
+
+  // GET /api/users/:address/points - Points, level and ledger of the profile an address belongs to
+  fastify.get<{
+    Params: { address: string };
+    Querystring: { limit?: string };
+    Reply: { success: true; data: PointsSummary & { ledgerTotal: number } } | ErrorReply;
+  }>('/api/users/:address/points', async (request, reply) => {
+    try {
+      const { address } = request.params;
+      const { limit = '50' } = request.query;
+      const limitNum = Math.min(parseInt(limit) || 50, 200);
+
+      const evmAddressRegex = /^0x[a-fA-F0-9]{40}$/;
+      if (!evmAddressRegex.test(address)) {
+        return reply.status(400).send({
+          error: 'Invalid Address',
+          message: 'Address must be a valid EVM address',
+          statusCode: 400
+        });
+      }
+
+      // Points are earned by the whole profile, linked wallets included
+      const [profileAddresses, quests, participations] = await Promise.all([
+        database.getProfileAddresses(address),
+        database.getQuests(),
+        database.getParticipations()
+      ]);
+
+      const summary = PointsCalculator.summarize(profileAddresses, quests, participations, getPointsRules());
+
+      return reply.send({
+        success: true,
+        data: {
+          ...summary,
+          ledger: summary.ledger.slice(0, limitNum),
+          ledgerTotal: summary.ledger.length
+        }
+      });
+    } catch (error) {
+      fastify.log.error('Error fetching user points:', error);
+      return reply.status(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to fetch user points',
+        statusCode: 500
+      });
+    }
+  });
+}
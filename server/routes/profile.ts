@@ -1,7 +1,9 @@
 import { FastifyInstance } from 'fastify';
 import { database } from '../lib/database.js';
 import { QuestStatusCalculator } from '../lib/questStatusCalculator.js';
+import { transformXAccountToApiFormat } from '../lib/userValidation.js';
 import type { QuestData, ParticipationData } from '../types/database.js';
+import type { XAccountResponse } from '../types/user.js';
 
 export async function profileRoutes(fastify: FastifyInstance) {
   // GET /api/profile/:address/summary - Get comprehensive profile data
@@ -20,6 +22,9 @@ export async function profileRoutes(fastify: FastifyInstance) {
           successRate: number;
           rank: number;
           totalUsers: number;
+          primaryAddress: string;
+          linkedAddresses: string[];
+          xAccount: XAccountResponse | null;
         };
         
         // User's quest history by category
@@ -99,20 +104,27 @@ export async function profileRoutes(fastify: FastifyInstance) {
         });
       }
       
-      const normalizedAddress = address.toLowerCase();
+      // Aggregate every wallet linked to the same profile
+      const profileAddresses = await database.getProfileAddresses(address);
+      const [primaryAddress, ...linkedAddresses] = profileAddresses;
+      const linkedWallets = await database.getLinkedWalletMap();
+      const isProfileAddress = (addr: string) => profileAddresses.includes(addr.toLowerCase());
       
       // Get user's participation history
-      const userParticipations = await database.getParticipationsByUser(address);
-      const userStats = await database.getUserStatistics(address);
+      const userParticipations = (await Promise.all(
+        profileAddresses.map(wallet => database.getParticipationsByUser(wallet))
+      )).flat();
+      const userStats = await database.getProfileStatistics(address);
+      const user = await database.getUserByAddress(address);
       
       // Get all quests for comparison
       const allQuests = await database.getQuests();
       const allParticipations = await database.getParticipations();
       
-      // Calculate user's rank
+      // Calculate user's rank (linked wallets count towards their primary profile)
       const userRewardsByAddress = new Map<string, bigint>();
       allParticipations.forEach(p => {
-        const userAddr = p.userAddress.toLowerCase();
+        const userAddr = linkedWallets.get(p.userAddress.toLowerCase()) || p.userAddress.toLowerCase();
         if (!userRewardsByAddress.has(userAddr)) {
           userRewardsByAddress.set(userAddr, BigInt(0));
         }
@@ -122,7 +134,7 @@ export async function profileRoutes(fastify: FastifyInstance) {
       const userRewardsSorted = Array.from(userRewardsByAddress.entries())
         .sort((a, b) => b[1] > a[1] ? 1 : b[1] < a[1] ? -1 : 0);
       
-      const userRank = userRewardsSorted.findIndex(([addr]) => addr === normalizedAddress) + 1;
+      const userRank = userRewardsSorted.findIndex(([addr]) => addr === primaryAddress) + 1;
       const totalUsers = userRewardsByAddress.size;
       
       // Find earliest participation date as join date
@@ -136,10 +148,13 @@ export async function profileRoutes(fastify: FastifyInstance) {
         joinDate,
         totalEarned: userStats.totalRewardsEarned,
         questsCompleted: userStats.totalParticipations,
-        questsCreated: allQuests.filter(q => q.sponsor.toLowerCase() === normalizedAddress).length,
+        questsCreated: allQuests.filter(q => isProfileAddress(q.sponsor)).length,
         successRate: userStats.completionRate,
         rank: userRank || totalUsers + 1, // If not found, put at end
-        totalUsers
+        totalUsers,
+        primaryAddress,
+        linkedAddresses,
+        xAccount: user ? transformXAccountToApiFormat(user) : null
       };
       
       // Get user's active quests (quests they haven't completed yet)
@@ -180,7 +195,7 @@ export async function profileRoutes(fastify: FastifyInstance) {
       
       // Get user's created quests
       const createdQuests = allQuests
-        .filter(q => q.sponsor.toLowerCase() === normalizedAddress)
+        .filter(q => isProfileAddress(q.sponsor))
         .map(quest => {
           const stats = QuestStatusCalculator.generateQuestStats(quest);
           const updatedQuest = QuestStatusCalculator.updateQuestStatus(quest);
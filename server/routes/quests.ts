@@ -1,7 +1,9 @@
 import { FastifyInstance } from 'fastify';
 import { database } from '../lib/database.js';
 import { QuestStatusCalculator } from '../lib/questStatusCalculator.js';
+import { questToFormData } from '../lib/questTemplates.js';
 import type { QuestData } from '../types/database.js';
+import type { QuestCloneResponse } from '../types/quest.js';
 
 export async function questRoutes(fastify: FastifyInstance) {
   // GET /api/quests - Get all quests with pagination and filtering
@@ -35,14 +37,10 @@ export async function questRoutes(fastify: FastifyInstance) {
       const limitNum = Math.min(parseInt(limit) || 20, 100);
       const offsetNum = parseInt(offset) || 0;
 
-      // Get all quests from database
-      let quests = await database.getQuests();
+      // Get quests from database, filtered by status at the storage level
+      let quests = await database.getQuests(status ? { status: status as QuestData['status'] } : undefined);
 
       // Apply filters
-      if (status) {
-        quests = quests.filter(quest => quest.status === status);
-      }
-
       if (questType) {
         quests = quests.filter(quest => quest.questType === questType);
       }
@@ -159,6 +157,57 @@ export async function questRoutes(fastify: FastifyInstance) {
     }
   });
 
+  // GET /api/quests/:id/clone - Create wizard form pre-filled from a quest, with its timing moved into the future
+  fastify.get<{
+    Params: { id: string };
+    Reply: {
+      success: true;
+      data: QuestCloneResponse;
+    } | {
+      error: string;
+      message: string;
+      statusCode: number;
+    };
+  }>('/api/quests/:id/clone', async (request, reply) => {
+    try {
+      const { id } = request.params;
+
+      const quest = await database.getQuestById(id);
+
+      if (!quest) {
+        return reply.status(404).send({
+          error: 'Not Found',
+          message: 'Quest not found',
+          statusCode: 404
+        });
+      }
+
+      const { formData, shiftedByMs } = questToFormData(quest);
+      const timing = QuestStatusCalculator.validateQuestTiming({
+        startTime: new Date(formData.startDate as string).getTime(),
+        endTime: new Date(formData.endDate as string).getTime(),
+        claimEndTime: new Date(formData.rewardClaimDeadline as string).getTime()
+      });
+
+      return reply.send({
+        success: true,
+        data: {
+          questId: id,
+          formData,
+          shiftedByMs,
+          timing
+        }
+      });
+    } catch (error) {
+      fastify.log.error('Error cloning quest:', error);
+      return reply.status(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to clone quest',
+        statusCode: 500
+      });
+    }
+  });
+
   // GET /api/quests/statistics - Get quest statistics
   fastify.get<{
     Reply: {
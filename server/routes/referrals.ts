@@ -0,0 +1,176 @@
+import type { FastifyInstance } from 'fastify';
+import { database } from '../lib/database.js';
+import { authenticate, getAuthenticatedAddress } from '../lib/authMiddleware.js';
+import { ReferralCalculator, isSelfReferral } from '../lib/referrals.js';
+import type { QuestReferralStats, UserReferralStats } from '../lib/referrals.js';
+import type { ReferralData } from '../types/database.js';
+
+type ErrorReply = {
+  error: string;
+  message: string;
+  statusCode: number;
+};
+
+export async function referralRoutes(fastify: FastifyInstance) {
+  // POST /api/referrals - Record that the signed-in wallet followed a quest referral link
+  fastify.post<{
+    Body: { questId?: string; referrer?: string };
+    Reply: { success: true; data: ReferralData } | ErrorReply;
+  }>('/api/referrals', { preHandler: authenticate }, async (request, reply) => {
+    const { questId, referrer } = request.body || {};
+    const referee = getAuthenticatedAddress(request)!;
+
+    if (!questId || typeof questId !== 'string') {
+      return reply.status(400).send({
+        error: 'Invalid Referral',
+        message: 'questId is required',
+        statusCode: 400
+      });
+    }
+
+    const evmAddressRegex = /^0x[a-fA-F0-9]{40}$/;
+    if (!referrer || !evmAddressRegex.test(referrer)) {
+      return reply.status(400).send({
+        error: 'Invalid Address',
+        message: 'referrer must be a valid EVM address',
+        statusCode: 400
+      });
+    }
+
+    try {
+      const quest = await database.getQuestById(questId);
+      if (!quest) {
+        return reply.status(404).send({
+          error: 'Not Found',
+          message: 'Quest not found',
+          statusCode: 404
+        });
+      }
+
+      if (isSelfReferral(referrer, referee, await database.getLinkedWalletMap())) {
+        return reply.status(400).send({
+          error: 'Self Referral',
+          message: 'A wallet cannot be referred by its own profile',
+          statusCode: 400
+        });
+      }
+
+      const existing = await database.getReferral(questId, referee);
+      if (existing) {
+        return reply.send({
+          success: true,
+          data: existing
+        });
+      }
+
+      if (await database.hasUserParticipated(questId, referee)) {
+        return reply.status(409).send({
+          error: 'Already Claimed',
+          message: 'The quest reward was already claimed by this wallet',
+          statusCode: 409
+        });
+      }
+
+      const referral = await database.createReferral(questId, referrer, referee);
+      return reply.status(201).send({
+        success: true,
+        data: referral
+      });
+    } catch (error) {
+      fastify.log.error('Error recording referral:', error);
+      return reply.status(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to record referral',
+        statusCode: 500
+      });
+    }
+  });
+
+  // GET /api/users/:address/referrals - Referral stats of the profile an address belongs to
+  fastify.get<{
+    Params: { address: string };
+    Reply: { success: true; data: UserReferralStats } | ErrorReply;
+  }>('/api/users/:address/referrals', async (request, reply) => {
+    try {
+      const { address } = request.params;
+
+      const evmAddressRegex = /^0x[a-fA-F0-9]{40}$/;
+      if (!evmAddressRegex.test(address)) {
+        return reply.status(400).send({
+          error: 'Invalid Address',
+          message: 'Address must be a valid EVM address',
+          statusCode: 400
+        });
+      }
+
+      const [profileAddresses, quests] = await Promise.all([
+        database.getProfileAddresses(address),
+        database.getQuests()
+      ]);
+      const referrals: ReferralData[] = [];
+      for (const wallet of profileAddresses) {
+        referrals.push(...await database.getReferralsByReferrer(wallet));
+      }
+
+      return reply.send({
+        success: true,
+        data: ReferralCalculator.userStats(profileAddresses, referrals, quests)
+      });
+    } catch (error) {
+      fastify.log.error('Error fetching user referrals:', error);
+      return reply.status(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to fetch user referrals',
+        statusCode: 500
+      });
+    }
+  });
+
+  // GET /api/referrals/quest/:questId - Top referrers of a quest (sponsor only)
+  fastify.get<{
+    Params: { questId: string };
+    Querystring: { limit?: string };
+    Reply: { success: true; data: QuestReferralStats } | ErrorReply;
+  }>('/api/referrals/quest/:questId', { preHandler: authenticate }, async (request, reply) => {
+    try {
+      const { questId } = request.params;
+      const { limit = '20' } = request.query;
+      const limitNum = Math.min(parseInt(limit) || 20, 100);
+
+      const quest = await database.getQuestById(questId);
+      if (!quest) {
+        return reply.status(404).send({
+          error: 'Not Found',
+          message: 'Quest not found',
+          statusCode: 404
+        });
+      }
+
+      if (quest.sponsor.toLowerCase() !== getAuthenticatedAddress(request)?.toLowerCase()) {
+        return reply.status(403).send({
+          error: 'Forbidden',
+          message: 'Only the quest sponsor can view its referrers',
+          statusCode: 403
+        });
+      }
+
+      const [referrals, participations, linkedWallets] = await Promise.all([
+        database.getReferralsByQuest(questId),
+        database.getParticipationsByQuest(questId),
+        database.getLinkedWalletMap()
+      ]);
+
+      return reply.send({
+        success: true,
+        data: ReferralCalculator.questStats(questId, referrals, participations.length, linkedWallets, limitNum)
+      });
+    } catch (error) {
+      fastify.log.error('Error fetching quest referrers:', error);
+      return reply.status(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to fetch quest referrers',
+        statusCode: 500
+      });
+    }
+  });
+}
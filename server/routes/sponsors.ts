@@ -0,0 +1,67 @@
+import type { FastifyInstance } from 'fastify';
+import { database } from '../lib/database.js';
+import { SponsorAnalyticsCalculator } from '../lib/sponsorAnalytics.js';
+import type { AnalyticsInterval, SponsorAnalytics } from '../lib/sponsorAnalytics.js';
+
+export async function sponsorRoutes(fastify: FastifyInstance) {
+  // GET /api/sponsors/:address/analytics - Per-quest analytics for a sponsor's quests
+  fastify.get<{
+    Params: { address: string };
+    Querystring: { interval?: string };
+    Reply: {
+      success: true;
+      data: SponsorAnalytics;
+    } | {
+      error: string;
+      message: string;
+      statusCode: number;
+    };
+  }>('/api/sponsors/:address/analytics', async (request, reply) => {
+    try {
+      const { address } = request.params;
+      const { interval = 'day' } = request.query;
+
+      // Validate EVM address format
+      const evmAddressRegex = /^0x[a-fA-F0-9]{40}$/;
+      if (!evmAddressRegex.test(address)) {
+        return reply.status(400).send({
+          error: 'Invalid Address',
+          message: 'Address must be a valid EVM address',
+          statusCode: 400
+        });
+      }
+
+      if (interval !== 'hour' && interval !== 'day') {
+        return reply.status(400).send({
+          error: 'Invalid Interval',
+          message: 'Interval must be "hour" or "day"',
+          statusCode: 400
+        });
+      }
+
+      const quests = await database.getQuests({ sponsor: address });
+      const participations = (await Promise.all(
+        quests.map(quest => database.getParticipationsByQuest(quest.id))
+      )).flat();
+
+      const analytics = SponsorAnalyticsCalculator.analyzeSponsor(
+        address,
+        quests,
+        participations,
+        interval as AnalyticsInterval
+      );
+
+      return reply.send({
+        success: true,
+        data: analytics
+      });
+    } catch (error) {
+      fastify.log.error('Error fetching sponsor analytics:', error);
+      return reply.status(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to fetch sponsor analytics',
+        statusCode: 500
+      });
+    }
+  });
+}
@@ -0,0 +1,73 @@
+import type { FastifyInstance } from 'fastify';
+import { questEvents } from '../lib/questEvents.js';
+import type { QuestStreamEvent } from '../types/database.js';
+
+const HEARTBEAT_INTERVAL_MS = 15000;
+const ADDRESS_REGEX = /^0x[a-fA-F0-9]{40}$/;
+
+function parseList(value?: string): string[] {
+  return (value || '')
+    .split(',')
+    .map(item => item.trim())
+    .filter(item => item.length > 0);
+}
+
+export async function streamRoutes(fastify: FastifyInstance) {
+  // GET /api/stream - Server-Sent Events feed of indexed quest events
+  // Optional filters: ?questId=1,2 and/or ?address=0x...,0x... (comma separated)
+  fastify.get<{
+    Querystring: {
+      questId?: string;
+      address?: string;
+    };
+    Reply: {
+      error: string;
+      message: string;
+      statusCode: number;
+    };
+  }>('/api/stream', async (request, reply) => {
+    const questIds = parseList(request.query.questId);
+    const addresses = parseList(request.query.address);
+
+    if (addresses.some(address => !ADDRESS_REGEX.test(address))) {
+      return reply.status(400).send({
+        error: 'Bad Request',
+        message: 'Invalid address format',
+        statusCode: 400
+      });
+    }
+
+    // Take over the raw response; keep headers already set by plugins (CORS)
+    reply.hijack();
+    for (const [name, value] of Object.entries(reply.getHeaders())) {
+      if (value !== undefined) {
+        reply.raw.setHeader(name, value);
+      }
+    }
+    reply.raw.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+    reply.raw.write('retry: 5000\n\n');
+
+    const send = (event: QuestStreamEvent) => {
+      reply.raw.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    };
+
+    const unsubscribe = questEvents.subscribe(send, {
+      questIds: new Set(questIds),
+      addresses: new Set(addresses.map(address => address.toLowerCase()))
+    });
+
+    const heartbeat = setInterval(() => {
+      reply.raw.write(': heartbeat\n\n');
+    }, HEARTBEAT_INTERVAL_MS);
+
+    request.raw.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  });
+}
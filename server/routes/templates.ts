@@ -0,0 +1,134 @@
+import type { FastifyInstance } from 'fastify';
+import { database } from '../lib/database.js';
+import { authenticate, requireProfileOwner } from '../lib/authMiddleware.js';
+import { PLATFORM_TEMPLATES, toTemplateContent, transformTemplateToApiFormat } from '../lib/questTemplates.js';
+import type { QuestTemplateResponse } from '../types/quest.js';
+
+type ErrorReply = {
+  error: string;
+  message: string;
+  statusCode: number;
+};
+
+const MAX_TEMPLATES_PER_SPONSOR = 20;
+const MAX_TEMPLATE_SIZE = 64 * 1024; // Serialized formData, in characters
+const MAX_NAME_LENGTH = 60;
+
+export async function templateRoutes(fastify: FastifyInstance) {
+  const preHandler = [authenticate, requireProfileOwner];
+
+  // GET /api/quest-templates - Platform presets
+  fastify.get<{
+    Reply: { success: true; data: QuestTemplateResponse[] };
+  }>('/api/quest-templates', async (request, reply) => {
+    return reply.send({
+      success: true,
+      data: PLATFORM_TEMPLATES
+    });
+  });
+
+  // GET /api/users/:address/templates - Templates saved by the sponsor, most recent first
+  fastify.get<{
+    Params: { address: string };
+    Reply: { success: true; data: QuestTemplateResponse[] } | ErrorReply;
+  }>('/api/users/:address/templates', { preHandler }, async (request, reply) => {
+    try {
+      const templates = await database.getTemplatesBySponsor(request.params.address);
+      return reply.send({
+        success: true,
+        data: templates.map(transformTemplateToApiFormat)
+      });
+    } catch (error) {
+      fastify.log.error('Error fetching templates:', error);
+      return reply.status(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to fetch templates',
+        statusCode: 500
+      });
+    }
+  });
+
+  // POST /api/users/:address/templates - Save the current wizard form as a template
+  fastify.post<{
+    Params: { address: string };
+    Body: { name: string; formData: Record<string, unknown> };
+    Reply: { success: true; data: QuestTemplateResponse } | ErrorReply;
+  }>('/api/users/:address/templates', { preHandler }, async (request, reply) => {
+    const name = typeof request.body?.name === 'string' ? request.body.name.trim() : '';
+    const formData = request.body?.formData;
+
+    if (!name || name.length > MAX_NAME_LENGTH) {
+      return reply.status(400).send({
+        error: 'Invalid Template',
+        message: `name must be between 1 and ${MAX_NAME_LENGTH} characters`,
+        statusCode: 400
+      });
+    }
+    if (!formData || typeof formData !== 'object' || Array.isArray(formData)) {
+      return reply.status(400).send({
+        error: 'Invalid Template',
+        message: 'formData must be an object',
+        statusCode: 400
+      });
+    }
+    if (JSON.stringify(formData).length > MAX_TEMPLATE_SIZE) {
+      return reply.status(400).send({
+        error: 'Invalid Template',
+        message: `formData must be smaller than ${MAX_TEMPLATE_SIZE / 1024} KB`,
+        statusCode: 400
+      });
+    }
+
+    try {
+      const existing = await database.getTemplatesBySponsor(request.params.address);
+      if (existing.length >= MAX_TEMPLATES_PER_SPONSOR) {
+        return reply.status(409).send({
+          error: 'Too Many Templates',
+          message: `A sponsor can keep at most ${MAX_TEMPLATES_PER_SPONSOR} templates`,
+          statusCode: 409
+        });
+      }
+
+      const content = toTemplateContent(formData);
+      const template = await database.createTemplate(request.params.address, name, content.formData, content.timing);
+      return reply.status(201).send({
+        success: true,
+        data: transformTemplateToApiFormat(template)
+      });
+    } catch (error) {
+      fastify.log.error('Error creating template:', error);
+      return reply.status(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to save template',
+        statusCode: 500
+      });
+    }
+  });
+
+  // DELETE /api/users/:address/templates/:id - Delete a saved template
+  fastify.delete<{
+    Params: { address: string; id: string };
+    Reply: { success: true } | ErrorReply;
+  }>('/api/users/:address/templates/:id', { preHandler }, async (request, reply) => {
+    try {
+      const template = await database.getTemplate(request.params.id);
+      if (!template || template.sponsor !== request.params.address.toLowerCase()) {
+        return reply.status(404).send({
+          error: 'Not Found',
+          message: 'Template not found',
+          statusCode: 404
+        });
+      }
+
+      await database.deleteTemplate(template.id);
+      return reply.send({ success: true });
+    } catch (error) {
+      fastify.log.error('Error deleting template:', error);
+      return reply.status(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to delete template',
+        statusCode: 500
+      });
+    }
+  });
+}
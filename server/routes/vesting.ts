@@ -0,0 +1,46 @@
+import type { FastifyInstance } from 'fastify';
+import { getVestingService } from '../lib/vesting.js';
+import type { UserVesting } from '../lib/vesting.js';
+
+export async function vestingRoutes(fastify: FastifyInstance) {
+  // GET /api/users/:address/vesting - Vesting positions for every quest the user qualified for
+  fastify.get<{
+    Params: { address: string };
+    Reply: {
+      success: true;
+      data: UserVesting;
+    } | {
+      error: string;
+      message: string;
+      statusCode: number;
+    };
+  }>('/api/users/:address/vesting', async (request, reply) => {
+    try {
+      const { address } = request.params;
+
+      // Validate EVM address format
+      const evmAddressRegex = /^0x[a-fA-F0-9]{40}$/;
+      if (!evmAddressRegex.test(address)) {
+        return reply.status(400).send({
+          error: 'Invalid Address',
+          message: 'Address must be a valid EVM address',
+          statusCode: 400
+        });
+      }
+
+      const vesting = await getVestingService().getUserVesting(address);
+
+      return reply.send({
+        success: true,
+        data: vesting
+      });
+    } catch (error) {
+      fastify.log.error('Error fetching vesting positions:', error);
+      return reply.status(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to fetch vesting positions',
+        statusCode: 500
+      });
+    }
+  });
+}
@@ -0,0 +1,189 @@
+import type { FastifyInstance } from 'fastify';
+import { database } from '../lib/database.js';
+import { verifyEVMSignature, generateNonce, createSiweMessage, normalizeAddress } from '../lib/auth.js';
+import { authenticate, requireProfileOwner } from '../lib/authMiddleware.js';
+import { transformUserToApiFormat } from '../lib/userValidation.js';
+import type { UserResponse } from '../types/user.js';
+
+type ErrorReply = {
+  error: string;
+  message: string;
+  statusCode: number;
+};
+
+const CHALLENGE_TTL_MS = 10 * 60 * 1000; // 10 minutes
+
+function walletLinkStatement(primaryAddress: string): string {
+  return `Link this wallet to the ProofQuest profile of ${primaryAddress}.`;
+}
+
+export async function walletRoutes(fastify: FastifyInstance) {
+  const preHandler = [authenticate, requireProfileOwner];
+
+  // POST /api/users/:address/wallets/challenge - SIWE message the second wallet signs to prove control
+  fastify.post<{
+    Params: { address: string };
+    Body: { wallet: string; domain?: string; chainId?: number };
+    Reply: { success: true; data: { message: string; nonce: string; expiresAt: string } } | ErrorReply;
+  }>('/api/users/:address/wallets/challenge', { preHandler }, async (request, reply) => {
+    const primaryAddress = normalizeAddress(request.params.address);
+
+    let wallet: string;
+    try {
+      wallet = normalizeAddress(String(request.body?.wallet ?? ''));
+    } catch (error) {
+      return reply.status(400).send({
+        error: 'Invalid Wallet',
+        message: 'wallet must be a valid EVM address',
+        statusCode: 400
+      });
+    }
+
+    if (wallet.toLowerCase() === primaryAddress.toLowerCase()) {
+      return reply.status(400).send({
+        error: 'Invalid Wallet',
+        message: 'Cannot link a wallet to itself',
+        statusCode: 400
+      });
+    }
+
+    try {
+      const nonce = generateNonce();
+      const expirationTime = new Date(Date.now() + CHALLENGE_TTL_MS);
+
+      // Stored like a sign-in nonce of the wallet, so it replaces any pending nonce of that wallet
+      await database.saveNonce({
+        address: wallet,
+        nonce,
+        expiresAt: expirationTime.getTime(),
+        linkTo: primaryAddress
+      });
+
+      const message = createSiweMessage(request.body?.domain || 'localhost:8080', wallet, nonce, {
+        chainId: request.body?.chainId || 1,
+        expirationTime,
+        statement: walletLinkStatement(primaryAddress)
+      });
+
+      return reply.send({
+        success: true,
+        data: { message, nonce, expiresAt: expirationTime.toISOString() }
+      });
+    } catch (error) {
+      fastify.log.error('Error creating wallet link challenge:', error);
+      return reply.status(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to create wallet link challenge',
+        statusCode: 500
+      });
+    }
+  });
+
+  // POST /api/users/:address/wallets - Link the wallet that signed the challenge
+  fastify.post<{
+    Params: { address: string };
+    Body: { message: string; signature: string };
+    Reply: { success: true; data: UserResponse } | ErrorReply;
+  }>('/api/users/:address/wallets', { preHandler }, async (request, reply) => {
+    const primaryAddress = normalizeAddress(request.params.address);
+
+    const message = request.body?.message?.trim();
+    const signature = request.body?.signature?.trim();
+    if (!message || !signature) {
+      return reply.status(400).send({
+        error: 'Missing Data',
+        message: 'Message and signature are required',
+        statusCode: 400
+      });
+    }
+
+    const verification = await verifyEVMSignature(message, signature);
+    if (!verification.isValid || !verification.address || !verification.parsedMessage) {
+      return reply.status(401).send({
+        error: 'Invalid Signature',
+        message: 'Signature verification failed',
+        statusCode: 401
+      });
+    }
+
+    const wallet = verification.address;
+    const storedNonce = await database.consumeNonce(wallet, verification.parsedMessage.nonce);
+    if (
+      !storedNonce ||
+      storedNonce.linkTo?.toLowerCase() !== primaryAddress.toLowerCase() ||
+      storedNonce.expiresAt < Date.now()
+    ) {
+      return reply.status(401).send({
+        error: 'Invalid Nonce',
+        message: 'Link challenge is invalid or expired',
+        statusCode: 401
+      });
+    }
+
+    try {
+      const user = await database.linkWallet(primaryAddress, wallet);
+      fastify.log.info(`Wallet ${wallet} linked to profile ${primaryAddress}`);
+
+      return reply.status(201).send({
+        success: true,
+        data: transformUserToApiFormat(user)
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to link wallet';
+
+      if (errorMessage.includes('not found')) {
+        return reply.status(404).send({
+          error: 'Not Found',
+          message: errorMessage,
+          statusCode: 404
+        });
+      }
+      if (errorMessage.includes('linked')) {
+        return reply.status(409).send({
+          error: 'Wallet Already Linked',
+          message: errorMessage,
+          statusCode: 409
+        });
+      }
+
+      fastify.log.error('Error linking wallet:', error);
+      return reply.status(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to link wallet',
+        statusCode: 500
+      });
+    }
+  });
+
+  // DELETE /api/users/:address/wallets/:wallet - Unlink a wallet from the profile
+  fastify.delete<{
+    Params: { address: string; wallet: string };
+    Reply: { success: true; data: UserResponse } | ErrorReply;
+  }>('/api/users/:address/wallets/:wallet', { preHandler }, async (request, reply) => {
+    const primaryAddress = normalizeAddress(request.params.address);
+
+    try {
+      const user = await database.unlinkWallet(primaryAddress, request.params.wallet);
+      if (!user) {
+        return reply.status(404).send({
+          error: 'Not Found',
+          message: 'Wallet is not linked to this profile',
+          statusCode: 404
+        });
+      }
+
+      fastify.log.info(`Wallet ${request.params.wallet} unlinked from profile ${primaryAddress}`);
+      return reply.send({
+        success: true,
+        data: transformUserToApiFormat(user)
+      });
+    } catch (error) {
+      fastify.log.error('Error unlinking wallet:', error);
+      return reply.status(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to unlink wallet',
+        statusCode: 500
+      });
+    }
+  });
+}
@@ -0,0 +1,122 @@
+import type { FastifyInstance } from 'fastify';
+import { database } from '../lib/database.js';
+import { authenticate, requireProfileOwner } from '../lib/authMiddleware.js';
+import { validateAttestation } from '../lib/zktls.js';
+import { verifyXAccountAttestation } from '../lib/xAccountVerifier.js';
+import type { XAccountCheck } from '../lib/xAccountVerifier.js';
+import type { AttestationInput } from '../lib/attestationVerifier.js';
+import { transformUserToApiFormat } from '../lib/userValidation.js';
+import type { UserResponse } from '../types/user.js';
+
+type ErrorReply = {
+  error: string;
+  message: string;
+  statusCode: number;
+  checks?: XAccountCheck[];
+};
+
+export async function xAccountRoutes(fastify: FastifyInstance) {
+  const preHandler = [authenticate, requireProfileOwner];
+
+  // POST /api/users/:address/x-account - Bind the X account proven by a zkTLS attestation
+  fastify.post<{
+    Params: { address: string };
+    Body: { attestation: AttestationInput };
+    Reply: { success: true; data: UserResponse } | ErrorReply;
+  }>('/api/users/:address/x-account', { preHandler }, async (request, reply) => {
+    const { address } = request.params;
+    const attestation = request.body?.attestation;
+
+    if (!attestation || typeof attestation !== 'object') {
+      return reply.status(400).send({
+        error: 'Invalid Request',
+        message: 'attestation is required',
+        statusCode: 400
+      });
+    }
+
+    const verification = verifyXAccountAttestation(attestation, { userAddress: address });
+    if (!verification.valid) {
+      return reply.status(422).send({
+        error: 'Invalid Attestation',
+        message: verification.checks.find(check => !check.passed)!.message,
+        statusCode: 422,
+        checks: verification.checks
+      });
+    }
+
+    if (!(await validateAttestation(attestation))) {
+      return reply.status(422).send({
+        error: 'Invalid Attestation',
+        message: 'Attestation signature was rejected by the Primus verifier',
+        statusCode: 422
+      });
+    }
+
+    try {
+      const user = await database.bindXAccount(address, verification.xUserId, verification.xHandle);
+      fastify.log.info(`X account @${verification.xHandle} (${verification.xUserId}) bound to ${address}`);
+
+      return reply.send({
+        success: true,
+        data: transformUserToApiFormat(user)
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to bind X account';
+
+      if (errorMessage.includes('not found')) {
+        return reply.status(404).send({
+          error: 'Not Found',
+          message: errorMessage,
+          statusCode: 404
+        });
+      }
+      if (errorMessage.includes('already bound')) {
+        return reply.status(409).send({
+          error: 'X Account Already Bound',
+          message: errorMessage,
+          statusCode: 409
+        });
+      }
+
+      fastify.log.error('Error binding X account:', error);
+      return reply.status(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to bind X account',
+        statusCode: 500
+      });
+    }
+  });
+
+  // DELETE /api/users/:address/x-account - Remove the bound X account
+  fastify.delete<{
+    Params: { address: string };
+    Reply: { success: true; data: UserResponse } | ErrorReply;
+  }>('/api/users/:address/x-account', { preHandler }, async (request, reply) => {
+    const { address } = request.params;
+
+    try {
+      const user = await database.unbindXAccount(address);
+      if (!user) {
+        return reply.status(404).send({
+          error: 'Not Found',
+          message: 'No X account is bound to this wallet',
+          statusCode: 404
+        });
+      }
+
+      fastify.log.info(`X account unbound from ${address}`);
+      return reply.send({
+        success: true,
+        data: transformUserToApiFormat(user)
+      });
+    } catch (error) {
+      fastify.log.error('Error unbinding X account:', error);
+      return reply.status(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to unbind X account',
+        statusCode: 500
+      });
+    }
+  });
+}
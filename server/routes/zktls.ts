@@ -1,5 +1,8 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { signAttestation, validateAttestation, ZKTLSSignRequest, ZKTLSSignResponse } from '../lib/zktls.js';
+import { database } from '../lib/database.js';
+import { AttestationVerifier } from '../lib/attestationVerifier.js';
+import type { AttestationInput, AttestationReport } from '../lib/attestationVerifier.js';
 
 // Request/Response schemas
 const signRequestSchema = {
@@ -21,14 +24,37 @@ const validateRequestSchema = {
   type: 'object',
   required: ['attestation'],
   properties: {
-    attestation: { type: 'object' }
+    attestation: { type: 'object' },
+    questId: { type: 'string' },
+    userAddress: { type: 'string' }
+  }
+};
+
+const attestationCheckSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    passed: { type: 'boolean' },
+    enforcedOnChain: { type: 'boolean' },
+    expected: { type: 'string' },
+    actual: { type: 'string' },
+    message: { type: 'string' }
   }
 };
 
 const validateResponseSchema = {
   type: 'object',
   properties: {
-    isValid: { type: 'boolean' }
+    isValid: { type: 'boolean' },
+    report: {
+      type: 'object',
+      properties: {
+        questId: { type: 'string' },
+        questType: { type: 'string' },
+        wouldPassOnChain: { type: 'boolean' },
+        checks: { type: 'array', items: attestationCheckSchema }
+      }
+    }
   }
 };
 
@@ -37,10 +63,14 @@ interface SignRequest extends FastifyRequest {
   body: ZKTLSSignRequest;
 }
 
+interface ValidateBody {
+  attestation: unknown;
+  questId?: string;         // When set, also replay the contract's content checks for this quest
+  userAddress?: string;
+}
+
 interface ValidateRequest extends FastifyRequest {
-  body: {
-    attestation: unknown;
-  };
+  body: ValidateBody;
 }
 
 export async function zktlsRoutes(fastify: FastifyInstance) {
@@ -89,7 +119,7 @@ export async function zktlsRoutes(fastify: FastifyInstance) {
   });
   
   // Validate attestation
-  fastify.post<{ Body: { attestation: unknown } }>('/validate', {
+  fastify.post<{ Body: ValidateBody }>('/validate', {
     schema: {
       body: validateRequestSchema,
       response: {
@@ -98,7 +128,7 @@ export async function zktlsRoutes(fastify: FastifyInstance) {
     }
   }, async (request: ValidateRequest, reply: FastifyReply) => {
     try {
-      const { attestation } = request.body;
+      const { attestation, questId, userAddress } = request.body;
       
       // Validate input
       if (!attestation) {
@@ -113,10 +143,39 @@ export async function zktlsRoutes(fastify: FastifyInstance) {
       
       // Validate the attestation
       const isValid = await validateAttestation(attestation);
-      
-      // Return the validation result
+
+      if (!questId) {
+        // Return the validation result
+        return reply.send({
+          isValid
+        });
+      }
+
+      const quest = await database.getQuestById(questId);
+      if (!quest) {
+        return reply.status(404).send({
+          error: 'Quest not found',
+          message: `Quest with ID ${questId} does not exist`
+        });
+      }
+
+      const params = AttestationVerifier.getVerificationParams(quest);
+      if (!params) {
+        return reply.status(422).send({
+          error: 'Verification params unavailable',
+          message: `Quest ${questId} has no indexed verification params`
+        });
+      }
+
+      // Replay the contract's content checks so the client can explain an on-chain rejection
+      const report: AttestationReport = AttestationVerifier.verify(quest, params, attestation as AttestationInput, {
+        userAddress,
+        signatureValid: isValid
+      });
+
       return reply.send({
-        isValid
+        isValid: isValid && report.wouldPassOnChain,
+        report
       });
       
     } catch (error) {
@@ -0,0 +1,35 @@
+#!/usr/bin/env bun
+/**
+ * Evaluate the badge rules over the existing database and award badges earned before they were introduced
+ *
+ * Usage: bun scripts/backfill-badges.ts
+ */
+
+import { database } from '../lib/database.js'
+import { BadgeService } from '../lib/badges.js'
+
+async function backfillBadges() {
+  await database.init()
+
+  console.log('🏅 Evaluating badge rules over indexed history...')
+  const { profiles, awarded } = await new BadgeService({ database }).backfill()
+
+  const byBadge = new Map<string, number>()
+  for (const badge of awarded) {
+    byBadge.set(badge.badgeId, (byBadge.get(badge.badgeId) || 0) + 1)
+  }
+
+  console.log('✅ Backfill completed:')
+  console.log(`   👤 Profiles evaluated: ${profiles}`)
+  console.log(`   🏅 Badges awarded: ${awarded.length}`)
+  for (const [badgeId, count] of byBadge) {
+    console.log(`      ${badgeId}: ${count}`)
+  }
+
+  await database.close()
+}
+
+backfillBadges().catch(error => {
+  console.error('❌ Badge backfill failed:', error)
+  process.exit(1)
+})
@@ -0,0 +1,55 @@
+#!/usr/bin/env bun
+/**
+ * Import an existing lowdb database.json into the SQLite storage backend
+ *
+ * Usage: bun scripts/migrate-to-sqlite.ts [path/to/database.json] [--force]
+ */
+
+import { join } from 'path'
+import { existsSync, readFileSync } from 'fs'
+import { SqliteStorage } from '../lib/storage/index.js'
+import type { DatabaseSchema } from '../types/database.js'
+
+async function migrateToSqlite() {
+  const args = process.argv.slice(2)
+  const force = args.includes('--force')
+  const dbPath = process.env.DATABASE_PATH || './data'
+  const sourcePath = args.find(arg => !arg.startsWith('--')) || join(dbPath, 'database.json')
+
+  if (!existsSync(sourcePath)) {
+    console.error(`❌ Source file not found: ${sourcePath}`)
+    process.exit(1)
+  }
+
+  console.log(`📦 Reading ${sourcePath}...`)
+  const data = JSON.parse(readFileSync(sourcePath, 'utf-8')) as DatabaseSchema
+
+  const storage = new SqliteStorage(dbPath)
+  await storage.init()
+
+  try {
+    const existingQuests = await storage.countQuests()
+    const existingParticipations = await storage.countParticipations()
+    if ((existingQuests > 0 || existingParticipations > 0) && !force) {
+      console.error(`❌ ${join(dbPath, 'database.sqlite')} already contains data (${existingQuests} quests, ${existingParticipations} participations).`)
+      console.error('   Re-run with --force to replace it.')
+      process.exit(1)
+    }
+
+    await storage.importData(data)
+
+    console.log('✅ Migration completed:')
+    console.log(`   🎯 Quests: ${await storage.countQuests()}`)
+    console.log(`   🏆 Participations: ${await storage.countParticipations()}`)
+    console.log(`   👤 Users: ${(await storage.getUsers()).length}`)
+    console.log(`   📍 Last processed block: ${(await storage.getIndexerState()).lastProcessedBlock}`)
+    console.log('\n💡 Set DATABASE_DRIVER=sqlite to start using it.')
+  } finally {
+    await storage.close()
+  }
+}
+
+migrateToSqlite().catch(error => {
+  console.error('❌ Migration failed:', error)
+  process.exit(1)
+})
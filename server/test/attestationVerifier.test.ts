@@ -0,0 +1,111 @@
+#!/usr/bin/env bun
+/**
+ * Test the TypeScript replica of the contract's attestation content checks
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { AttestationVerifier, getJsonBool, getJsonString } from '../lib/attestationVerifier.js';
+import type { VerificationParams } from '../lib/attestationVerifier.js';
+import type { QuestData } from '../types/database.js';
+
+const NOW = Date.UTC(2025, 0, 1, 12);
+const USER = '0x1111111111111111111111111111111111111111';
+
+const params: VerificationParams = {
+  apiUrlPattern: 'https://x.com/i/api/graphql/',
+  apiEndpointHash: 'FJGOFKfjA67MmT4I9p1qZg',
+  proofValidityPeriod: 3600,
+  targetLikeRetweetId: '1942933687978365289',
+  favoritedJsonPath: '$.favorited',
+  retweetedJsonPath: '$.retweeted',
+  requireFavorite: true,
+  requireRetweet: true,
+  targetQuotedTweetId: '1940000000000000000',
+  quotedStatusIdJsonPath: '$.quoted_status_id_str',
+  userIdJsonPath: '$.user_id_str',
+  quoteTweetIdJsonPath: '$.id_str'
+};
+
+function quest(questType: string): QuestData {
+  return {
+    id: '7',
+    title: 'Quest',
+    description: '',
+    launch_page: '',
+    questType,
+    sponsor: '0xabcdef1234567890abcdef1234567890abcdef12',
+    totalRewards: '1000',
+    rewardPerUser: '100',
+    maxParticipants: 10,
+    participantCount: 0,
+    startTime: NOW - 3600_000,
+    endTime: NOW + 3600_000,
+    claimEndTime: NOW + 7200_000,
+    status: 'active',
+    isVesting: false,
+    vestingDuration: 0,
+    metadata: params,
+    transactionHash: '0x',
+    blockNumber: 1,
+    createdAt: NOW,
+    updatedAt: NOW
+  };
+}
+
+const failedIds = (report: ReturnType<typeof AttestationVerifier.verify>) =>
+  report.checks.filter(check => !check.passed).map(check => check.id);
+
+describe('AttestationVerifier', () => {
+  it('parses attestation data like JsonParser.sol', () => {
+    const data = '{"favorited":"true","retweeted":false,"id_str":"42"}';
+    expect(getJsonBool(data, 'favorited')).toBe(true);
+    expect(getJsonBool(data, 'retweeted')).toBe(false);
+    expect(getJsonString(data, 'id_str')).toBe('42');
+    expect(getJsonString(data, 'user_id_str')).toBe('');
+  });
+
+  it('reports failing like/retweet and validity checks', () => {
+    const attestation = {
+      recipient: USER,
+      request: { url: `${params.apiUrlPattern}${params.apiEndpointHash}/TweetDetail?focalTweetId=${params.targetLikeRetweetId}` },
+      reponseResolve: [
+        { keyName: 'favorited', parsePath: '$.favorited' },
+        { keyName: 'retweeted', parsePath: '$.retweeted' }
+      ],
+      data: '{"favorited":"true","retweeted":"false"}',
+      timestamp: NOW - 60_000
+    };
+
+    const report = AttestationVerifier.verify(quest('likeAndRetweet'), params, attestation, { now: NOW, userAddress: USER });
+    expect(report.wouldPassOnChain).toBe(false);
+    expect(failedIds(report)).toEqual(['retweeted']);
+
+    const expired = AttestationVerifier.verify(quest('likeAndRetweet'), params, {
+      ...attestation,
+      data: '{"favorited":true,"retweeted":true}',
+      timestamp: NOW - 2 * 3600_000
+    }, { now: NOW });
+    expect(failedIds(expired)).toEqual(['proofValidityPeriod']);
+  });
+
+  it('checks the quoted tweet and keeps advisory failures out of the verdict', () => {
+    const attestation = {
+      recipient: '0x2222222222222222222222222222222222222222',
+      request: { url: `${params.apiUrlPattern}${params.apiEndpointHash}/TweetDetail?focalTweetId=555` },
+      reponseResolve: [],
+      data: `{"id_str":"555","user_id_str":"99","quoted_status_id_str":"${params.targetQuotedTweetId}"}`,
+      timestamp: NOW - 60_000
+    };
+
+    const report = AttestationVerifier.verify(quest('quote-tweet'), params, attestation, { now: NOW, userAddress: USER });
+    expect(failedIds(report)).toEqual(['recipient', 'jsonPaths']);
+    expect(report.wouldPassOnChain).toBe(true);
+
+    const wrongTarget = AttestationVerifier.verify(quest('quote-tweet'), params, {
+      ...attestation,
+      data: '{"id_str":"555","user_id_str":"99","quoted_status_id_str":"1"}'
+    }, { now: NOW });
+    expect(wrongTarget.wouldPassOnChain).toBe(false);
+    expect(failedIds(wrongTarget)).toContain('quotedTweetMatches');
+  });
+});
@@ -0,0 +1,148 @@
+#!/usr/bin/env bun
+/**
+ * Test badge rule evaluation (completions, sponsoring, early claims, weekly streaks) and the idempotent backfill
+ */
+
+import { describe, it, expect, afterAll } from 'bun:test';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DatabaseService } from '../lib/database.js';
+import { BadgeEvaluator, BadgeService } from '../lib/badges.js';
+import type { ParticipationData, QuestData } from '../types/database.js';
+import { makeClaim, makeQuest } from './fixtures/records.js';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const MONDAY = Date.UTC(2025, 5, 2, 12, 0, 0); // Monday 2 June 2025
+
+const SPONSOR = '0x5555555555555555555555555555555555555555';
+const USER = '0x1111111111111111111111111111111111111111';
+const USER_LINKED = '0x2222222222222222222222222222222222222222';
+
+function quest(id: string, overrides: Partial<QuestData> = {}): QuestData {
+  return makeQuest(id, { sponsor: SPONSOR, startTime: MONDAY - DAY, ...overrides });
+}
+
+function earnedIds(profile: string[], quests: QuestData[], participations: ParticipationData[]): string[] {
+  return BadgeEvaluator.evaluate(profile, quests, participations).map(badge => badge.badgeId);
+}
+
+describe('BadgeEvaluator', () => {
+  it('awards the first quest and early bird badges across linked wallets', () => {
+    const quests = [quest('1'), quest('2', { startTime: MONDAY + 3 * DAY })];
+    const participations = [
+      makeClaim('1', USER, MONDAY),
+      makeClaim('2', USER_LINKED, MONDAY + 3 * DAY + 30 * 60 * 1000, { blockNumber: 7 })
+    ];
+
+    const earned = BadgeEvaluator.evaluate([USER, USER_LINKED], quests, participations);
+    expect(earned).toEqual([
+      { badgeId: 'first-quest', earnedAt: MONDAY, questId: '1', blockNumber: 1 },
+      { badgeId: 'early-bird', earnedAt: MONDAY + 3 * DAY + 30 * 60 * 1000, questId: '2', blockNumber: 7 }
+    ]);
+  });
+
+  it('judges early claims and streaks by block time, not by when the claims were indexed', () => {
+    const quests = ['1', '2', '3', '4'].map(id => quest(id));
+    // Claimed weekly from the quests' first hour, all indexed at once a month later (e.g. a fresh index)
+    const indexedAt = MONDAY + 30 * DAY;
+    const participations = quests.map((q, i) => makeClaim(q.id, USER, MONDAY - DAY + 30 * 60 * 1000 + i * 7 * DAY, {
+      claimedAt: indexedAt + i
+    }));
+
+    const earned = BadgeEvaluator.evaluate([USER], quests, participations);
+    expect(earned.find(badge => badge.badgeId === 'early-bird')).toMatchObject({ earnedAt: MONDAY - DAY + 30 * 60 * 1000, questId: '1' });
+    expect(earned.find(badge => badge.badgeId === 'weekly-streak')).toMatchObject({ questId: '4' });
+  });
+
+  it('counts only quote tweet quests towards the quote tweeter badge', () => {
+    const quests = Array.from({ length: 11 }, (_, i) => quest(`${i}`, { questType: i === 0 ? 'likeAndRetweet' : 'quote-tweet' }));
+    const participations = quests.map((q, i) => makeClaim(q.id, USER, MONDAY + i * HOUR));
+
+    const earned = BadgeEvaluator.evaluate([USER], quests, participations);
+    expect(earned.find(badge => badge.badgeId === 'quote-tweeter')).toEqual({
+      badgeId: 'quote-tweeter',
+      earnedAt: MONDAY + 10 * HOUR,
+      questId: '10',
+      blockNumber: 1
+    });
+    expect(earnedIds([USER], quests, participations.slice(0, 10))).not.toContain('quote-tweeter');
+  });
+
+  it('awards sponsors for quests that were not canceled', () => {
+    expect(earnedIds([SPONSOR], [quest('1', { status: 'canceled' })], [])).toEqual([]);
+    expect(earnedIds([SPONSOR], [quest('1', { status: 'canceled' }), quest('2')], [])).toEqual(['first-sponsor']);
+  });
+
+  it('requires completions in consecutive calendar weeks for the streak badge', () => {
+    const quests = ['1', '2', '3', '4', '5'].map(id => quest(id));
+    // Sunday night and the following Monday are in different weeks
+    const streak = [
+      makeClaim('1', USER, MONDAY + 6 * DAY + 10 * HOUR),
+      makeClaim('2', USER, MONDAY + 7 * DAY),
+      makeClaim('3', USER, MONDAY + 14 * DAY),
+      makeClaim('4', USER, MONDAY + 21 * DAY)
+    ];
+    const earned = BadgeEvaluator.evaluate([USER], quests, streak);
+    expect(earned.find(badge => badge.badgeId === 'weekly-streak')).toMatchObject({ earnedAt: MONDAY + 21 * DAY, questId: '4' });
+
+    // A week without completions resets the streak
+    const gap = [...streak.slice(0, 3), makeClaim('5', USER, MONDAY + 28 * DAY)];
+    expect(earnedIds([USER], quests, gap)).not.toContain('weekly-streak');
+  });
+});
+
+describe('BadgeService', () => {
+  const dataDir = mkdtempSync(join(tmpdir(), 'proofquest-badges-'));
+
+  afterAll(() => {
+    rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('backfills every profile once and reports earned badges', async () => {
+    const database = new DatabaseService(dataDir);
+    await database.init();
+    await database.addQuest(quest('1'));
+    await database.addParticipation(makeClaim('1', USER, MONDAY));
+
+    const badges = new BadgeService({ database });
+    const first = await badges.backfill(MONDAY + DAY);
+    expect(first.profiles).toBe(2);
+    expect(first.awarded.map(badge => `${badge.address}:${badge.badgeId}`).sort()).toEqual([
+      `${USER}:first-quest`,
+      `${SPONSOR}:first-sponsor`
+    ]);
+
+    const second = await badges.backfill(MONDAY + 2 * DAY);
+    expect(second.awarded).toEqual([]);
+
+    const userBadges = await badges.getUserBadges(USER);
+    expect(userBadges.earnedCount).toBe(1);
+    expect(userBadges.badges.find(badge => badge.id === 'first-quest')).toMatchObject({
+      earned: true,
+      earnedAt: MONDAY,
+      questId: '1'
+    });
+    expect(userBadges.badges.find(badge => badge.id === 'early-bird')?.earned).toBe(false);
+
+    await database.close();
+  });
+
+  it('evaluates each profile once for the addresses of a batch', async () => {
+    const database = new DatabaseService(join(dataDir, 'batch'));
+    await database.init();
+    await database.addQuest(quest('1', { blockNumber: 3 }));
+    await database.addParticipation(makeClaim('1', USER, MONDAY, { blockNumber: 5 }));
+
+    const badges = new BadgeService({ database });
+    const awarded = await badges.awardBadges([USER, USER, SPONSOR], MONDAY + DAY);
+    expect(awarded.map(badge => `${badge.address}:${badge.badgeId}:${badge.blockNumber}`).sort()).toEqual([
+      `${USER}:first-quest:5`,
+      `${SPONSOR}:first-sponsor:3`
+    ]);
+    expect(await badges.awardBadges([USER, SPONSOR])).toEqual([]);
+
+    await database.close();
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Fully typed quest and claim records for calculator tests; override only what a test is about
+ */
+
+import type { ParticipationData, QuestData } from '../../types/database.js';
+
+export const FIXTURE_SPONSOR = '0x5555555555555555555555555555555555555555';
+
+export function makeQuest(id: string, overrides: Partial<QuestData> = {}): QuestData {
+  return {
+    id,
+    sponsor: FIXTURE_SPONSOR,
+    title: `Quest ${id}`,
+    description: '',
+    launch_page: '',
+    questType: 'likeAndRetweet',
+    totalRewards: '10000',
+    rewardPerUser: '1000',
+    maxParticipants: 10,
+    participantCount: 0,
+    startTime: 0,
+    endTime: 0,
+    claimEndTime: 0,
+    status: 'active',
+    isVesting: false,
+    vestingDuration: 0,
+    metadata: '',
+    transactionHash: '0x',
+    blockNumber: 1,
+    createdAt: 0,
+    updatedAt: 0,
+    ...overrides
+  };
+}
+
+/**
+ * Claim of a quest made at blockTimestamp (Unix ms), indexed right away
+ */
+export function makeClaim(
+  questId: string,
+  userAddress: string,
+  blockTimestamp: number,
+  overrides: Partial<ParticipationData> = {}
+): ParticipationData {
+  return {
+    id: `${questId}-${userAddress}`,
+    questId,
+    userAddress,
+    claimedAmount: '1000',
+    claimedAt: blockTimestamp,
+    transactionHash: `0x${questId}`,
+    blockNumber: 1,
+    blockTimestamp,
+    createdAt: blockTimestamp,
+    ...overrides
+  };
+}
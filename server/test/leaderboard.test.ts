@@ -0,0 +1,108 @@
+#!/usr/bin/env bun
+/**
+ * Test windowed/seasonal leaderboard ranking, rank deltas and season configuration
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { LeaderboardCalculator, getLeaderboardSeasons } from '../lib/leaderboard.js';
+import type { ParticipationData, QuestData } from '../types/database.js';
+import { makeClaim, makeQuest } from './fixtures/records.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2025, 6, 31, 12, 0, 0);
+
+const ALICE = '0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa';
+const ALICE_LINKED = '0xa1a1a1a1a1a1a1a1a1a1a1a1a1a1a1a1a1a1a1a1';
+const BOB = '0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb';
+
+let nextId = 0;
+function claim(userAddress: string, blockTimestamp: number, ether: number, overrides: Partial<ParticipationData> = {}): ParticipationData {
+  nextId += 1;
+  return makeClaim(String(nextId), userAddress, blockTimestamp, {
+    id: `p-${nextId}`,
+    claimedAmount: (BigInt(ether * 1000) * BigInt(1e15)).toString(),
+    blockNumber: nextId,
+    ...overrides
+  });
+}
+
+function quest(sponsor: string, startTime: number): QuestData {
+  return makeQuest(`q-${startTime}`, { sponsor, startTime });
+}
+
+const linkedWallets = new Map([[ALICE_LINKED, ALICE]]);
+
+// Previous 7d window: Bob leads. Current window: Alice (through her linked wallet) overtakes him
+const participations = [
+  claim(BOB, NOW - 10 * DAY, 1),
+  claim(ALICE, NOW - 9 * DAY, 0.5),
+  claim(BOB, NOW - 2 * DAY, 0.2),
+  claim(ALICE, NOW - 1 * DAY, 0.3),
+  claim(ALICE_LINKED, NOW - 1 * DAY, 0.3)
+];
+
+describe('LeaderboardCalculator', () => {
+  it('ranks a rolling window with rank changes against the previous window', () => {
+    const leaderboard = LeaderboardCalculator.build(
+      { metric: 'rewards', window: '7d', season: null, ...LeaderboardCalculator.windowRanges('7d', NOW), limit: 10 },
+      [],
+      participations,
+      linkedWallets
+    );
+
+    expect(leaderboard.entries.map(entry => entry.userAddress)).toEqual([ALICE, BOB]);
+    expect(leaderboard.entries[0]).toMatchObject({
+      rewardsEarned: '600000000000000000',
+      questsCompleted: 2,
+      linkedAddresses: [ALICE_LINKED],
+      rank: 1,
+      previousRank: 2,
+      rankChange: 1
+    });
+    expect(leaderboard.entries[1]).toMatchObject({ rank: 2, previousRank: 1, rankChange: -1 });
+  });
+
+  it('places claims at the time of their block rather than when they were indexed', () => {
+    const { range } = LeaderboardCalculator.windowRanges('24h', NOW);
+    const claims = [
+      // Claimed two days ago but indexed just now, e.g. after a reindex
+      claim(ALICE, NOW - 2 * DAY, 1, { claimedAt: NOW - 1000 }),
+      // Indexed before block timestamps were stored
+      claim(BOB, NOW - 2 * DAY, 1, { claimedAt: NOW - 1000, blockTimestamp: undefined })
+    ];
+
+    expect(LeaderboardCalculator.rank('rewards', range, [], claims, linkedWallets).map(entry => entry.userAddress)).toEqual([BOB]);
+  });
+
+  it('ranks sponsors by quests starting in the range and has no deltas for all time', () => {
+    const leaderboard = LeaderboardCalculator.build(
+      { metric: 'sponsored', window: 'all', season: null, ...LeaderboardCalculator.windowRanges('all', NOW), limit: 10 },
+      [quest(BOB, NOW - DAY), quest(ALICE_LINKED, NOW - 2 * DAY), quest(ALICE, NOW - 3 * DAY)],
+      participations,
+      linkedWallets
+    );
+
+    expect(leaderboard.previousRange).toBeNull();
+    expect(leaderboard.entries.map(entry => [entry.userAddress, entry.value, entry.rankChange])).toEqual([
+      [ALICE, '2', null],
+      [BOB, '1', null]
+    ]);
+  });
+});
+
+describe('getLeaderboardSeasons', () => {
+  it('sorts valid seasons and compares each one with the season before it', () => {
+    const seasons = getLeaderboardSeasons(JSON.stringify([
+      { id: 's2', name: 'Season 2', start: '2025-07-01T00:00:00Z', end: '2025-08-01T00:00:00Z' },
+      { id: 's1', start: '2025-06-01T00:00:00Z', end: '2025-07-01T00:00:00Z' },
+      { id: 'broken', start: '2025-09-01T00:00:00Z', end: '2025-08-01T00:00:00Z' }
+    ]));
+
+    expect(seasons.map(season => [season.id, season.name])).toEqual([['s1', 's1'], ['s2', 'Season 2']]);
+    expect(LeaderboardCalculator.seasonRanges(seasons[1], seasons).previousRange).toEqual({
+      startTime: seasons[0].startTime,
+      endTime: seasons[0].endTime
+    });
+    expect(getLeaderboardSeasons('not json')).toEqual([]);
+  });
+});
@@ -0,0 +1,49 @@
+#!/usr/bin/env bun
+/**
+ * Test the Prometheus text exposition of the metrics registry
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { MetricsRegistry } from '../lib/metrics.js';
+
+describe('MetricsRegistry', () => {
+  it('renders counters and gauges per label set', () => {
+    const registry = new MetricsRegistry();
+    const events = registry.counter('events_total', 'Events seen');
+    const lag = registry.gauge('lag_blocks', 'Indexer lag');
+
+    events.inc({ event: 'RewardClaimed', result: 'processed' });
+    events.inc({ result: 'processed', event: 'RewardClaimed' }, 2);
+    events.inc({ event: 'Quest "A"\n', result: 'failed' });
+    lag.set(12);
+
+    expect(registry.render()).toBe([
+      '# HELP events_total Events seen',
+      '# TYPE events_total counter',
+      'events_total{event="RewardClaimed",result="processed"} 3',
+      'events_total{event="Quest \\"A\\"\\n",result="failed"} 1',
+      '# HELP lag_blocks Indexer lag',
+      '# TYPE lag_blocks gauge',
+      'lag_blocks 12',
+      ''
+    ].join('\n'));
+  });
+
+  it('renders cumulative histogram buckets', () => {
+    const registry = new MetricsRegistry();
+    const latency = registry.histogram('latency_seconds', 'Latency', [0.1, 1]);
+
+    latency.observe(0.05, { route: '/health' });
+    latency.observe(0.5, { route: '/health' });
+    latency.observe(3, { route: '/health' });
+
+    expect(registry.render().split('\n').slice(2, 7)).toEqual([
+      'latency_seconds_bucket{route="/health",le="0.1"} 1',
+      'latency_seconds_bucket{route="/health",le="1"} 2',
+      'latency_seconds_bucket{route="/health",le="+Inf"} 3',
+      'latency_seconds_sum{route="/health"} 3.55',
+      'latency_seconds_count{route="/health"} 3'
+    ]);
+    expect(() => registry.counter('latency_seconds', 'Duplicate')).toThrow();
+  });
+});
@@ -0,0 +1,86 @@
+#!/usr/bin/env bun
+/**
+ * Test participant export rows (linked profile nicknames) and rendering
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { buildParticipantExport, renderParticipantExport } from '../lib/participantExport.js';
+import type { ParticipationData, UserData } from '../types/database.js';
+
+const PRIMARY = '0x1111111111111111111111111111111111111111';
+const LINKED = '0x2222222222222222222222222222222222222222';
+const STRANGER = '0x3333333333333333333333333333333333333333';
+
+function makeParticipation(userAddress: string, claimedAt: number): ParticipationData {
+  return {
+    id: `7-${userAddress}`,
+    questId: '7',
+    userAddress,
+    claimedAmount: '10000000000000000',
+    claimedAt,
+    transactionHash: `0x${claimedAt.toString(16).padStart(64, '0')}`,
+    blockNumber: claimedAt,
+    createdAt: claimedAt
+  };
+}
+
+const users: UserData[] = [{
+  address: PRIMARY,
+  nickname: 'Alice, "the builder"',
+  linkedAddresses: [LINKED],
+  createdAt: 0,
+  updatedAt: 0
+}];
+const linkedWallets = new Map([[LINKED, PRIMARY]]);
+const participations = [makeParticipation(STRANGER, 2000), makeParticipation(LINKED, 1000)];
+
+describe('buildParticipantExport', () => {
+  it('orders by claim time and uses the nickname of the linked profile', () => {
+    const rows = buildParticipantExport(participations, users, linkedWallets);
+
+    expect(rows.map(row => row.userAddress)).toEqual([LINKED, STRANGER]);
+    expect(rows[0]).toMatchObject({ profileAddress: PRIMARY, nickname: 'Alice, "the builder"' });
+    expect(rows[1]).toMatchObject({ profileAddress: STRANGER, nickname: null });
+  });
+
+  it('orders by and exports the block time of each claim, not when it was indexed', () => {
+    // Indexed in the opposite order from the one they were claimed in (e.g. after a reindex)
+    const synced = [
+      { ...makeParticipation(STRANGER, 5000), blockTimestamp: 1000 },
+      { ...makeParticipation(LINKED, 6000), blockTimestamp: 2000 }
+    ];
+    const rows = buildParticipantExport(synced, users, linkedWallets);
+
+    expect(rows.map(row => [row.userAddress, row.claimedAt])).toEqual([[STRANGER, 1000], [LINKED, 2000]]);
+  });
+});
+
+describe('renderParticipantExport', () => {
+  const rows = buildParticipantExport(participations, users, linkedWallets);
+
+  it('quotes CSV fields and writes ISO claim times', () => {
+    const [header, first] = renderParticipantExport('7', rows, 'csv').trim().split('\n');
+
+    expect(header).toBe('userAddress,profileAddress,nickname,claimedAmount,claimedAt,transactionHash,blockNumber');
+    expect(first).toContain(`${LINKED},${PRIMARY},"Alice, ""the builder""",10000000000000000,1970-01-01T00:00:01.000Z,`);
+  });
+
+  it('keeps spreadsheets from running nicknames as formulas', () => {
+    const csvNickname = (nickname: string) => {
+      const exported = buildParticipantExport(participations, [{ ...users[0], nickname }], linkedWallets);
+      return renderParticipantExport('7', exported, 'csv').split('\n')[1].split(',')[2];
+    };
+
+    expect(csvNickname('=HYPERLINK("http://evil.example")')).toBe(`"'=HYPERLINK(""http://evil.example"")"`);
+    expect(csvNickname('+1')).toBe("'+1");
+    expect(csvNickname('-1')).toBe("'-1");
+    expect(csvNickname('@SUM(A1)')).toBe("'@SUM(A1)");
+    expect(csvNickname('\tcmd')).toBe("'\tcmd");
+    expect(csvNickname('alice=bob')).toBe('alice=bob');
+  });
+
+  it('lists one address per line for airdrops', () => {
+    expect(renderParticipantExport('7', rows, 'addresses')).toBe(`${LINKED}\n${STRANGER}\n`);
+    expect(renderParticipantExport('7', [], 'addresses')).toBe('');
+  });
+});
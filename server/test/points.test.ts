@@ -0,0 +1,79 @@
+#!/usr/bin/env bun
+/**
+ * Test the points ledger (completion, quote tweet, early claim and sponsor points), levels and rule overrides
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { DEFAULT_POINTS_RULES, PointsCalculator, getPointsRules } from '../lib/points.js';
+import type { QuestData } from '../types/database.js';
+import { makeClaim, makeQuest } from './fixtures/records.js';
+
+const HOUR = 60 * 60 * 1000;
+const START = Date.UTC(2025, 6, 1, 0, 0, 0);
+
+const SPONSOR = '0x5555555555555555555555555555555555555555';
+const USER = '0x1111111111111111111111111111111111111111';
+const USER_LINKED = '0x2222222222222222222222222222222222222222';
+const OTHER = '0x3333333333333333333333333333333333333333';
+
+function quest(id: string, overrides: Partial<QuestData> = {}): QuestData {
+  return makeQuest(id, { sponsor: SPONSOR, startTime: START, ...overrides });
+}
+
+const quests = [
+  quest('1'),
+  quest('2', { questType: 'quote-tweet' }),
+  quest('3', { status: 'canceled' })
+];
+const participations = [
+  makeClaim('1', USER, START + HOUR),                 // early
+  makeClaim('2', USER_LINKED, START + 48 * HOUR),     // quote tweet, late
+  makeClaim('1', OTHER, START + 2 * HOUR)
+];
+
+describe('PointsCalculator', () => {
+  it('adds up a profile across linked wallets', () => {
+    const summary = PointsCalculator.summarize([USER, USER_LINKED], quests, participations, DEFAULT_POINTS_RULES);
+
+    expect(summary.breakdown).toEqual({ completion: 20, quoteTweet: 5, earlyClaim: 5, sponsorQuest: 0, sponsorClaims: 0 });
+    expect(summary.totalPoints).toBe(30);
+    expect(summary.ledger[0]).toMatchObject({ questId: '2', at: START + 48 * HOUR });
+  });
+
+  it('gives the early claim bonus by block time, not by when the claim was indexed', () => {
+    // Claimed within the window, indexed a day later (e.g. after a reindex)
+    const late = [makeClaim('1', USER, START + HOUR, { claimedAt: START + 25 * HOUR })];
+    const summary = PointsCalculator.summarize([USER], quests, late, DEFAULT_POINTS_RULES);
+
+    expect(summary.breakdown.earlyClaim).toBe(5);
+    expect(summary.ledger[0].at).toBe(START + HOUR);
+  });
+
+  it('gives sponsors points for quests that were not canceled and for their claims', () => {
+    const summary = PointsCalculator.summarize([SPONSOR], quests, participations, DEFAULT_POINTS_RULES);
+
+    expect(summary.breakdown.sponsorQuest).toBe(50);
+    expect(summary.ledger.find(entry => entry.reason === 'sponsorClaims' && entry.questId === '1')).toMatchObject({
+      points: 2,
+      count: 2,
+      at: START + 2 * HOUR
+    });
+  });
+
+  it('computes levels and progress from thresholds', () => {
+    expect(PointsCalculator.level(0, [0, 50, 150])).toEqual({ level: 1, levelStart: 0, nextLevelAt: 50, progress: 0 });
+    expect(PointsCalculator.level(100, [0, 50, 150])).toEqual({ level: 2, levelStart: 50, nextLevelAt: 150, progress: 0.5 });
+    expect(PointsCalculator.level(500, [0, 50, 150])).toEqual({ level: 3, levelStart: 150, nextLevelAt: null, progress: 1 });
+  });
+});
+
+describe('getPointsRules', () => {
+  it('applies valid overrides only', () => {
+    const rules = getPointsRules(JSON.stringify({ completion: 20, sponsorQuest: -1, levelThresholds: [10, 5] }));
+
+    expect(rules.completion).toBe(20);
+    expect(rules.sponsorQuest).toBe(DEFAULT_POINTS_RULES.sponsorQuest);
+    expect(rules.levelThresholds).toEqual(DEFAULT_POINTS_RULES.levelThresholds);
+    expect(getPointsRules('nope')).toBe(DEFAULT_POINTS_RULES);
+  });
+});
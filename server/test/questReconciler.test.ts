@@ -0,0 +1,156 @@
+#!/usr/bin/env bun
+/**
+ * Test reconciliation of indexed quests against contract state
+ */
+
+import { describe, it, expect, afterAll } from 'bun:test';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DatabaseService } from '../lib/database.js';
+import { QuestReconciler } from '../lib/questReconciler.js';
+import type { QuestStateReader } from '../lib/questReconciler.js';
+import { mapContractQuest, type ContractQuestStruct } from '../lib/contractQuest.js';
+
+const SPONSOR = '0xAbCdEf1234567890AbCdEf1234567890aBcDeF12';
+const DAY = 24 * 60 * 60;
+const now = Math.floor(Date.now() / 1000);
+
+function contractQuest(id: number, overrides: Partial<ContractQuestStruct> = {}): ContractQuestStruct {
+  return {
+    id: BigInt(id),
+    sponsor: SPONSOR,
+    title: `Quest ${id}`,
+    description: 'On-chain quest',
+    launch_page: 'https://x.com/monad_xyz/status/1942933687978365289',
+    questType: 0n,
+    status: 0n,
+    verificationParams: {
+      apiUrlPattern: 'https://x.com/i/api/graphql/',
+      apiEndpointHash: 'FJGOFKfjA67MmT4I9p1qZg',
+      proofValidityPeriod: 3600n,
+      targetLikeRetweetId: '1942933687978365289',
+      favoritedJsonPath: '$.favorited',
+      retweetedJsonPath: '$.retweeted',
+      requireFavorite: true,
+      requireRetweet: false,
+      targetQuotedTweetId: '',
+      quotedStatusIdJsonPath: '',
+      userIdJsonPath: '',
+      quoteTweetIdJsonPath: ''
+    },
+    totalRewards: 1000n,
+    rewardPerUser: 100n,
+    maxParticipants: 10n,
+    participantCount: 0n,
+    startTime: BigInt(now - DAY),
+    endTime: BigInt(now + DAY),
+    claimEndTime: BigInt(now + 2 * DAY),
+    isVesting: false,
+    vestingDuration: 0n,
+    ...overrides
+  };
+}
+
+describe('QuestReconciler', () => {
+  const dataDir = mkdtempSync(join(tmpdir(), 'proofquest-reconcile-'));
+
+  afterAll(() => {
+    rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('repairs fallback quests, drifted counts and missing quests at the indexed block', async () => {
+    const database = new DatabaseService(dataDir);
+    await database.init();
+    await database.updateLastProcessedBlock(500);
+
+    const onChain = [
+      contractQuest(1, { isVesting: true, vestingDuration: BigInt(DAY), participantCount: 3n }),
+      contractQuest(2),
+      contractQuest(3, { status: 4n })
+    ];
+
+    // Quest 1: stored from event data only when getQuest failed
+    await database.addQuest({
+      id: '1',
+      sponsor: SPONSOR.toLowerCase(),
+      title: 'Quest 1',
+      description: 'On-chain quest',
+      launch_page: '',
+      questType: 'likeAndRetweet',
+      totalRewards: '1000',
+      rewardPerUser: '0',
+      maxParticipants: 100,
+      participantCount: 0,
+      startTime: Date.now(),
+      endTime: Date.now() + 7 * DAY * 1000,
+      claimEndTime: Date.now() + 14 * DAY * 1000,
+      status: 'pending',
+      isVesting: false,
+      vestingDuration: 0,
+      metadata: '',
+      transactionHash: '0x1',
+      blockNumber: 10,
+      createdAt: Date.now(),
+      updatedAt: Date.now()
+    });
+    // Quest 3: already in sync apart from the cancellation
+    await database.addQuest({
+      id: '3',
+      ...mapContractQuest(onChain[2]),
+      status: 'active',
+      transactionHash: '0x3',
+      blockNumber: 12,
+      createdAt: Date.now(),
+      updatedAt: Date.now()
+    });
+
+    const blockTags: number[] = [];
+    const reader: QuestStateReader = {
+      async getAllQuestIds(offset, limit, blockTag) {
+        blockTags.push(blockTag);
+        const questIds = onChain.map(quest => quest.id.toString()).filter(id => Number(id) >= offset).slice(0, limit);
+        return { questIds, totalCount: onChain.length };
+      },
+      async getMultipleQuests(questIds, blockTag) {
+        blockTags.push(blockTag);
+        return questIds.map(id => onChain[Number(id) - 1]);
+      }
+    };
+
+    const report = await new QuestReconciler({ reader, database, batchSize: 2 }).reconcile();
+
+    expect(new Set(blockTags)).toEqual(new Set([500]));
+    expect(report.questsChecked).toBe(3);
+    expect(report.questsRepaired).toBe(3);
+    expect(report.errors).toEqual([]);
+
+    const fieldsFor = (questId: string) => report.discrepancies
+      .filter(discrepancy => discrepancy.questId === questId)
+      .map(discrepancy => discrepancy.field)
+      .sort();
+    expect(fieldsFor('1')).toEqual([
+      'claimEndTime', 'endTime', 'isVesting', 'launch_page', 'maxParticipants', 'participantCount',
+      'rewardPerUser', 'startTime', 'status', 'verificationParams', 'vestingDuration'
+    ]);
+    expect(fieldsFor('2')).toEqual(['missing']);
+    expect(fieldsFor('3')).toEqual(['status']);
+
+    const repaired = await database.getQuestById('1');
+    expect(repaired).toMatchObject({
+      participantCount: 3,
+      maxParticipants: 10,
+      rewardPerUser: '100',
+      startTime: (now - DAY) * 1000,
+      status: 'active',
+      transactionHash: '0x1'
+    });
+    expect(repaired?.metadata.targetLikeRetweetId).toBe('1942933687978365289');
+    expect((await database.getQuestById('2'))?.status).toBe('active');
+    expect((await database.getQuestById('3'))?.status).toBe('canceled');
+
+    // A second pass finds nothing left to repair
+    const second = await new QuestReconciler({ reader, database }).reconcile();
+    expect(second.discrepancies).toEqual([]);
+  });
+});
@@ -0,0 +1,106 @@
+#!/usr/bin/env bun
+/**
+ * Test quest cloning (timing shift, verificationParams mapping) and template content
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { QuestStatusCalculator } from '../lib/questStatusCalculator.js';
+import { questToFormData, toTemplateContent } from '../lib/questTemplates.js';
+import type { QuestData } from '../types/database.js';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const NOW = Date.UTC(2025, 5, 15, 12, 0, 0);
+
+function makeQuest(overrides: Partial<QuestData> = {}): QuestData {
+  const startTime = Date.UTC(2025, 5, 1, 9, 30, 0);
+  return {
+    id: '7',
+    title: 'Weekly boost',
+    description: 'Like and retweet',
+    launch_page: 'https://x.com/proofquest/status/1940000000000000000',
+    questType: 'likeAndRetweet',
+    sponsor: '0xabcdef1234567890abcdef1234567890abcdef12',
+    totalRewards: '1500000000000000000',
+    rewardPerUser: '15000000000000000',
+    maxParticipants: 100,
+    participantCount: 100,
+    startTime,
+    endTime: startTime + 7 * DAY,
+    claimEndTime: startTime + 14 * DAY,
+    status: 'ended',
+    isVesting: false,
+    vestingDuration: 0,
+    metadata: { proofValidityPeriod: 3600, requireFavorite: true, requireRetweet: false },
+    transactionHash: '0x',
+    blockNumber: 1,
+    createdAt: 0,
+    updatedAt: 0,
+    ...overrides
+  };
+}
+
+describe('QuestStatusCalculator.shiftQuestTiming', () => {
+  it('shifts past quests by whole days and keeps their durations', () => {
+    const quest = makeQuest();
+    const shifted = QuestStatusCalculator.shiftQuestTiming(quest, NOW);
+
+    expect(shifted.shiftedByMs % DAY).toBe(0);
+    expect(shifted.startTime).toBe(Date.UTC(2025, 5, 16, 9, 30, 0));
+    expect(shifted.endTime - shifted.startTime).toBe(7 * DAY);
+    expect(shifted.claimEndTime - shifted.endTime).toBe(7 * DAY);
+  });
+
+  it('leaves future quests in place and clamps invalid periods', () => {
+    const startTime = NOW + 2 * DAY;
+    const shifted = QuestStatusCalculator.shiftQuestTiming(
+      { startTime, endTime: startTime + 60 * DAY, claimEndTime: startTime + 60 * DAY + HOUR },
+      NOW
+    );
+
+    expect(shifted.shiftedByMs).toBe(0);
+    expect(shifted.endTime - shifted.startTime).toBe(30 * DAY);
+    expect(shifted.claimEndTime - shifted.endTime).toBe(DAY);
+  });
+
+  it('produces timing accepted by validateQuestTiming', () => {
+    const shifted = QuestStatusCalculator.shiftQuestTiming(makeQuest({ endTime: makeQuest().startTime + 10 * 60 * 1000 }));
+    expect(QuestStatusCalculator.validateQuestTiming(shifted)).toEqual({ valid: true, errors: [] });
+  });
+});
+
+describe('questToFormData', () => {
+  it('maps amounts and the actions required by verificationParams', () => {
+    const { formData } = questToFormData(makeQuest(), NOW);
+
+    expect(formData.questType).toBe('twitter-interaction');
+    expect(formData.tweetUrl).toBe(makeQuest().launch_page);
+    expect(formData.requiredActions).toEqual(['like']);
+    expect(formData.totalRewardPool).toBe(1.5);
+    expect(formData.rewardPerParticipant).toBe(0.015);
+    expect(formData.startDate).toBe(new Date(Date.UTC(2025, 5, 16, 9, 30, 0)).toISOString());
+  });
+
+  it('uses the quoted tweet for quote tweet quests', () => {
+    const { formData } = questToFormData(makeQuest({ questType: 'quote-tweet' }), NOW);
+
+    expect(formData.questType).toBe('quote-tweet');
+    expect(formData.quoteTweetUrl).toBe(makeQuest().launch_page);
+    expect(formData.requiredActions).toBeUndefined();
+  });
+});
+
+describe('toTemplateContent', () => {
+  it('replaces dates with durations and drops the terms agreement', () => {
+    const content = toTemplateContent({
+      title: 'Weekly boost',
+      startDate: '2025-06-01T00:00:00.000Z',
+      endDate: '2025-06-04T00:00:00.000Z',
+      rewardClaimDeadline: '2025-06-05T00:00:00.000Z',
+      agreeToTerms: true
+    });
+
+    expect(content.formData).toEqual({ title: 'Weekly boost' });
+    expect(content.timing).toEqual({ durationMs: 3 * DAY, claimPeriodMs: DAY });
+  });
+});
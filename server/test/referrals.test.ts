@@ -0,0 +1,72 @@
+#!/usr/bin/env bun
+/**
+ * Test self-referral detection and referral stats per referrer and per quest
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { ReferralCalculator, isSelfReferral } from '../lib/referrals.js';
+import type { ReferralData, ReferralStatus } from '../types/database.js';
+import { makeQuest } from './fixtures/records.js';
+
+const START = Date.UTC(2025, 6, 1, 0, 0, 0);
+
+const REFERRER = '0x1111111111111111111111111111111111111111';
+const REFERRER_LINKED = '0x2222222222222222222222222222222222222222';
+const OTHER_REFERRER = '0x3333333333333333333333333333333333333333';
+const FRIENDS = ['0xaaaa', '0xbbbb', '0xcccc', '0xdddd'].map(prefix => prefix.padEnd(42, '0'));
+
+const linkedWallets = new Map([[REFERRER_LINKED, REFERRER]]);
+const quests = [makeQuest('1'), makeQuest('2')];
+
+function referral(questId: string, referrer: string, referee: string, status: ReferralStatus, attributedAt?: number): ReferralData {
+  return {
+    id: `${questId}-${referee}`,
+    questId,
+    referrer,
+    referee,
+    status,
+    createdAt: START,
+    ...(attributedAt ? { attributedAt } : {})
+  };
+}
+
+const referrals = [
+  referral('1', REFERRER, FRIENDS[0], 'attributed', START + 1000),
+  referral('1', REFERRER_LINKED, FRIENDS[1], 'attributed', START + 2000),
+  referral('1', OTHER_REFERRER, FRIENDS[2], 'attributed', START + 500),
+  referral('1', OTHER_REFERRER, FRIENDS[3], 'pending'),
+  referral('2', REFERRER, FRIENDS[2], 'pending'),
+  referral('2', REFERRER, REFERRER_LINKED, 'rejected')
+];
+
+describe('isSelfReferral', () => {
+  it('matches the same wallet and wallets of one profile', () => {
+    expect(isSelfReferral(REFERRER, REFERRER, linkedWallets)).toBe(true);
+    expect(isSelfReferral(REFERRER_LINKED, REFERRER, linkedWallets)).toBe(true);
+    expect(isSelfReferral(OTHER_REFERRER, REFERRER, linkedWallets)).toBe(false);
+  });
+});
+
+describe('ReferralCalculator', () => {
+  it('sums a profile across linked wallets and ignores rejected referrals', () => {
+    const stats = ReferralCalculator.userStats([REFERRER, REFERRER_LINKED], referrals, quests);
+
+    expect(stats).toMatchObject({ address: REFERRER, referred: 3, completed: 2, pending: 1 });
+    expect(stats.conversionRate).toBeCloseTo(2 / 3);
+    expect(stats.quests).toEqual([
+      { questId: '1', questTitle: 'Quest 1', referred: 2, completed: 2, lastCompletedAt: START + 2000 },
+      { questId: '2', questTitle: 'Quest 2', referred: 1, completed: 0, lastCompletedAt: null }
+    ]);
+  });
+
+  it('ranks the referrers of a quest by completions', () => {
+    const stats = ReferralCalculator.questStats('1', referrals, 6, linkedWallets, 10);
+
+    expect(stats).toMatchObject({ questId: '1', claims: 6, referred: 4, completed: 3, referredShare: 0.5 });
+    expect(stats.referrers).toEqual([
+      { rank: 1, address: REFERRER, referred: 2, completed: 2, lastCompletedAt: START + 2000 },
+      { rank: 2, address: OTHER_REFERRER, referred: 2, completed: 1, lastCompletedAt: START + 500 }
+    ]);
+    expect(ReferralCalculator.questStats('1', referrals, 6, linkedWallets, 1).referrers).toHaveLength(1);
+  });
+});
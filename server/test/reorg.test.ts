@@ -0,0 +1,300 @@
+#!/usr/bin/env bun
+/**
+ * Test EventIndexer reorg rollback and replay safety against a mock forking chain
+ */
+
+import { describe, it, expect, afterAll } from 'bun:test';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ethers } from 'ethers';
+import { EventIndexer } from '../lib/eventIndexer.js';
+import { DatabaseService } from '../lib/database.js';
+import type { ReferralData } from '../types/database.js';
+
+const CONTRACT_ADDRESS = '0x1234567890123456789012345678901234567890';
+const SPONSOR = '0xabcdef1234567890abcdef1234567890abcdef12';
+const ALICE = '0x1111111111111111111111111111111111111111';
+const BOB = '0x2222222222222222222222222222222222222222';
+
+const eventInterface = new ethers.Interface([
+  'event QuestCreated(uint256 indexed questId, address indexed sponsor, uint256 totalRewards, string title, string description)',
+  'event RewardClaimed(uint256 indexed questId, address indexed recipient, uint256 amount)'
+]);
+
+// Unix seconds, one block every 12 seconds
+function blockTimestamp(number: number): number {
+  return 1_750_000_000 + number * 12;
+}
+
+// Referral of a wallet to quest 1 by Alice
+function pendingReferral(referee: string, createdAt: number): ReferralData {
+  return { id: `1-${referee}`, questId: '1', referrer: ALICE, referee, status: 'pending', createdAt };
+}
+
+interface MockBlock {
+  hash: string;
+  events: Array<{ name: string; args: unknown[] }>;
+}
+
+/**
+ * Minimal provider serving blocks from an in-memory chain that can be forked
+ */
+class MockChainProvider {
+  blocks: MockBlock[] = [];
+
+  mine(branch: string, events: MockBlock['events'] = []): void {
+    const number = this.blocks.length;
+    this.blocks.push({ hash: ethers.id(`${branch}-${number}`), events });
+  }
+
+  fork(fromBlock: number, branch: string): void {
+    this.blocks = this.blocks.slice(0, fromBlock);
+    while (this.blocks.length <= fromBlock) {
+      this.mine(branch);
+    }
+  }
+
+  async getBlockNumber(): Promise<number> {
+    return this.blocks.length - 1;
+  }
+
+  async getBlock(number: number): Promise<{ number: number; hash: string; timestamp: number } | null> {
+    const block = this.blocks[number];
+    return block ? { number, hash: block.hash, timestamp: blockTimestamp(number) } : null;
+  }
+
+  async getLogs(filter: { fromBlock: number; toBlock: number }): Promise<ethers.Log[]> {
+    const logs: ethers.Log[] = [];
+
+    for (let number = filter.fromBlock; number <= filter.toBlock && number < this.blocks.length; number++) {
+      const block = this.blocks[number];
+      block.events.forEach((event, index) => {
+        const { data, topics } = eventInterface.encodeEventLog(event.name, event.args);
+        logs.push({
+          blockNumber: number,
+          blockHash: block.hash,
+          transactionHash: ethers.id(`${block.hash}-${index}`),
+          index,
+          address: CONTRACT_ADDRESS,
+          data,
+          topics
+        } as unknown as ethers.Log);
+      });
+    }
+
+    return logs;
+  }
+
+  async getTransactionReceipt(hash: string): Promise<{ hash: string; blockNumber: number; logs: ethers.Log[] } | null> {
+    const logs = (await this.getLogs({ fromBlock: 0, toBlock: this.blocks.length - 1 }))
+      .filter(log => log.transactionHash === hash);
+    return logs.length > 0 ? { hash, blockNumber: logs[0].blockNumber, logs } : null;
+  }
+}
+
+describe('EventIndexer reorg handling', () => {
+  const dataDir = mkdtempSync(join(tmpdir(), 'proofquest-reorg-'));
+
+  afterAll(() => {
+    rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('rolls back participations from orphaned blocks and re-indexes the new branch', async () => {
+    const chain = new MockChainProvider();
+    const database = new DatabaseService(dataDir);
+    const indexer = new EventIndexer('', CONTRACT_ADDRESS, 0, {
+      provider: chain as unknown as ethers.Provider,
+      database,
+      confirmations: 0
+    });
+    await indexer.initialize();
+
+    chain.mine('a');
+    chain.mine('a', [{ name: 'QuestCreated', args: [1, SPONSOR, 1000, 'Quest', 'Desc'] }]);
+    chain.mine('a', [{ name: 'RewardClaimed', args: [1, ALICE, 10] }]);
+    chain.mine('a', [{ name: 'RewardClaimed', args: [1, BOB, 10] }]);
+
+    await indexer.startIndexing();
+    expect((await database.getQuestById('1'))?.participantCount).toBe(2);
+    expect(await database.getParticipations()).toHaveLength(2);
+    expect((await database.getParticipationById(`1-${ALICE}`))?.blockTimestamp).toBe(blockTimestamp(2) * 1000);
+
+    // Replace blocks 3+ with a branch in which Bob never claimed
+    chain.fork(3, 'b');
+    chain.mine('b');
+
+    const forkBlock = await indexer.checkForReorg();
+    expect(forkBlock).toBe(3);
+    expect(await database.getLastProcessedBlock()).toBe(2);
+    expect((await database.getQuestById('1'))?.participantCount).toBe(1);
+    expect(await database.getParticipationById(`1-${BOB}`)).toBeNull();
+
+    await indexer.startIndexing();
+    expect(await database.getLastProcessedBlock()).toBe(4);
+    expect(await database.getParticipations()).toHaveLength(1);
+    expect(await indexer.checkForReorg()).toBeNull();
+  });
+
+  it('does not double count when blocks are replayed', async () => {
+    const chain = new MockChainProvider();
+    const database = new DatabaseService(mkdtempSync(join(dataDir, 'replay-')));
+    const indexer = new EventIndexer('', CONTRACT_ADDRESS, 0, {
+      provider: chain as unknown as ethers.Provider,
+      database,
+      confirmations: 0
+    });
+    await indexer.initialize();
+
+    chain.mine('a', [{ name: 'QuestCreated', args: [1, SPONSOR, 1000, 'Quest', 'Desc'] }]);
+    chain.mine('a', [{ name: 'RewardClaimed', args: [1, ALICE, 10] }]);
+
+    await indexer.startIndexing();
+    await indexer.reindexFromBlock(0);
+
+    expect((await database.getQuestById('1'))?.participantCount).toBe(1);
+    expect(await database.getLastProcessedBlock()).toBe(1);
+  });
+
+  it('records failed events and replays them by transaction', async () => {
+    const chain = new MockChainProvider();
+    const database = new DatabaseService(mkdtempSync(join(dataDir, 'failed-')));
+    const indexer = new EventIndexer('', CONTRACT_ADDRESS, 0, {
+      provider: chain as unknown as ethers.Provider,
+      database,
+      confirmations: 0
+    });
+    await indexer.initialize();
+
+    chain.mine('a', [{ name: 'QuestCreated', args: [1, SPONSOR, 1000, 'Quest', 'Desc'] }]);
+    chain.mine('a', [{ name: 'RewardClaimed', args: [1, ALICE, 10] }]);
+
+    // The first write of the claim fails, e.g. a transient storage error
+    const addParticipation = database.addParticipation.bind(database);
+    let failures = 1;
+    database.addParticipation = async participation => {
+      if (failures-- > 0) throw new Error('disk full');
+      return addParticipation(participation);
+    };
+
+    await indexer.startIndexing();
+    expect(await database.getParticipations()).toHaveLength(0);
+
+    const [failure] = indexer.getRecentErrors();
+    expect(failure.message).toBe('disk full');
+    expect(failure.log?.blockNumber).toBe(1);
+    const transactionHash = failure.log?.transactionHash as string;
+    expect(failure.eventId).toBe(`${transactionHash}-0`);
+
+    const replay = await indexer.replayTransaction(transactionHash);
+    expect(replay.events).toEqual([{ eventId: failure.eventId!, status: 'processed' }]);
+    expect((await database.getQuestById('1'))?.participantCount).toBe(1);
+
+    const again = await indexer.replayTransaction(transactionHash);
+    expect(again.events[0].status).toBe('skipped');
+    expect((await database.getQuestById('1'))?.participantCount).toBe(1);
+  });
+
+  it('deletes the sponsor drafts of an indexed quest and restores them on rollback', async () => {
+    const chain = new MockChainProvider();
+    const database = new DatabaseService(mkdtempSync(join(dataDir, 'drafts-')));
+    const indexer = new EventIndexer('', CONTRACT_ADDRESS, 0, {
+      provider: chain as unknown as ethers.Provider,
+      database,
+      confirmations: 0
+    });
+    await indexer.initialize();
+
+    const formData = { title: 'Quest', description: 'Desc', totalRewardPool: 1 };
+    const draft = await database.createDraft(SPONSOR, 5, formData);
+    const otherQuest = await database.createDraft(SPONSOR, 5, { ...formData, totalRewardPool: 2 });
+    await database.createDraft(ALICE, 5, formData);
+
+    chain.mine('a');
+    chain.mine('a', [{ name: 'QuestCreated', args: [1, SPONSOR, ethers.parseEther('1'), 'Quest', 'Desc'] }]);
+    await indexer.startIndexing();
+
+    expect((await database.getDraftsBySponsor(SPONSOR)).map(d => d.id)).toEqual([otherQuest.id]);
+    expect(await database.getDraftsBySponsor(ALICE)).toHaveLength(1);
+
+    chain.fork(1, 'b');
+    chain.mine('b');
+    expect(await indexer.checkForReorg()).toBe(1);
+    expect(await database.getQuestById('1')).toBeNull();
+    expect(await database.getDraft(draft.id)).toEqual(draft);
+  });
+
+  it('attributes referrals on claim and returns them to pending on rollback', async () => {
+    const chain = new MockChainProvider();
+    const database = new DatabaseService(mkdtempSync(join(dataDir, 'referrals-')));
+    const indexer = new EventIndexer('', CONTRACT_ADDRESS, 0, {
+      provider: chain as unknown as ethers.Provider,
+      database,
+      confirmations: 0
+    });
+    await indexer.initialize();
+
+    chain.mine('a', [{ name: 'QuestCreated', args: [1, SPONSOR, 1000, 'Quest', 'Desc'] }]);
+    await indexer.startIndexing();
+    // Followed before the claim in block 1 was made
+    await database.saveReferral(pendingReferral(BOB, blockTimestamp(0) * 1000));
+
+    chain.mine('a', [{ name: 'RewardClaimed', args: [1, BOB, 10] }]);
+    await indexer.startIndexing();
+    expect(await database.getReferral('1', BOB)).toMatchObject({
+      status: 'attributed',
+      attributedAt: blockTimestamp(1) * 1000,
+      blockNumber: 1
+    });
+
+    chain.fork(1, 'b');
+    chain.mine('b');
+    expect(await indexer.checkForReorg()).toBe(1);
+    expect((await database.getReferral('1', BOB))?.status).toBe('pending');
+  });
+
+  it('rejects referrals recorded after the claim was made on chain', async () => {
+    const chain = new MockChainProvider();
+    const database = new DatabaseService(mkdtempSync(join(dataDir, 'late-referrals-')));
+    const indexer = new EventIndexer('', CONTRACT_ADDRESS, 0, {
+      provider: chain as unknown as ethers.Provider,
+      database,
+      confirmations: 0
+    });
+    await indexer.initialize();
+
+    chain.mine('a', [{ name: 'QuestCreated', args: [1, SPONSOR, 1000, 'Quest', 'Desc'] }]);
+    chain.mine('a', [{ name: 'RewardClaimed', args: [1, BOB, 10] }]);
+    // Recorded while the claim in block 1 was not indexed yet
+    await database.saveReferral(pendingReferral(BOB, blockTimestamp(1) * 1000 + 1));
+
+    await indexer.startIndexing();
+    expect((await database.getReferral('1', BOB))?.status).toBe('rejected');
+  });
+
+  it('awards badges once per batch and revokes those of orphaned claims', async () => {
+    const chain = new MockChainProvider();
+    const database = new DatabaseService(mkdtempSync(join(dataDir, 'badges-')));
+    const indexer = new EventIndexer('', CONTRACT_ADDRESS, 0, {
+      provider: chain as unknown as ethers.Provider,
+      database,
+      confirmations: 0
+    });
+    await indexer.initialize();
+
+    chain.mine('a', [{ name: 'QuestCreated', args: [1, SPONSOR, 1000, 'Quest', 'Desc'] }]);
+    chain.mine('a', [{ name: 'RewardClaimed', args: [1, ALICE, 10] }]);
+    await indexer.startIndexing();
+    expect(await database.getBadges(SPONSOR)).toMatchObject([{ badgeId: 'first-sponsor', blockNumber: 0 }]);
+    expect((await database.getBadges(ALICE)).find(badge => badge.badgeId === 'first-quest')).toMatchObject({
+      blockNumber: 1,
+      earnedAt: blockTimestamp(1) * 1000
+    });
+
+    chain.fork(1, 'b');
+    chain.mine('b');
+    expect(await indexer.checkForReorg()).toBe(1);
+    expect(await database.getBadges(ALICE)).toEqual([]);
+    expect(await database.getBadges(SPONSOR)).toHaveLength(1);
+  });
+});
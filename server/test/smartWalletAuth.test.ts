@@ -0,0 +1,165 @@
+#!/usr/bin/env bun
+/**
+ * Test SIWE sign-in for ERC-1271 and ERC-6492 smart-contract wallets, against a mocked RPC and a local anvil chain
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import { ethers } from 'ethers';
+import { verifyEVMSignature, createSiweMessage, generateNonce } from '../lib/auth.js';
+import { ERC6492_MAGIC_SUFFIX, UNIVERSAL_SIGNATURE_VALIDATOR_BYTECODE } from '../lib/smartWallet.js';
+import walletFactoryArtifact from './fixtures/minimalERC1271WalletFactory.json';
+
+const ANVIL = Bun.which('anvil');
+const PORT = 8546;
+const CHAIN_ID = 31337;
+// First default anvil account
+const DEPLOYER_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+
+async function signIn(signer: ethers.Signer, walletAddress: string) {
+  const message = createSiweMessage('localhost', walletAddress, generateNonce(), { chainId: CHAIN_ID });
+  return { message, signature: await signer.signMessage(message) };
+}
+
+describe('smart wallet signature check', () => {
+  const owner = ethers.Wallet.createRandom();
+  const walletAddress = ethers.getAddress('0x' + '42'.repeat(20));
+
+  function mockProvider(respond: () => Promise<string>) {
+    const calls: ethers.TransactionRequest[] = [];
+    const provider = {
+      call: async (tx: ethers.TransactionRequest) => {
+        calls.push(tx);
+        return respond();
+      }
+    } as unknown as ethers.Provider;
+    return { provider, calls };
+  }
+
+  it('runs the validator as a deployless call with the signer, hash and signature', async () => {
+    const { provider, calls } = mockProvider(async () => '0x01');
+    const { message, signature } = await signIn(owner, walletAddress);
+
+    const result = await verifyEVMSignature(message, signature, { provider });
+
+    expect(result.isValid).toBe(true);
+    expect(result.address).toBe(walletAddress);
+    expect(calls).toHaveLength(1);
+    expect(calls[0].to).toBeUndefined();
+    expect(calls[0].data).toBe(ethers.concat([
+      UNIVERSAL_SIGNATURE_VALIDATOR_BYTECODE,
+      ethers.AbiCoder.defaultAbiCoder().encode(
+        ['address', 'bytes32', 'bytes'],
+        [walletAddress, ethers.hashMessage(message), signature]
+      )
+    ]));
+  });
+
+  it('rejects any result other than 0x01 and failed calls', async () => {
+    const { message, signature } = await signIn(owner, walletAddress);
+
+    for (const respond of [
+      async () => '0x00',
+      async () => '0x',
+      async () => { throw new Error('execution reverted'); }
+    ]) {
+      const { provider } = mockProvider(respond);
+      expect((await verifyEVMSignature(message, signature, { provider })).isValid).toBe(false);
+    }
+  });
+});
+
+describe.skipIf(!ANVIL)('smart wallet sign-in', () => {
+  let anvil: ReturnType<typeof Bun.spawn>;
+  let provider: ethers.JsonRpcProvider;
+  let factory: ethers.Contract;
+
+  const owner = ethers.Wallet.createRandom();
+
+  async function walletAddressFor(salt: string): Promise<string> {
+    return factory.getFunction('getAddress')(owner.address, salt);
+  }
+
+  beforeAll(async () => {
+    anvil = Bun.spawn([ANVIL!, '--port', String(PORT), '--chain-id', String(CHAIN_ID), '--silent'], {
+      stdout: 'ignore',
+      stderr: 'ignore'
+    });
+    provider = new ethers.JsonRpcProvider(`http://127.0.0.1:${PORT}`, CHAIN_ID, { staticNetwork: true });
+
+    // Wait for the node to accept requests
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await provider.getBlockNumber();
+        break;
+      } catch (error) {
+        if (attempt >= 50) throw error;
+        await Bun.sleep(200);
+      }
+    }
+
+    const deployer = new ethers.Wallet(DEPLOYER_KEY, provider);
+    const contractFactory = new ethers.ContractFactory(walletFactoryArtifact.abi, walletFactoryArtifact.bytecode, deployer);
+    factory = (await contractFactory.deploy()) as ethers.Contract;
+    await factory.waitForDeployment();
+  }, 30000);
+
+  afterAll(() => {
+    provider?.destroy();
+    anvil?.kill();
+  });
+
+  it('accepts an ERC-1271 signature from a deployed wallet', async () => {
+    const salt = ethers.id('deployed');
+    await (await factory.getFunction('deploy')(owner.address, salt)).wait();
+    const walletAddress = await walletAddressFor(salt);
+    expect(await provider.getCode(walletAddress)).not.toBe('0x');
+
+    const { message, signature } = await signIn(owner, walletAddress);
+    const result = await verifyEVMSignature(message, signature, { provider });
+
+    expect(result.isValid).toBe(true);
+    expect(result.address).toBe(ethers.getAddress(walletAddress));
+  });
+
+  it('accepts an ERC-6492 signature from a counterfactual wallet', async () => {
+    const salt = ethers.id('counterfactual');
+    const walletAddress = await walletAddressFor(salt);
+    expect(await provider.getCode(walletAddress)).toBe('0x');
+
+    const { message, signature } = await signIn(owner, walletAddress);
+    const deployCalldata = factory.interface.encodeFunctionData('deploy', [owner.address, salt]);
+    const wrappedSignature = ethers.concat([
+      ethers.AbiCoder.defaultAbiCoder().encode(
+        ['address', 'bytes', 'bytes'],
+        [await factory.getAddress(), deployCalldata, signature]
+      ),
+      ERC6492_MAGIC_SUFFIX
+    ]);
+
+    const result = await verifyEVMSignature(message, wrappedSignature, { provider });
+
+    expect(result.isValid).toBe(true);
+    expect(result.address).toBe(ethers.getAddress(walletAddress));
+    // Validation runs in an eth_call, so the wallet is still not deployed
+    expect(await provider.getCode(walletAddress)).toBe('0x');
+  });
+
+  it('rejects signatures from a key that does not own the wallet', async () => {
+    const walletAddress = await walletAddressFor(ethers.id('deployed'));
+    const { message, signature } = await signIn(ethers.Wallet.createRandom(), walletAddress);
+
+    const result = await verifyEVMSignature(message, signature, { provider });
+
+    expect(result.isValid).toBe(false);
+  });
+
+  it('still verifies EOA signatures locally', async () => {
+    const eoa = ethers.Wallet.createRandom();
+    const { message, signature } = await signIn(eoa, eoa.address);
+
+    const result = await verifyEVMSignature(message, signature, { provider });
+
+    expect(result.isValid).toBe(true);
+    expect(result.address).toBe(eoa.address);
+  });
+});
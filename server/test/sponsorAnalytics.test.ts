@@ -0,0 +1,85 @@
+#!/usr/bin/env bun
+/**
+ * Test sponsor analytics bucketing and pool accounting
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { SponsorAnalyticsCalculator } from '../lib/sponsorAnalytics.js';
+import type { QuestData, ParticipationData } from '../types/database.js';
+
+const HOUR = 60 * 60 * 1000;
+const START = Date.UTC(2025, 0, 1);
+
+const quest: QuestData = {
+  id: '1',
+  title: 'Quest',
+  description: '',
+  launch_page: '',
+  questType: 'likeAndRetweet',
+  sponsor: '0xabcdef1234567890abcdef1234567890abcdef12',
+  totalRewards: '300',
+  rewardPerUser: '100',
+  maxParticipants: 3,
+  participantCount: 2,
+  startTime: START,
+  endTime: START + 24 * HOUR,
+  claimEndTime: START + 48 * HOUR,
+  status: 'active',
+  isVesting: true,
+  vestingDuration: 3600,
+  metadata: '',
+  transactionHash: '0x',
+  blockNumber: 1,
+  createdAt: START,
+  updatedAt: START
+};
+
+function claim(user: string, claimedAt: number, claimedAmount: string): ParticipationData {
+  return {
+    id: `1-${user}`,
+    questId: '1',
+    userAddress: user,
+    claimedAmount,
+    claimedAt,
+    transactionHash: '0x',
+    blockNumber: 1,
+    createdAt: claimedAt
+  };
+}
+
+describe('SponsorAnalyticsCalculator', () => {
+  const claims = [claim('0x1', START + 10 * 60 * 1000, '40'), claim('0x2', START + 2 * HOUR + 5, '60')];
+
+  it('buckets claims hourly with zero-filled gaps', () => {
+    const buckets = SponsorAnalyticsCalculator.bucketClaims(claims, 'hour');
+
+    expect(buckets.map(b => b.claims)).toEqual([1, 0, 1]);
+    expect(buckets.map(b => b.cumulativeClaims)).toEqual([1, 1, 2]);
+    expect(buckets[2].bucketStart).toBe(START + 2 * HOUR);
+  });
+
+  it('computes vesting outstanding and refundable amounts', () => {
+    const beforeDeadline = SponsorAnalyticsCalculator.analyzeQuest(quest, claims, 'day', START + HOUR);
+    expect(beforeDeadline.distributed).toBe('100');
+    expect(beforeDeadline.vestingOutstanding).toBe('100');
+    expect(beforeDeadline.remainingPool).toBe('100');
+    expect(beforeDeadline.refundable).toBe('0');
+    expect(beforeDeadline.timeToFill).toBeNull();
+
+    const afterDeadline = SponsorAnalyticsCalculator.analyzeQuest(quest, claims, 'day', START + 49 * HOUR);
+    expect(afterDeadline.refundable).toBe('100');
+    expect(SponsorAnalyticsCalculator.analyzeQuest({ ...quest, status: 'closed' }, claims, 'day', START + 49 * HOUR).refundable).toBe('0');
+  });
+
+  it('buckets claims and times the fill by block time, not by when they were indexed', () => {
+    // All three claims indexed at once a day later (e.g. after a reindex)
+    const indexedAt = START + 24 * HOUR;
+    const synced = [HOUR, 3 * HOUR, 2 * HOUR].map((offset, i) => ({
+      ...claim(`0x${i}`, indexedAt, '100'),
+      blockTimestamp: START + offset
+    }));
+
+    expect(SponsorAnalyticsCalculator.bucketClaims(synced, 'hour').map(b => b.claims)).toEqual([1, 1, 1]);
+    expect(SponsorAnalyticsCalculator.analyzeQuest(quest, synced, 'hour', indexedAt).timeToFill).toBe(3 * HOUR);
+  });
+});
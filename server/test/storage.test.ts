@@ -0,0 +1,280 @@
+#!/usr/bin/env bun
+/**
+ * Test that the lowdb and SQLite storage backends behave the same
+ */
+
+import { describe, it, expect, afterAll } from 'bun:test';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { LowdbStorage, SqliteStorage, type StorageAdapter } from '../lib/storage/index.js';
+import { DatabaseService } from '../lib/database.js';
+import type { QuestData, ParticipationData } from '../types/database.js';
+
+const SPONSOR = '0xAbCdEf1234567890abcdef1234567890ABCDEF12';
+const USER = '0x1111111111111111111111111111111111111111';
+
+function makeQuest(id: string, status: QuestData['status'], blockNumber: number): QuestData {
+  return {
+    id,
+    title: `Quest ${id}`,
+    description: 'Test quest',
+    launch_page: '',
+    questType: 'likeAndRetweet',
+    sponsor: SPONSOR,
+    totalRewards: '1000',
+    rewardPerUser: '10',
+    maxParticipants: 100,
+    participantCount: 0,
+    startTime: 0,
+    endTime: 0,
+    claimEndTime: 0,
+    status,
+    isVesting: false,
+    vestingDuration: 0,
+    metadata: '',
+    transactionHash: '0x',
+    blockNumber,
+    createdAt: 0,
+    updatedAt: 0
+  };
+}
+
+function makeParticipation(questId: string, claimedAmount: string): ParticipationData {
+  return {
+    id: `${questId}-${USER}`,
+    questId,
+    userAddress: USER,
+    claimedAmount,
+    claimedAt: 0,
+    transactionHash: '0x',
+    blockNumber: 10,
+    createdAt: 0
+  };
+}
+
+const dataDir = mkdtempSync(join(tmpdir(), 'proofquest-storage-'));
+
+afterAll(() => {
+  rmSync(dataDir, { recursive: true, force: true });
+});
+
+const backends: Array<[string, () => StorageAdapter]> = [
+  ['lowdb', () => new LowdbStorage(mkdtempSync(join(dataDir, 'lowdb-')))],
+  ['sqlite', () => new SqliteStorage(mkdtempSync(join(dataDir, 'sqlite-')))]
+];
+
+for (const [name, createAdapter] of backends) {
+  describe(`${name} storage`, () => {
+    it('filters quests and participations', async () => {
+      const storage = createAdapter();
+      await storage.init();
+
+      await storage.saveQuest(makeQuest('1', 'active', 5));
+      await storage.saveQuest(makeQuest('2', 'ended', 20));
+      await storage.saveParticipation(makeParticipation('1', '10'));
+
+      expect((await storage.getQuests({ status: 'active' })).map(q => q.id)).toEqual(['1']);
+      expect((await storage.getQuests({ sponsor: SPONSOR.toLowerCase() })).length).toBe(2);
+      expect((await storage.getQuests({ fromBlock: 10 })).map(q => q.id)).toEqual(['2']);
+      expect((await storage.getParticipations({ userAddress: USER.toUpperCase().replace('0X', '0x') })).length).toBe(1);
+      expect((await storage.getParticipations({ questId: '2' })).length).toBe(0);
+
+      await storage.close();
+    });
+
+    it('upserts participations by quest and user', async () => {
+      const storage = createAdapter();
+      await storage.init();
+
+      await storage.saveParticipation(makeParticipation('1', '10'));
+      await storage.saveParticipation(makeParticipation('1', '25'));
+
+      expect(await storage.countParticipations()).toBe(1);
+      expect((await storage.getParticipationById(`1-${USER}`))?.claimedAmount).toBe('25');
+
+      await storage.close();
+    });
+
+    it('round-trips a full export through import', async () => {
+      const source = createAdapter();
+      await source.init();
+      const database = new DatabaseService(dataDir, source);
+
+      await database.addQuest(makeQuest('1', 'active', 5));
+      await database.addParticipation(makeParticipation('1', '10'));
+      await database.appendUndoLog({ blockNumber: 5, entity: 'quest', id: '1', before: null });
+      await database.appendUndoLog({ blockNumber: 9, entity: 'quest', id: '1', before: null });
+      await database.updateLastProcessedBlock(42);
+
+      const target = createAdapter();
+      await target.init();
+      await target.importData(await source.exportData());
+
+      expect(await target.countQuests()).toBe(1);
+      expect(await target.countParticipations()).toBe(1);
+      expect((await target.getIndexerState()).lastProcessedBlock).toBe(42);
+      expect((await target.getUndoLog({ fromBlock: 6 })).length).toBe(1);
+
+      await target.deleteUndoLog({ beforeBlock: 6 });
+      expect((await target.getUndoLog()).map(entry => entry.blockNumber)).toEqual([9]);
+
+      await source.close();
+      await target.close();
+    });
+
+    it('rolls back failed transactions and nested savepoints', async () => {
+      const storage = createAdapter();
+      await storage.init();
+
+      await storage.transaction(async () => {
+        await storage.saveQuest(makeQuest('1', 'active', 5));
+        await storage.transaction(async () => {
+          await storage.saveQuest(makeQuest('2', 'active', 6));
+          throw new Error('handler failed');
+        }).catch(() => {});
+        await storage.addProcessedEvent({ id: '0xabc-0', blockNumber: 5 });
+      });
+
+      await expect(storage.transaction(async () => {
+        await storage.saveQuest(makeQuest('3', 'active', 7));
+        throw new Error('batch failed');
+      })).rejects.toThrow('batch failed');
+
+      expect((await storage.getQuests()).map(q => q.id)).toEqual(['1']);
+      expect(await storage.hasProcessedEvent('0xabc-0')).toBe(true);
+
+      await storage.deleteProcessedEvents(5);
+      expect(await storage.hasProcessedEvent('0xabc-0')).toBe(false);
+
+      await storage.close();
+    });
+
+    it('keeps writes of other callers out of an open transaction', async () => {
+      const storage = createAdapter();
+      await storage.init();
+      const database = new DatabaseService(dataDir, storage);
+      const now = Date.now();
+
+      let transactionStarted!: () => void;
+      const started = new Promise<void>(resolve => { transactionStarted = resolve; });
+
+      // A batch that awaits between writes and then fails, like an indexer batch
+      const batch = database.transaction(async () => {
+        await database.addQuest(makeQuest('1', 'active', 5));
+        transactionStarted();
+        await new Promise(resolve => setTimeout(resolve, 20));
+        await database.transaction(async () => {
+          await database.addQuest(makeQuest('2', 'active', 6));
+          throw new Error('handler failed');
+        });
+      });
+
+      await started;
+      const sessionSaved = database.createSession({ id: 'session-1', address: USER, createdAt: now, expiresAt: now + 60_000 });
+
+      await expect(batch).rejects.toThrow('handler failed');
+      await sessionSaved;
+
+      expect(await database.getQuests()).toEqual([]);
+      expect(await database.getSession('session-1')).not.toBeNull();
+
+      await storage.close();
+    });
+
+    it('consumes nonces once and revokes sessions', async () => {
+      const storage = createAdapter();
+      await storage.init();
+      const database = new DatabaseService(dataDir, storage);
+      const now = Date.now();
+
+      await database.saveNonce({ address: USER, nonce: 'old', expiresAt: now + 60_000 });
+      await database.saveNonce({ address: USER, nonce: 'new', expiresAt: now + 60_000 });
+      expect(await database.consumeNonce(USER, 'old')).toBeNull();
+      expect((await database.consumeNonce(USER.toUpperCase().replace('0X', '0x'), 'new'))?.nonce).toBe('new');
+      expect(await database.consumeNonce(USER, 'new')).toBeNull();
+
+      for (const id of ['a', 'b', 'c']) {
+        await database.createSession({ id, address: USER, createdAt: now, expiresAt: now + 60_000 });
+      }
+      await database.createSession({ id: 'sponsor', address: SPONSOR, createdAt: now, expiresAt: now + 60_000 });
+
+      expect(await database.revokeSession('a')).toBe(true);
+      expect(await database.revokeSession('a')).toBe(false);
+      expect(await database.revokeAllSessions(USER)).toBe(2);
+      expect((await database.getSession('c'))?.revokedAt).toBeNumber();
+      expect(await database.getActiveSessions(USER)).toEqual([]);
+      expect((await database.getActiveSessions(SPONSOR)).map(session => session.id)).toEqual(['sponsor']);
+
+      await database.saveNonce({ address: SPONSOR, nonce: 'stale', expiresAt: now - 1 });
+      await database.pruneAuthRecords(now + 120_000);
+      expect(await database.getSession('sponsor')).toBeNull();
+      expect(await storage.getNonce(SPONSOR)).toBeNull();
+
+      await storage.close();
+    });
+
+    it('links wallets and aggregates profile statistics', async () => {
+      const storage = createAdapter();
+      await storage.init();
+      const database = new DatabaseService(dataDir, storage);
+      const now = Date.now();
+
+      await database.addUser({ address: SPONSOR, createdAt: now, updatedAt: now });
+      await database.addUser({ address: USER, createdAt: now, updatedAt: now });
+      await database.addParticipation(makeParticipation('1', '100'));
+      await database.addParticipation({ ...makeParticipation('2', '50'), id: `2-${SPONSOR}`, userAddress: SPONSOR });
+
+      const linked = await database.linkWallet(SPONSOR, USER);
+      expect(linked.linkedAddresses).toEqual([USER]);
+      expect(await database.getPrimaryAddress(USER)).toBe(SPONSOR.toLowerCase());
+      expect(await database.getProfileAddresses(USER)).toEqual([SPONSOR.toLowerCase(), USER]);
+
+      const stats = await database.getProfileStatistics(USER);
+      expect(stats.address).toBe(SPONSOR.toLowerCase());
+      expect(stats.totalParticipations).toBe(2);
+      expect(stats.totalRewardsEarned).toBe('150');
+
+      // One profile per wallet, one level deep
+      await expect(database.linkWallet(SPONSOR, USER)).rejects.toThrow('already linked');
+      await expect(database.linkWallet(USER, SPONSOR)).rejects.toThrow('linked to another profile');
+
+      expect((await database.unlinkWallet(SPONSOR, USER))?.linkedAddresses).toEqual([]);
+      expect(await database.unlinkWallet(SPONSOR, USER)).toBeNull();
+      expect((await database.getProfileStatistics(USER)).totalRewardsEarned).toBe('100');
+
+      await storage.close();
+    });
+
+    it('saves drafts per sponsor and finds the drafts of a created quest', async () => {
+      const storage = createAdapter();
+      await storage.init();
+      const database = new DatabaseService(dataDir, storage);
+
+      const launch = { title: 'Launch quest ', description: 'Like and retweet', totalRewardPool: 1 };
+      const draft = await database.createDraft(SPONSOR, 2, launch);
+      await database.createDraft(SPONSOR, 1, { title: 'Other quest' });
+      await database.createDraft(USER, 1, launch);
+      // Same title, but a different quest
+      await database.createDraft(SPONSOR, 3, { ...launch, description: 'Quote tweet' });
+      await database.createDraft(SPONSOR, 3, { ...launch, totalRewardPool: 3 });
+
+      const updated = await database.updateDraft(draft.id, 4, { ...launch, totalRewardPool: 2 });
+      expect(updated.step).toBe(4);
+      expect((await database.getDraft(draft.id))?.formData.totalRewardPool).toBe(2);
+      expect((await database.getDraftsBySponsor(SPONSOR.toLowerCase())).length).toBe(4);
+      await expect(database.updateDraft('missing', 1, {})).rejects.toThrow('not found');
+
+      const quest = {
+        ...makeQuest('1', 'active', 1),
+        title: 'Launch quest',
+        description: 'Like and retweet',
+        totalRewards: '2000000000000000000'
+      };
+      expect((await database.getDraftsForQuest(quest)).map(d => d.id)).toEqual([draft.id]);
+      expect(await database.getDraftsForQuest({ ...quest, description: 'Other' })).toEqual([]);
+
+      await storage.close();
+    });
+  });
+}
@@ -0,0 +1,152 @@
+#!/usr/bin/env bun
+/**
+ * Test vesting unlock math and position assembly from indexed claims and contract reads
+ */
+
+import { describe, it, expect, afterAll } from 'bun:test';
+import { ethers } from 'ethers';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DatabaseService } from '../lib/database.js';
+import { ContractVestingReader, VestingCalculator, VestingService } from '../lib/vesting.js';
+import type { VestingReader, OnChainVestingInfo } from '../lib/vesting.js';
+import type { QuestData } from '../types/database.js';
+
+const HOUR = 60 * 60 * 1000;
+const START = Date.UTC(2025, 0, 1);
+const ALICE = '0x1111111111111111111111111111111111111111';
+const BOB = '0x2222222222222222222222222222222222222222';
+
+function vestingQuest(id: string): QuestData {
+  return {
+    id,
+    title: `Quest ${id}`,
+    description: '',
+    launch_page: '',
+    questType: 'likeAndRetweet',
+    sponsor: '0xabcdef1234567890abcdef1234567890abcdef12',
+    totalRewards: '1000',
+    rewardPerUser: '100',
+    maxParticipants: 10,
+    participantCount: 1,
+    startTime: START,
+    endTime: START + 24 * HOUR,
+    claimEndTime: START + 48 * HOUR,
+    status: 'active',
+    isVesting: true,
+    vestingDuration: 10 * 60 * 60, // 10 hours
+    metadata: '',
+    transactionHash: '0x',
+    blockNumber: 1,
+    createdAt: START,
+    updatedAt: START
+  };
+}
+
+describe('VestingCalculator', () => {
+  it('unlocks linearly from start time over the vesting duration', () => {
+    const quest = vestingQuest('1');
+
+    expect(VestingCalculator.getVestedAmount(quest, START)).toBe(0n);
+    expect(VestingCalculator.getVestedAmount(quest, START + 5 * HOUR)).toBe(50n);
+    expect(VestingCalculator.getVestedAmount(quest, START + 20 * HOUR)).toBe(100n);
+
+    const schedule = VestingCalculator.getUnlockSchedule(quest, 4);
+    expect(schedule.map(point => point.vestedAmount)).toEqual(['0', '25', '50', '75', '100']);
+  });
+});
+
+describe('ContractVestingReader', () => {
+  it('reads each quest and user once per block', async () => {
+    const iface = new ethers.Interface([
+      'function getMultipleVestingInfo(uint256 _questId, address[] _users) view returns (tuple(address user, uint256 vestedAmount, uint256 claimedAmount, uint256 claimableAmount, bool isQualified)[] vestingInfos)'
+    ]);
+    let blockNumber = 100;
+    const calls: Array<{ questId: bigint; blockTag: unknown }> = [];
+    const provider = {
+      getBlockNumber: async () => blockNumber,
+      call: async (tx: { data: string; blockTag?: unknown }) => {
+        const [questId, users] = iface.decodeFunctionData('getMultipleVestingInfo', tx.data);
+        calls.push({ questId, blockTag: tx.blockTag });
+        return iface.encodeFunctionResult('getMultipleVestingInfo', [[[users[0], 50n, 30n, 20n, true]]]);
+      }
+    } as unknown as ethers.Provider;
+
+    const reader = new ContractVestingReader('', '0x0000000000000000000000000000000000000001', provider);
+    const expected = { qualified: true, vestedAmount: '50', claimedAmount: '30', claimableAmount: '20' };
+
+    expect(await reader.getVestingInfo('7', ALICE)).toEqual(expected);
+    expect(await reader.getVestingInfo('7', ALICE)).toEqual(expected);
+    expect(calls).toEqual([{ questId: 7n, blockTag: 100 }]);
+
+    blockNumber = 101;
+    await reader.getVestingInfo('7', ALICE);
+    expect(calls).toHaveLength(2);
+    expect(calls[1].blockTag).toBe(101);
+  });
+});
+
+describe('VestingService', () => {
+  const dataDir = mkdtempSync(join(tmpdir(), 'proofquest-vesting-'));
+
+  afterAll(() => {
+    rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('lists qualified quests from the contract and falls back to indexed claims', async () => {
+    const database = new DatabaseService(dataDir);
+    await database.init();
+    await database.addQuest(vestingQuest('1'));
+    await database.addQuest(vestingQuest('2'));
+    await database.addParticipation({
+      id: `2-${ALICE}`,
+      questId: '2',
+      userAddress: ALICE,
+      claimedAmount: '30',
+      claimedAt: START + 3 * HOUR,
+      transactionHash: '0x',
+      blockNumber: 2,
+      blockTimestamp: START + 2 * HOUR,
+      createdAt: START + 3 * HOUR
+    });
+
+    // Alice qualified for quest 1 but never claimed, so only the contract knows about it
+    const reader: VestingReader = {
+      async getVestingInfo(questId: string, user: string): Promise<OnChainVestingInfo> {
+        const qualified = user === ALICE;
+        const claimed = questId === '2' ? '30' : '0';
+        return {
+          qualified,
+          vestedAmount: qualified ? '50' : '0',
+          claimedAmount: qualified ? claimed : '0',
+          claimableAmount: qualified ? (50 - Number(claimed)).toString() : '0'
+        };
+      }
+    };
+
+    const withContract = await new VestingService({ database, reader }).getUserVesting(ALICE, START + 5 * HOUR);
+    expect(withContract.positions.map(p => p.questId)).toEqual(['1', '2']);
+    expect(withContract.totals.claimableAmount).toBe('70');
+    expect(withContract.positions[0]).toMatchObject({ claimableAmount: '50', indexedClaimedAmount: '0', source: 'contract' });
+    expect(withContract.positions[1]).toMatchObject({
+      claimableAmount: '20',
+      indexedClaimedAmount: '30',
+      lastClaimedAt: START + 2 * HOUR,
+      source: 'contract'
+    });
+
+    const indexedOnly = await new VestingService({ database }).getUserVesting(ALICE, START + 5 * HOUR);
+    expect(indexedOnly.positions).toHaveLength(1);
+    expect(indexedOnly.positions[0]).toMatchObject({
+      questId: '2',
+      vestedAmount: '50',
+      claimedAmount: '30',
+      claimableAmount: '20',
+      lockedAmount: '50',
+      source: 'indexed'
+    });
+
+    expect((await new VestingService({ database, reader }).getUserVesting(BOB)).positions).toHaveLength(0);
+  });
+});
@@ -0,0 +1,98 @@
+#!/usr/bin/env bun
+/**
+ * Test X account attestation checks and one-wallet-per-X-account binding
+ */
+
+import { describe, it, expect, afterAll } from 'bun:test';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DatabaseService } from '../lib/database.js';
+import { LowdbStorage } from '../lib/storage/lowdbStorage.js';
+import { verifyXAccountAttestation, X_ACCOUNT_ATTESTATION_MAX_AGE_MS } from '../lib/xAccountVerifier.js';
+import type { AttestationInput } from '../lib/attestationVerifier.js';
+
+const NOW = Date.UTC(2025, 0, 1);
+const ALICE = '0x1111111111111111111111111111111111111111';
+const BOB = '0x2222222222222222222222222222222222222222';
+const TEMPLATE_ID = 'x-account-template';
+
+function xAccountAttestation(overrides: Partial<AttestationInput> = {}): AttestationInput {
+  return {
+    recipient: ALICE,
+    request: { url: 'https://api.x.com/1.1/account/verify_credentials.json?skip_status=true' },
+    data: '{"user_id_str":"12345","screen_name":"alice_onchain"}',
+    timestamp: NOW - 60_000,
+    additionParams: JSON.stringify({ attTemplateID: TEMPLATE_ID }),
+    ...overrides
+  };
+}
+
+describe('verifyXAccountAttestation', () => {
+  it('accepts a fresh attestation of the wallet owner', () => {
+    const result = verifyXAccountAttestation(xAccountAttestation(), { userAddress: ALICE, now: NOW, templateId: TEMPLATE_ID });
+
+    expect(result.valid).toBe(true);
+    expect(result.xUserId).toBe('12345');
+    expect(result.xHandle).toBe('alice_onchain');
+  });
+
+  it('reports each failed check', () => {
+    const failedChecks = (attestation: AttestationInput) =>
+      verifyXAccountAttestation(attestation, { userAddress: ALICE, now: NOW, templateId: TEMPLATE_ID }).checks
+        .filter(check => !check.passed)
+        .map(check => check.id);
+
+    expect(failedChecks(xAccountAttestation({ recipient: BOB }))).toEqual(['recipient']);
+    expect(failedChecks(xAccountAttestation({ timestamp: NOW - X_ACCOUNT_ATTESTATION_MAX_AGE_MS - 1 }))).toEqual(['timestamp']);
+    expect(failedChecks(xAccountAttestation({ timestamp: NOW + 1 }))).toEqual(['timestamp']);
+    expect(failedChecks(xAccountAttestation({ additionParams: JSON.stringify({ attTemplateID: 'other' }) }))).toEqual(['template']);
+    expect(failedChecks(xAccountAttestation({ additionParams: undefined }))).toEqual(['template']);
+    expect(failedChecks(xAccountAttestation({ request: { url: 'https://evil.example/x.com/' } }))).toEqual(['requestUrl']);
+    // Other X endpoints can return any account, e.g. a profile looked up by id
+    expect(failedChecks(xAccountAttestation({ request: { url: 'https://x.com/i/api/graphql/abc/UserByRestId?variables=%7B%7D' } }))).toEqual(['requestUrl']);
+    expect(failedChecks(xAccountAttestation({ request: { url: 'https://api.x.com/1.1/users/show.json?user_id=1' } }))).toEqual(['requestUrl']);
+    expect(failedChecks(xAccountAttestation({ data: '{"screen_name":"alice_onchain"}' }))).toEqual(['userId']);
+    expect(failedChecks(xAccountAttestation({ data: '{"user_id_str":"12345","screen_name":"not a handle"}' }))).toEqual(['handle']);
+  });
+
+  it('rejects every attestation when no template is configured', () => {
+    const result = verifyXAccountAttestation(xAccountAttestation(), { userAddress: ALICE, now: NOW, templateId: '' });
+
+    expect(result.valid).toBe(false);
+    expect(result.checks.find(check => check.id === 'template')?.passed).toBe(false);
+  });
+});
+
+describe('X account binding', () => {
+  const dataDir = mkdtempSync(join(tmpdir(), 'proofquest-xaccount-'));
+
+  afterAll(() => {
+    rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('binds an X account to one wallet only', async () => {
+    const storage = new LowdbStorage(dataDir);
+    await storage.init();
+    const database = new DatabaseService(dataDir, storage);
+
+    for (const address of [ALICE, BOB]) {
+      await database.addUser({ address, createdAt: NOW, updatedAt: NOW });
+    }
+
+    const alice = await database.bindXAccount(ALICE, '12345', 'alice_onchain');
+    expect(alice.xHandle).toBe('alice_onchain');
+    expect(alice.xVerifiedAt).toBeNumber();
+
+    await expect(database.bindXAccount(BOB, '12345', 'alice_onchain')).rejects.toThrow('already bound');
+
+    // Re-verifying from the same wallet refreshes the handle
+    expect((await database.bindXAccount(ALICE, '12345', 'alice_renamed')).xHandle).toBe('alice_renamed');
+
+    expect((await database.unbindXAccount(ALICE))?.xUserId).toBeUndefined();
+    expect(await database.unbindXAccount(ALICE)).toBeNull();
+    expect((await database.bindXAccount(BOB, '12345', 'alice_renamed')).xUserId).toBe('12345');
+
+    await storage.close();
+  });
+});
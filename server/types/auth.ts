@@ -32,6 +32,7 @@ export interface AuthResponse {
     nickname?: string
     avatarUrl?: string
     bio?: string
+    xHandle?: string     // Verified X handle, when one is bound
   }
   expiresAt?: string
   message?: string
@@ -39,6 +40,7 @@ export interface AuthResponse {
 
 export interface JWTPayload {
   address: string
+  jti: string            // Session ID, checked against the sessions table on every request
   iat: number
   exp: number
   iss: string
@@ -51,6 +53,8 @@ export interface AuthUser {
   avatarUrl?: string
   bio?: string
   isAuthenticated: boolean
+  isAdmin?: boolean
+  sessionId?: string
 }
 
 // Authentication errors
@@ -31,9 +31,10 @@ export interface ParticipationData {
   questId: string;               // Quest ID
   userAddress: string;           // User address
   claimedAmount: string;         // Amount claimed in wei
-  claimedAt: number;             // Claim timestamp
+  claimedAt: number;             // When the claim was indexed
   transactionHash: string;       // Transaction hash of claim
   blockNumber: number;           // Block number of claim
+  blockTimestamp?: number;       // Timestamp of the claim's block (Unix ms); missing on records indexed before it was stored
   createdAt: number;             // Record creation timestamp
 }
 
@@ -42,6 +43,91 @@ export interface IndexerState {
   lastUpdated: number;           // Last update timestamp
   contractAddress: string;       // Contract address being indexed
   contractDeployBlock: number;   // Contract deployment block
+  recentBlocks?: BlockCheckpoint[]; // Hashes of recently processed blocks (reorg detection)
+}
+
+export interface BlockCheckpoint {
+  blockNumber: number;           // Processed block number
+  blockHash: string;             // Block hash seen when the block was processed
+}
+
+export interface UndoLogEntry {
+  blockNumber: number;           // Block whose event caused the mutation
+  entity: 'quest' | 'participation' | 'referral' | 'draft' | 'badge'; // Mutated record type
+  id: string;                    // Mutated record ID
+  before: QuestData | ParticipationData | ReferralData | QuestDraftData | UserBadgeData | null; // Record before the mutation (null = did not exist)
+}
+
+export interface ProcessedEvent {
+  id: string;                    // `${transactionHash}-${logIndex}`
+  blockNumber: number;           // Block containing the event
+}
+
+export interface AuthNonce {
+  address: string;               // EIP-55 address the SIWE nonce was issued to
+  nonce: string;                 // Pending nonce (one per address)
+  expiresAt: number;             // Unix ms
+  linkTo?: string;               // Primary profile address when the nonce is a wallet link challenge
+}
+
+export interface AuthSession {
+  id: string;                    // JWT id (jti claim)
+  address: string;               // EIP-55 address of the signed-in wallet
+  createdAt: number;             // Unix ms
+  expiresAt: number;             // Token expiry, Unix ms
+  revokedAt?: number;            // Set on sign-out or token refresh
+}
+
+export interface QuestDraftData {
+  id: string;                    // Random draft ID
+  sponsor: string;               // Lowercased address of the sponsor who owns the draft
+  title: string;                 // Quest title at last save (matched with the description and reward pool against indexed QuestCreated events)
+  step: number;                  // Create wizard step to resume at (1-5)
+  formData: Record<string, unknown>; // QuestFormData as sent by the frontend (dates as ISO strings)
+  createdAt: number;             // Creation timestamp
+  updatedAt: number;             // Last save timestamp
+}
+
+export interface QuestTemplateTiming {
+  durationMs: number;            // endDate - startDate
+  claimPeriodMs: number;         // rewardClaimDeadline - endDate
+}
+
+export interface QuestTemplateData {
+  id: string;                    // Random template ID
+  sponsor: string;               // Lowercased address of the sponsor who saved the template
+  name: string;                  // Template name shown in the wizard
+  formData: Record<string, unknown>; // QuestFormData without its dates
+  timing: QuestTemplateTiming;   // Dates are rebuilt from these durations when the template is used
+  createdAt: number;             // Creation timestamp
+  updatedAt: number;             // Last update timestamp
+}
+
+export interface UserBadgeData {
+  id: string;                    // `${address}:${badgeId}`
+  address: string;               // Lowercased primary address of the profile that earned the badge
+  badgeId: string;               // Badge definition ID (lib/badges.ts)
+  earnedAt: number;              // When the indexed activity met the rule
+  questId?: string;              // Quest of the activity that completed the rule
+  blockNumber: number;           // Block of the activity that completed the rule
+  awardedAt: number;             // When the badge was stored
+}
+
+export type ReferralStatus =
+  | 'pending'                    // Referee followed the link but has not claimed yet
+  | 'attributed'                 // Referee's RewardClaimed was indexed
+  | 'rejected';                  // Referrer and referee turned out to be the same profile
+
+export interface ReferralData {
+  id: string;                    // `${questId}-${referee}`
+  questId: string;
+  referrer: string;              // Lowercased address from the ?ref= link
+  referee: string;               // Lowercased wallet that followed the link
+  status: ReferralStatus;
+  createdAt: number;
+  attributedAt?: number;         // Block time of the referee's claim
+  transactionHash?: string;      // Claim transaction
+  blockNumber?: number;          // Claim block
 }
 
 export interface QuestStatistics {
@@ -62,6 +148,10 @@ export interface UserData {
   createdAt: number;             // Creation timestamp
   updatedAt: number;             // Last update timestamp
   lastLoginAt?: number;          // Last login timestamp
+  linkedAddresses?: string[];    // Lowercased wallets linked to this (primary) profile
+  xUserId?: string;              // X (Twitter) user id proven by a zkTLS attestation, bound to one wallet only
+  xHandle?: string;              // X handle (screen_name) at verification time
+  xVerifiedAt?: number;          // When the X account was bound
 }
 
 export interface UserStatistics {
@@ -77,6 +167,14 @@ export interface DatabaseSchema {
   participations: ParticipationData[];
   users: UserData[];
   indexerState: IndexerState;
+  undoLog?: UndoLogEntry[];
+  processedEvents?: ProcessedEvent[];
+  nonces?: AuthNonce[];
+  sessions?: AuthSession[];
+  drafts?: QuestDraftData[];
+  templates?: QuestTemplateData[];
+  badges?: UserBadgeData[];
+  referrals?: ReferralData[];
 }
 
 // Default database structure
@@ -88,8 +186,17 @@ export const defaultDatabase: DatabaseSchema = {
     lastProcessedBlock: 0,
     lastUpdated: 0,
     contractAddress: '',
-    contractDeployBlock: 0
-  }
+    contractDeployBlock: 0,
+    recentBlocks: []
+  },
+  undoLog: [],
+  processedEvents: [],
+  nonces: [],
+  sessions: [],
+  drafts: [],
+  templates: [],
+  badges: [],
+  referrals: []
 };
 
 // Event data interfaces for processing blockchain events
@@ -135,4 +242,22 @@ export interface RemainingRewardsWithdrawnEventData {
   amount: string;
   transactionHash: string;
   blockNumber: number;
-}
\ No newline at end of file
+}
+
+// Real-time feed events pushed to /api/stream subscribers
+export type QuestStreamEventType =
+  | 'QuestCreated'
+  | 'RewardClaimed'
+  | 'QuestCanceled'
+  | 'VestingRewardClaimed'
+  | 'QuestStatusChanged';
+
+export interface QuestStreamEvent {
+  type: QuestStreamEventType;
+  questId: string;
+  addresses: string[];           // Lowercased addresses involved (sponsor, recipient)
+  data: Record<string, string | number>; // Event specific fields (amount, status, ...)
+  transactionHash?: string;      // Source transaction (absent for time-based status changes)
+  blockNumber?: number;          // Source block (absent for time-based status changes)
+  timestamp: number;             // When the event was published
+}
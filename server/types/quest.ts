@@ -65,6 +65,42 @@ export interface QuestResponse {
   rewardClaimDeadline?: string
 }
 
+// Saved create-quest wizard state
+export interface QuestDraftResponse {
+  id: string
+  sponsor: string
+  title: string
+  step: number
+  formData: Record<string, unknown>
+  createdAt: string
+  updatedAt: string
+}
+
+// Reusable create-quest wizard setup (dates are rebuilt from timing when used)
+export interface QuestTemplateResponse {
+  id: string
+  source: 'platform' | 'sponsor'
+  name: string
+  formData: Record<string, unknown>
+  timing: {
+    durationMs: number
+    claimPeriodMs: number
+  }
+  createdAt?: string
+  updatedAt?: string
+}
+
+// Create-quest wizard form pre-filled from an existing quest
+export interface QuestCloneResponse {
+  questId: string
+  formData: Record<string, unknown>
+  shiftedByMs: number
+  timing: {
+    valid: boolean
+    errors: string[]
+  }
+}
+
 // Error response type
 export interface ErrorResponse {
   error: string
@@ -17,6 +17,15 @@ export interface UserResponse {
   createdAt: string
   updatedAt: string
   lastLoginAt?: string
+  linkedAddresses: string[]
+  xAccount: XAccountResponse | null
+}
+
+// Verified X (Twitter) account bound to a wallet
+export interface XAccountResponse {
+  userId: string
+  handle: string
+  verifiedAt: string
 }
 
 // Quest participation types
@@ -12,9 +12,12 @@ import Index from "./pages/Index";
 import QuestList from "./pages/QuestList";
 import QuestDetail from "./pages/QuestDetail";
 import Profile from "./pages/Profile";
+import SponsorAnalytics from "./pages/SponsorAnalytics";
 import CreateQuest from "./pages/CreateQuest";
+import BulkCreateQuests from "./pages/BulkCreateQuests";
 import QuestTest from "./pages/QuestTest";
 import Guide from "./pages/Guide";
+import Leaderboard from "./pages/Leaderboard";
 import NotFound from "./pages/NotFound";
 import { useEffect } from "react";
 
@@ -44,8 +47,11 @@ const App = () => {
                     <Route path="/quests" element={<QuestList />} />
                     <Route path="/quest/:id" element={<QuestDetail />} />
                     <Route path="/guide" element={<Guide />} />
+                    <Route path="/leaderboard" element={<Leaderboard />} />
                     <Route path="/profile" element={<Profile />} />
+                    <Route path="/profile/analytics" element={<SponsorAnalytics />} />
                     <Route path="/create" element={<CreateQuest />} />
+                    <Route path="/create/bulk" element={<BulkCreateQuests />} />
                     <Route path="/test" element={<QuestTest />} />
                     {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
                     <Route path="*" element={<NotFound />} />
@@ -0,0 +1,74 @@
+import { useTranslation } from 'react-i18next';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { formatTimeAgo } from '@/hooks/useProfile';
+import type { UserBadges } from '@/hooks/useBadges';
+import { Award, CalendarCheck, Footprints, Loader2, Megaphone, MessageSquareQuote, Sunrise, type LucideIcon } from 'lucide-react';
+
+const BADGE_ICONS: Record<string, LucideIcon> = {
+  'first-quest': Footprints,
+  'quote-tweeter': MessageSquareQuote,
+  'first-sponsor': Megaphone,
+  'early-bird': Sunrise,
+  'weekly-streak': CalendarCheck
+};
+
+interface BadgesGridProps {
+  badges: UserBadges | undefined;
+  isLoading: boolean;
+  error: unknown;
+}
+
+export const BadgesGrid = ({ badges, isLoading, error }: BadgesGridProps) => {
+  const { t } = useTranslation('profile');
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t('badges.title')}</CardTitle>
+        {badges && (
+          <CardDescription>{t('badges.earned', { earned: badges.earnedCount, total: badges.badges.length })}</CardDescription>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : error || !badges ? (
+          <p className="text-center text-sm text-red-500 py-6">{t('badges.failedToLoad')}</p>
+        ) : (
+          <div className="grid grid-cols-3 gap-3">
+            {badges.badges.map(badge => {
+              const Icon = BADGE_ICONS[badge.id] || Award;
+              const name = t(`badges.items.${badge.id}.name`, { defaultValue: badge.name });
+              return (
+                <Tooltip key={badge.id}>
+                  <TooltipTrigger asChild>
+                    <div className={`flex flex-col items-center gap-1 rounded-lg border p-2 text-center ${badge.earned ? '' : 'opacity-40 grayscale'}`}>
+                      <div className={`p-2 rounded-full ${badge.earned ? 'bg-[hsl(var(--vibrant-yellow))]/15' : 'bg-muted'}`}>
+                        <Icon className={`h-5 w-5 ${badge.earned ? 'text-[hsl(var(--vibrant-yellow))]' : 'text-muted-foreground'}`} />
+                      </div>
+                      <span className="text-xs font-medium leading-tight">{name}</span>
+                    </div>
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    <p className="font-medium">{name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {t(`badges.items.${badge.id}.description`, { defaultValue: badge.description })}
+                    </p>
+                    <p className="text-xs mt-1">
+                      {badge.earned && badge.earnedAt !== null
+                        ? t('badges.earnedAt', { time: formatTimeAgo(badge.earnedAt) })
+                        : t('badges.locked')}
+                    </p>
+                  </TooltipContent>
+                </Tooltip>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,10 +1,12 @@
 import { Button } from "@/components/ui/button";
 import { Link, useLocation } from "react-router-dom";
-import { Menu, User, LogOut, Shield, BookOpen } from "lucide-react";
+import { Menu, User, LogOut, Shield, BookOpen, BadgeCheck, Sparkles } from "lucide-react";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
 import { Badge } from "@/components/ui/badge";
 import { ConnectButton } from '@rainbow-me/rainbowkit';
 import { useAuthUI } from '@/hooks/useAuth';
+import { usePoints } from '@/hooks/usePoints';
+import { useAccount } from 'wagmi';
 import { useTranslation } from 'react-i18next';
 import { LanguageSwitcher } from './LanguageSwitcher';
 
@@ -16,14 +18,18 @@ export const Navigation = () => {
     userDisplayName, 
     isAuthenticated, 
     isLoading,
-    isWalletConnected 
+    isWalletConnected,
+    user
   } = useAuthUI();
+  const { address } = useAccount();
+  const { data: points } = usePoints(address, 1);
 
   const navItems = [
     { label: t('explore'), href: "/quests" },
     { label: t('create'), href: "/create" },
     { label: t('profile'), href: "/profile" },
     { label: t('guide'), href: "/guide" },
+    { label: t('leaderboard'), href: "/leaderboard" },
     // { label: "Test", href: "/test" },
   ];
 
@@ -101,6 +107,20 @@ export const Navigation = () => {
                 // </Badge>
                 null
               )}
+              {points && (
+                <Link to="/profile">
+                  <Badge variant="secondary" className="bg-amber-500/20 text-amber-400 border-amber-500/50">
+                    <Sparkles className="w-3 h-3 mr-1" />
+                    {t('levelBadge', { level: points.level.level, points: points.totalPoints })}
+                  </Badge>
+                </Link>
+              )}
+              {isAuthenticated && user?.xHandle && (
+                <Badge variant="secondary" className="bg-sky-500/20 text-sky-400 border-sky-500/50" title={t('xVerified', { handle: user.xHandle })}>
+                  <BadgeCheck className="w-3 h-3 mr-1" />
+                  @{user.xHandle}
+                </Badge>
+              )}
             </div>
           )}
           
@@ -161,6 +181,22 @@ export const Navigation = () => {
                         null
                       )}
                     </div>
+                    {points && (
+                      <div className="flex items-center justify-center">
+                        <Badge variant="secondary" className="bg-amber-500/20 text-amber-400 border-amber-500/50">
+                          <Sparkles className="w-3 h-3 mr-1" />
+                          {t('levelBadge', { level: points.level.level, points: points.totalPoints })}
+                        </Badge>
+                      </div>
+                    )}
+                    {isAuthenticated && user?.xHandle && (
+                      <div className="flex items-center justify-center">
+                        <Badge variant="secondary" className="bg-sky-500/20 text-sky-400 border-sky-500/50">
+                          <BadgeCheck className="w-3 h-3 mr-1" />
+                          {t('xVerified', { handle: user.xHandle })}
+                        </Badge>
+                      </div>
+                    )}
                     
                     {/* Mobile Authentication Button */}
                     {!isAuthenticated && (
@@ -0,0 +1,97 @@
+import { Link } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { formatTimeAgo } from '@/hooks/useProfile';
+import type { PointsReason, PointsSummary } from '@/hooks/usePoints';
+import { Loader2, Sparkles } from 'lucide-react';
+
+const REASONS: PointsReason[] = ['completion', 'quoteTweet', 'earlyClaim', 'sponsorQuest', 'sponsorClaims'];
+
+interface PointsLedgerProps {
+  points: PointsSummary | undefined;
+  isLoading: boolean;
+  error: unknown;
+}
+
+export const PointsLedger = ({ points, isLoading, error }: PointsLedgerProps) => {
+  const { t } = useTranslation('profile');
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (error || !points) {
+    return <p className="text-center text-red-500 py-12">{t('points.failedToLoad')}</p>;
+  }
+
+  const { level } = points;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Sparkles className="h-5 w-5 text-[hsl(var(--vibrant-yellow))]" />
+            {t('points.level', { level: level.level })}
+          </CardTitle>
+          <CardDescription>
+            {level.nextLevelAt === null
+              ? t('points.maxLevel', { points: points.totalPoints })
+              : t('points.toNextLevel', { points: points.totalPoints, remaining: level.nextLevelAt - points.totalPoints, next: level.level + 1 })}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Progress value={level.progress * 100} />
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+            {REASONS.map(reason => (
+              <div key={reason} className="rounded-lg border p-3">
+                <div className="text-lg font-bold">{points.breakdown[reason]}</div>
+                <div className="text-xs text-muted-foreground">{t(`points.reasons.${reason}`)}</div>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('points.ledger')}</CardTitle>
+          {points.ledgerTotal > points.ledger.length && (
+            <CardDescription>{t('points.ledgerShowing', { shown: points.ledger.length, total: points.ledgerTotal })}</CardDescription>
+          )}
+        </CardHeader>
+        <CardContent>
+          {points.ledger.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">{t('points.empty')}</p>
+          ) : (
+            <div className="space-y-2">
+              {points.ledger.map(entry => (
+                <div key={`${entry.reason}-${entry.questId}-${entry.transactionHash || ''}`} className="flex items-center justify-between p-3 rounded-lg border">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline">{t(`points.reasons.${entry.reason}`)}</Badge>
+                      <Link to={`/quest/${entry.questId}`} className="text-sm font-medium truncate hover:underline">
+                        {entry.questTitle || `#${entry.questId}`}
+                      </Link>
+                    </div>
+                    <div className="text-xs text-muted-foreground mt-1">
+                      {formatTimeAgo(entry.at)}
+                      {entry.reason === 'sponsorClaims' && ` · ${t('points.claims', { count: entry.count })}`}
+                    </div>
+                  </div>
+                  <div className="font-bold text-[hsl(var(--vibrant-green))] shrink-0">+{entry.points} XP</div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
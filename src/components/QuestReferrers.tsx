@@ -0,0 +1,70 @@
+import { useTranslation } from 'react-i18next';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { formatTimeAgo, formatUserAddress } from '@/hooks/useProfile';
+import { useQuestReferrers } from '@/hooks/useReferrals';
+import { Loader2, Users } from 'lucide-react';
+
+interface QuestReferrersProps {
+  questId: string;
+  enabled: boolean;
+}
+
+export const QuestReferrers = ({ questId, enabled }: QuestReferrersProps) => {
+  const { t } = useTranslation('quests');
+  const { data: stats, isLoading, error } = useQuestReferrers(questId, enabled);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="h-5 w-5" />
+          {t('sponsor.referrers.title')}
+        </CardTitle>
+        {stats && (
+          <CardDescription>
+            {t('sponsor.referrers.summary', {
+              completed: stats.completed,
+              claims: stats.claims,
+              share: Math.round(stats.referredShare * 100)
+            })}
+          </CardDescription>
+        )}
+      </CardHeader>
+      <CardContent>
+        {!enabled ? (
+          <p className="text-center text-sm text-muted-foreground py-6">{t('sponsor.referrers.signInRequired')}</p>
+        ) : isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : error || !stats ? (
+          <p className="text-center text-sm text-red-500 py-6">{t('sponsor.referrers.failedToLoad')}</p>
+        ) : stats.referrers.length === 0 ? (
+          <p className="text-center text-sm text-muted-foreground py-6">{t('sponsor.referrers.empty')}</p>
+        ) : (
+          <div className="space-y-2">
+            {stats.referrers.map(referrer => (
+              <div key={referrer.address} className="flex items-center justify-between p-3 rounded-lg border">
+                <div className="flex items-center gap-3">
+                  <span className="w-6 text-center font-bold text-muted-foreground">{referrer.rank}</span>
+                  <div>
+                    <div className="font-mono text-sm">{formatUserAddress(referrer.address)}</div>
+                    {referrer.lastCompletedAt !== null && (
+                      <div className="text-xs text-muted-foreground">
+                        {t('sponsor.referrers.lastCompleted', { time: formatTimeAgo(referrer.lastCompletedAt) })}
+                      </div>
+                    )}
+                  </div>
+                </div>
+                <div className="text-right">
+                  <div className="font-bold">{t('sponsor.referrers.completed', { count: referrer.completed })}</div>
+                  <div className="text-xs text-muted-foreground">{t('sponsor.referrers.referred', { count: referrer.referred })}</div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,155 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { useToast } from '@/hooks/use-toast';
+import { useQuestTemplates, useSaveQuestTemplate, useDeleteQuestTemplate } from '@/hooks/useQuestTemplates';
+import type { QuestFormData, QuestTemplate } from '@/types';
+import { BookmarkPlus, LayoutTemplate, Loader2, Trash2 } from 'lucide-react';
+
+interface QuestTemplatePickerProps {
+  address: string | undefined;
+  isAuthenticated: boolean;
+  onApply: (template: QuestTemplate) => void;
+}
+
+export const QuestTemplatePicker = ({ address, isAuthenticated, onApply }: QuestTemplatePickerProps) => {
+  const { t } = useTranslation('create');
+  const { toast } = useToast();
+  const { data: templates, isLoading } = useQuestTemplates(address, isAuthenticated);
+  const deleteTemplate = useDeleteQuestTemplate(address);
+
+  const platformTemplates = (templates || []).filter(template => template.source === 'platform');
+  const sponsorTemplates = (templates || []).filter(template => template.source === 'sponsor');
+
+  const handleDelete = async (template: QuestTemplate) => {
+    try {
+      await deleteTemplate.mutateAsync(template.id);
+      toast({ title: t('templates.deleted', { name: template.name }) });
+    } catch (error) {
+      toast({
+        title: t('templates.deleteFailed'),
+        description: error instanceof Error ? error.message : undefined,
+        variant: 'destructive'
+      });
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button type="button" variant="outline" size="sm" disabled={isLoading}>
+          <LayoutTemplate className="h-4 w-4 mr-2" />
+          {t('templates.useTemplate')}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-64">
+        <DropdownMenuLabel>{t('templates.platform')}</DropdownMenuLabel>
+        {platformTemplates.map(template => (
+          <DropdownMenuItem key={template.id} onSelect={() => onApply(template)}>
+            {template.name}
+          </DropdownMenuItem>
+        ))}
+        {isAuthenticated && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel>{t('templates.saved')}</DropdownMenuLabel>
+            {sponsorTemplates.length === 0 && (
+              <div className="px-2 py-1.5 text-sm text-muted-foreground">{t('templates.noSaved')}</div>
+            )}
+            {sponsorTemplates.map(template => (
+              <DropdownMenuItem key={template.id} onSelect={() => onApply(template)} className="justify-between">
+                <span className="truncate">{template.name}</span>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6 shrink-0"
+                  aria-label={t('templates.delete')}
+                  disabled={deleteTemplate.isPending}
+                  onClick={(event) => {
+                    event.stopPropagation();
+                    handleDelete(template);
+                  }}
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </DropdownMenuItem>
+            ))}
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+interface SaveQuestTemplateButtonProps {
+  address: string | undefined;
+  getFormData: () => Partial<QuestFormData>;
+}
+
+export const SaveQuestTemplateButton = ({ address, getFormData }: SaveQuestTemplateButtonProps) => {
+  const { t } = useTranslation('create');
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const saveTemplate = useSaveQuestTemplate(address);
+
+  const handleSave = async () => {
+    try {
+      const formData = getFormData();
+      const template = await saveTemplate.mutateAsync({ name: name.trim(), formData });
+      toast({
+        title: t('templates.savedToast'),
+        description: t('templates.savedToastDescription', { name: template.name })
+      });
+      setName('');
+      setOpen(false);
+    } catch (error) {
+      toast({
+        title: t('templates.saveFailed'),
+        description: error instanceof Error ? error.message : undefined,
+        variant: 'destructive'
+      });
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button type="button" variant="ghost" className="text-muted-foreground hover:text-foreground">
+          <BookmarkPlus className="h-4 w-4 mr-2" />
+          {t('templates.saveAsTemplate')}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 space-y-3">
+        <p className="text-sm text-muted-foreground">{t('templates.saveDescription')}</p>
+        <Input
+          value={name}
+          maxLength={60}
+          placeholder={t('templates.namePlaceholder')}
+          onChange={(event) => setName(event.target.value)}
+        />
+        <Button
+          type="button"
+          size="sm"
+          className="w-full"
+          disabled={!name.trim() || saveTemplate.isPending}
+          onClick={handleSave}
+        >
+          {saveTemplate.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          {t('templates.save')}
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,64 @@
+import { Link } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import type { UserReferralStats } from '@/hooks/useReferrals';
+import { Loader2 } from 'lucide-react';
+
+interface ReferralStatsProps {
+  referrals: UserReferralStats | undefined;
+  isLoading: boolean;
+  error: unknown;
+}
+
+export const ReferralStats = ({ referrals, isLoading, error }: ReferralStatsProps) => {
+  const { t } = useTranslation('profile');
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t('referrals.title')}</CardTitle>
+        <CardDescription>{t('referrals.description')}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : error || !referrals ? (
+          <p className="text-center text-sm text-red-500 py-6">{t('referrals.failedToLoad')}</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-2 text-center">
+              <div className="rounded-lg border p-2">
+                <div className="text-lg font-bold">{referrals.referred}</div>
+                <div className="text-xs text-muted-foreground">{t('referrals.referred')}</div>
+              </div>
+              <div className="rounded-lg border p-2">
+                <div className="text-lg font-bold text-[hsl(var(--vibrant-green))]">{referrals.completed}</div>
+                <div className="text-xs text-muted-foreground">{t('referrals.completed')}</div>
+              </div>
+              <div className="rounded-lg border p-2">
+                <div className="text-lg font-bold">{Math.round(referrals.conversionRate * 100)}%</div>
+                <div className="text-xs text-muted-foreground">{t('referrals.conversion')}</div>
+              </div>
+            </div>
+            {referrals.quests.length === 0 ? (
+              <p className="text-center text-sm text-muted-foreground">{t('referrals.empty')}</p>
+            ) : (
+              <div className="space-y-2">
+                {referrals.quests.slice(0, 5).map(quest => (
+                  <div key={quest.questId} className="flex items-center justify-between gap-2 text-sm">
+                    <Link to={`/quest/${quest.questId}`} className="truncate hover:underline">
+                      {quest.questTitle || `#${quest.questId}`}
+                    </Link>
+                    <span className="shrink-0 text-muted-foreground">{quest.completed}/{quest.referred}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
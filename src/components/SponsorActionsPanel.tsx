@@ -0,0 +1,234 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { waitForTransactionReceipt } from '@wagmi/core';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { cancelQuest, withdrawRemainingRewards } from '@/lib/questContract';
+import { getContractErrorMessage } from '@/lib/contractErrors';
+import { config, monadTestnet } from '@/lib/wagmi';
+import { Ban, CheckCircle, ExternalLink, Loader2, Settings, Undo2, XCircle } from 'lucide-react';
+
+export type SponsorAction = 'cancel' | 'withdraw';
+
+type TxStatus = 'pending' | 'confirmed' | 'failed';
+
+interface SponsorActionsPanelProps {
+  questId: string;
+  status: string; // Lowercase lifecycle status from the API (active, ended, closed, canceled, ...)
+  participantCount: number;
+  claimEndTime: Date;
+  remainingRewards: number; // in MON
+  onActionConfirmed?: (action: SponsorAction) => void;
+}
+
+export const SponsorActionsPanel = ({
+  questId,
+  status,
+  participantCount,
+  claimEndTime,
+  remainingRewards,
+  onActionConfirmed
+}: SponsorActionsPanelProps) => {
+  const { t } = useTranslation('quests');
+  const { toast } = useToast();
+  const [pendingAction, setPendingAction] = useState<SponsorAction | null>(null);
+  const [txHash, setTxHash] = useState<`0x${string}` | undefined>();
+  const [txStatus, setTxStatus] = useState<TxStatus | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Same rules the contract enforces (and QuestStatusCalculator mirrors on the server)
+  const isCanceled = status === 'canceled';
+  const isClosed = status === 'closed';
+  const claimPeriodOver = Date.now() > claimEndTime.getTime();
+
+  const cancelBlocker = isCanceled
+    ? t('sponsor.cancel.alreadyCanceled')
+    : participantCount > 0
+      ? t('sponsor.cancel.hasParticipants', { count: participantCount })
+      : null;
+
+  const withdrawBlocker = isCanceled
+    ? t('sponsor.withdraw.canceled')
+    : isClosed
+      ? t('sponsor.withdraw.alreadyWithdrawn')
+      : !claimPeriodOver
+        ? t('sponsor.withdraw.claimPeriodActive', { date: claimEndTime.toLocaleString() })
+        : remainingRewards <= 0
+          ? t('sponsor.withdraw.nothingToWithdraw')
+          : null;
+
+  const isBusy = isSubmitting || txStatus === 'pending';
+
+  const runAction = async (action: SponsorAction) => {
+    setIsSubmitting(true);
+    setPendingAction(action);
+    setTxHash(undefined);
+    setTxStatus(null);
+
+    let hash: `0x${string}`;
+    try {
+      const questIdBigInt = BigInt(questId);
+      hash = action === 'cancel'
+        ? await cancelQuest(questIdBigInt)
+        : await withdrawRemainingRewards(questIdBigInt);
+    } catch (error) {
+      console.error(`Sponsor ${action} failed:`, error);
+      setPendingAction(null);
+      setIsSubmitting(false);
+      toast({
+        title: t(`sponsor.${action}.failed`),
+        description: getContractErrorMessage(error),
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    setTxHash(hash);
+    setTxStatus('pending');
+    setIsSubmitting(false);
+    toast({
+      title: t('sponsor.tx.submitted'),
+      description: t('sponsor.tx.submittedDescription'),
+    });
+
+    try {
+      const receipt = await waitForTransactionReceipt(config, { hash });
+      if (receipt.status !== 'success') {
+        throw new Error('Transaction reverted');
+      }
+
+      setTxStatus('confirmed');
+      toast({
+        title: t('sponsor.tx.confirmed'),
+        description: t(`sponsor.${action}.success`),
+      });
+      onActionConfirmed?.(action);
+    } catch (error) {
+      console.error(`Sponsor ${action} transaction failed:`, error);
+      setTxStatus('failed');
+      toast({
+        title: t('sponsor.tx.failed'),
+        description: t('sponsor.tx.failedDescription'),
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const explorerUrl = txHash ? `${monadTestnet.blockExplorers.default.url}/tx/${txHash}` : '';
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Settings className="h-4 w-4" />
+          {t('sponsor.title')}
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">{t('sponsor.description')}</p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Cancel quest */}
+        <div className="space-y-2">
+          <h4 className="font-semibold text-sm">{t('sponsor.cancel.title')}</h4>
+          <p className="text-xs text-muted-foreground">{t('sponsor.cancel.description')}</p>
+          {cancelBlocker && (
+            <p className="text-xs text-[hsl(var(--vibrant-orange))]">{cancelBlocker}</p>
+          )}
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="destructive" size="sm" className="w-full" disabled={!!cancelBlocker || isBusy}>
+                {isBusy && pendingAction === 'cancel' ? (
+                  <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                ) : (
+                  <Ban className="h-3 w-3 mr-1" />
+                )}
+                {t('sponsor.cancel.button')}
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>{t('sponsor.cancel.confirmTitle')}</AlertDialogTitle>
+                <AlertDialogDescription>{t('sponsor.cancel.confirmDescription')}</AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>{t('common.cancel')}</AlertDialogCancel>
+                <AlertDialogAction onClick={() => runAction('cancel')}>
+                  {t('sponsor.cancel.button')}
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+
+        {/* Withdraw remaining rewards */}
+        <div className="space-y-2">
+          <h4 className="font-semibold text-sm">{t('sponsor.withdraw.title')}</h4>
+          <p className="text-xs text-muted-foreground">
+            {t('sponsor.withdraw.description', { amount: remainingRewards })}
+          </p>
+          {withdrawBlocker && (
+            <p className="text-xs text-[hsl(var(--vibrant-orange))]">{withdrawBlocker}</p>
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-full"
+            disabled={!!withdrawBlocker || isBusy}
+            onClick={() => runAction('withdraw')}
+          >
+            {isBusy && pendingAction === 'withdraw' ? (
+              <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+            ) : (
+              <Undo2 className="h-3 w-3 mr-1" />
+            )}
+            {t('sponsor.withdraw.button')}
+          </Button>
+        </div>
+
+        {/* Transaction tracking */}
+        {txHash && (
+          <div className="border rounded-lg p-3 text-xs space-y-1">
+            <div className="flex items-center gap-1 font-medium">
+              {txStatus === 'pending' ? (
+                <>
+                  <Loader2 className="h-3 w-3 animate-spin" />
+                  {t('sponsor.tx.pending')}
+                </>
+              ) : txStatus === 'confirmed' ? (
+                <>
+                  <CheckCircle className="h-3 w-3 text-[hsl(var(--vibrant-green))]" />
+                  {t('sponsor.tx.confirmed')}
+                </>
+              ) : txStatus === 'failed' ? (
+                <>
+                  <XCircle className="h-3 w-3 text-destructive" />
+                  {t('sponsor.tx.failed')}
+                </>
+              ) : null}
+            </div>
+            <a
+              href={explorerUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center gap-1 text-muted-foreground hover:text-foreground font-mono"
+            >
+              {txHash.slice(0, 10)}...{txHash.slice(-8)}
+              <ExternalLink className="h-3 w-3" />
+            </a>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
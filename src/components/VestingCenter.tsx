@@ -0,0 +1,206 @@
+import { Link } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { Area, AreaChart, CartesianGrid, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { formatEthAmount } from '@/hooks/useProfile';
+import { formatDuration } from '@/hooks/useSponsorAnalytics';
+import type { VestingData, VestingPosition } from '@/hooks/useVesting';
+import { Gift, Loader2 } from 'lucide-react';
+
+interface VestingCenterProps {
+  vesting: VestingData | undefined;
+  isLoading: boolean;
+  error: unknown;
+  claimingQuestIds: string[];
+  onClaim: (questIds: string[]) => void;
+}
+
+const weiToEth = (wei: string) => Number(wei) / 1e18;
+
+const VestingPositionCard = ({
+  position,
+  isClaiming,
+  disabled,
+  onClaim
+}: {
+  position: VestingPosition;
+  isClaiming: boolean;
+  disabled: boolean;
+  onClaim: () => void;
+}) => {
+  const { t } = useTranslation('profile');
+  const now = Date.now();
+  const hasClaimable = BigInt(position.claimableAmount) > 0n;
+
+  const chartConfig = {
+    vested: {
+      label: t('rewards.vesting.chart.vested'),
+      color: 'hsl(var(--vibrant-green))',
+    },
+  } satisfies ChartConfig;
+
+  const chartData = position.schedule.map(point => ({
+    timestamp: point.timestamp,
+    vested: weiToEth(point.vestedAmount),
+  }));
+
+  const formatTick = (timestamp: number) =>
+    new Date(timestamp).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+  return (
+    <div className="border rounded-lg p-4 space-y-3">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <Link to={`/quest/${position.questId}`} className="font-medium hover:underline">
+            {position.title}
+          </Link>
+          <div className="text-sm text-muted-foreground">
+            {formatEthAmount(position.vestedAmount)} / {formatEthAmount(position.totalAmount)} {t('rewards.vesting.vested')}
+            {' · '}
+            {formatEthAmount(position.claimedAmount)} {t('rewards.vesting.claimed')}
+          </div>
+        </div>
+        <div className="text-right space-y-1">
+          <div className="font-medium text-[hsl(var(--vibrant-green))]">
+            {formatEthAmount(position.claimableAmount)} {t('rewards.vesting.claimable')}
+          </div>
+          <div className="text-sm text-muted-foreground">
+            {position.vestingEnd > now
+              ? `${formatDuration(position.vestingEnd - now)} ${t('rewards.vesting.remaining')}`
+              : t('rewards.vesting.fullyVested')}
+          </div>
+        </div>
+      </div>
+
+      <div className="w-full bg-muted rounded-full h-2">
+        <div
+          className="bg-gradient-to-r from-[hsl(var(--vibrant-green))] to-[hsl(var(--vibrant-blue))] h-2 rounded-full transition-all"
+          style={{ width: `${position.vestingProgress}%` }}
+        />
+      </div>
+
+      <ChartContainer config={chartConfig} className="h-[140px] w-full aspect-auto">
+        <AreaChart data={chartData} margin={{ left: 0, right: 12, top: 8 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis
+            dataKey="timestamp"
+            type="number"
+            domain={['dataMin', 'dataMax']}
+            tickLine={false}
+            axisLine={false}
+            tickMargin={8}
+            minTickGap={32}
+            tickFormatter={formatTick}
+          />
+          <YAxis tickLine={false} axisLine={false} width={40} />
+          <ChartTooltip
+            content={
+              <ChartTooltipContent
+                labelFormatter={(_, payload) => payload?.[0] ? new Date(payload[0].payload.timestamp).toLocaleString() : ''}
+              />
+            }
+          />
+          {now > position.vestingStart && now < position.vestingEnd && (
+            <ReferenceLine x={now} stroke="hsl(var(--vibrant-orange))" strokeDasharray="4 4" />
+          )}
+          <Area
+            dataKey="vested"
+            type="linear"
+            stroke="var(--color-vested)"
+            fill="var(--color-vested)"
+            fillOpacity={0.2}
+          />
+        </AreaChart>
+      </ChartContainer>
+
+      <div className="flex items-center justify-between">
+        {position.source === 'indexed' ? (
+          <Badge variant="outline" className="text-xs">{t('rewards.vesting.indexedOnly')}</Badge>
+        ) : <span />}
+        <Button
+          size="sm"
+          onClick={onClaim}
+          disabled={!hasClaimable || disabled}
+          className="bg-[hsl(var(--vibrant-blue))] hover:bg-[hsl(var(--vibrant-blue))]/90 disabled:opacity-50"
+        >
+          {isClaiming && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+          {isClaiming ? t('rewards.vesting.claiming') : t('rewards.pending.claim')}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export const VestingCenter = ({ vesting, isLoading, error, claimingQuestIds, onClaim }: VestingCenterProps) => {
+  const { t } = useTranslation('profile');
+
+  const positions = vesting?.positions || [];
+  const claimableIds = positions
+    .filter(position => BigInt(position.claimableAmount) > 0n)
+    .map(position => position.questId);
+  const isClaiming = claimingQuestIds.length > 0;
+
+  const totals = [
+    { label: t('rewards.vesting.totals.claimable'), value: vesting?.totals.claimableAmount || '0' },
+    { label: t('rewards.vesting.totals.vested'), value: vesting?.totals.vestedAmount || '0' },
+    { label: t('rewards.vesting.totals.claimed'), value: vesting?.totals.claimedAmount || '0' },
+    { label: t('rewards.vesting.totals.locked'), value: vesting?.totals.lockedAmount || '0' },
+  ];
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>{t('rewards.vesting.title')}</CardTitle>
+          <CardDescription>{t('rewards.vesting.description')}</CardDescription>
+        </div>
+        <Button
+          onClick={() => onClaim(claimableIds)}
+          disabled={claimableIds.length === 0 || isClaiming}
+          className="bg-[hsl(var(--vibrant-green))] hover:bg-[hsl(var(--vibrant-green))]/90"
+        >
+          {isClaiming ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Gift className="h-4 w-4 mr-2" />}
+          {t('rewards.vesting.claimAll', { count: claimableIds.length })}
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-[hsl(var(--vibrant-blue))]"></div>
+          </div>
+        ) : error ? (
+          <div className="text-center py-8 text-red-500">
+            <p>{t('rewards.vesting.failedToLoad')}</p>
+          </div>
+        ) : positions.length > 0 ? (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {totals.map(({ label, value }) => (
+                <div key={label} className="border rounded-lg p-3">
+                  <div className="text-lg font-bold">{formatEthAmount(value)}</div>
+                  <div className="text-xs text-muted-foreground">{label}</div>
+                </div>
+              ))}
+            </div>
+            {positions.map(position => (
+              <VestingPositionCard
+                key={position.questId}
+                position={position}
+                isClaiming={claimingQuestIds.includes(position.questId)}
+                disabled={isClaiming}
+                onClaim={() => onClaim([position.questId])}
+              />
+            ))}
+          </>
+        ) : (
+          <div className="text-center py-8 text-muted-foreground">
+            <p>{t('rewards.vesting.noVesting')}</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,36 @@
+import { useQuery } from '@tanstack/react-query';
+
+export interface BadgeStatus {
+  id: string;
+  name: string;
+  description: string;
+  earned: boolean;
+  earnedAt: number | null;
+  questId: string | null;
+}
+
+export interface UserBadges {
+  address: string;
+  earnedCount: number;
+  badges: BadgeStatus[];
+}
+
+const fetchBadges = async (address: string): Promise<UserBadges> => {
+  const apiUrl = import.meta.env.VITE_API_URL || 'http://localhost:3001';
+  const response = await fetch(`${apiUrl}/api/users/${address}/badges`);
+  if (!response.ok) {
+    throw new Error('Failed to fetch badges');
+  }
+  const result = await response.json();
+  return result.data;
+};
+
+export const useBadges = (address: string | undefined) => {
+  return useQuery({
+    queryKey: ['badges', address],
+    queryFn: () => fetchBadges(address!),
+    enabled: !!address, // Only run query if address is provided
+    refetchInterval: 60000, // Refetch every minute
+    staleTime: 30000, // Data is fresh for 30 seconds
+  });
+};
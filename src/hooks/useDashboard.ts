@@ -1,4 +1,5 @@
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useQuestStream } from '@/hooks/useQuestStream';
 
 interface DashboardData {
   statistics: {
@@ -51,10 +52,17 @@ const fetchDashboardData = async (): Promise<DashboardData> => {
 };
 
 export const useDashboard = () => {
+  const queryClient = useQueryClient();
+
+  // Statistics, trending quests and activity all depend on indexed events
+  useQuestStream(() => {
+    queryClient.invalidateQueries({ queryKey: ['dashboard'] });
+  });
+
   return useQuery({
     queryKey: ['dashboard'],
     queryFn: fetchDashboardData,
-    refetchInterval: 30000, // Refetch every 30 seconds
+    refetchInterval: 30000, // Fallback refetch every 30 seconds if the stream is down
     staleTime: 15000, // Data is fresh for 15 seconds
   });
 };
@@ -0,0 +1,77 @@
+import { useQuery } from '@tanstack/react-query';
+
+export type LeaderboardMetric = 'rewards' | 'quests' | 'sponsored';
+export type LeaderboardWindow = '24h' | '7d' | '30d' | 'all';
+
+export interface LeaderboardSeason {
+  id: string;
+  name: string;
+  startTime: number;
+  endTime: number;
+}
+
+export interface LeaderboardEntry {
+  userAddress: string;
+  linkedAddresses: string[];
+  rewardsEarned: string;
+  questsCompleted: number;
+  questsSponsored: number;
+  value: string;
+  rank: number;
+  previousRank: number | null;
+  rankChange: number | null;
+}
+
+export interface LeaderboardData {
+  metric: LeaderboardMetric;
+  window: LeaderboardWindow | null;
+  season: LeaderboardSeason | null;
+  range: { startTime: number; endTime: number };
+  previousRange: { startTime: number; endTime: number } | null;
+  entries: LeaderboardEntry[];
+  total: number;
+}
+
+// A rolling window or a season ID
+export type LeaderboardPeriod = { window: LeaderboardWindow } | { season: string };
+
+const apiUrl = import.meta.env.VITE_API_URL || 'http://localhost:3001';
+
+const fetchLeaderboard = async (metric: LeaderboardMetric, period: LeaderboardPeriod, limit: number): Promise<LeaderboardData> => {
+  const params = new URLSearchParams({ metric, limit: String(limit) });
+  if ('season' in period) {
+    params.set('season', period.season);
+  } else {
+    params.set('window', period.window);
+  }
+
+  const response = await fetch(`${apiUrl}/api/leaderboards?${params}`);
+  if (!response.ok) {
+    throw new Error('Failed to fetch leaderboard');
+  }
+  const result = await response.json();
+  return result.data;
+};
+
+export const useLeaderboard = (metric: LeaderboardMetric, period: LeaderboardPeriod, limit: number = 50) => {
+  return useQuery({
+    queryKey: ['leaderboard', metric, period, limit],
+    queryFn: () => fetchLeaderboard(metric, period, limit),
+    staleTime: 60000,
+  });
+};
+
+export const useLeaderboardSeasons = () => {
+  return useQuery({
+    queryKey: ['leaderboard-seasons'],
+    queryFn: async (): Promise<LeaderboardSeason[]> => {
+      const response = await fetch(`${apiUrl}/api/leaderboards/seasons`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch leaderboard seasons');
+      }
+      const result = await response.json();
+      return result.data.seasons;
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+};
@@ -0,0 +1,49 @@
+import { useQuery } from '@tanstack/react-query';
+
+export type PointsReason = 'completion' | 'quoteTweet' | 'earlyClaim' | 'sponsorQuest' | 'sponsorClaims';
+
+export interface PointsLedgerEntry {
+  reason: PointsReason;
+  questId: string;
+  questTitle: string;
+  points: number;
+  count: number;
+  at: number;
+  transactionHash?: string;
+}
+
+export interface LevelInfo {
+  level: number;
+  levelStart: number;
+  nextLevelAt: number | null;
+  progress: number;
+}
+
+export interface PointsSummary {
+  address: string;
+  totalPoints: number;
+  level: LevelInfo;
+  breakdown: Record<PointsReason, number>;
+  ledger: PointsLedgerEntry[];
+  ledgerTotal: number;
+}
+
+const fetchPoints = async (address: string, limit: number): Promise<PointsSummary> => {
+  const apiUrl = import.meta.env.VITE_API_URL || 'http://localhost:3001';
+  const response = await fetch(`${apiUrl}/api/users/${address}/points?limit=${limit}`);
+  if (!response.ok) {
+    throw new Error('Failed to fetch points');
+  }
+  const result = await response.json();
+  return result.data;
+};
+
+export const usePoints = (address: string | undefined, limit: number = 50) => {
+  return useQuery({
+    queryKey: ['points', address, limit],
+    queryFn: () => fetchPoints(address!, limit),
+    enabled: !!address, // Only run query if address is provided
+    refetchInterval: 60000, // Refetch every minute
+    staleTime: 30000, // Data is fresh for 30 seconds
+  });
+};
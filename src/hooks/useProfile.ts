@@ -1,4 +1,7 @@
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import apiClient from '@/lib/api';
+import { generateXAccountProof } from '@/lib/zktls';
+import type { XAccount } from '@/types';
 
 interface ProfileData {
   profile: {
@@ -10,6 +13,9 @@ interface ProfileData {
     successRate: number;
     rank: number;
     totalUsers: number;
+    primaryAddress: string;
+    linkedAddresses: string[];
+    xAccount: XAccount | null;
   };
   quests: {
     active: Array<{
@@ -110,6 +116,21 @@ export const useProfile = (address: string | undefined) => {
   });
 };
 
+// Prove the user's X account with zkTLS and bind it to the wallet (needs a signed-in session)
+export const useVerifyXAccount = (address: string | undefined) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      const attestation = await generateXAccountProof(address!);
+      return apiClient.bindXAccount(address!, attestation);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['profile', address] });
+    }
+  });
+};
+
 // Helper functions to format data
 export const formatEthAmount = (weiAmount: string): string => {
   const monAmount = parseFloat(weiAmount) / Math.pow(10, 18);
@@ -0,0 +1,48 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import apiClient from '@/lib/api';
+import type { QuestFormData } from '@/types';
+
+export const useQuestDrafts = (address: string | undefined, enabled = true) => {
+  return useQuery({
+    queryKey: ['questDrafts', address],
+    queryFn: () => apiClient.getQuestDrafts(address!),
+    enabled: !!address && enabled, // Drafts need the sponsor's JWT
+    staleTime: 30000,
+  });
+};
+
+export const useQuestDraft = (address: string | undefined, id: string | null) => {
+  return useQuery({
+    queryKey: ['questDrafts', address, id],
+    queryFn: () => apiClient.getQuestDraft(address!, id!),
+    enabled: !!address && !!id,
+    staleTime: Infinity, // Loaded once to resume the wizard
+    retry: false,
+  });
+};
+
+/**
+ * Create a draft, or overwrite it when an id is given
+ */
+export const useSaveQuestDraft = (address: string | undefined) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (draft: { id?: string; step: number; formData: Partial<QuestFormData> }) =>
+      apiClient.saveQuestDraft(address!, draft),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['questDrafts', address] });
+    }
+  });
+};
+
+export const useDeleteQuestDraft = (address: string | undefined) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => apiClient.deleteQuestDraft(address!, id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['questDrafts', address] });
+    }
+  });
+};
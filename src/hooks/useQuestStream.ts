@@ -0,0 +1,29 @@
+/**
+ * Quest Stream Hook
+ *
+ * Subscribes a component to the real-time quest event feed
+ */
+
+import { useEffect, useRef } from 'react'
+import { subscribeToQuestStream } from '@/lib/questStream'
+import type { QuestStreamEvent, QuestStreamFilter } from '@/types'
+
+export function useQuestStream(
+  onEvent: (event: QuestStreamEvent) => void,
+  filter: QuestStreamFilter = {},
+  enabled: boolean = true
+) {
+  // Keep the latest callback without re-opening the connection on every render
+  const onEventRef = useRef(onEvent)
+  onEventRef.current = onEvent
+
+  const { questId, address } = filter
+
+  useEffect(() => {
+    if (!enabled) return
+
+    return subscribeToQuestStream({ questId, address }, (event) => onEventRef.current(event))
+  }, [questId, address, enabled])
+}
+
+export default useQuestStream
@@ -0,0 +1,53 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import apiClient from '@/lib/api';
+import type { QuestFormData, QuestTemplate } from '@/types';
+
+/**
+ * Platform presets followed by the sponsor's own templates (only when signed in)
+ */
+export const useQuestTemplates = (address: string | undefined, isAuthenticated: boolean) => {
+  return useQuery({
+    queryKey: ['questTemplates', isAuthenticated ? address : undefined],
+    queryFn: async (): Promise<QuestTemplate[]> => {
+      const [platform, sponsor] = await Promise.all([
+        apiClient.getPlatformQuestTemplates(),
+        isAuthenticated && address ? apiClient.getSponsorQuestTemplates(address) : Promise.resolve([])
+      ]);
+      return [...platform, ...sponsor];
+    },
+    staleTime: 60000,
+  });
+};
+
+export const useSaveQuestTemplate = (address: string | undefined) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (template: { name: string; formData: Partial<QuestFormData> }) =>
+      apiClient.saveQuestTemplate(address!, template),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['questTemplates'] });
+    }
+  });
+};
+
+export const useDeleteQuestTemplate = (address: string | undefined) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => apiClient.deleteQuestTemplate(address!, id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['questTemplates'] });
+    }
+  });
+};
+
+export const useQuestClone = (questId: string | null) => {
+  return useQuery({
+    queryKey: ['questClone', questId],
+    queryFn: () => apiClient.getQuestClone(questId!),
+    enabled: !!questId,
+    staleTime: Infinity, // Loaded once to pre-fill the wizard
+    retry: false,
+  });
+};
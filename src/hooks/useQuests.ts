@@ -4,19 +4,21 @@
  * React Query hooks for quest CRUD operations with backend integration
  */
 
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { useQuery, useMutation, useQueryClient, type QueryClient } from '@tanstack/react-query'
 import { useCallback } from 'react'
 import apiClient from '@/lib/api'
 import { transformers, mergeQuestData, transformQuestToApiRequest, transformBackendQuestToListItem } from '@/lib/transformers'
 import { useToast } from '@/hooks/use-toast'
 import { useProtectedAction } from '@/hooks/useAuth'
+import { useQuestStream } from '@/hooks/useQuestStream'
 import type {
   QuestResponse,
   QuestListItem,
   QuestFormData,
   QuestFilters,
   PaginatedResponse,
-  QuestCreateRequest
+  QuestCreateRequest,
+  QuestStreamEvent
 } from '@/types'
 
 // Query keys
@@ -28,6 +30,44 @@ export const questKeys = {
   detail: (id: string) => [...questKeys.details(), id] as const,
 }
 
+/**
+ * Patch or invalidate cached quest data from a real-time stream event
+ */
+export function applyQuestStreamEvent(queryClient: QueryClient, event: QuestStreamEvent) {
+  switch (event.type) {
+    case 'RewardClaimed': {
+      const participantCount = event.data.participantCount
+      if (typeof participantCount !== 'number') {
+        queryClient.invalidateQueries({ queryKey: questKeys.all })
+        break
+      }
+
+      // Claims only move the participant counter, so patch it in place
+      queryClient.setQueriesData<QuestListItem[]>({ queryKey: questKeys.lists() }, (quests) =>
+        quests?.map(quest => quest.id === event.questId
+          ? { ...quest, participants: { ...quest.participants, current: participantCount } }
+          : quest
+        )
+      )
+      queryClient.setQueryData<QuestResponse | null>(questKeys.detail(event.questId), (quest) =>
+        quest ? { ...quest, participants: { ...quest.participants, current: participantCount } } : quest
+      )
+      queryClient.invalidateQueries({ queryKey: ['participation-stats'] })
+      break
+    }
+    case 'QuestCreated':
+    case 'QuestCanceled':
+    case 'QuestStatusChanged':
+      queryClient.invalidateQueries({ queryKey: questKeys.lists() })
+      queryClient.invalidateQueries({ queryKey: questKeys.detail(event.questId) })
+      queryClient.invalidateQueries({ queryKey: ['quest-stats'] })
+      queryClient.invalidateQueries({ queryKey: ['trending-quests'] })
+      break
+    default:
+      break
+  }
+}
+
 
 /**
  * Hook to fetch quest list with backend integration
@@ -37,6 +77,10 @@ export function useQuests(filters?: QuestFilters, options?: {
   offset?: number
 }) {
   const paginationOptions = options || {}
+  const queryClient = useQueryClient()
+
+  // Keep the list in sync with indexed chain events
+  useQuestStream((event) => applyQuestStreamEvent(queryClient, event))
 
   return useQuery({
     queryKey: questKeys.list({ ...filters, ...paginationOptions }),
@@ -107,6 +151,10 @@ export function useQuests(filters?: QuestFilters, options?: {
  * Hook to fetch single quest details
  */
 export function useQuest(id: string) {
+  const queryClient = useQueryClient()
+
+  useQuestStream((event) => applyQuestStreamEvent(queryClient, event), { questId: id }, !!id)
+
   return useQuery({
     queryKey: questKeys.detail(id),
     queryFn: async (): Promise<QuestResponse | null> => {
@@ -0,0 +1,107 @@
+import { useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import apiClient from '@/lib/api';
+
+export interface ReferralQuestStats {
+  questId: string;
+  questTitle: string;
+  referred: number;
+  completed: number;
+  lastCompletedAt: number | null;
+}
+
+export interface UserReferralStats {
+  address: string;
+  referred: number;
+  completed: number;
+  pending: number;
+  conversionRate: number;
+  quests: ReferralQuestStats[];
+}
+
+// Referrers from ?ref= links, kept per quest until the visitor signs in
+const PENDING_REFERRALS_KEY = 'pending_referrals';
+
+const readPendingReferrals = (): Record<string, string> => {
+  try {
+    return JSON.parse(localStorage.getItem(PENDING_REFERRALS_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const writePendingReferrals = (referrals: Record<string, string>) => {
+  localStorage.setItem(PENDING_REFERRALS_KEY, JSON.stringify(referrals));
+};
+
+export const getReferralLink = (questId: string, referrer: string): string => {
+  return `${window.location.origin}/quest/${questId}?ref=${referrer}`;
+};
+
+/**
+ * Remember the referrer of a quest link and record it once the visitor's wallet is signed in
+ */
+export const useReferralCapture = (questId: string | undefined, address: string | undefined, isAuthenticated: boolean) => {
+  const [searchParams] = useSearchParams();
+  const ref = searchParams.get('ref');
+
+  useEffect(() => {
+    if (!questId || !ref || !/^0x[a-fA-F0-9]{40}$/.test(ref)) return;
+
+    const pending = readPendingReferrals();
+    if (!pending[questId]) {
+      writePendingReferrals({ ...pending, [questId]: ref });
+    }
+  }, [questId, ref]);
+
+  useEffect(() => {
+    if (!questId || !address || !isAuthenticated) return;
+
+    const referrer = readPendingReferrals()[questId];
+    if (!referrer) return;
+
+    const clear = () => {
+      const { [questId]: _recorded, ...rest } = readPendingReferrals();
+      writePendingReferrals(rest);
+    };
+
+    // Own links need no request; the server refuses self-referrals and already claimed quests
+    if (referrer.toLowerCase() === address.toLowerCase()) {
+      clear();
+      return;
+    }
+    apiClient.recordReferral(questId, referrer)
+      .catch(error => console.warn('Failed to record referral:', error))
+      .finally(clear);
+  }, [questId, address, isAuthenticated]);
+};
+
+const fetchUserReferrals = async (address: string): Promise<UserReferralStats> => {
+  const apiUrl = import.meta.env.VITE_API_URL || 'http://localhost:3001';
+  const response = await fetch(`${apiUrl}/api/users/${address}/referrals`);
+  if (!response.ok) {
+    throw new Error('Failed to fetch referrals');
+  }
+  const result = await response.json();
+  return result.data;
+};
+
+export const useUserReferrals = (address: string | undefined) => {
+  return useQuery({
+    queryKey: ['referrals', address],
+    queryFn: () => fetchUserReferrals(address!),
+    enabled: !!address, // Only run query if address is provided
+    refetchInterval: 60000, // Refetch every minute
+    staleTime: 30000, // Data is fresh for 30 seconds
+  });
+};
+
+export const useQuestReferrers = (questId: string | undefined, enabled: boolean) => {
+  return useQuery({
+    queryKey: ['questReferrers', questId],
+    queryFn: () => apiClient.getQuestReferrers(questId!),
+    enabled: !!questId && enabled, // Top referrers need the sponsor's JWT
+    staleTime: 30000,
+  });
+};
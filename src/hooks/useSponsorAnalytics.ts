@@ -0,0 +1,81 @@
+import { useQuery } from '@tanstack/react-query';
+
+export type AnalyticsInterval = 'hour' | 'day';
+
+export interface ClaimBucket {
+  bucketStart: number;
+  claims: number;
+  amount: string;
+  cumulativeClaims: number;
+}
+
+export interface QuestAnalytics {
+  questId: string;
+  title: string;
+  status: string;
+  isVesting: boolean;
+  totalRewards: string;
+  rewardPerUser: string;
+  maxParticipants: number;
+  participantCount: number;
+  startTime: number;
+  endTime: number;
+  claimEndTime: number;
+  claimsOverTime: ClaimBucket[];
+  timeToFill: number | null;
+  distributed: string;
+  remainingPool: string;
+  vestingOutstanding: string;
+  refundable: string;
+  refundableAt: number;
+}
+
+export interface SponsorAnalyticsData {
+  sponsor: string;
+  interval: AnalyticsInterval;
+  totals: {
+    quests: number;
+    participants: number;
+    totalRewards: string;
+    distributed: string;
+    remainingPool: string;
+    vestingOutstanding: string;
+    refundable: string;
+  };
+  quests: QuestAnalytics[];
+}
+
+const fetchSponsorAnalytics = async (address: string, interval: AnalyticsInterval): Promise<SponsorAnalyticsData> => {
+  const apiUrl = import.meta.env.VITE_API_URL || 'http://localhost:3001';
+  const response = await fetch(`${apiUrl}/api/sponsors/${address}/analytics?interval=${interval}`);
+  if (!response.ok) {
+    throw new Error('Failed to fetch sponsor analytics');
+  }
+  const result = await response.json();
+  return result.data;
+};
+
+export const useSponsorAnalytics = (address: string | undefined, interval: AnalyticsInterval = 'day') => {
+  return useQuery({
+    queryKey: ['sponsor-analytics', address, interval],
+    queryFn: () => fetchSponsorAnalytics(address!, interval),
+    enabled: !!address, // Only run query if address is provided
+    refetchInterval: 60000, // Refetch every minute
+    staleTime: 30000, // Data is fresh for 30 seconds
+  });
+};
+
+// Format a duration in milliseconds as a compact "2d 3h" / "45m" string
+export const formatDuration = (milliseconds: number): string => {
+  const minutes = Math.floor(milliseconds / (60 * 1000));
+  const hours = Math.floor(minutes / 60);
+  const days = Math.floor(hours / 24);
+
+  if (days > 0) {
+    return `${days}d ${hours % 24}h`;
+  } else if (hours > 0) {
+    return `${hours}h ${minutes % 60}m`;
+  } else {
+    return `${minutes}m`;
+  }
+};
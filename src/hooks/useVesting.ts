@@ -0,0 +1,99 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { waitForTransactionReceipt } from '@wagmi/core';
+import { claimVestingReward } from '@/lib/questContract';
+import { config } from '@/lib/wagmi';
+
+export interface VestingSchedulePoint {
+  timestamp: number;
+  vestedAmount: string;
+}
+
+export interface VestingPosition {
+  questId: string;
+  title: string;
+  totalAmount: string;
+  vestedAmount: string;
+  claimedAmount: string;
+  claimableAmount: string;
+  lockedAmount: string;
+  indexedClaimedAmount: string;
+  lastClaimedAt: number | null;
+  vestingStart: number;
+  vestingEnd: number;
+  vestingProgress: number;
+  source: 'contract' | 'indexed';
+  schedule: VestingSchedulePoint[];
+}
+
+export interface VestingData {
+  address: string;
+  totals: {
+    totalAmount: string;
+    vestedAmount: string;
+    claimedAmount: string;
+    claimableAmount: string;
+    lockedAmount: string;
+  };
+  positions: VestingPosition[];
+}
+
+export interface VestingClaimResult {
+  questId: string;
+  hash?: `0x${string}`;
+  success: boolean;
+  error?: unknown;
+}
+
+const fetchVestingData = async (address: string): Promise<VestingData> => {
+  const apiUrl = import.meta.env.VITE_API_URL || 'http://localhost:3001';
+  const response = await fetch(`${apiUrl}/api/users/${address}/vesting`);
+  if (!response.ok) {
+    throw new Error('Failed to fetch vesting data');
+  }
+  const result = await response.json();
+  return result.data;
+};
+
+export const useVesting = (address: string | undefined) => {
+  return useQuery({
+    queryKey: ['vesting', address],
+    queryFn: () => fetchVestingData(address!),
+    enabled: !!address, // Only run query if address is provided
+    refetchInterval: 30000, // Refetch every 30 seconds
+    staleTime: 15000, // Data is fresh for 15 seconds
+  });
+};
+
+/**
+ * Claim one or more vesting rewards. The contract has no batch entry point, so claims are
+ * sent one transaction at a time and the batch stops at the first failure or rejection.
+ */
+export const useClaimVestingRewards = (address: string | undefined) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (questIds: string[]): Promise<VestingClaimResult[]> => {
+      const results: VestingClaimResult[] = [];
+
+      for (const questId of questIds) {
+        try {
+          const hash = await claimVestingReward(BigInt(questId));
+          const receipt = await waitForTransactionReceipt(config, { hash });
+          const success = receipt.status === 'success';
+          results.push({ questId, hash, success });
+          if (!success) break;
+        } catch (error) {
+          console.error(`Vesting claim failed for quest ${questId}:`, error);
+          results.push({ questId, success: false, error });
+          break;
+        }
+      }
+
+      return results;
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['vesting', address] });
+      queryClient.invalidateQueries({ queryKey: ['profile', address] });
+    }
+  });
+};
@@ -20,9 +20,17 @@ import type {
   QuestStatus,
   User,
   UserUpdateRequest,
-  QuestParticipation
+  QuestParticipation,
+  QuestFormData,
+  QuestDraft,
+  QuestDraftResponse,
+  QuestTemplate,
+  QuestClone,
+  ParticipantExportFormat,
+  QuestReferral,
+  QuestReferralStats
 } from '@/types'
-import { transformBackendQuestToResponse } from './transformers'
+import { transformBackendQuestToResponse, transformDraftResponse, reviveFormDates } from './transformers'
 
 class ApiClient {
   private baseUrl: string
@@ -277,6 +285,35 @@ class ApiClient {
     return this.get<QuestParticipation[]>(`/api/participations/quest/${questId}`)
   }
 
+  // Export files are not JSON, so they are fetched without the retrying request helper
+  async exportQuestParticipants(questId: string, format: ParticipantExportFormat): Promise<Blob> {
+    const response = await fetch(`${this.baseUrl}/api/participations/quest/${questId}/export?format=${format}`, {
+      headers: this.token ? { 'Authorization': `Bearer ${this.token}` } : {}
+    })
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}))
+      if (response.status === 401) {
+        this.setToken(null)
+        throw new Error('Authentication required')
+      }
+      throw new Error(errorData.message || `HTTP ${response.status}`)
+    }
+
+    return response.blob()
+  }
+
+  // Referral endpoints
+  async recordReferral(questId: string, referrer: string): Promise<QuestReferral> {
+    const response = await this.post<{ success: true; data: QuestReferral }>('/api/referrals', { questId, referrer })
+    return response.data
+  }
+
+  async getQuestReferrers(questId: string, limit = 20): Promise<QuestReferralStats> {
+    const response = await this.get<{ success: true; data: QuestReferralStats }>(`/api/referrals/quest/${questId}?limit=${limit}`)
+    return response.data
+  }
+
   async submitQuestProof(participationId: string, proofData: any): Promise<QuestParticipation> {
     return this.put<QuestParticipation>(`/api/participations/${participationId}`, {
       submissionData: proofData,
@@ -297,6 +334,65 @@ class ApiClient {
     return this.delete(`/api/users/${address}`)
   }
 
+  // Bind the X account proven by a zkTLS attestation (requires the wallet's own token)
+  async bindXAccount(address: string, attestation: unknown): Promise<User> {
+    const response = await this.post<{ success: true; data: User }>(`/api/users/${address}/x-account`, { attestation })
+    return response.data
+  }
+
+  async unbindXAccount(address: string): Promise<User> {
+    const response = await this.delete<{ success: true; data: User }>(`/api/users/${address}/x-account`)
+    return response.data
+  }
+
+  // Quest draft endpoints
+  async getQuestDrafts(address: string): Promise<QuestDraft[]> {
+    const response = await this.get<{ success: true; data: QuestDraftResponse[] }>(`/api/users/${address}/drafts`)
+    return response.data.map(transformDraftResponse)
+  }
+
+  async getQuestDraft(address: string, id: string): Promise<QuestDraft> {
+    const response = await this.get<{ success: true; data: QuestDraftResponse }>(`/api/users/${address}/drafts/${id}`)
+    return transformDraftResponse(response.data)
+  }
+
+  async saveQuestDraft(address: string, draft: { id?: string; step: number; formData: Partial<QuestFormData> }): Promise<QuestDraft> {
+    const body = { step: draft.step, formData: draft.formData }
+    const response = draft.id
+      ? await this.put<{ success: true; data: QuestDraftResponse }>(`/api/users/${address}/drafts/${draft.id}`, body)
+      : await this.post<{ success: true; data: QuestDraftResponse }>(`/api/users/${address}/drafts`, body)
+    return transformDraftResponse(response.data)
+  }
+
+  async deleteQuestDraft(address: string, id: string): Promise<void> {
+    await this.delete(`/api/users/${address}/drafts/${id}`)
+  }
+
+  // Quest template endpoints
+  async getPlatformQuestTemplates(): Promise<QuestTemplate[]> {
+    const response = await this.get<{ success: true; data: QuestTemplate[] }>('/api/quest-templates')
+    return response.data
+  }
+
+  async getSponsorQuestTemplates(address: string): Promise<QuestTemplate[]> {
+    const response = await this.get<{ success: true; data: QuestTemplate[] }>(`/api/users/${address}/templates`)
+    return response.data
+  }
+
+  async saveQuestTemplate(address: string, template: { name: string; formData: Partial<QuestFormData> }): Promise<QuestTemplate> {
+    const response = await this.post<{ success: true; data: QuestTemplate }>(`/api/users/${address}/templates`, template)
+    return response.data
+  }
+
+  async deleteQuestTemplate(address: string, id: string): Promise<void> {
+    await this.delete(`/api/users/${address}/templates/${id}`)
+  }
+
+  async getQuestClone(questId: string): Promise<QuestClone> {
+    const response = await this.get<{ success: true; data: Omit<QuestClone, 'formData'> & { formData: Record<string, unknown> } }>(`/api/quests/${questId}/clone`)
+    return { ...response.data, formData: reviveFormDates(response.data.formData) }
+  }
+
   // Health Check
   async healthCheck(): Promise<{ status: string; timestamp: string }> {
     return this.get('/health')
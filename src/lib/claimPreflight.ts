@@ -0,0 +1,110 @@
+import i18n from './i18n';
+import { decodeQuestSystemError, type QuestSystemErrorName } from './contractErrors';
+import {
+  canUserClaimReward,
+  hasUserQualified,
+  isQuoteTweetIdUsed,
+  simulateClaimReward,
+  type ClaimAttestation
+} from './questContract';
+
+export type PreflightCheck = 'canClaim' | 'qualified' | 'quoteTweetUsed' | 'simulation';
+
+export interface PreflightFailure {
+  check: PreflightCheck;
+  errorName?: QuestSystemErrorName;
+  message: string;        // Localized, user facing
+}
+
+export type PreflightResult =
+  | { status: 'eligible' }
+  | { status: 'ineligible'; failure: PreflightFailure }
+  | { status: 'unavailable'; details: string };   // RPC failed; the claim itself still simulates before sending
+
+// canUserClaimReward returns a plain reason string, map it onto the matching custom error
+const CAN_CLAIM_REASONS: Record<string, QuestSystemErrorName> = {
+  'Quest not active': 'QuestSystem__QuestNotActive',
+  'User already qualified': 'QuestSystem__UserAlreadyQualified',
+  'Reward pool depleted': 'QuestSystem__RewardPoolDepleted',
+};
+
+const ineligible = (check: PreflightCheck, errorName: QuestSystemErrorName): PreflightResult => ({
+  status: 'ineligible',
+  failure: { check, errorName, message: i18n.t(`errors:contract.${errorName}`) }
+});
+
+const unavailable = (error: unknown): PreflightResult => {
+  console.warn('Claim pre-flight check unavailable:', error);
+  return { status: 'unavailable', details: decodeQuestSystemError(error).details };
+};
+
+// The attestation data is a JSON string of the extracted response fields
+const getAttestedTwitterUserId = (attestation: ClaimAttestation): string | undefined => {
+  try {
+    const data = JSON.parse(attestation.data) as { user_id_str?: string };
+    return data.user_id_str || undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Read-only checks run before zkTLS proof generation starts
+ */
+export async function checkClaimEligibility(questId: bigint, user: `0x${string}`): Promise<PreflightResult> {
+  try {
+    const [eligibility, qualified] = await Promise.all([
+      canUserClaimReward(questId, user),
+      hasUserQualified(questId, user),
+    ]);
+
+    if (qualified) {
+      return ineligible('qualified', 'QuestSystem__UserAlreadyQualified');
+    }
+
+    if (!eligibility.canClaim) {
+      const errorName = CAN_CLAIM_REASONS[eligibility.reason];
+      return errorName
+        ? ineligible('canClaim', errorName)
+        : { status: 'ineligible', failure: { check: 'canClaim', message: eligibility.reason } };
+    }
+
+    return { status: 'eligible' };
+  } catch (error) {
+    return unavailable(error);
+  }
+}
+
+/**
+ * Checks run once the attestation exists: the quote tweet account check, then a dry run of
+ * claimReward so the exact failing contract check surfaces before the wallet is asked to sign
+ */
+export async function checkClaimWithAttestation(
+  questId: bigint,
+  attestation: ClaimAttestation,
+  account: `0x${string}`,
+  isQuoteTweet: boolean
+): Promise<PreflightResult> {
+  try {
+    const twitterUserId = isQuoteTweet ? getAttestedTwitterUserId(attestation) : undefined;
+    if (twitterUserId && await isQuoteTweetIdUsed(questId, twitterUserId)) {
+      return ineligible('quoteTweetUsed', 'QuestSystem__QuoteTweetAlreadyUsed');
+    }
+  } catch (error) {
+    return unavailable(error);
+  }
+
+  try {
+    await simulateClaimReward(questId, attestation, account);
+    return { status: 'eligible' };
+  } catch (error) {
+    const decoded = decodeQuestSystemError(error);
+    if (decoded.kind !== 'contract' && decoded.kind !== 'reverted') {
+      return unavailable(error);
+    }
+    return {
+      status: 'ineligible',
+      failure: { check: 'simulation', errorName: decoded.errorName, message: decoded.message }
+    };
+  }
+}
@@ -0,0 +1,135 @@
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  InsufficientFundsError,
+  UserRejectedRequestError,
+  decodeErrorResult,
+  type Hex
+} from 'viem';
+import i18n from './i18n';
+import { QUEST_SYSTEM_ABI } from './questContract';
+
+// Every custom error declared in the QuestSystem ABI (QuestSystem__* plus Ownable errors)
+export type QuestSystemErrorName = Extract<(typeof QUEST_SYSTEM_ABI)[number], { type: 'error' }>['name'];
+
+export const QUEST_SYSTEM_ERROR_NAMES = QUEST_SYSTEM_ABI
+  .filter((item): item is Extract<(typeof QUEST_SYSTEM_ABI)[number], { type: 'error' }> => item.type === 'error')
+  .map(item => item.name);
+
+export type ContractErrorKind =
+  | 'contract'            // QuestSystem custom error
+  | 'userRejected'        // Wallet prompt was rejected
+  | 'insufficientFunds'   // Not enough native balance for value + gas
+  | 'gas'
+  | 'nonce'
+  | 'reverted'            // Reverted without decodable data
+  | 'unknown';
+
+export interface DecodedContractError {
+  kind: ContractErrorKind;
+  errorName?: QuestSystemErrorName;
+  message: string;        // Localized, user facing
+  details: string;        // Original error message for logs
+}
+
+const isQuestSystemErrorName = (name: string | undefined): name is QuestSystemErrorName =>
+  !!name && (QUEST_SYSTEM_ERROR_NAMES as string[]).includes(name);
+
+// Decode raw revert data (selector + args) against the QuestSystem ABI
+const decodeRevertData = (data: Hex | undefined): QuestSystemErrorName | undefined => {
+  if (!data || data.length < 10) return undefined;
+  try {
+    const { errorName } = decodeErrorResult({ abi: QUEST_SYSTEM_ABI, data });
+    return isQuestSystemErrorName(errorName) ? errorName : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const getErrorText = (error: unknown): string => {
+  if (error instanceof BaseError) {
+    return [error.shortMessage, error.details, error.message].filter(Boolean).join('\n');
+  }
+  const err = error as { message?: string; reason?: string; data?: { message?: string } } | undefined;
+  return err?.message || err?.reason || err?.data?.message || (typeof error === 'string' ? error : '');
+};
+
+const findErrorName = (error: unknown, text: string): QuestSystemErrorName | undefined => {
+  if (error instanceof BaseError) {
+    // Simulation and write failures carry a decoded ContractFunctionRevertedError
+    const reverted = error.walk(err => err instanceof ContractFunctionRevertedError);
+    if (reverted instanceof ContractFunctionRevertedError) {
+      if (isQuestSystemErrorName(reverted.data?.errorName)) {
+        return reverted.data.errorName;
+      }
+      const decoded = decodeRevertData(reverted.raw);
+      if (decoded) return decoded;
+    }
+
+    // RPC errors sometimes only expose the raw revert data
+    const withData = error.walk(err => typeof (err as { data?: unknown }).data === 'string');
+    const decoded = decodeRevertData((withData as { data?: Hex } | null)?.data);
+    if (decoded) return decoded;
+  }
+
+  // Wrapped or non-viem errors: look for the error name, then for revert data in the text
+  const byName = QUEST_SYSTEM_ERROR_NAMES.find(name => text.includes(name));
+  if (byName) return byName;
+
+  for (const match of text.match(/0x[0-9a-fA-F]{8,}/g) || []) {
+    const decoded = decodeRevertData(match as Hex);
+    if (decoded) return decoded;
+  }
+
+  return undefined;
+};
+
+/**
+ * Classify any error thrown by a QuestSystem read, simulation or transaction
+ */
+export function decodeQuestSystemError(error: unknown): DecodedContractError {
+  const details = getErrorText(error);
+  const text = details.toLowerCase();
+
+  const errorName = findErrorName(error, details);
+  if (errorName) {
+    return {
+      kind: 'contract',
+      errorName,
+      message: i18n.t(`errors:contract.${errorName}`),
+      details
+    };
+  }
+
+  let kind: ContractErrorKind = 'unknown';
+  if (
+    (error instanceof BaseError && error.walk(err => err instanceof UserRejectedRequestError)) ||
+    text.includes('user rejected') || text.includes('user denied')
+  ) {
+    kind = 'userRejected';
+  } else if (
+    (error instanceof BaseError && error.walk(err => err instanceof InsufficientFundsError)) ||
+    text.includes('insufficient funds')
+  ) {
+    kind = 'insufficientFunds';
+  } else if (text.includes('nonce')) {
+    kind = 'nonce';
+  } else if (text.includes('revert')) {
+    kind = 'reverted';
+  } else if (text.includes('gas')) {
+    kind = 'gas';
+  }
+
+  return {
+    kind,
+    message: i18n.t(`errors:wallet.${kind}`),
+    details
+  };
+}
+
+/**
+ * Localized message for an error thrown by a QuestSystem call
+ */
+export function getContractErrorMessage(error: unknown): string {
+  return decodeQuestSystemError(error).message;
+}
@@ -10,6 +10,7 @@ import enNotifications from '@/locales/en/notifications.json';
 import enCreate from '@/locales/en/create.json';
 import enProfile from '@/locales/en/profile.json';
 import enGuide from '@/locales/en/guide.json';
+import enErrors from '@/locales/en/errors.json';
 
 import zhCommon from '@/locales/zh/common.json';
 import zhNavigation from '@/locales/zh/navigation.json';
@@ -18,6 +19,7 @@ import zhNotifications from '@/locales/zh/notifications.json';
 import zhCreate from '@/locales/zh/create.json';
 import zhProfile from '@/locales/zh/profile.json';
 import zhGuide from '@/locales/zh/guide.json';
+import zhErrors from '@/locales/zh/errors.json';
 
 const resources = {
   en: {
@@ -28,6 +30,7 @@ const resources = {
     create: enCreate,
     profile: enProfile,
     guide: enGuide,
+    errors: enErrors,
   },
   zh: {
     common: zhCommon,
@@ -37,6 +40,7 @@ const resources = {
     create: zhCreate,
     profile: zhProfile,
     guide: zhGuide,
+    errors: zhErrors,
   },
 };
 
@@ -47,7 +51,7 @@ i18n
     resources,
     fallbackLng: 'en',
     defaultNS: 'common',
-    ns: ['common', 'navigation', 'quests', 'notifications', 'create', 'profile', 'guide'],
+    ns: ['common', 'navigation', 'quests', 'notifications', 'create', 'profile', 'guide', 'errors'],
     
     interpolation: {
       escapeValue: false, // React already escapes values
@@ -1,4 +1,4 @@
-import { parseEther } from 'viem';
+import { parseEther, zeroAddress, type ContractFunctionArgs } from 'viem';
 import { writeContract, readContract, simulateContract } from '@wagmi/core';
 import { config } from './wagmi';
 
@@ -42,7 +42,7 @@ export async function createQuoteTweetQuest(params: {
 
   const quest = {
     id: 0n, // Will be set by contract
-    sponsor: '0x0000000000000000000000000000000000000000', // Will be set by contract
+    sponsor: zeroAddress, // Will be set by contract
     title: params.title,
     description: params.description,
     launch_page: params.launch_page,
@@ -77,15 +77,19 @@ export async function createQuoteTweetQuest(params: {
     typeof value === 'bigint' ? value.toString() : value
   ));
 
-  const hash = await writeContract(config, {
+  // Simulate first so custom errors (e.g. InvalidTimeSequence) surface before the wallet prompt
+  const call = {
     address: QUEST_SYSTEM_ADDRESS,
     abi: QUEST_SYSTEM_ABI,
     functionName: 'createQuest',
     args: [quest],
     value: totalRewardsWei,
-    chainId: CHAIN_ID,
-  });
+    chainId: config.chains[0].id,
+  } as const;
+  const { request } = await simulateContract(config, call);
 
+  // `chain` only satisfies @wagmi/core's parameter type (wagmi#3981); chainId selects the chain at runtime
+  const hash = await writeContract(config, { ...call, chain: config.chains[0], account: request.account });
   return hash;
 }
 
@@ -115,7 +119,7 @@ export async function createLikeAndRetweetQuest(params: {
 
   const quest = {
     id: 0n, // Will be set by contract
-    sponsor: '0x0000000000000000000000000000000000000000', // Will be set by contract
+    sponsor: zeroAddress, // Will be set by contract
     title: params.title,
     description: params.description,
     launch_page: params.launch_page,
@@ -150,15 +154,18 @@ export async function createLikeAndRetweetQuest(params: {
     typeof value === 'bigint' ? value.toString() : value
   ));
 
-  const hash = await writeContract(config, {
+  // Simulate first so custom errors (e.g. InvalidTimeSequence) surface before the wallet prompt
+  const call = {
     address: QUEST_SYSTEM_ADDRESS,
     abi: QUEST_SYSTEM_ABI,
     functionName: 'createQuest',
     args: [quest],
     value: totalRewardsWei,
-    chainId: CHAIN_ID,
-  });
+    chainId: config.chains[0].id,
+  } as const;
+  const { request } = await simulateContract(config, call);
 
+  const hash = await writeContract(config, { ...call, chain: config.chains[0], account: request.account });
   return hash;
 }
 
@@ -250,34 +257,8 @@ export async function claimRewardWithAttestation(questId: bigint, attestation: u
         return hash;
       }
 
-      // Parse simulation error to identify specific contract requirement failures
-      let errorMessage = 'Contract execution would fail';
-
-      if (simulationError?.message) {
-        const msg = simulationError.message.toLowerCase();
-
-        if (msg.includes('questsystem__questnotactive')) {
-          errorMessage = 'Quest is not currently active';
-        } else if (msg.includes('questsystem__useralreadyqualified')) {
-          errorMessage = 'User has already qualified for this quest';
-        } else if (msg.includes('questsystem__rewardpooldepleted')) {
-          errorMessage = 'Quest reward pool is depleted (max participants reached)';
-        } else if (msg.includes('questsystem__attestationverificationfailed')) {
-          errorMessage = 'ZKTLS attestation verification failed';
-        } else if (msg.includes('questsystem__contentverificationfailed')) {
-          errorMessage = 'Quest content verification failed (check if you liked/retweeted the correct tweet)';
-        } else if (msg.includes('revert')) {
-          // Extract revert reason if available
-          const revertMatch = msg.match(/revert (.+)/);
-          if (revertMatch) {
-            errorMessage = `Contract reverted: ${revertMatch[1]}`;
-          }
-        }
-
-        errorMessage += `\n\nDetailed error: ${simulationError.message}`;
-      }
-
-      throw new Error(errorMessage);
+      // Keep the original error so callers can decode the custom error from its revert data
+      throw simulationError;
     }
   } catch (error: any) {
     console.error('Claim reward error:', error);
@@ -285,6 +266,66 @@ export async function claimRewardWithAttestation(questId: bigint, attestation: u
   }
 }
 
+// Cancel a quest that nobody has claimed yet (sponsor only, refunds the full pool)
+export async function cancelQuest(questId: bigint) {
+  // Simulate first so custom errors surface before the wallet prompt
+  const call = {
+    address: QUEST_SYSTEM_ADDRESS,
+    abi: QUEST_SYSTEM_ABI,
+    functionName: 'cancelQuest',
+    args: [questId],
+    chainId: config.chains[0].id,
+  } as const;
+  const { request } = await simulateContract(config, call);
+
+  const hash = await writeContract(config, { ...call, chain: config.chains[0], account: request.account });
+  return hash;
+}
+
+// Withdraw unclaimed rewards once the claim period is over (sponsor only)
+export async function withdrawRemainingRewards(questId: bigint) {
+  // Simulate first so custom errors surface before the wallet prompt
+  const call = {
+    address: QUEST_SYSTEM_ADDRESS,
+    abi: QUEST_SYSTEM_ABI,
+    functionName: 'withdrawRemainingRewards',
+    args: [questId],
+    chainId: config.chains[0].id,
+  } as const;
+  const { request } = await simulateContract(config, call);
+
+  const hash = await writeContract(config, { ...call, chain: config.chains[0], account: request.account });
+  return hash;
+}
+
+// Claim the vested part of a vesting quest reward
+export async function claimVestingReward(questId: bigint) {
+  // Simulate first so custom errors surface before the wallet prompt
+  const call = {
+    address: QUEST_SYSTEM_ADDRESS,
+    abi: QUEST_SYSTEM_ABI,
+    functionName: 'claimVestingReward',
+    args: [questId],
+    chainId: config.chains[0].id,
+  } as const;
+  const { request } = await simulateContract(config, call);
+
+  const hash = await writeContract(config, { ...call, chain: config.chains[0], account: request.account });
+  return hash;
+}
+
+// Get vested/claimed/claimable amounts of a vesting quest for a user
+export async function getVestingInfo(questId: bigint, userAddress: `0x${string}`) {
+  const [vestedAmount, claimedAmount, claimableAmount] = await readContract(config, {
+    address: QUEST_SYSTEM_ADDRESS,
+    abi: QUEST_SYSTEM_ABI,
+    functionName: 'getVestingInfo',
+    args: [questId, userAddress],
+  });
+
+  return { vestedAmount, claimedAmount, claimableAmount };
+}
+
 // Get all quest IDs with pagination
 export async function getAllQuestIds(offset: number = 0, limit: number = 10) {
   const result = await readContract(config, {
@@ -327,6 +368,43 @@ export async function hasUserQualified(questId: bigint, userAddress: string) {
   return hasQualified;
 }
 
+// Check whether a user can still claim: quest active, not yet qualified and slots remaining
+export async function canUserClaimReward(questId: bigint, userAddress: `0x${string}`) {
+  const [canClaim, reason] = await readContract(config, {
+    address: QUEST_SYSTEM_ADDRESS,
+    abi: QUEST_SYSTEM_ABI,
+    functionName: 'canUserClaimReward',
+    args: [questId, userAddress],
+  });
+
+  return { canClaim, reason };
+}
+
+// Check if an X account already claimed a quote tweet quest (the contract keys this by user_id_str)
+export async function isQuoteTweetIdUsed(questId: bigint, twitterUserId: string) {
+  const isUsed = await readContract(config, {
+    address: QUEST_SYSTEM_ADDRESS,
+    abi: QUEST_SYSTEM_ABI,
+    functionName: 'isQuoteTweetIdUsed',
+    args: [questId, twitterUserId],
+  });
+
+  return isUsed;
+}
+
+export type ClaimAttestation = ContractFunctionArgs<typeof QUEST_SYSTEM_ABI, 'nonpayable', 'claimReward'>[1];
+
+// Dry-run claimReward with a generated attestation; throws the contract's custom error if it would revert
+export async function simulateClaimReward(questId: bigint, attestation: ClaimAttestation, account: `0x${string}`) {
+  await simulateContract(config, {
+    address: QUEST_SYSTEM_ADDRESS,
+    abi: QUEST_SYSTEM_ABI,
+    functionName: 'claimReward',
+    args: [questId, attestation],
+    account,
+  });
+}
+
 // Get all available quests
 export async function getAllQuests(limit: number = 50) {
   try {
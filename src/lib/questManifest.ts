@@ -0,0 +1,216 @@
+/**
+ * Quest Manifest
+ *
+ * Parsing and validation of bulk like/retweet quest manifests (CSV or JSON)
+ */
+
+import { createQuestSchema } from './questSchema'
+import type { QuestFormData } from '@/types'
+
+// Columns (CSV header) / keys (JSON objects) of a manifest row
+export const MANIFEST_COLUMNS = [
+  'title',
+  'description',
+  'tweetUrl',
+  'requiredActions',
+  'totalRewardPool',
+  'maxParticipants',
+  'startDate',
+  'endDate',
+  'rewardClaimDeadline'
+] as const
+
+export const MANIFEST_EXAMPLE_CSV = [
+  MANIFEST_COLUMNS.join(','),
+  '"Launch week boost","Like and retweet our launch announcement",https://x.com/proofquest/status/1942933687978365289,like;retweet,0.5,50,2025-07-01T12:00:00Z,2025-07-08T12:00:00Z,2025-07-15T12:00:00Z'
+].join('\n')
+
+export interface ManifestRow {
+  index: number                  // 1-based row number in the manifest
+  raw: Record<string, unknown>
+  formData?: QuestFormData       // Set when the row is valid
+  tweetId?: string               // Status ID the contract's targetLikeRetweetId will check
+  rewardPerParticipant: number   // In MON, rounded like the create wizard
+  errors: string[]
+}
+
+/**
+ * Extract the status ID from an x.com / twitter.com tweet URL
+ */
+export function extractTweetId(url: string): string | null {
+  const match = url.trim().match(/^https?:\/\/(?:www\.|mobile\.)?(?:twitter\.com|x\.com)\/\w+\/status\/(\d+)/)
+  return match ? match[1] : null
+}
+
+/**
+ * Parse CSV text with a header row (RFC 4180 quoting) into one object per line
+ */
+export function parseCsv(text: string): Record<string, string>[] {
+  const records: string[][] = []
+  let record: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      record.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      record.push(field)
+      records.push(record)
+      record = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field)
+    records.push(record)
+  }
+
+  const [header, ...rows] = records.filter(r => r.some(value => value.trim() !== ''))
+  if (!header) return []
+
+  const keys = header.map(key => key.trim())
+  return rows.map(values =>
+    Object.fromEntries(keys.map((key, i) => [key, (values[i] ?? '').trim()]))
+  )
+}
+
+/**
+ * Parse a manifest file: a JSON array (or `{ quests: [...] }`) or CSV
+ */
+export function parseManifest(text: string): Record<string, unknown>[] {
+  const trimmed = text.trim()
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    const parsed = JSON.parse(trimmed)
+    const quests = Array.isArray(parsed) ? parsed : parsed?.quests
+    if (!Array.isArray(quests)) {
+      throw new Error('JSON manifest must be an array of quests or an object with a "quests" array')
+    }
+    return quests.map(quest => (quest && typeof quest === 'object' ? quest : {}))
+  }
+  return parseCsv(trimmed)
+}
+
+function toNumber(value: unknown): number {
+  if (typeof value === 'number') return value
+  if (typeof value === 'string' && value.trim() !== '') return Number(value)
+  return NaN
+}
+
+function toDate(value: unknown): Date {
+  return typeof value === 'string' || typeof value === 'number' ? new Date(value) : new Date(NaN)
+}
+
+function toActions(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map(String)
+  if (typeof value === 'string') {
+    return value.split(/[;|\s]+/).map(action => action.trim().toLowerCase()).filter(Boolean)
+  }
+  return []
+}
+
+/**
+ * Build the wizard form data of a manifest row and validate it with createQuestSchema,
+ * plus the checks createLikeAndRetweetQuest needs (tweet ID, at least one action)
+ */
+export function validateManifestRow(
+  raw: Record<string, unknown>,
+  index: number,
+  t: (key: string) => string
+): ManifestRow {
+  const tweetUrl = typeof raw.tweetUrl === 'string' ? raw.tweetUrl.trim() : ''
+  const totalRewardPool = toNumber(raw.totalRewardPool)
+  const maxParticipants = toNumber(raw.maxParticipants)
+  const rewardPerParticipant = totalRewardPool > 0 && maxParticipants > 0
+    ? Math.floor((totalRewardPool / maxParticipants) * 1000) / 1000
+    : 0
+
+  const candidate = {
+    title: typeof raw.title === 'string' ? raw.title.trim() : '',
+    description: typeof raw.description === 'string' ? raw.description.trim() : '',
+    launch_page: tweetUrl,
+    questType: 'twitter-interaction' as const,
+    tweetUrl,
+    requiredActions: toActions(raw.requiredActions),
+    rewardType: 'MON' as const,
+    totalRewardPool,
+    rewardPerParticipant,
+    distributionMethod: 'immediate' as const,
+    startDate: toDate(raw.startDate),
+    endDate: toDate(raw.endDate),
+    rewardClaimDeadline: toDate(raw.rewardClaimDeadline),
+    maxParticipants,
+    requireWhitelist: false,
+    autoApproveSubmissions: true,
+    agreeToTerms: true
+  }
+
+  const errors: string[] = []
+  const result = createQuestSchema(t).safeParse(candidate)
+  if (!result.success) {
+    for (const issue of result.error.issues) {
+      errors.push(issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message)
+    }
+  }
+
+  const tweetId = extractTweetId(tweetUrl)
+  if (!tweetId) {
+    errors.push(`tweetUrl: ${t('bulk.validation.tweetIdMissing')}`)
+  }
+  if (!candidate.requiredActions.some(action => action === 'like' || action === 'retweet')) {
+    errors.push(`requiredActions: ${t('bulk.validation.actionsRequired')}`)
+  }
+  if (candidate.requiredActions.some(action => action !== 'like' && action !== 'retweet')) {
+    errors.push(`requiredActions: ${t('bulk.validation.actionsUnknown')}`)
+  }
+  if (rewardPerParticipant <= 0) {
+    errors.push(`rewardPerParticipant: ${t('bulk.validation.rewardPerParticipantTooSmall')}`)
+  }
+  if (!(candidate.rewardClaimDeadline > candidate.endDate)) {
+    errors.push(`rewardClaimDeadline: ${t('bulk.validation.claimAfterEnd')}`)
+  }
+
+  return {
+    index,
+    raw,
+    formData: errors.length === 0 ? (candidate as QuestFormData) : undefined,
+    tweetId: tweetId ?? undefined,
+    rewardPerParticipant,
+    errors
+  }
+}
+
+function csvField(value: unknown): string {
+  const text = value === undefined || value === null ? '' : String(value)
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * CSV report of a bulk run: one line per manifest row with its status, hash or error
+ */
+export function buildManifestReport(
+  rows: Array<{ index: number; title: string; status: string; hash?: string; error?: string }>
+): string {
+  const lines = [['row', 'title', 'status', 'transactionHash', 'error'].join(',')]
+  for (const row of rows) {
+    lines.push([row.index, row.title, row.status, row.hash, row.error].map(csvField).join(','))
+  }
+  return lines.join('\n')
+}
@@ -0,0 +1,65 @@
+/**
+ * Quest Form Schema
+ *
+ * Zod validation shared by the create wizard and the bulk import page
+ */
+
+import { z } from "zod";
+
+// Form schema for validation (matching QuestFormData interface)
+export const createQuestSchema = (t: (key: string) => string) => z.object({
+  title: z.string().min(1, t('validation.titleRequired')).max(100, t('validation.titleTooLong')),
+  description: z.string().min(10, t('validation.descriptionMinLength')),
+  launch_page: z.string().optional(), // Will be populated automatically from tweet URLs
+  questType: z.enum(["twitter-interaction", "quote-tweet", "send-tweet"]),
+  // Twitter interaction specific
+  interactionType: z.enum(["like", "retweet", "comment", "follow"]).optional(),
+  targetAccount: z.string().optional(),
+  tweetUrl: z.string().optional(),
+  // Quote tweet specific
+  quoteTweetUrl: z.string().optional(),
+  quoteRequirements: z.string().optional(),
+  // Send tweet specific
+  tweetContent: z.string().optional(),
+  requiredHashtags: z.array(z.string()).optional(),
+  // Smart contract integration
+  requiredActions: z.array(z.string()).optional(),
+  // Step 2 - Reward configuration
+  rewardType: z.enum(["MON", "ERC20", "NFT"]),
+  totalRewardPool: z.number().min(0.001, t('validation.rewardPoolMinimum')),
+  rewardPerParticipant: z.number().optional(),
+  distributionMethod: z.enum(["immediate", "manual", "scheduled"]),
+  linearPeriod: z.number().optional(),
+  unlockTime: z.date().optional(),
+  // Step 3 - Time and settings configuration
+  startDate: z.date(),
+  endDate: z.date(),
+  rewardClaimDeadline: z.date(),
+  maxParticipants: z.number().min(1, t('validation.participantsMinimum')),
+  requireWhitelist: z.boolean(),
+  autoApproveSubmissions: z.boolean(),
+  agreeToTerms: z.boolean().refine(val => val === true, t('validation.agreeToTerms'))
+}).refine((data) => {
+  return data.endDate > data.startDate;
+}, {
+  message: t('validation.endDateAfterStart'),
+  path: ["endDate"]
+}).refine((data) => {
+  // 验证Twitter Interaction类型需要Tweet URL
+  if (data.questType === "twitter-interaction") {
+    return data.tweetUrl && data.tweetUrl.trim().length > 0;
+  }
+  return true;
+}, {
+  message: t('validation.tweetUrlRequired'),
+  path: ["tweetUrl"]
+}).refine((data) => {
+  // 验证Quote Tweet类型需要Quote Tweet URL
+  if (data.questType === "quote-tweet") {
+    return data.quoteTweetUrl && data.quoteTweetUrl.trim().length > 0;
+  }
+  return true;
+}, {
+  message: t('validation.quoteTweetUrlRequired'),
+  path: ["quoteTweetUrl"]
+});
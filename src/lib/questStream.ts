@@ -0,0 +1,88 @@
+/**
+ * Real-time Quest Stream
+ *
+ * Shares one EventSource per filter between all subscribers of the
+ * server-sent quest event feed (GET /api/stream)
+ */
+
+import type { QuestStreamEvent, QuestStreamEventType, QuestStreamFilter } from '@/types'
+
+type QuestStreamListener = (event: QuestStreamEvent) => void
+
+interface StreamConnection {
+  source: EventSource
+  listeners: Set<QuestStreamListener>
+}
+
+const EVENT_TYPES: QuestStreamEventType[] = [
+  'QuestCreated',
+  'RewardClaimed',
+  'QuestCanceled',
+  'VestingRewardClaimed',
+  'QuestStatusChanged'
+]
+
+const connections = new Map<string, StreamConnection>()
+
+function buildStreamUrl(filter: QuestStreamFilter): string {
+  const baseUrl = import.meta.env.VITE_API_URL || 'http://localhost:3001'
+  const params = new URLSearchParams()
+  if (filter.questId) params.set('questId', filter.questId)
+  if (filter.address) params.set('address', filter.address.toLowerCase())
+
+  const query = params.toString()
+  return `${baseUrl}/api/stream${query ? `?${query}` : ''}`
+}
+
+function openConnection(url: string): StreamConnection {
+  const connection: StreamConnection = {
+    source: new EventSource(url),
+    listeners: new Set()
+  }
+
+  EVENT_TYPES.forEach(type => {
+    connection.source.addEventListener(type, (message) => {
+      try {
+        const event = JSON.parse((message as MessageEvent).data) as QuestStreamEvent
+        connection.listeners.forEach(listener => listener(event))
+      } catch (error) {
+        console.error('Failed to parse quest stream event:', error)
+      }
+    })
+  })
+
+  // EventSource reconnects by itself; only log so failures are visible
+  connection.source.onerror = () => {
+    console.warn('Quest stream connection lost, reconnecting...')
+  }
+
+  return connection
+}
+
+/**
+ * Subscribe to quest events matching the filter. Returns an unsubscribe function.
+ */
+export function subscribeToQuestStream(filter: QuestStreamFilter, listener: QuestStreamListener): () => void {
+  if (typeof EventSource === 'undefined') {
+    return () => {}
+  }
+
+  const url = buildStreamUrl(filter)
+  let connection = connections.get(url)
+  if (!connection) {
+    connection = openConnection(url)
+    connections.set(url, connection)
+  }
+  connection.listeners.add(listener)
+
+  return () => {
+    const current = connections.get(url)
+    if (!current) return
+
+    current.listeners.delete(listener)
+    if (current.listeners.size === 0) {
+      current.source.close()
+      connections.delete(url)
+    }
+  }
+}
@@ -10,6 +10,9 @@ import type {
   QuestResponse,
   QuestListItem,
   QuestStatus,
+  QuestDraft,
+  QuestDraftResponse,
+  QuestTemplate,
   User
 } from '@/types'
 
@@ -160,6 +163,53 @@ export function transformApiResponseToQuest(apiResponse: QuestResponse): QuestFo
   }
 }
 
+const FORM_DATE_FIELDS = ['startDate', 'endDate', 'rewardClaimDeadline', 'unlockTime']
+
+/**
+ * Turn the ISO date strings of serialized form data back into Dates
+ * Invalid dates are dropped so the form keeps its defaults
+ */
+export function reviveFormDates(serialized: Record<string, unknown>): Partial<QuestFormData> {
+  const formData: Record<string, unknown> = { ...serialized }
+  for (const key of FORM_DATE_FIELDS) {
+    if (typeof formData[key] !== 'string') continue
+    const date = new Date(formData[key] as string)
+    if (isNaN(date.getTime())) {
+      delete formData[key]
+    } else {
+      formData[key] = date
+    }
+  }
+  return formData as Partial<QuestFormData>
+}
+
+/**
+ * Transform QuestDraftResponse to QuestDraft (Backend -> Frontend)
+ */
+export function transformDraftResponse(draft: QuestDraftResponse): QuestDraft {
+  return {
+    id: draft.id,
+    title: draft.title,
+    formData: reviveFormDates(draft.formData),
+    step: draft.step,
+    createdAt: new Date(draft.createdAt),
+    updatedAt: new Date(draft.updatedAt)
+  }
+}
+
+/**
+ * Build wizard form data from a template, starting the quest now
+ */
+export function transformTemplateToFormData(template: QuestTemplate, now: Date = new Date()): Partial<QuestFormData> {
+  const endDate = new Date(now.getTime() + template.timing.durationMs)
+  return {
+    ...template.formData,
+    startDate: now,
+    endDate,
+    rewardClaimDeadline: new Date(endDate.getTime() + template.timing.claimPeriodMs)
+  }
+}
+
 /**
  * Transform QuestResponse to QuestListItem (Backend -> Frontend List View)
  */
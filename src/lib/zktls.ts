@@ -5,6 +5,7 @@ let PrimusZKTLS: any = null;
 export const ZKTLS_CONFIG = {
   appId: import.meta.env.VITE_PRIMUS_APP_ID,
   templateId: "34a82c3f-781f-49a7-bd49-9d15c9382866",
+  xAccountTemplateId: import.meta.env.VITE_PRIMUS_X_ACCOUNT_TEMPLATE_ID,
   dataSourceUrl: "https://x.com/BoxMrChen/status/1945396393528713656",
   backendUrl: import.meta.env.VITE_API_URL || "http://localhost:3001"
 };
@@ -111,6 +112,38 @@ export async function generateZKTLSProof(
   }
 }
 
+/**
+ * Generate a ZKTLS attestation of the user's own X account (user_id_str and screen_name)
+ */
+export async function generateXAccountProof(userAddress: string): Promise<unknown> {
+  if (!ZKTLS_CONFIG.xAccountTemplateId) {
+    throw new Error('X account verification is not configured (VITE_PRIMUS_X_ACCOUNT_TEMPLATE_ID)');
+  }
+
+  try {
+    const zktls = await initializeZKTLS();
+
+    const request = zktls.generateRequestParams(ZKTLS_CONFIG.xAccountTemplateId, userAddress);
+    // The server only binds attestations that name its configured template
+    request.setAdditionParams(JSON.stringify({
+      attTemplateID: ZKTLS_CONFIG.xAccountTemplateId
+    }));
+    request.setAttMode({
+      algorithmType: "proxytls"
+    });
+
+    const signedRequestStr = await getSignedRequest(request.toJsonString());
+    const attestation = await zktls.startAttestation(signedRequestStr);
+    console.log("X account attestation generated:", attestation);
+
+    return attestation;
+
+  } catch (error) {
+    console.error("X account proof generation failed:", error);
+    throw new Error(`X account proof generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
 /**
  * Get signed request from backend
  */
@@ -169,6 +202,57 @@ export async function validateAttestation(attestation: unknown): Promise<boolean
   }
 }
 
+export interface AttestationCheck {
+  id: string;
+  passed: boolean;
+  enforcedOnChain: boolean;
+  expected?: string;
+  actual?: string;
+  message: string;
+}
+
+export interface AttestationReport {
+  questId: string;
+  questType: string;
+  wouldPassOnChain: boolean;
+  checks: AttestationCheck[];
+}
+
+/**
+ * Replay the contract's content checks for a quest on the backend and return the per-check report
+ */
+export async function getAttestationReport(
+  attestation: unknown,
+  questId: string,
+  userAddress?: string
+): Promise<AttestationReport | null> {
+  try {
+    const response = await fetch(`${ZKTLS_CONFIG.backendUrl}/api/zktls/validate`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        attestation,
+        questId,
+        userAddress
+      })
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(`Backend validation failed: ${errorData.message || 'Unknown error'}`);
+    }
+
+    const responseData = await response.json();
+    return responseData.report || null;
+
+  } catch (error) {
+    console.error("Backend attestation report request failed:", error);
+    return null;
+  }
+}
+
 /**
  * Check ZKTLS service health
  */
@@ -0,0 +1,387 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
+import { Progress } from "@/components/ui/progress";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, CheckCircle, Clock, Download, FileUp, Loader2, RotateCcw, Upload, Wallet, XCircle } from "lucide-react";
+import { Link } from "react-router-dom";
+import { useAccount, useChainId, useSwitchChain } from "wagmi";
+import { getTransactionReceipt, waitForTransactionReceipt } from "@wagmi/core";
+import { useTranslation } from "react-i18next";
+import { useToast } from "@/hooks/use-toast";
+import { config } from "@/lib/wagmi";
+import { createLikeAndRetweetQuest } from "@/lib/questContract";
+import { decodeQuestSystemError } from "@/lib/contractErrors";
+import {
+  MANIFEST_EXAMPLE_CSV,
+  buildManifestReport,
+  parseManifest,
+  validateManifestRow,
+  type ManifestRow
+} from "@/lib/questManifest";
+
+// unconfirmed: sent, but the receipt could not be read, so the quest may exist already
+type RowStatus = 'ready' | 'invalid' | 'submitting' | 'confirming' | 'confirmed' | 'failed' | 'unconfirmed';
+
+interface RowResult {
+  status: RowStatus;
+  hash?: string;
+  error?: string;
+}
+
+const downloadFile = (content: string, fileName: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const BulkCreateQuests = () => {
+  const { t } = useTranslation('create');
+  const { toast } = useToast();
+  const { address, isConnected } = useAccount();
+  const chainId = useChainId();
+  const { switchChain } = useSwitchChain();
+
+  const [manifestText, setManifestText] = useState('');
+  const [rows, setRows] = useState<ManifestRow[]>([]);
+  const [results, setResults] = useState<Record<number, RowResult>>({});
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const validRows = rows.filter(row => row.formData);
+  const totalCost = validRows.reduce((sum, row) => sum + row.formData!.totalRewardPool, 0);
+  const finishedCount = rows.filter(row => ['confirmed', 'failed', 'unconfirmed'].includes(results[row.index]?.status)).length;
+  // Unconfirmed rows are checked again before anything is sent
+  const failedRows = validRows.filter(row => ['failed', 'unconfirmed'].includes(results[row.index]?.status));
+  const pendingRows = validRows.filter(row => results[row.index]?.status === 'ready');
+
+  const progress = validRows.length > 0 ? (finishedCount / validRows.length) * 100 : 0;
+
+  const loadManifest = (text: string) => {
+    setManifestText(text);
+    setParseError(null);
+    try {
+      const parsed = parseManifest(text).map((raw, i) => validateManifestRow(raw, i + 1, t));
+      setRows(parsed);
+      setResults(Object.fromEntries(parsed.map(row => [
+        row.index,
+        { status: row.formData ? 'ready' : 'invalid', error: row.errors.join('; ') || undefined }
+      ])));
+    } catch (error) {
+      setRows([]);
+      setResults({});
+      setParseError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    loadManifest(await file.text());
+  };
+
+  const setResult = (index: number, result: RowResult) => {
+    setResults(previous => ({ ...previous, [index]: result }));
+  };
+
+  // Receipt of a row's earlier transaction: true when it created the quest, false when it
+  // reverted, null when it cannot be read yet
+  const checkSentRow = async (hash: `0x${string}`): Promise<boolean | null> => {
+    try {
+      const receipt = await getTransactionReceipt(config, { hash });
+      return receipt.status === 'success';
+    } catch (error) {
+      console.error(`Receipt of ${hash} is not available:`, error);
+      return null;
+    }
+  };
+
+  // Deploy one row and wait for its receipt; returns false when the batch should stop
+  const submitRow = async (row: ManifestRow): Promise<boolean> => {
+    const data = row.formData!;
+
+    // A row that already sent a transaction is only sent again once that transaction reverted
+    const previousHash = results[row.index]?.hash as `0x${string}` | undefined;
+    if (previousHash) {
+      setResult(row.index, { status: 'confirming', hash: previousHash });
+      const created = await checkSentRow(previousHash);
+      if (created === true) {
+        setResult(row.index, { status: 'confirmed', hash: previousHash });
+        return true;
+      }
+      if (created === null) {
+        setResult(row.index, { status: 'unconfirmed', hash: previousHash, error: t('bulk.transactionUnconfirmed') });
+        return true;
+      }
+    }
+
+    setResult(row.index, { status: 'submitting' });
+    let hash: `0x${string}`;
+    try {
+      hash = await createLikeAndRetweetQuest({
+        title: data.title,
+        launch_page: data.launch_page || data.tweetUrl!,
+        description: data.description,
+        totalRewards: data.totalRewardPool.toString(),
+        rewardPerUser: row.rewardPerParticipant.toString(),
+        startTime: Math.floor(data.startDate.getTime() / 1000),
+        endTime: Math.floor(data.endDate.getTime() / 1000),
+        claimEndTime: Math.floor(data.rewardClaimDeadline.getTime() / 1000),
+        requireFavorite: data.requiredActions!.includes('like'),
+        requireRetweet: data.requiredActions!.includes('retweet'),
+        isVesting: false,
+        vestingDuration: 0
+      });
+    } catch (error) {
+      console.error(`Bulk quest row ${row.index} failed:`, error);
+      const decoded = decodeQuestSystemError(error);
+      setResult(row.index, { status: 'failed', error: decoded.message });
+      return decoded.kind !== 'userRejected';
+    }
+
+    setResult(row.index, { status: 'confirming', hash });
+    try {
+      const receipt = await waitForTransactionReceipt(config, { hash });
+      if (receipt.status === 'success') {
+        setResult(row.index, { status: 'confirmed', hash });
+      } else {
+        setResult(row.index, { status: 'failed', hash, error: t('bulk.transactionReverted') });
+      }
+    } catch (error) {
+      // The transaction may still be mined, so keep its hash and never send the row blindly again
+      console.error(`Receipt of bulk quest row ${row.index} failed:`, error);
+      setResult(row.index, { status: 'unconfirmed', hash, error: t('bulk.transactionUnconfirmed') });
+    }
+    return true;
+  };
+
+  const runRows = async (rowsToRun: ManifestRow[]) => {
+    if (!isConnected || !address) {
+      toast({
+        title: t('notifications.walletNotConnected'),
+        description: t('notifications.connectWalletDescription'),
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const targetChainId = import.meta.env.VITE_CHAIN_ID ? parseInt(import.meta.env.VITE_CHAIN_ID) : 10143; // Monad testnet
+    if (chainId !== targetChainId) {
+      try {
+        await switchChain({ chainId: targetChainId });
+      } catch (error) {
+        toast({
+          title: t('notifications.networkSwitchRequired'),
+          description: t('notifications.networkSwitchDescription'),
+          variant: "destructive"
+        });
+        return;
+      }
+    }
+
+    setIsRunning(true);
+    try {
+      // Sequential: each quest is a separate wallet prompt and nonce
+      for (const row of rowsToRun) {
+        const shouldContinue = await submitRow(row);
+        if (!shouldContinue) {
+          toast({ title: t('bulk.stopped'), description: t('bulk.stoppedDescription'), variant: "destructive" });
+          break;
+        }
+      }
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const downloadReport = () => {
+    const report = buildManifestReport(rows.map(row => ({
+      index: row.index,
+      title: String(row.raw.title ?? ''),
+      status: results[row.index]?.status ?? 'invalid',
+      hash: results[row.index]?.hash,
+      error: results[row.index]?.error
+    })));
+    downloadFile(report, 'quest-import-report.csv', 'text/csv');
+  };
+
+  const statusBadge = (status: RowStatus) => {
+    switch (status) {
+      case 'confirmed':
+        return <Badge className="bg-green-500/20 text-green-400"><CheckCircle className="h-3 w-3 mr-1" />{t(`bulk.status.${status}`)}</Badge>;
+      case 'failed':
+      case 'invalid':
+        return <Badge variant="destructive"><XCircle className="h-3 w-3 mr-1" />{t(`bulk.status.${status}`)}</Badge>;
+      case 'submitting':
+      case 'confirming':
+        return <Badge variant="secondary"><Loader2 className="h-3 w-3 mr-1 animate-spin" />{t(`bulk.status.${status}`)}</Badge>;
+      case 'unconfirmed':
+        return <Badge className="bg-yellow-500/20 text-yellow-400"><Clock className="h-3 w-3 mr-1" />{t(`bulk.status.${status}`)}</Badge>;
+      default:
+        return <Badge variant="outline">{t(`bulk.status.${status}`)}</Badge>;
+    }
+  };
+
+  if (!isConnected) {
+    return (
+      <div className="min-h-screen bg-background p-4 md:p-6 flex items-center justify-center">
+        <div className="text-center">
+          <Wallet className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+          <h2 className="text-xl font-semibold mb-2">{t('bulk.connectPrompt')}</h2>
+          <p className="text-muted-foreground mb-4">{t('bulk.connectDescription')}</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background p-4 md:p-6">
+      <div className="mx-auto max-w-6xl space-y-6">
+        <div>
+          <Link to="/create" className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground mb-2">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            {t('bulk.backToCreate')}
+          </Link>
+          <h1 className="text-2xl font-bold">{t('bulk.title')}</h1>
+          <p className="text-muted-foreground">{t('bulk.description')}</p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <FileUp className="h-5 w-5" />
+              {t('bulk.manifest.title')}
+            </CardTitle>
+            <CardDescription>{t('bulk.manifest.description')}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              <Button asChild variant="outline" disabled={isRunning}>
+                <label className="cursor-pointer">
+                  <Upload className="h-4 w-4 mr-2" />
+                  {t('bulk.manifest.upload')}
+                  <input
+                    type="file"
+                    accept=".csv,.json,text/csv,application/json"
+                    className="hidden"
+                    onChange={(event) => handleFile(event.target.files?.[0])}
+                  />
+                </label>
+              </Button>
+              <Button
+                variant="ghost"
+                onClick={() => downloadFile(MANIFEST_EXAMPLE_CSV, 'quest-manifest-example.csv', 'text/csv')}
+              >
+                <Download className="h-4 w-4 mr-2" />
+                {t('bulk.manifest.example')}
+              </Button>
+            </div>
+            <Textarea
+              value={manifestText}
+              rows={8}
+              className="font-mono text-xs"
+              placeholder={MANIFEST_EXAMPLE_CSV}
+              disabled={isRunning}
+              onChange={(event) => setManifestText(event.target.value)}
+            />
+            <Button onClick={() => loadManifest(manifestText)} disabled={!manifestText.trim() || isRunning}>
+              {t('bulk.manifest.validate')}
+            </Button>
+            {parseError && (
+              <p className="text-sm text-red-500">{t('bulk.manifest.parseFailed', { error: parseError })}</p>
+            )}
+          </CardContent>
+        </Card>
+
+        {rows.length > 0 && (
+          <Card>
+            <CardHeader className="flex flex-col md:flex-row md:items-start justify-between gap-4">
+              <div>
+                <CardTitle>{t('bulk.preview.title')}</CardTitle>
+                <CardDescription>
+                  {t('bulk.preview.summary', { valid: validRows.length, total: rows.length })}
+                </CardDescription>
+              </div>
+              <div className="text-right">
+                <p className="text-sm text-muted-foreground">{t('bulk.preview.totalCost')}</p>
+                <p className="text-2xl font-bold">{Number(totalCost.toFixed(6))} MON</p>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>#</TableHead>
+                    <TableHead>{t('bulk.preview.quest')}</TableHead>
+                    <TableHead>{t('bulk.preview.reward')}</TableHead>
+                    <TableHead>{t('bulk.preview.status')}</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map(row => {
+                    const result = results[row.index];
+                    return (
+                      <TableRow key={row.index}>
+                        <TableCell className="text-muted-foreground">{row.index}</TableCell>
+                        <TableCell className="max-w-md">
+                          <div className="font-medium truncate">{String(row.raw.title ?? '') || '—'}</div>
+                          {row.tweetId && (
+                            <div className="text-xs text-muted-foreground">{t('bulk.preview.tweetId', { id: row.tweetId })}</div>
+                          )}
+                          {result?.error && <div className="text-xs text-red-500 break-words">{result.error}</div>}
+                          {result?.hash && <div className="text-xs text-muted-foreground font-mono truncate">{result.hash}</div>}
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap">
+                          {row.formData && t('bulk.preview.rewardValue', {
+                            total: row.formData.totalRewardPool,
+                            perUser: row.rewardPerParticipant,
+                            participants: row.formData.maxParticipants
+                          })}
+                        </TableCell>
+                        <TableCell>{result && statusBadge(result.status)}</TableCell>
+                        <TableCell className="text-right">
+                          {(result?.status === 'failed' || result?.status === 'unconfirmed') && (
+                            <Button size="sm" variant="ghost" disabled={isRunning} onClick={() => runRows([row])}>
+                              <RotateCcw className="h-3.5 w-3.5 mr-1" />
+                              {t(result.status === 'unconfirmed' ? 'bulk.actions.recheck' : 'bulk.actions.retry')}
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+
+              {finishedCount > 0 && <Progress value={progress} />}
+
+              <div className="flex flex-wrap justify-end gap-2">
+                <Button variant="outline" onClick={downloadReport}>
+                  <Download className="h-4 w-4 mr-2" />
+                  {t('bulk.actions.downloadReport')}
+                </Button>
+                {failedRows.length > 0 && (
+                  <Button variant="outline" disabled={isRunning} onClick={() => runRows(failedRows)}>
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    {t('bulk.actions.retryFailed', { count: failedRows.length })}
+                  </Button>
+                )}
+                <Button disabled={isRunning || pendingRows.length === 0} onClick={() => runRows(pendingRows)}>
+                  {isRunning && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  {t('bulk.actions.deploy', { count: pendingRows.length })}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BulkCreateQuests;
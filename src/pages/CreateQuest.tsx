@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef, useCallback } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -11,9 +11,8 @@ import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { useForm, Controller } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { z } from "zod";
 import { format } from "date-fns";
-import { useNavigate } from "react-router-dom";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
 import { 
   CalendarIcon, 
   ChevronLeft, 
@@ -33,7 +32,8 @@ import {
   Save,
   Rocket,
   Shield,
-  Loader2
+  Loader2,
+  FileUp
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
@@ -41,74 +41,23 @@ import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { useCreateQuest } from "@/hooks/useQuests";
 import { useAuthUI } from "@/hooks/useAuth";
-import type { QuestFormData } from "@/types";
+import { useQuestDraft, useSaveQuestDraft } from "@/hooks/useQuestDrafts";
+import { useQuestClone } from "@/hooks/useQuestTemplates";
+import { QuestTemplatePicker, SaveQuestTemplateButton } from "@/components/QuestTemplates";
+import { transformTemplateToFormData } from "@/lib/transformers";
+import { createQuestSchema } from "@/lib/questSchema";
+import type { QuestFormData, QuestTemplate } from "@/types";
 import { createLikeAndRetweetQuest, createQuoteTweetQuest } from "@/lib/questContract";
+import { getContractErrorMessage } from "@/lib/contractErrors";
 import { useAccount, useChainId, useSwitchChain } from 'wagmi';
 import { parseEther } from 'viem';
 import { useTranslation } from 'react-i18next';
 
-// Form schema for validation (matching QuestFormData interface)
-const createQuestSchema = (t: (key: string) => string) => z.object({
-  title: z.string().min(1, t('validation.titleRequired')).max(100, t('validation.titleTooLong')),
-  description: z.string().min(10, t('validation.descriptionMinLength')),
-  launch_page: z.string().optional(), // Will be populated automatically from tweet URLs
-  questType: z.enum(["twitter-interaction", "quote-tweet", "send-tweet"]),
-  // Twitter interaction specific
-  interactionType: z.enum(["like", "retweet", "comment", "follow"]).optional(),
-  targetAccount: z.string().optional(),
-  tweetUrl: z.string().optional(),
-  // Quote tweet specific
-  quoteTweetUrl: z.string().optional(),
-  quoteRequirements: z.string().optional(),
-  // Send tweet specific
-  tweetContent: z.string().optional(),
-  requiredHashtags: z.array(z.string()).optional(),
-  // Smart contract integration
-  requiredActions: z.array(z.string()).optional(),
-  // Step 2 - Reward configuration
-  rewardType: z.enum(["MON", "ERC20", "NFT"]),
-  totalRewardPool: z.number().min(0.001, t('validation.rewardPoolMinimum')),
-  rewardPerParticipant: z.number().optional(),
-  distributionMethod: z.enum(["immediate", "manual", "scheduled"]),
-  linearPeriod: z.number().optional(),
-  unlockTime: z.date().optional(),
-  // Step 3 - Time and settings configuration
-  startDate: z.date(),
-  endDate: z.date(),
-  rewardClaimDeadline: z.date(),
-  maxParticipants: z.number().min(1, t('validation.participantsMinimum')),
-  requireWhitelist: z.boolean(),
-  autoApproveSubmissions: z.boolean(),
-  agreeToTerms: z.boolean().refine(val => val === true, t('validation.agreeToTerms'))
-}).refine((data) => {
-  return data.endDate > data.startDate;
-}, {
-  message: t('validation.endDateAfterStart'),
-  path: ["endDate"]
-}).refine((data) => {
-  // 验证Twitter Interaction类型需要Tweet URL
-  if (data.questType === "twitter-interaction") {
-    return data.tweetUrl && data.tweetUrl.trim().length > 0;
-  }
-  return true;
-}, {
-  message: t('validation.tweetUrlRequired'),
-  path: ["tweetUrl"]
-}).refine((data) => {
-  // 验证Quote Tweet类型需要Quote Tweet URL
-  if (data.questType === "quote-tweet") {
-    return data.quoteTweetUrl && data.quoteTweetUrl.trim().length > 0;
-  }
-  return true;
-}, {
-  message: t('validation.quoteTweetUrlRequired'),
-  path: ["quoteTweetUrl"]
-});
-
 const CreateQuest = () => {
   const { t } = useTranslation('create');
   const { toast } = useToast();
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
   const [currentStep, setCurrentStep] = useState(1);
   
   // Backend integration
@@ -125,6 +74,17 @@ const CreateQuest = () => {
   // State for smart contract deployment
   const [isDeploying, setIsDeploying] = useState(false);
 
+  // Server-side draft being edited (?draft=<id>), deleted by the backend once the quest is indexed
+  const draftId = searchParams.get('draft');
+  const { data: serverDraft, error: serverDraftError } = useQuestDraft(isAuthenticated ? address : undefined, draftId);
+  const saveDraftMutation = useSaveQuestDraft(address);
+  const restoredDraftId = useRef<string | null>(null);
+
+  // Quest being cloned (?clone=<questId>), its timing already shifted into the future by the backend
+  const cloneId = searchParams.get('clone');
+  const { data: clone, error: cloneError } = useQuestClone(cloneId);
+  const appliedCloneId = useRef<string | null>(null);
+
   const { control, handleSubmit, watch, setValue, getValues, trigger, formState: { errors } } = useForm<QuestFormData>({
     resolver: zodResolver(createQuestSchema(t)),
     defaultValues: {
@@ -219,6 +179,67 @@ const CreateQuest = () => {
     }
   }, [setValue]);
 
+  const applyFormData = useCallback((data: Partial<QuestFormData>) => {
+    Object.entries(data).forEach(([key, value]) => {
+      if (value !== undefined) {
+        setValue(key as keyof QuestFormData, value);
+      }
+    });
+  }, [setValue]);
+
+  // Resume a server-side draft at its saved step (once, later saves must not reset the form)
+  useEffect(() => {
+    if (!serverDraft || restoredDraftId.current === serverDraft.id) return;
+    restoredDraftId.current = serverDraft.id;
+
+    applyFormData(serverDraft.formData);
+    setCurrentStep(serverDraft.step);
+  }, [serverDraft, applyFormData]);
+
+  // Pre-fill the wizard from a cloned quest
+  useEffect(() => {
+    if (!clone || appliedCloneId.current === clone.questId) return;
+    appliedCloneId.current = clone.questId;
+
+    applyFormData(clone.formData);
+    setCurrentStep(1);
+    toast({
+      title: t('templates.cloned'),
+      description: clone.shiftedByMs > 0
+        ? t('templates.clonedShiftedDescription', { days: Math.round(clone.shiftedByMs / (24 * 60 * 60 * 1000)) })
+        : t('templates.clonedDescription'),
+    });
+  }, [clone, applyFormData, t, toast]);
+
+  useEffect(() => {
+    if (cloneError) {
+      toast({
+        title: t('templates.cloneFailed'),
+        description: cloneError instanceof Error ? cloneError.message : undefined,
+        variant: "destructive"
+      });
+    }
+  }, [cloneError, t, toast]);
+
+  const applyTemplate = (template: QuestTemplate) => {
+    applyFormData(transformTemplateToFormData(template));
+    toast({
+      title: t('templates.applied'),
+      description: t('templates.appliedDescription', { name: template.name }),
+    });
+  };
+
+  useEffect(() => {
+    if (serverDraftError) {
+      toast({
+        title: t('notifications.draftLoadFailed'),
+        description: t('notifications.draftLoadFailedDescription'),
+        variant: "destructive"
+      });
+      setSearchParams({}, { replace: true });
+    }
+  }, [serverDraftError, setSearchParams, t, toast]);
+
   // 同步相应的URL字段到launch_page
   useEffect(() => {
     const questType = formData.questType;
@@ -345,7 +366,7 @@ const CreateQuest = () => {
       console.error('❌ Quest deployment failed:', error);
       toast({
         title: t('notifications.questDeploymentFailed'),
-        description: error.message || t('notifications.failedToDeployToBlockchain'),
+        description: getContractErrorMessage(error),
         variant: "destructive"
       });
     } finally {
@@ -388,12 +409,39 @@ const CreateQuest = () => {
     }
   };
 
-  const saveDraft = () => {
+  const saveDraft = async () => {
     localStorage.setItem('questDraft', JSON.stringify(formData));
-    toast({
-      title: t('notifications.draftSaved'),
-      description: t('notifications.draftSavedDescription'),
-    });
+
+    // Signed-in sponsors also keep the draft on the server to resume it on another device
+    if (!isAuthenticated || !address) {
+      toast({
+        title: t('notifications.draftSaved'),
+        description: t('notifications.draftSavedDescription'),
+      });
+      return;
+    }
+
+    try {
+      const draft = await saveDraftMutation.mutateAsync({
+        id: draftId || undefined,
+        step: currentStep,
+        formData: getValues()
+      });
+      restoredDraftId.current = draft.id;
+      if (draft.id !== draftId) {
+        setSearchParams({ draft: draft.id }, { replace: true });
+      }
+      toast({
+        title: t('notifications.draftSaved'),
+        description: t('notifications.draftSavedToAccountDescription'),
+      });
+    } catch (error) {
+      toast({
+        title: t('notifications.draftSaveFailed'),
+        description: t('notifications.draftSaveFailedDescription'),
+        variant: "destructive"
+      });
+    }
   };
 
   const getStepTitle = () => {
@@ -469,9 +517,17 @@ const CreateQuest = () => {
         <div className="mb-8">
           <div className="bg-gradient-to-br from-[hsl(var(--vibrant-purple))] to-[hsl(var(--vibrant-blue))] rounded-2xl p-6 text-white relative overflow-hidden shadow-xl">
             <div className="absolute inset-0 bg-[radial-gradient(circle_at_30%_20%,rgba(255,255,255,0.15)_0%,transparent_50%)]" />
-            <div className="relative z-10">
-              <h1 className="text-2xl md:text-3xl font-bold mb-2">{t('header.title')}</h1>
-              <p className="text-white/80">{t('header.subtitle')}</p>
+            <div className="relative z-10 flex flex-col md:flex-row md:items-center justify-between gap-4">
+              <div>
+                <h1 className="text-2xl md:text-3xl font-bold mb-2">{t('header.title')}</h1>
+                <p className="text-white/80">{t('header.subtitle')}</p>
+              </div>
+              <Button asChild variant="secondary" size="sm">
+                <Link to="/create/bulk">
+                  <FileUp className="h-4 w-4 mr-2" />
+                  {t('header.bulkImport')}
+                </Link>
+              </Button>
             </div>
           </div>
         </div>
@@ -571,9 +627,12 @@ const CreateQuest = () => {
               {/* Step 1: Basic Information */}
               {currentStep === 1 && (
                 <Card>
-                  <CardHeader>
-                    <CardTitle>{t('step1.title')}</CardTitle>
-                    <CardDescription>{t('step1.description')}</CardDescription>
+                  <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+                    <div className="space-y-1.5">
+                      <CardTitle>{t('step1.title')}</CardTitle>
+                      <CardDescription>{t('step1.description')}</CardDescription>
+                    </div>
+                    <QuestTemplatePicker address={address} isAuthenticated={isAuthenticated} onApply={applyTemplate} />
                   </CardHeader>
                   <CardContent className="space-y-6">
                     {/* Quest Title */}
@@ -1420,16 +1479,26 @@ const CreateQuest = () => {
               {t('navigation.back')}
             </Button>
 
-            {/* Save Draft Button - Center */}
-            <Button 
-              type="button" 
-              variant="ghost" 
-              onClick={saveDraft}
-              className="text-muted-foreground hover:text-foreground"
-            >
-              <Save className="h-4 w-4 mr-2" />
-              {t('navigation.saveDraft')}
-            </Button>
+            {/* Save Draft / Template Buttons - Center */}
+            <div className="flex items-center gap-2">
+              <Button 
+                type="button" 
+                variant="ghost" 
+                onClick={saveDraft}
+                disabled={saveDraftMutation.isPending}
+                className="text-muted-foreground hover:text-foreground"
+              >
+                {saveDraftMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Save className="h-4 w-4 mr-2" />
+                )}
+                {t('navigation.saveDraft')}
+              </Button>
+              {isAuthenticated && (
+                <SaveQuestTemplateButton address={address} getFormData={() => getValues()} />
+              )}
+            </div>
 
             <div className="flex gap-3">
               {currentStep < 5 ? (
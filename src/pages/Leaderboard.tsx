@@ -0,0 +1,179 @@
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowDown, ArrowUp, Minus, Trophy } from "lucide-react";
+import { useState } from "react";
+import { useAccount } from "wagmi";
+import { useTranslation } from 'react-i18next';
+import { cn } from "@/lib/utils";
+import { formatEthAmount, formatDate } from "@/hooks/useProfile";
+import {
+  useLeaderboard,
+  useLeaderboardSeasons,
+  type LeaderboardData,
+  type LeaderboardEntry,
+  type LeaderboardMetric,
+  type LeaderboardPeriod,
+  type LeaderboardWindow
+} from "@/hooks/useLeaderboard";
+
+const WINDOWS: LeaderboardWindow[] = ['24h', '7d', '30d', 'all'];
+const METRICS: LeaderboardMetric[] = ['rewards', 'quests', 'sponsored'];
+
+const formatAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+// Select value of a period: the window itself or "season:<id>"
+const periodToValue = (period: LeaderboardPeriod) => ('season' in period ? `season:${period.season}` : period.window);
+const valueToPeriod = (value: string): LeaderboardPeriod =>
+  value.startsWith('season:') ? { season: value.slice('season:'.length) } : { window: value as LeaderboardWindow };
+
+const RankChange = ({ entry, leaderboard }: { entry: LeaderboardEntry; leaderboard: LeaderboardData }) => {
+  const { t } = useTranslation('profile');
+
+  if (!leaderboard.previousRange) return null;
+  if (entry.rankChange === null) {
+    return <Badge variant="outline" className="text-[hsl(var(--vibrant-blue))]">{t('leaderboard.new')}</Badge>;
+  }
+  if (entry.rankChange === 0) {
+    return <Minus className="h-4 w-4 text-muted-foreground" aria-label={t('leaderboard.unchanged')} />;
+  }
+
+  const up = entry.rankChange > 0;
+  return (
+    <span className={cn("inline-flex items-center text-sm font-medium", up ? "text-green-500" : "text-red-500")}>
+      {up ? <ArrowUp className="h-4 w-4" /> : <ArrowDown className="h-4 w-4" />}
+      {Math.abs(entry.rankChange)}
+    </span>
+  );
+};
+
+const Leaderboard = () => {
+  const { t } = useTranslation('profile');
+  const { address } = useAccount();
+  const [metric, setMetric] = useState<LeaderboardMetric>('rewards');
+  const [period, setPeriod] = useState<LeaderboardPeriod>({ window: '7d' });
+  const { data: seasons } = useLeaderboardSeasons();
+  const { data: leaderboard, isLoading, error, refetch } = useLeaderboard(metric, period);
+
+  const formatValue = (entry: LeaderboardEntry) =>
+    metric === 'rewards' ? formatEthAmount(entry.value) : t(`leaderboard.values.${metric}`, { count: Number(entry.value) });
+
+  return (
+    <div className="min-h-screen bg-background p-4 md:p-6">
+      <div className="mx-auto max-w-5xl space-y-6">
+        <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold flex items-center gap-2">
+              <Trophy className="h-6 w-6 text-[hsl(var(--vibrant-yellow))]" />
+              {t('leaderboard.title')}
+            </h1>
+            <p className="text-muted-foreground">{t('leaderboard.description')}</p>
+          </div>
+          <div className="flex gap-2">
+            <Select value={periodToValue(period)} onValueChange={(value) => setPeriod(valueToPeriod(value))}>
+              <SelectTrigger className="w-[160px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectGroup>
+                  {WINDOWS.map(window => (
+                    <SelectItem key={window} value={window}>{t(`leaderboard.windows.${window}`)}</SelectItem>
+                  ))}
+                </SelectGroup>
+                {seasons && seasons.length > 0 && (
+                  <SelectGroup>
+                    <SelectLabel>{t('leaderboard.seasons')}</SelectLabel>
+                    {seasons.map(season => (
+                      <SelectItem key={season.id} value={`season:${season.id}`}>{season.name}</SelectItem>
+                    ))}
+                  </SelectGroup>
+                )}
+              </SelectContent>
+            </Select>
+            <Select value={metric} onValueChange={(value) => setMetric(value as LeaderboardMetric)}>
+              <SelectTrigger className="w-[180px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {METRICS.map(item => (
+                  <SelectItem key={item} value={item}>{t(`leaderboard.metrics.${item}`)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{t(`leaderboard.metrics.${metric}`)}</CardTitle>
+            {leaderboard && (
+              <CardDescription>
+                {leaderboard.season
+                  ? t('leaderboard.seasonRange', {
+                      name: leaderboard.season.name,
+                      start: formatDate(new Date(leaderboard.range.startTime).toISOString()),
+                      end: formatDate(new Date(leaderboard.range.endTime - 1).toISOString()) // End is exclusive
+                    })
+                  : t(`leaderboard.windowDescriptions.${leaderboard.window}`)}
+                {' · '}
+                {t('leaderboard.total', { count: leaderboard.total })}
+              </CardDescription>
+            )}
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex items-center justify-center py-16">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[hsl(var(--vibrant-blue))]"></div>
+              </div>
+            ) : error ? (
+              <div className="text-center py-16">
+                <p className="text-red-500 mb-4">{t('leaderboard.failedToLoad')}</p>
+                <Button onClick={() => refetch()}>{t('error.retry')}</Button>
+              </div>
+            ) : !leaderboard || leaderboard.entries.length === 0 ? (
+              <p className="text-center text-muted-foreground py-16">{t('leaderboard.empty')}</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16">{t('leaderboard.columns.rank')}</TableHead>
+                    <TableHead className="w-20">{t('leaderboard.columns.change')}</TableHead>
+                    <TableHead>{t('leaderboard.columns.user')}</TableHead>
+                    <TableHead className="text-right">{t(`leaderboard.metrics.${metric}`)}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {leaderboard.entries.map(entry => {
+                    const isMe = !!address && [entry.userAddress, ...entry.linkedAddresses].includes(address.toLowerCase());
+                    return (
+                      <TableRow key={entry.userAddress} className={cn(isMe && "bg-[hsl(var(--vibrant-blue))]/10")}>
+                        <TableCell className="font-bold">#{entry.rank}</TableCell>
+                        <TableCell><RankChange entry={entry} leaderboard={leaderboard} /></TableCell>
+                        <TableCell>
+                          <div className="font-mono text-sm">
+                            {formatAddress(entry.userAddress)}
+                            {isMe && <Badge variant="secondary" className="ml-2">{t('leaderboard.you')}</Badge>}
+                          </div>
+                          {entry.linkedAddresses.length > 0 && (
+                            <div className="text-xs text-muted-foreground">
+                              {t('leaderboard.linkedWallets', { count: entry.linkedAddresses.length })}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right font-medium">{formatValue(entry)}</TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Leaderboard;
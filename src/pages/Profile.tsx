@@ -22,14 +22,30 @@ import {
   Eye,
   User,
   Settings,
-  Wallet
+  Wallet,
+  BarChart3,
+  BadgeCheck,
+  Pencil,
+  Trash2,
+  Sparkles
 } from "lucide-react";
 import { useState } from "react";
 import { Link } from "react-router-dom";
 import { useToast } from "@/hooks/use-toast";
 import { useAccount } from "wagmi";
-import { useProfile, formatEthAmount, formatTotalEarned, formatUserAddress, formatDate, formatTimeAgo, getActivityIcon } from "@/hooks/useProfile";
+import { useProfile, useVerifyXAccount, formatEthAmount, formatTotalEarned, formatUserAddress, formatDate, formatTimeAgo, getActivityIcon } from "@/hooks/useProfile";
 import { useTranslation } from 'react-i18next';
+import { useAuthUI } from "@/hooks/useAuth";
+import { useQuestDrafts, useDeleteQuestDraft } from "@/hooks/useQuestDrafts";
+import { useVesting, useClaimVestingRewards } from "@/hooks/useVesting";
+import { VestingCenter } from "@/components/VestingCenter";
+import { usePoints } from "@/hooks/usePoints";
+import { PointsLedger } from "@/components/PointsLedger";
+import { useBadges } from "@/hooks/useBadges";
+import { BadgesGrid } from "@/components/BadgesGrid";
+import { useUserReferrals } from "@/hooks/useReferrals";
+import { ReferralStats } from "@/components/ReferralStats";
+import { getContractErrorMessage } from "@/lib/contractErrors";
 
 const Profile = () => {
   const { t } = useTranslation('profile');
@@ -39,6 +55,16 @@ const Profile = () => {
   
   const { address, isConnected } = useAccount();
   const { data: profileData, isLoading, error } = useProfile(address);
+  const { data: vestingData, isLoading: isVestingLoading, error: vestingError } = useVesting(address);
+  const { data: pointsData, isLoading: isPointsLoading, error: pointsError } = usePoints(address);
+  const { data: badgesData, isLoading: isBadgesLoading, error: badgesError } = useBadges(address);
+  const { data: referralsData, isLoading: isReferralsLoading, error: referralsError } = useUserReferrals(address);
+  const claimVesting = useClaimVestingRewards(address);
+  const verifyX = useVerifyXAccount(address);
+  const { isAuthenticated } = useAuthUI();
+  const { data: drafts } = useQuestDrafts(address, isAuthenticated);
+  const deleteDraftMutation = useDeleteQuestDraft(address);
+  const [claimingQuestIds, setClaimingQuestIds] = useState<string[]>([]);
   
   // Show wallet connection prompt if not connected
   if (!isConnected) {
@@ -93,6 +119,37 @@ const Profile = () => {
   };
 
 
+  const verifyXAccount = async () => {
+    try {
+      const user = await verifyX.mutateAsync();
+      toast({
+        title: t('notifications.xAccountVerified'),
+        description: t('notifications.xAccountVerifiedDescription', { handle: user.xAccount?.handle }),
+      });
+    } catch (error) {
+      toast({
+        title: t('notifications.xAccountVerifyFailed'),
+        description: error instanceof Error ? error.message : undefined,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const deleteDraft = async (id: string) => {
+    try {
+      await deleteDraftMutation.mutateAsync(id);
+      toast({
+        title: t('notifications.draftDeleted'),
+      });
+    } catch (error) {
+      toast({
+        title: t('notifications.draftDeleteFailed'),
+        description: error instanceof Error ? error.message : undefined,
+        variant: 'destructive',
+      });
+    }
+  };
+
   const claimReward = (rewardId: number) => {
     toast({
       title: t('notifications.rewardClaimed'),
@@ -100,11 +157,45 @@ const Profile = () => {
     });
   };
 
+  // Claim vesting rewards one transaction at a time
+  const claimVestingRewards = async (questIds: string[]) => {
+    if (questIds.length === 0) {
+      toast({
+        title: t('notifications.nothingToClaim'),
+        description: t('notifications.nothingToClaimDescription'),
+      });
+      return;
+    }
+
+    setClaimingQuestIds(questIds);
+    try {
+      const results = await claimVesting.mutateAsync(questIds);
+      const claimed = results.filter(result => result.success).length;
+
+      if (claimed === questIds.length) {
+        toast({
+          title: questIds.length > 1 ? t('notifications.allRewardsClaimed') : t('notifications.rewardClaimed'),
+          description: questIds.length > 1 ? t('notifications.allRewardsClaimedDescription') : t('notifications.rewardClaimedDescription'),
+        });
+      } else {
+        const failed = results.find(result => !result.success);
+        const reason = failed?.error ? getContractErrorMessage(failed.error) : '';
+        toast({
+          title: t('notifications.vestingClaimFailed'),
+          description: `${t('notifications.vestingClaimFailedDescription', { claimed, total: questIds.length })} ${reason}`.trim(),
+          variant: 'destructive',
+        });
+      }
+    } finally {
+      setClaimingQuestIds([]);
+    }
+  };
+
   const claimAllRewards = () => {
-    toast({
-      title: t('notifications.allRewardsClaimed'),
-      description: t('notifications.allRewardsClaimedDescription'),
-    });
+    const claimable = (vestingData?.positions || [])
+      .filter(position => BigInt(position.claimableAmount) > 0n)
+      .map(position => position.questId);
+    claimVestingRewards(claimable);
   };
 
   return (
@@ -134,8 +225,39 @@ const Profile = () => {
                     <Copy className="h-4 w-4 mr-2" />
                     {shortAddress}
                   </Button>
+                  {profile?.xAccount ? (
+                    <Badge className="bg-white/15 text-white border border-white/30 hover:bg-white/15" title={t('xAccount.verifiedTooltip')}>
+                      <BadgeCheck className="h-3.5 w-3.5 mr-1" />
+                      @{profile.xAccount.handle}
+                    </Badge>
+                  ) : (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={verifyXAccount}
+                      disabled={verifyX.isPending}
+                      className="bg-white/10 text-white hover:bg-white/20 border border-white/30"
+                    >
+                      <BadgeCheck className="h-4 w-4 mr-2" />
+                      {verifyX.isPending ? t('xAccount.verifying') : t('xAccount.verify')}
+                    </Button>
+                  )}
                 </div>
                 <p className="text-white/80 text-sm">{t('header.memberSince', { date: profile?.joinDate ? formatDate(profile.joinDate) : 'Unknown' })}</p>
+                {pointsData && (
+                  <div className="mt-3 max-w-sm">
+                    <div className="flex items-center justify-between text-sm mb-1">
+                      <span className="inline-flex items-center font-semibold">
+                        <Sparkles className="h-4 w-4 mr-1" />
+                        {t('points.level', { level: pointsData.level.level })}
+                      </span>
+                      <span className="text-white/80">{t('points.xp', { points: pointsData.totalPoints })}</span>
+                    </div>
+                    <div className="h-1.5 rounded-full bg-white/20 overflow-hidden">
+                      <div className="h-full bg-white rounded-full" style={{ width: `${pointsData.level.progress * 100}%` }} />
+                    </div>
+                  </div>
+                )}
               </div>
             </div>
           </div>
@@ -188,9 +310,11 @@ const Profile = () => {
           {/* Main Content */}
           <div className="col-span-12 lg:col-span-9">
             <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-              <TabsList className="grid w-full grid-cols-3">
+              <TabsList className="grid w-full grid-cols-5">
                 <TabsTrigger value="my-quests">{t('tabs.myQuests')}</TabsTrigger>
                 <TabsTrigger value="rewards">{t('tabs.rewards')}</TabsTrigger>
+                <TabsTrigger value="vesting">{t('tabs.vesting')}</TabsTrigger>
+                <TabsTrigger value="points">{t('tabs.points')}</TabsTrigger>
                 <TabsTrigger value="activity">{t('tabs.activity')}</TabsTrigger>
               </TabsList>
 
@@ -269,6 +393,48 @@ const Profile = () => {
                       </TabsContent>
 
                       <TabsContent value="created" className="space-y-4">
+                        {drafts && drafts.length > 0 && (
+                          <div className="space-y-3">
+                            <h4 className="text-sm font-medium text-muted-foreground">{t('quests.drafts.title')} ({drafts.length})</h4>
+                            {drafts.map((draft) => (
+                              <div key={draft.id} className="border border-dashed rounded-lg p-4 flex items-center justify-between gap-4">
+                                <div className="min-w-0">
+                                  <h4 className="font-semibold truncate">{draft.title || t('quests.drafts.untitled')}</h4>
+                                  <p className="text-sm text-muted-foreground">
+                                    {t('quests.drafts.step', { step: draft.step })} · {t('quests.drafts.saved', { time: formatTimeAgo(draft.updatedAt.getTime()) })}
+                                  </p>
+                                </div>
+                                <div className="flex items-center gap-2 shrink-0">
+                                  <Link to={`/create?draft=${draft.id}`}>
+                                    <Button variant="outline" size="sm">
+                                      <Pencil className="h-4 w-4 mr-2" />
+                                      {t('quests.drafts.resume')}
+                                    </Button>
+                                  </Link>
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => deleteDraft(draft.id)}
+                                    disabled={deleteDraftMutation.isPending}
+                                    aria-label={t('quests.drafts.delete')}
+                                  >
+                                    <Trash2 className="h-4 w-4" />
+                                  </Button>
+                                </div>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                        {quests?.created && quests.created.length > 0 && (
+                          <div className="flex justify-end">
+                            <Link to="/profile/analytics">
+                              <Button variant="outline" size="sm">
+                                <BarChart3 className="h-4 w-4 mr-2" />
+                                {t('quests.viewAnalytics')}
+                              </Button>
+                            </Link>
+                          </div>
+                        )}
                         {quests?.created && quests.created.length > 0 ? quests.created.map((quest) => (
                           <Link key={quest.id} to={`/quest/${quest.id}`}>
                             <div className="border rounded-lg p-4 space-y-3 hover:bg-muted/50 transition-colors cursor-pointer">
@@ -344,48 +510,6 @@ const Profile = () => {
                   </CardContent>
                 </Card>
 
-                {/* Vesting Rewards */}
-                <Card>
-                  <CardHeader>
-                    <CardTitle>{t('rewards.vesting.title')}</CardTitle>
-                    <CardDescription>{t('rewards.vesting.description')}</CardDescription>
-                  </CardHeader>
-                  <CardContent>
-                    <div className="space-y-4">
-                      {rewards?.vesting && rewards.vesting.length > 0 ? rewards.vesting.map((vesting, index) => (
-                        <div key={`${vesting.questId}-${index}`} className="border rounded-lg p-4 space-y-3">
-                          <div className="flex items-center justify-between">
-                            <div>
-                              <div className="font-medium">{vesting.questTitle}</div>
-                              <div className="text-sm text-muted-foreground">
-                                {formatEthAmount(vesting.vestedAmount)} / {formatEthAmount(vesting.totalAmount)} {t('rewards.vesting.vested')}
-                              </div>
-                            </div>
-                            <div className="text-right">
-                              <div className="font-medium text-[hsl(var(--vibrant-green))]">
-                                {formatEthAmount(vesting.claimableAmount)} {t('rewards.vesting.claimable')}
-                              </div>
-                              <div className="text-sm text-muted-foreground">
-                                {vesting.timeRemaining} {t('rewards.vesting.remaining')}
-                              </div>
-                            </div>
-                          </div>
-                          <div className="w-full bg-muted rounded-full h-2">
-                            <div 
-                              className="bg-gradient-to-r from-[hsl(var(--vibrant-green))] to-[hsl(var(--vibrant-blue))] h-2 rounded-full transition-all"
-                              style={{ width: `${vesting.vestingProgress}%` }}
-                            />
-                          </div>
-                        </div>
-                      )) : (
-                        <div className="text-center py-8 text-muted-foreground">
-                          <p>{t('rewards.vesting.noVesting')}</p>
-                        </div>
-                      )}
-                    </div>
-                  </CardContent>
-                </Card>
-
                 {/* Reward History */}
                 <Card>
                   <CardHeader>
@@ -418,6 +542,22 @@ const Profile = () => {
                 </Card>
               </TabsContent>
 
+              {/* Vesting Tab */}
+              <TabsContent value="vesting" className="space-y-6">
+                <VestingCenter
+                  vesting={vestingData}
+                  isLoading={isVestingLoading}
+                  error={vestingError}
+                  claimingQuestIds={claimingQuestIds}
+                  onClaim={claimVestingRewards}
+                />
+              </TabsContent>
+
+              {/* Points Tab */}
+              <TabsContent value="points" className="space-y-6">
+                <PointsLedger points={pointsData} isLoading={isPointsLoading} error={pointsError} />
+              </TabsContent>
+
               {/* Activity Tab */}
               <TabsContent value="activity">
                 <Card>
@@ -454,7 +594,7 @@ const Profile = () => {
           </div>
 
           {/* Quick Actions Panel */}
-          <div className="col-span-12 lg:col-span-3">
+          <div className="col-span-12 lg:col-span-3 space-y-6">
             <Card>
               <CardHeader>
                 <CardTitle>{t('quickActions.title')}</CardTitle>
@@ -472,6 +612,12 @@ const Profile = () => {
                     {t('quickActions.viewAllQuests')}
                   </Button>
                 </Link>
+                <Link to="/profile/analytics">
+                  <Button variant="outline" className="w-full">
+                    <BarChart3 className="h-4 w-4 mr-2" />
+                    {t('quickActions.sponsorAnalytics')}
+                  </Button>
+                </Link>
                 <Button variant="outline" className="w-full">
                   <Settings className="h-4 w-4 mr-2" />
                   {t('quickActions.accountSettings')}
@@ -482,6 +628,10 @@ const Profile = () => {
                 </Button>
               </CardContent>
             </Card>
+
+            <BadgesGrid badges={badgesData} isLoading={isBadgesLoading} error={badgesError} />
+
+            <ReferralStats referrals={referralsData} isLoading={isReferralsLoading} error={referralsError} />
           </div>
         </div>
       </div>
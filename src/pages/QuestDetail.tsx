@@ -8,10 +8,21 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Progress } from "@/components/ui/progress";
 import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/hooks/use-toast";
+import { useQuestStream } from "@/hooks/useQuestStream";
+import { SponsorActionsPanel, type SponsorAction } from "@/components/SponsorActionsPanel";
+import { QuestReferrers } from "@/components/QuestReferrers";
+import { useReferralCapture, getReferralLink } from "@/hooks/useReferrals";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { useAuthUI } from "@/hooks/useAuth";
+import apiClient from "@/lib/api";
+import type { ParticipantExportFormat } from "@/types";
 import { PrimusZKTLS } from "@primuslabs/zktls-js-sdk";
 import { useAccount, usePublicClient } from 'wagmi';
 import { useConnectModal } from '@rainbow-me/rainbowkit';
 import { claimRewardWithAttestation, claimReward } from '@/lib/questContract';
+import { getContractErrorMessage } from '@/lib/contractErrors';
+import { checkClaimEligibility, checkClaimWithAttestation } from '@/lib/claimPreflight';
+import { getAttestationReport } from '@/lib/zktls';
 import { useTranslation } from 'react-i18next';
 import {
   ArrowLeft,
@@ -32,7 +43,10 @@ import {
   Heart,
   Repeat2,
   Hash,
-  Loader2
+  Loader2,
+  CopyPlus,
+  Download,
+  UserPlus
 } from "lucide-react";
 
 // Extend window object type
@@ -66,6 +80,9 @@ interface QuestDetail {
     max: number;
   };
   deadline: Date;
+  claimEndTime: Date;
+  lifecycleStatus: string; // Raw API status (pending, active, ended, closed, canceled)
+  remainingRewards: number; // Unclaimed pool in MON
   questType: 'twitter-interaction' | 'quote-tweet' | 'send-tweet';
   questConfig: {
     tweetUrl?: string;
@@ -94,6 +111,9 @@ const QuestDetail = () => {
   const { openConnectModal } = useConnectModal();
   const publicClient = usePublicClient();
   const { t } = useTranslation('quests');
+  const { isAuthenticated } = useAuthUI();
+  const [isExporting, setIsExporting] = useState(false);
+  useReferralCapture(id, address, isAuthenticated);
 
   const [quest, setQuest] = useState<QuestDetail | null>(null);
   const [participants, setParticipants] = useState<Participant[]>([]);
@@ -114,6 +134,24 @@ const QuestDetail = () => {
   const [pluginNotInstalled, setPluginNotInstalled] = useState(false);
   const [quoteTweetUrl, setQuoteTweetUrl] = useState<string>('');
   const [quoteTweetUrlError, setQuoteTweetUrlError] = useState<string>('');
+  const [preflightError, setPreflightError] = useState<string | null>(null);
+  const [participantsVersion, setParticipantsVersion] = useState(0);
+
+  // Refresh participants and the counter when a claim for this quest is indexed
+  useQuestStream((event) => {
+    if (event.type === 'QuestStatusChanged' || event.type === 'QuestCanceled') {
+      const to = event.type === 'QuestCanceled' ? 'canceled' : String(event.data.to);
+      setQuest(prev => prev ? { ...prev, lifecycleStatus: to, status: (to.charAt(0).toUpperCase() + to.slice(1)) as QuestDetail['status'] } : prev);
+      return;
+    }
+    if (event.type !== 'RewardClaimed' && event.type !== 'VestingRewardClaimed') return;
+
+    const participantCount = event.data.participantCount;
+    if (typeof participantCount === 'number') {
+      setQuest(prev => prev ? { ...prev, participants: { ...prev.participants, current: participantCount } } : prev);
+    }
+    setParticipantsVersion(version => version + 1);
+  }, { questId: id }, !!id);
 
   // Initialize Primus ZKTLS SDK
   useEffect(() => {
@@ -234,6 +272,9 @@ const QuestDetail = () => {
             max: data.maxParticipants || 100
           },
           deadline: data.endTime ? new Date(data.endTime) : new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+          claimEndTime: data.claimEndTime ? new Date(data.claimEndTime) : new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+          lifecycleStatus: data.status || 'active',
+          remainingRewards: data.stats?.remainingRewards ? Number(data.stats.remainingRewards) / 1e18 : 0,
           questType: data.questType === "likeAndRetweet" ? "twitter-interaction" : data.questType || 'twitter-interaction',
           questConfig: {
             tweetUrl: data.metadata?.targetLikeRetweetId ? `https://twitter.com/i/web/status/${data.metadata.targetLikeRetweetId}` : undefined,
@@ -278,7 +319,7 @@ const QuestDetail = () => {
       }
     };
     fetchParticipants();
-  }, [id]);
+  }, [id, participantsVersion]);
 
   if (!quest) {
     return (
@@ -288,6 +329,8 @@ const QuestDetail = () => {
     );
   }
 
+  const isSponsor = !!address && !!quest.creator.address && address.toLowerCase() === quest.creator.address.toLowerCase();
+
   const getStatusBadgeColor = (status: string) => {
     switch (status) {
       case 'Active':
@@ -370,6 +413,26 @@ const QuestDetail = () => {
         }
       }
 
+      // Pre-flight: make sure the claim can still succeed before spending minutes on the proof
+      setCurrentStep(t('zkProof.checkingEligibility'));
+      const eligibility = await checkClaimEligibility(BigInt(quest.id), address);
+      if (eligibility.status === 'ineligible') {
+        if (eligibility.failure.errorName === 'QuestSystem__UserAlreadyQualified') {
+          setHasAlreadyParticipated(true);
+        }
+        setPreflightError(eligibility.failure.message);
+        toast({
+          title: t('zkProof.notEligible'),
+          description: eligibility.failure.message,
+          variant: "destructive"
+        });
+        setIsLoading(false);
+        setCurrentStep('');
+        return;
+      }
+      setPreflightError(null);
+      setCurrentStep(t('zkProof.startingProof'));
+
       let attTemplateID = ""
       // 使用固定的 Template ID
       if (quest.questType == "twitter-interaction") {
@@ -474,6 +537,43 @@ const QuestDetail = () => {
         throw new Error('Proof verification failed');
       }
 
+      // Dry-run claimReward with this attestation so a failing contract check shows up before signing
+      if (address) {
+        setCurrentStep(t('zkProof.simulatingClaim'));
+        const claimCheck = await checkClaimWithAttestation(BigInt(quest.id), attestation, address, quest.questType === 'quote-tweet');
+        if (claimCheck.status === 'ineligible') {
+          if (claimCheck.failure.errorName === 'QuestSystem__UserAlreadyQualified') {
+            setHasAlreadyParticipated(true);
+          }
+
+          // Content verification is a single revert on chain, ask the backend which check failed
+          let reason = claimCheck.failure.message;
+          if (claimCheck.failure.errorName === 'QuestSystem__ContentVerificationFailed') {
+            const report = await getAttestationReport(attestation, quest.id, address);
+            const failedCheck = report?.checks.find(check => check.enforcedOnChain && !check.passed && check.id !== 'signature');
+            if (failedCheck) {
+              reason = `${reason} ${t(`zkProof.checks.${failedCheck.id}`, { defaultValue: failedCheck.message })}`;
+            }
+          }
+
+          setPreflightError(reason);
+          setUserProgress(prev => ({
+            ...prev,
+            zkProofStarted: false,
+            zkProofGenerated: false,
+            proofVerified: false
+          }));
+          toast({
+            title: t('zkProof.claimWouldFail'),
+            description: reason,
+            variant: "destructive"
+          });
+          setIsLoading(false);
+          setCurrentStep('');
+          return;
+        }
+      }
+
       setUserProgress(prev => ({ ...prev, proofVerified: true }));
       toast({
         title: t('zkProof.proofVerificationPassed'),
@@ -565,7 +665,7 @@ const QuestDetail = () => {
       }, 3000);
     } catch (error) {
       console.error('Claim reward error:', error);
-      const errorMessage = parseContractError(error);
+      const errorMessage = getContractErrorMessage(error);
       toast({
         title: t('zkProof.claimFailed'),
         description: errorMessage,
@@ -576,59 +676,6 @@ const QuestDetail = () => {
     setCurrentStep('');
   };
 
-  // Parse contract error messages
-  const parseContractError = (error: any): string => {
-    console.log('Parsing contract error:', error);
-    
-    // Check if error message contains contract errors
-    const errorMessage = error?.message || error?.reason || error?.data?.message || '';
-    
-    // Define contract error mappings
-    const contractErrors = {
-      'QuestSystem__QuoteTweetAlreadyUsed': t('zkProof.twitterAlreadyUsed'),
-      'QuestSystem__UserAlreadyParticipated': t('zkProof.userAlreadyParticipated'),
-      'QuestSystem__QuestNotActive': t('zkProof.questNotActive'),
-      'QuestSystem__QuestFull': t('zkProof.questFull'),
-      'QuestSystem__InvalidProof': t('zkProof.invalidProof'),
-      'QuestSystem__ProofExpired': t('zkProof.proofExpired'),
-      'QuestSystem__InvalidAttestation': t('zkProof.invalidAttestation'),
-      'QuestSystem__InsufficientFunds': t('zkProof.insufficientFunds'),
-      'QuestSystem__QuestEnded': t('zkProof.questEnded'),
-      'QuestSystem__InvalidQuestId': t('zkProof.invalidQuestId'),
-    };
-    
-    // Check if contains specific contract errors
-    for (const [contractError, userMessage] of Object.entries(contractErrors)) {
-      if (errorMessage.includes(contractError)) {
-        return userMessage;
-      }
-    }
-    
-    // Check other common errors
-    if (errorMessage.includes('User denied transaction') || errorMessage.includes('user rejected')) {
-      return t('zkProof.userDeniedTransaction');
-    }
-    
-    if (errorMessage.includes('insufficient funds')) {
-      return t('zkProof.insufficientAccountFunds');
-    }
-    
-    if (errorMessage.includes('gas')) {
-      return t('zkProof.gasFeeInsufficient');
-    }
-    
-    if (errorMessage.includes('nonce')) {
-      return t('zkProof.nonceError');
-    }
-    
-    if (errorMessage.includes('reverted')) {
-      return t('zkProof.transactionReverted');
-    }
-    
-    // If no matching error, return generic error message
-    return errorMessage || t('zkProof.rewardClaimFailedGeneric');
-  };
-
   // Polling helper function to wait for transaction confirmation
   const waitForTransactionConfirmation = async (txHash: string) => {
     const maxAttempts = 30; // Max 30 attempts, 3 seconds each
@@ -676,6 +723,17 @@ const QuestDetail = () => {
     });
   };
 
+  // Reflect the confirmed sponsor action until the indexer pushes the status change
+  const handleSponsorActionConfirmed = (action: SponsorAction) => {
+    const lifecycleStatus = action === 'cancel' ? 'canceled' : 'closed';
+    setQuest(prev => prev ? {
+      ...prev,
+      lifecycleStatus,
+      status: (action === 'cancel' ? 'Canceled' : 'Closed') as QuestDetail['status'],
+      remainingRewards: action === 'withdraw' ? 0 : prev.remainingRewards
+    } : prev);
+  };
+
   const handleShare = () => {
     navigator.clipboard.writeText(window.location.href);
     toast({
@@ -684,6 +742,46 @@ const QuestDetail = () => {
     });
   };
 
+  const handleCopyReferralLink = () => {
+    if (!quest || !address) return;
+    navigator.clipboard.writeText(getReferralLink(quest.id, address));
+    toast({
+      title: t('common.linkCopied'),
+      description: t('common.referralLinkCopied')
+    });
+  };
+
+  const handleExportParticipants = async (format: ParticipantExportFormat) => {
+    if (!quest) return;
+    if (!isAuthenticated) {
+      toast({
+        title: t('sponsor.export.signInRequired'),
+        description: t('sponsor.export.signInRequiredDescription'),
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsExporting(true);
+    try {
+      const blob = await apiClient.exportQuestParticipants(quest.id, format);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `quest-${quest.id}-participants.${format === 'addresses' ? 'txt' : format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({
+        title: t('sponsor.export.failed'),
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive"
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   const getParticipantStatus = (status: string) => {
     switch (status) {
       case 'completed':
@@ -755,14 +853,34 @@ const QuestDetail = () => {
                 <ArrowLeft className="h-4 w-4 mr-2" />
                 {t('navigation.backToQuests')}
               </Button>
-              <Button
-                variant="ghost"
-                onClick={handleShare}
-                className="text-white hover:bg-white/20 border border-white/20"
-              >
-                <Share2 className="h-4 w-4 mr-2" />
-                {t('common.share')}
-              </Button>
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="ghost"
+                  onClick={() => navigate(`/create?clone=${quest.id}`)}
+                  className="text-white hover:bg-white/20 border border-white/20"
+                >
+                  <CopyPlus className="h-4 w-4 mr-2" />
+                  {t('common.clone')}
+                </Button>
+                <Button
+                  variant="ghost"
+                  onClick={handleShare}
+                  className="text-white hover:bg-white/20 border border-white/20"
+                >
+                  <Share2 className="h-4 w-4 mr-2" />
+                  {t('common.share')}
+                </Button>
+                {isConnected && address && (
+                  <Button
+                    variant="ghost"
+                    onClick={handleCopyReferralLink}
+                    className="text-white hover:bg-white/20 border border-white/20"
+                  >
+                    <UserPlus className="h-4 w-4 mr-2" />
+                    {t('common.refer')}
+                  </Button>
+                )}
+              </div>
             </div>
 
             <div className="grid grid-cols-1 lg:grid-cols-12 gap-4 items-start">
@@ -957,8 +1075,23 @@ const QuestDetail = () => {
 
               <TabsContent value="participants" className="space-y-4">
                 <Card>
-                  <CardHeader>
+                  <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
                     <CardTitle>{t('quest.questParticipants')} ({participants.length})</CardTitle>
+                    {isSponsor && (
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="outline" size="sm" disabled={isExporting}>
+                            {isExporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+                            {t('sponsor.export.button')}
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          <DropdownMenuItem onSelect={() => handleExportParticipants('csv')}>{t('sponsor.export.csv')}</DropdownMenuItem>
+                          <DropdownMenuItem onSelect={() => handleExportParticipants('json')}>{t('sponsor.export.json')}</DropdownMenuItem>
+                          <DropdownMenuItem onSelect={() => handleExportParticipants('addresses')}>{t('sponsor.export.addresses')}</DropdownMenuItem>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    )}
                   </CardHeader>
                   <CardContent>
                     <div className="space-y-4">
@@ -988,12 +1121,23 @@ const QuestDetail = () => {
                     </div>
                   </CardContent>
                 </Card>
+                {isSponsor && <QuestReferrers questId={quest.id} enabled={isAuthenticated} />}
               </TabsContent>
             </Tabs>
           </div>
 
           {/* Participate Section - Right sidebar */}
-          <div className="lg:col-span-1">
+          <div className="lg:col-span-1 space-y-6">
+            {isSponsor && (
+              <SponsorActionsPanel
+                questId={quest.id}
+                status={quest.lifecycleStatus}
+                participantCount={quest.participants.current}
+                claimEndTime={quest.claimEndTime}
+                remainingRewards={quest.remainingRewards}
+                onActionConfirmed={handleSponsorActionConfirmed}
+              />
+            )}
             <Card className="sticky top-24">
               <CardHeader>
                 <CardTitle>{t('participation.howToParticipate')}</CardTitle>
@@ -1131,6 +1275,9 @@ const QuestDetail = () => {
                           <p className="text-xs text-muted-foreground mb-2">
                             {t('participation.startProofDescription')}
                           </p>
+                          {preflightError && (
+                            <p className="text-xs text-red-500 mb-2">{preflightError}</p>
+                          )}
                           {zkInitializing && (
                             <div className="text-xs text-blue-500 mb-2">
                               ⏳ {t('participation.initializingSystem')}
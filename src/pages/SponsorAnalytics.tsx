@@ -0,0 +1,218 @@
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Bar, CartesianGrid, ComposedChart, Line, XAxis, YAxis } from "recharts";
+import { ArrowLeft, BarChart3, Clock, Coins, Timer, Undo2, Users, Wallet } from "lucide-react";
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { useAccount } from "wagmi";
+import { useTranslation } from 'react-i18next';
+import { formatEthAmount, formatDate } from "@/hooks/useProfile";
+import { useSponsorAnalytics, formatDuration, type AnalyticsInterval, type QuestAnalytics } from "@/hooks/useSponsorAnalytics";
+
+const QuestAnalyticsCard = ({ quest, interval }: { quest: QuestAnalytics; interval: AnalyticsInterval }) => {
+  const { t } = useTranslation('profile');
+
+  const chartConfig = {
+    claims: {
+      label: t('analytics.chart.claims'),
+      color: "hsl(var(--vibrant-blue))",
+    },
+    cumulativeClaims: {
+      label: t('analytics.chart.cumulativeClaims'),
+      color: "hsl(var(--vibrant-purple))",
+    },
+  } satisfies ChartConfig;
+
+  const formatBucket = (timestamp: number) => {
+    const date = new Date(timestamp);
+    return interval === 'hour'
+      ? date.toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric' })
+      : date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  };
+
+  const refundOpen = Date.now() > quest.refundableAt;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div className="flex-1">
+          <CardTitle className="text-lg">
+            <Link to={`/quest/${quest.questId}`} className="hover:underline">{quest.title}</Link>
+          </CardTitle>
+          <CardDescription>
+            {quest.participantCount}/{quest.maxParticipants} {t('quests.participants')} · {formatDate(new Date(quest.startTime).toISOString())}
+          </CardDescription>
+        </div>
+        <div className="flex gap-2">
+          {quest.isVesting && (
+            <Badge variant="outline">{t('analytics.vesting')}</Badge>
+          )}
+          <Badge className="bg-[hsl(var(--vibrant-orange))]/15 text-[hsl(var(--vibrant-orange))]">
+            {quest.status}
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-3 text-sm">
+          <div className="border rounded-lg p-3">
+            <div className="text-muted-foreground">{t('analytics.metrics.distributed')}</div>
+            <div className="font-semibold">{formatEthAmount(quest.distributed)}</div>
+          </div>
+          <div className="border rounded-lg p-3">
+            <div className="text-muted-foreground">{t('analytics.metrics.remainingPool')}</div>
+            <div className="font-semibold">{formatEthAmount(quest.remainingPool)}</div>
+          </div>
+          <div className="border rounded-lg p-3">
+            <div className="text-muted-foreground">{t('analytics.metrics.vestingOutstanding')}</div>
+            <div className="font-semibold">{quest.isVesting ? formatEthAmount(quest.vestingOutstanding) : '-'}</div>
+          </div>
+          <div className="border rounded-lg p-3">
+            <div className="text-muted-foreground">{t('analytics.metrics.refundable')}</div>
+            <div className="font-semibold">{formatEthAmount(quest.refundable)}</div>
+            {!refundOpen && (
+              <div className="text-xs text-muted-foreground">
+                {t('analytics.metrics.refundableFrom', { date: formatDate(new Date(quest.refundableAt).toISOString()) })}
+              </div>
+            )}
+          </div>
+          <div className="border rounded-lg p-3">
+            <div className="text-muted-foreground">{t('analytics.metrics.timeToFill')}</div>
+            <div className="font-semibold">
+              {quest.timeToFill !== null ? formatDuration(quest.timeToFill) : t('analytics.metrics.notFilled')}
+            </div>
+          </div>
+        </div>
+
+        {quest.claimsOverTime.length > 0 ? (
+          <ChartContainer config={chartConfig} className="h-[220px] w-full aspect-auto">
+            <ComposedChart data={quest.claimsOverTime} margin={{ left: 0, right: 12, top: 8 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis
+                dataKey="bucketStart"
+                tickLine={false}
+                axisLine={false}
+                tickMargin={8}
+                minTickGap={24}
+                tickFormatter={formatBucket}
+              />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+              <ChartTooltip
+                content={
+                  <ChartTooltipContent
+                    labelFormatter={(_, payload) => payload?.[0] ? formatBucket(payload[0].payload.bucketStart) : ''}
+                  />
+                }
+              />
+              <Bar dataKey="claims" fill="var(--color-claims)" radius={4} />
+              <Line dataKey="cumulativeClaims" stroke="var(--color-cumulativeClaims)" strokeWidth={2} dot={false} />
+            </ComposedChart>
+          </ChartContainer>
+        ) : (
+          <div className="text-center py-8 text-muted-foreground text-sm">
+            {t('analytics.noClaims')}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+const SponsorAnalytics = () => {
+  const { t } = useTranslation('profile');
+  const [interval, setBucketInterval] = useState<AnalyticsInterval>('day');
+  const { address, isConnected } = useAccount();
+  const { data: analytics, isLoading, error } = useSponsorAnalytics(address, interval);
+
+  // Show wallet connection prompt if not connected
+  if (!isConnected) {
+    return (
+      <div className="min-h-screen bg-background p-4 md:p-6 flex items-center justify-center">
+        <div className="text-center">
+          <Wallet className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+          <h2 className="text-xl font-semibold mb-2">{t('wallet.connectPrompt')}</h2>
+          <p className="text-muted-foreground mb-4">{t('wallet.connectDescription')}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const totals = analytics?.totals;
+  const summaryCards = [
+    { label: t('analytics.totals.quests'), value: totals?.quests ?? 0, icon: BarChart3 },
+    { label: t('analytics.totals.participants'), value: totals?.participants ?? 0, icon: Users },
+    { label: t('analytics.metrics.distributed'), value: formatEthAmount(totals?.distributed || '0'), icon: Coins },
+    { label: t('analytics.metrics.remainingPool'), value: formatEthAmount(totals?.remainingPool || '0'), icon: Timer },
+    { label: t('analytics.metrics.vestingOutstanding'), value: formatEthAmount(totals?.vestingOutstanding || '0'), icon: Clock },
+    { label: t('analytics.metrics.refundable'), value: formatEthAmount(totals?.refundable || '0'), icon: Undo2 },
+  ];
+
+  return (
+    <div className="min-h-screen bg-background p-4 md:p-6">
+      <div className="mx-auto max-w-7xl space-y-6">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div>
+            <Link to="/profile" className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground mb-2">
+              <ArrowLeft className="h-4 w-4 mr-1" />
+              {t('analytics.backToProfile')}
+            </Link>
+            <h1 className="text-2xl font-bold">{t('analytics.title')}</h1>
+            <p className="text-muted-foreground">{t('analytics.description')}</p>
+          </div>
+          <Select value={interval} onValueChange={(value) => setBucketInterval(value as AnalyticsInterval)}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="hour">{t('analytics.interval.hour')}</SelectItem>
+              <SelectItem value="day">{t('analytics.interval.day')}</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-16">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[hsl(var(--vibrant-blue))]"></div>
+          </div>
+        ) : error ? (
+          <div className="text-center py-16">
+            <p className="text-red-500 mb-4">{t('analytics.failedToLoad')}</p>
+            <Button onClick={() => window.location.reload()}>{t('error.retry')}</Button>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+              {summaryCards.map(({ label, value, icon: Icon }) => (
+                <div key={label} className="border rounded-xl p-4">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <div className="text-lg font-bold">{value}</div>
+                      <div className="text-xs text-muted-foreground">{label}</div>
+                    </div>
+                    <Icon className="h-5 w-5 text-muted-foreground" />
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {analytics?.quests && analytics.quests.length > 0 ? (
+              <div className="space-y-6">
+                {analytics.quests.map(quest => (
+                  <QuestAnalyticsCard key={quest.questId} quest={quest} interval={interval} />
+                ))}
+              </div>
+            ) : (
+              <div className="text-center py-16 text-muted-foreground">
+                <p>{t('quests.noCreated')}</p>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SponsorAnalytics;
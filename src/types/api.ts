@@ -49,4 +49,26 @@ export interface RequestOptions {
   headers?: Record<string, string>
   body?: any
   signal?: AbortSignal
-}
\ No newline at end of file
+}
+// Real-time Quest Stream (GET /api/stream)
+export type QuestStreamEventType =
+  | 'QuestCreated'
+  | 'RewardClaimed'
+  | 'QuestCanceled'
+  | 'VestingRewardClaimed'
+  | 'QuestStatusChanged'
+
+export interface QuestStreamEvent {
+  type: QuestStreamEventType
+  questId: string
+  addresses: string[]
+  data: Record<string, string | number>
+  transactionHash?: string
+  blockNumber?: number
+  timestamp: number
+}
+
+export interface QuestStreamFilter {
+  questId?: string
+  address?: string
+}
@@ -50,6 +50,7 @@ export interface AuthUser {
   nickname?: string
   avatarUrl?: string
   bio?: string
+  xHandle?: string
 }
 
 // JWT Payload
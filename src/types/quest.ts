@@ -225,8 +225,78 @@ export interface QuestFilters {
 // Quest Creation Draft (for auto-save)
 export interface QuestDraft {
   id: string
+  title: string
   formData: Partial<QuestFormData>
   step: number
   createdAt: Date
   updatedAt: Date
+}
+
+// Reusable wizard setup: platform preset or sponsor-saved (dates are rebuilt from timing)
+export interface QuestTemplate {
+  id: string
+  source: 'platform' | 'sponsor'
+  name: string
+  formData: Partial<QuestFormData>
+  timing: {
+    durationMs: number
+    claimPeriodMs: number
+  }
+  createdAt?: string
+  updatedAt?: string
+}
+
+// Wizard form pre-filled from an existing quest, timing moved into the future
+export interface QuestClone {
+  questId: string
+  formData: Partial<QuestFormData>
+  shiftedByMs: number
+  timing: {
+    valid: boolean
+    errors: string[]
+  }
+}
+
+// Sponsor-only participant export (`addresses` is a plain airdrop list)
+export type ParticipantExportFormat = 'csv' | 'json' | 'addresses'
+
+// Wallet that reached a quest through a `?ref=` link; attributed once its claim is indexed
+export interface QuestReferral {
+  id: string
+  questId: string
+  referrer: string
+  referee: string
+  status: 'pending' | 'attributed' | 'rejected'
+  createdAt: number
+  attributedAt?: number
+  transactionHash?: string
+}
+
+export interface TopReferrer {
+  rank: number
+  address: string
+  referred: number
+  completed: number
+  lastCompletedAt: number | null
+}
+
+// Sponsor-only referral breakdown of a quest
+export interface QuestReferralStats {
+  questId: string
+  claims: number
+  referred: number
+  completed: number
+  referredShare: number
+  referrers: TopReferrer[]
+}
+
+// Quest Creation Draft as stored by the backend (dates as ISO strings)
+export interface QuestDraftResponse {
+  id: string
+  sponsor: string
+  title: string
+  step: number
+  formData: Record<string, unknown>
+  createdAt: string
+  updatedAt: string
 }
\ No newline at end of file
@@ -13,6 +13,15 @@ export interface User {
   createdAt: string
   updatedAt: string
   lastLoginAt?: string
+  linkedAddresses?: string[]
+  xAccount?: XAccount | null
+}
+
+// Verified X (Twitter) account bound to a wallet via zkTLS
+export interface XAccount {
+  userId: string
+  handle: string
+  verifiedAt: string
 }
 
 // User Profile Update Request